@@ -10,6 +10,7 @@ import Dashboard from "@/pages/dashboard";
 import Browser from "@/pages/browser";
 import SharedFiles from "@/pages/shared-files";
 import AccountSettings from "@/pages/account-settings";
+import BucketSettings from "@/pages/bucket-settings";
 import AccountManager from "@/pages/account-manager";
 import AddS3Account from "@/pages/polished-s3-account";
 import { ThemeProvider } from "@/components/ui/theme-provider";
@@ -67,6 +68,7 @@ function Router() {
       <ProtectedRoute path="/browser" component={Browser} />
       <ProtectedRoute path="/shared" component={SharedFiles} />
       <ProtectedRoute path="/settings" component={AccountSettings} />
+      <ProtectedRoute path="/bucket-settings" component={BucketSettings} />
       <ProtectedRoute path="/manage-accounts" component={AccountManager} />
       <ProtectedRoute path="/account-manager" component={AccountManager} />
       <ProtectedRoute path="/add-account" component={AddS3Account} />
@@ -85,6 +87,21 @@ function Router() {
           );
         }} 
       />
+      <Route 
+        path="/admin/object-index" 
+        component={() => {
+          const AdminObjectIndex = React.lazy(() => import("@/pages/admin/object-index"));
+          return (
+            <Suspense fallback={
+              <div className="flex h-screen w-full items-center justify-center">
+                <div className="animate-spin rounded-full h-10 w-10 border-2 border-primary border-t-transparent" />
+              </div>
+            }>
+              <ProtectedRoute path="/admin/object-index" component={AdminObjectIndex} />
+            </Suspense>
+          );
+        }} 
+      />
       
       {/* Fallback to 404 */}
       <Route component={NotFound} />
@@ -0,0 +1,277 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { S3BucketSettings, S3BucketSettingsUpdate, S3PublicAccessBlock } from "@/lib/types";
+import { Plus, X } from "lucide-react";
+
+interface BucketSettingsPanelProps {
+  settings: S3BucketSettings;
+  onSave: (update: S3BucketSettingsUpdate) => Promise<unknown>;
+  isSaving: boolean;
+}
+
+type EncryptionChoice = 'none' | 'AES256' | 'aws:kms';
+
+interface Tag {
+  key: string;
+  value: string;
+}
+
+const PUBLIC_ACCESS_OPTIONS: { field: keyof S3PublicAccessBlock; label: string; description: string }[] = [
+  {
+    field: 'blockPublicAcls',
+    label: 'Block new public ACLs',
+    description: 'Reject requests that add public ACLs to the bucket or its objects.',
+  },
+  {
+    field: 'ignorePublicAcls',
+    label: 'Ignore public ACLs',
+    description: 'Ignore all public ACLs already on the bucket and its objects.',
+  },
+  {
+    field: 'blockPublicPolicy',
+    label: 'Block new public bucket policies',
+    description: 'Reject bucket policies that grant public access.',
+  },
+  {
+    field: 'restrictPublicBuckets',
+    label: 'Restrict public bucket policies',
+    description: 'Limit access under a public policy to AWS services and the bucket owner.',
+  },
+];
+
+const NO_PUBLIC_ACCESS_BLOCK: S3PublicAccessBlock = {
+  blockPublicAcls: false,
+  ignorePublicAcls: false,
+  blockPublicPolicy: false,
+  restrictPublicBuckets: false,
+};
+
+/**
+ * Form for a bucket's versioning, default encryption, Block Public Access and
+ * tags. Only the sections that changed are sent when saving.
+ */
+export function BucketSettingsPanel({ settings, onSave, isSaving }: BucketSettingsPanelProps) {
+  const [versioning, setVersioning] = useState(settings.versioning);
+  const [encryption, setEncryption] = useState<EncryptionChoice>('none');
+  const [kmsKeyId, setKmsKeyId] = useState('');
+  const [bucketKeyEnabled, setBucketKeyEnabled] = useState(false);
+  const [publicAccess, setPublicAccess] = useState<S3PublicAccessBlock>(NO_PUBLIC_ACCESS_BLOCK);
+  const [tags, setTags] = useState<Tag[]>([]);
+
+  // Start from the saved settings, and again after each save
+  useEffect(() => {
+    setVersioning(settings.versioning);
+    setEncryption(settings.encryption?.type || 'none');
+    setKmsKeyId(settings.encryption?.kmsKeyId || '');
+    setBucketKeyEnabled(!!settings.encryption?.bucketKeyEnabled);
+    setPublicAccess(settings.publicAccessBlock || NO_PUBLIC_ACCESS_BLOCK);
+    setTags(Object.entries(settings.tags).map(([key, value]) => ({ key, value })));
+  }, [settings]);
+
+  const update = useMemo(() => {
+    const next: S3BucketSettingsUpdate = {};
+
+    if (versioning !== settings.versioning && versioning !== 'Disabled') {
+      next.versioning = versioning;
+    }
+
+    const current = settings.encryption;
+    if (encryption === 'none') {
+      if (current) next.encryption = null;
+    } else if (
+      encryption !== current?.type ||
+      (encryption === 'aws:kms' && (kmsKeyId.trim() !== (current?.kmsKeyId || '') || bucketKeyEnabled !== !!current?.bucketKeyEnabled))
+    ) {
+      next.encryption = {
+        type: encryption,
+        kmsKeyId: encryption === 'aws:kms' ? kmsKeyId.trim() || undefined : undefined,
+        bucketKeyEnabled: encryption === 'aws:kms' ? bucketKeyEnabled : undefined,
+      };
+    }
+
+    const savedPublicAccess = settings.publicAccessBlock || NO_PUBLIC_ACCESS_BLOCK;
+    if (PUBLIC_ACCESS_OPTIONS.some(({ field }) => publicAccess[field] !== savedPublicAccess[field])) {
+      next.publicAccessBlock = publicAccess;
+    }
+
+    const nextTags = Object.fromEntries(tags.filter(tag => tag.key.trim()).map(tag => [tag.key.trim(), tag.value]));
+    const savedTagKeys = Object.keys(settings.tags);
+    if (
+      savedTagKeys.length !== Object.keys(nextTags).length ||
+      savedTagKeys.some(key => nextTags[key] !== settings.tags[key])
+    ) {
+      next.tags = nextTags;
+    }
+
+    return next;
+  }, [settings, versioning, encryption, kmsKeyId, bucketKeyEnabled, publicAccess, tags]);
+
+  const isDirty = Object.keys(update).length > 0;
+  const updateTag = (index: number, change: Partial<Tag>) => {
+    setTags(tags.map((tag, i) => i === index ? { ...tag, ...change } : tag));
+  };
+
+  const handleSave = async () => {
+    try {
+      await onSave(update);
+    } catch {
+      // The hook already reported the error
+    }
+  };
+
+  return (
+    <div className="space-y-8">
+      {settings.region && (
+        <p className="text-sm text-muted-foreground">
+          Region: <span className="font-medium text-foreground">{settings.region}</span>
+          {settings.objectLockEnabled && ' · Object Lock enabled'}
+        </p>
+      )}
+
+      <div className="space-y-3">
+        <h3 className="text-sm font-semibold">Versioning</h3>
+        <div className="flex items-center gap-3">
+          <Switch
+            id="bucket-versioning"
+            checked={versioning === 'Enabled'}
+            onCheckedChange={(checked) => setVersioning(checked ? 'Enabled' : 'Suspended')}
+            disabled={isSaving || settings.objectLockEnabled}
+          />
+          <Label htmlFor="bucket-versioning" className="text-sm font-normal">
+            {versioning === 'Enabled' ? 'Enabled' : versioning === 'Suspended' ? 'Suspended' : 'Never enabled'}
+          </Label>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          {settings.objectLockEnabled
+            ? 'Buckets with Object Lock must keep versioning enabled.'
+            : 'Keeps previous versions when objects are overwritten or deleted. Once enabled, versioning can be suspended but not turned off.'}
+        </p>
+      </div>
+
+      <div className="space-y-3">
+        <h3 className="text-sm font-semibold">Default encryption</h3>
+        <Select
+          value={encryption}
+          onValueChange={(value) => setEncryption(value as EncryptionChoice)}
+          disabled={isSaving}
+        >
+          <SelectTrigger className="w-72">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="AES256">SSE-S3 (S3 managed keys)</SelectItem>
+            <SelectItem value="aws:kms">SSE-KMS (AWS KMS keys)</SelectItem>
+            <SelectItem value="none">None</SelectItem>
+          </SelectContent>
+        </Select>
+        {encryption === 'aws:kms' && (
+          <div className="space-y-3">
+            <Input
+              value={kmsKeyId}
+              onChange={(e) => setKmsKeyId(e.target.value)}
+              placeholder="KMS key ARN or ID (blank for aws/s3)"
+              className="max-w-md"
+              disabled={isSaving}
+            />
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="bucket-key-enabled"
+                checked={bucketKeyEnabled}
+                onCheckedChange={(checked) => setBucketKeyEnabled(!!checked)}
+                disabled={isSaving}
+              />
+              <Label htmlFor="bucket-key-enabled" className="text-sm font-normal">
+                Use an S3 Bucket Key to reduce KMS request costs
+              </Label>
+            </div>
+          </div>
+        )}
+        <p className="text-xs text-muted-foreground">Applies to objects uploaded from now on.</p>
+      </div>
+
+      <div className="space-y-3">
+        <h3 className="text-sm font-semibold">Block Public Access</h3>
+        {PUBLIC_ACCESS_OPTIONS.map(({ field, label, description }) => (
+          <div key={field} className="flex items-start gap-3">
+            <Switch
+              id={`public-access-${field}`}
+              checked={publicAccess[field]}
+              onCheckedChange={(checked) => setPublicAccess(prev => ({ ...prev, [field]: checked }))}
+              disabled={isSaving}
+            />
+            <div className="space-y-0.5">
+              <Label htmlFor={`public-access-${field}`} className="text-sm">{label}</Label>
+              <p className="text-xs text-muted-foreground">{description}</p>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-3">
+        <h3 className="text-sm font-semibold">Tags</h3>
+        {tags.map((tag, index) => (
+          <div key={index} className="flex items-center gap-2">
+            <Input
+              value={tag.key}
+              placeholder="Key"
+              onChange={(e) => updateTag(index, { key: e.target.value })}
+              className="h-8 text-sm"
+              disabled={isSaving}
+            />
+            <Input
+              value={tag.value}
+              placeholder="Value"
+              onChange={(e) => updateTag(index, { value: e.target.value })}
+              className="h-8 text-sm"
+              disabled={isSaving}
+            />
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8 shrink-0"
+              onClick={() => setTags(tags.filter((_, i) => i !== index))}
+              disabled={isSaving}
+              title="Remove"
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+        <Button
+          variant="outline"
+          size="sm"
+          className="h-7"
+          onClick={() => setTags([...tags, { key: '', value: '' }])}
+          disabled={isSaving}
+        >
+          <Plus className="mr-1.5 h-3.5 w-3.5" />
+          Add tag
+        </Button>
+      </div>
+
+      <div className="flex justify-end">
+        <Button onClick={handleSave} disabled={!isDirty || isSaving}>
+          {isSaving ? (
+            <>
+              <span className="mr-2">Saving...</span>
+              <i className="ri-loader-4-line animate-spin"></i>
+            </>
+          ) : (
+            'Save settings'
+          )}
+        </Button>
+      </div>
+    </div>
+  );
+}
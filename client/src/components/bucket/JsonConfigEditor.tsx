@@ -0,0 +1,196 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { diffLines } from "@/lib/line-diff";
+import { ConfigTemplate } from "@/lib/bucket-templates";
+import { cn } from "@/lib/utils";
+
+interface JsonConfigEditorProps<T> {
+  // The saved document
+  value: T;
+  // What "nothing configured" looks like (null for a policy, [] for CORS rules)
+  emptyValue: T;
+  validate: (value: unknown) => string[];
+  templates: ConfigTemplate<T>[];
+  onSave: (value: T) => Promise<unknown>;
+  isSaving: boolean;
+  placeholder?: string;
+}
+
+function isEmptyValue(value: unknown) {
+  return value === null || (Array.isArray(value) && value.length === 0);
+}
+
+function format(value: unknown) {
+  return isEmptyValue(value) ? '' : JSON.stringify(value, null, 2);
+}
+
+/**
+ * JSON editor for a bucket-level document such as the bucket policy or CORS
+ * rules. Validates as you type, inserts starter templates, and shows a diff
+ * against the saved document before saving. Clearing the editor removes the
+ * configuration.
+ */
+export function JsonConfigEditor<T>({
+  value,
+  emptyValue,
+  validate,
+  templates,
+  onSave,
+  isSaving,
+  placeholder,
+}: JsonConfigEditorProps<T>) {
+  const [text, setText] = useState(format(value));
+  const [isPreviewOpen, setIsPreviewOpen] = useState(false);
+
+  useEffect(() => {
+    setText(format(value));
+  }, [value]);
+
+  const parsed = useMemo((): { value?: T; errors: string[] } => {
+    if (!text.trim()) {
+      return { value: emptyValue, errors: [] };
+    }
+    let json: unknown;
+    try {
+      json = JSON.parse(text);
+    } catch (error) {
+      return { errors: [error instanceof Error ? error.message : 'Invalid JSON'] };
+    }
+    const errors = isEmptyValue(json) ? [] : validate(json);
+    return errors.length > 0 ? { errors } : { value: json as T, errors };
+  }, [text, emptyValue, validate]);
+
+  const savedText = format(value);
+  const nextText = parsed.value !== undefined ? format(parsed.value) : text;
+  const isDirty = nextText !== savedText;
+  const diff = useMemo(() => diffLines(savedText, nextText), [savedText, nextText]);
+
+  const applyTemplate = (template: ConfigTemplate<T>) => {
+    // Start from the editor's contents when they parse, otherwise from nothing
+    setText(format(template.apply(parsed.value !== undefined ? parsed.value : emptyValue)));
+  };
+
+  const handleSave = async () => {
+    if (parsed.value === undefined) return;
+    try {
+      await onSave(parsed.value);
+      setIsPreviewOpen(false);
+    } catch {
+      // The hook already reported the error
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-end gap-2">
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline" size="sm" disabled={isSaving}>
+              <i className="ri-file-copy-2-line mr-1.5"></i>
+              Insert template
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end" className="w-72">
+            {templates.map(template => (
+              <DropdownMenuItem key={template.label} onClick={() => applyTemplate(template)}>
+                <div>
+                  <div className="text-sm">{template.label}</div>
+                  <div className="text-xs text-muted-foreground">{template.description}</div>
+                </div>
+              </DropdownMenuItem>
+            ))}
+          </DropdownMenuContent>
+        </DropdownMenu>
+        <Button variant="outline" size="sm" onClick={() => setText(savedText)} disabled={!isDirty || isSaving}>
+          Discard changes
+        </Button>
+      </div>
+
+      <Textarea
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        placeholder={placeholder}
+        className="min-h-[360px] font-mono text-xs"
+        spellCheck={false}
+        disabled={isSaving}
+      />
+
+      {parsed.errors.length > 0 && (
+        <ul className="rounded-md border border-destructive/50 p-3 text-sm text-destructive space-y-1">
+          {parsed.errors.map((error, index) => (
+            <li key={index}>{error}</li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex justify-end">
+        <Button
+          onClick={() => setIsPreviewOpen(true)}
+          disabled={!isDirty || parsed.value === undefined || isSaving}
+        >
+          Review changes
+        </Button>
+      </div>
+
+      <Dialog open={isPreviewOpen} onOpenChange={(open) => !isSaving && setIsPreviewOpen(open)}>
+        <DialogContent className="sm:max-w-[720px]">
+          <DialogHeader>
+            <DialogTitle>Review changes</DialogTitle>
+            <DialogDescription>
+              {isEmptyValue(parsed.value)
+                ? 'The configuration will be removed from the bucket.'
+                : 'Lines marked + will be added and lines marked - removed.'}
+            </DialogDescription>
+          </DialogHeader>
+
+          <pre className="max-h-[420px] overflow-auto rounded-md border bg-muted/30 p-3 text-xs font-mono">
+            {diff.map((line, index) => (
+              <div
+                key={index}
+                className={cn(
+                  'whitespace-pre-wrap break-all',
+                  line.type === 'added' && 'bg-green-500/15 text-green-700 dark:text-green-400',
+                  line.type === 'removed' && 'bg-red-500/15 text-red-700 dark:text-red-400'
+                )}
+              >
+                {line.type === 'added' ? '+ ' : line.type === 'removed' ? '- ' : '  '}
+                {line.text}
+              </div>
+            ))}
+          </pre>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsPreviewOpen(false)} disabled={isSaving}>
+              Back
+            </Button>
+            <Button onClick={handleSave} disabled={isSaving} className="ml-2">
+              {isSaving ? (
+                <>
+                  <span className="mr-2">Saving...</span>
+                  <i className="ri-loader-4-line animate-spin"></i>
+                </>
+              ) : (
+                'Save'
+              )}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
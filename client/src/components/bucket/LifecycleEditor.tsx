@@ -0,0 +1,486 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Textarea } from "@/components/ui/textarea";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { S3_STORAGE_CLASSES } from "@/lib/s3";
+import { formatBytes, formatDate } from "@/lib/utils";
+import {
+  LIFECYCLE_TRANSITION_STORAGE_CLASSES,
+  validateLifecycleRules,
+  toS3LifecycleRules,
+  fromS3LifecycleRules,
+  type LifecycleRule,
+  type LifecycleTransition,
+} from "@shared/lifecycle";
+import { Plus, Trash, X } from "lucide-react";
+
+interface LifecycleEditorProps {
+  rules: LifecycleRule[];
+  onSave: (rules: LifecycleRule[]) => Promise<unknown>;
+  isSaving: boolean;
+}
+
+type NumberField =
+  | 'expirationDays'
+  | 'noncurrentExpirationDays'
+  | 'newerNoncurrentVersions'
+  | 'abortIncompleteMultipartUploadDays';
+
+const TRANSITION_CLASSES = S3_STORAGE_CLASSES.filter(option =>
+  (LIFECYCLE_TRANSITION_STORAGE_CLASSES as readonly string[]).includes(option.value)
+);
+
+function newRule(rules: LifecycleRule[]): LifecycleRule {
+  let index = rules.length + 1;
+  while (rules.some(rule => rule.id === `rule-${index}`)) index++;
+
+  return {
+    id: `rule-${index}`,
+    enabled: true,
+    prefix: '',
+    tags: [],
+    transitions: [],
+    noncurrentTransitions: [],
+    abortIncompleteMultipartUploadDays: 7,
+  };
+}
+
+// Empty inputs clear the field rather than saving 0
+function parseDays(value: string) {
+  return value === '' ? undefined : Number(value);
+}
+
+function toJson(rules: LifecycleRule[]) {
+  return JSON.stringify({ Rules: toS3LifecycleRules(rules) }, null, 2);
+}
+
+function DaysInput({
+  id,
+  value,
+  onChange,
+  disabled,
+  placeholder = 'Off',
+}: {
+  id?: string;
+  value?: number;
+  onChange: (value: number | undefined) => void;
+  disabled?: boolean;
+  placeholder?: string;
+}) {
+  return (
+    <Input
+      id={id}
+      type="number"
+      min={0}
+      value={value ?? ''}
+      placeholder={placeholder}
+      onChange={(e) => onChange(parseDays(e.target.value))}
+      className="h-8 w-28 text-sm"
+      disabled={disabled}
+    />
+  );
+}
+
+function TransitionsEditor({
+  transitions,
+  onChange,
+  disabled,
+}: {
+  transitions: LifecycleTransition[];
+  onChange: (transitions: LifecycleTransition[]) => void;
+  disabled?: boolean;
+}) {
+  const updateTransition = (index: number, change: Partial<LifecycleTransition>) => {
+    onChange(transitions.map((transition, i) => i === index ? { ...transition, ...change } : transition));
+  };
+
+  return (
+    <div className="space-y-2">
+      {transitions.map((transition, index) => (
+        <div key={index} className="flex items-center gap-2 text-sm">
+          <span className="text-muted-foreground">After</span>
+          <DaysInput
+            value={transition.days}
+            onChange={(days) => updateTransition(index, { days: days ?? 0 })}
+            disabled={disabled}
+            placeholder="Days"
+          />
+          <span className="text-muted-foreground">days move to</span>
+          <Select
+            value={transition.storageClass}
+            onValueChange={(value) => updateTransition(index, { storageClass: value as LifecycleTransition['storageClass'] })}
+            disabled={disabled}
+          >
+            <SelectTrigger className="h-8 w-52 text-sm">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {TRANSITION_CLASSES.map(option => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8 shrink-0"
+            onClick={() => onChange(transitions.filter((_, i) => i !== index))}
+            disabled={disabled}
+            title="Remove"
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+      <Button
+        variant="outline"
+        size="sm"
+        className="h-7"
+        onClick={() => onChange([...transitions, { days: 30, storageClass: 'STANDARD_IA' }])}
+        disabled={disabled}
+      >
+        <Plus className="mr-1.5 h-3.5 w-3.5" />
+        Add transition
+      </Button>
+    </div>
+  );
+}
+
+// Settings from rules made outside this editor, described rather than edited
+function describeFixedSettings(rule: LifecycleRule) {
+  const settings: string[] = [];
+  if (rule.objectSizeGreaterThan !== undefined) {
+    settings.push(`Only objects larger than ${formatBytes(rule.objectSizeGreaterThan)}`);
+  }
+  if (rule.objectSizeLessThan !== undefined) {
+    settings.push(`Only objects smaller than ${formatBytes(rule.objectSizeLessThan)}`);
+  }
+  rule.dateTransitions?.forEach(transition => {
+    settings.push(`Move to ${transition.storageClass} on ${formatDate(transition.date)}`);
+  });
+  if (rule.expirationDate !== undefined) {
+    settings.push(`Expire objects on ${formatDate(rule.expirationDate)}`);
+  }
+  return settings;
+}
+
+function RuleEditor({
+  rule,
+  onChange,
+  onRemove,
+  disabled,
+}: {
+  rule: LifecycleRule;
+  onChange: (rule: LifecycleRule) => void;
+  onRemove: () => void;
+  disabled?: boolean;
+}) {
+  const tags = rule.tags || [];
+  const fixedSettings = describeFixedSettings(rule);
+  const update = (change: Partial<LifecycleRule>) => onChange({ ...rule, ...change });
+  const setNumber = (field: NumberField) => (value: number | undefined) => update({ [field]: value });
+  const updateTag = (index: number, change: Partial<{ key: string; value: string }>) => {
+    update({ tags: tags.map((tag, i) => i === index ? { ...tag, ...change } : tag) });
+  };
+
+  return (
+    <div className="rounded-md border p-4 space-y-5">
+      <div className="flex items-center gap-3">
+        <Input
+          value={rule.id}
+          onChange={(e) => update({ id: e.target.value })}
+          placeholder="Rule ID"
+          className="h-8 max-w-xs text-sm font-medium"
+          disabled={disabled}
+        />
+        <div className="flex items-center gap-2">
+          <Switch
+            id={`enabled-${rule.id}`}
+            checked={rule.enabled}
+            onCheckedChange={(enabled) => update({ enabled })}
+            disabled={disabled}
+          />
+          <Label htmlFor={`enabled-${rule.id}`} className="text-sm">
+            {rule.enabled ? 'Enabled' : 'Disabled'}
+          </Label>
+        </div>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="ml-auto h-8 text-destructive"
+          onClick={onRemove}
+          disabled={disabled}
+        >
+          <Trash className="mr-1.5 h-3.5 w-3.5" />
+          Remove rule
+        </Button>
+      </div>
+
+      {fixedSettings.length > 0 && (
+        <div className="rounded-md bg-muted p-3 text-sm">
+          <p className="font-medium">Also applies (kept as is, edit in the JSON tab)</p>
+          <ul className="mt-1 list-disc pl-5 text-muted-foreground">
+            {fixedSettings.map(setting => <li key={setting}>{setting}</li>)}
+          </ul>
+        </div>
+      )}
+
+      <div className="space-y-3">
+        <h4 className="text-sm font-semibold">Filter</h4>
+        <div className="grid grid-cols-4 items-center gap-3">
+          <Label className="text-sm">Prefix</Label>
+          <Input
+            value={rule.prefix || ''}
+            onChange={(e) => update({ prefix: e.target.value })}
+            placeholder="Whole bucket"
+            className="col-span-3 h-8 text-sm"
+            disabled={disabled}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label className="text-sm">Tags (all must match)</Label>
+          {tags.map((tag, index) => (
+            <div key={index} className="flex items-center gap-2">
+              <Input
+                value={tag.key}
+                placeholder="Key"
+                onChange={(e) => updateTag(index, { key: e.target.value })}
+                className="h-8 text-sm"
+                disabled={disabled}
+              />
+              <Input
+                value={tag.value}
+                placeholder="Value"
+                onChange={(e) => updateTag(index, { value: e.target.value })}
+                className="h-8 text-sm"
+                disabled={disabled}
+              />
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8 shrink-0"
+                onClick={() => update({ tags: tags.filter((_, i) => i !== index) })}
+                disabled={disabled}
+                title="Remove"
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+          <Button
+            variant="outline"
+            size="sm"
+            className="h-7"
+            onClick={() => update({ tags: [...tags, { key: '', value: '' }] })}
+            disabled={disabled}
+          >
+            <Plus className="mr-1.5 h-3.5 w-3.5" />
+            Add tag
+          </Button>
+        </div>
+      </div>
+
+      <div className="space-y-3">
+        <h4 className="text-sm font-semibold">Current versions</h4>
+        <TransitionsEditor
+          transitions={rule.transitions || []}
+          onChange={(transitions) => update({ transitions })}
+          disabled={disabled}
+        />
+        <div className="flex items-center gap-2 text-sm">
+          <span className="text-muted-foreground">Expire objects after</span>
+          <DaysInput
+            value={rule.expirationDays}
+            onChange={setNumber('expirationDays')}
+            disabled={disabled || rule.expiredObjectDeleteMarker}
+          />
+          <span className="text-muted-foreground">days</span>
+        </div>
+        <div className="flex items-center gap-2">
+          <Checkbox
+            id={`delete-markers-${rule.id}`}
+            checked={!!rule.expiredObjectDeleteMarker}
+            onCheckedChange={(checked) => update({ expiredObjectDeleteMarker: !!checked || undefined })}
+            disabled={disabled || rule.expirationDays !== undefined}
+          />
+          <Label htmlFor={`delete-markers-${rule.id}`} className="text-sm font-normal">
+            Remove delete markers with no remaining versions
+          </Label>
+        </div>
+      </div>
+
+      <div className="space-y-3">
+        <h4 className="text-sm font-semibold">Noncurrent versions</h4>
+        <TransitionsEditor
+          transitions={rule.noncurrentTransitions || []}
+          onChange={(noncurrentTransitions) => update({ noncurrentTransitions })}
+          disabled={disabled}
+        />
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <span className="text-muted-foreground">Delete noncurrent versions after</span>
+          <DaysInput
+            value={rule.noncurrentExpirationDays}
+            onChange={setNumber('noncurrentExpirationDays')}
+            disabled={disabled}
+          />
+          <span className="text-muted-foreground">days, keeping the newest</span>
+          <DaysInput
+            value={rule.newerNoncurrentVersions}
+            onChange={setNumber('newerNoncurrentVersions')}
+            disabled={disabled}
+            placeholder="0"
+          />
+        </div>
+      </div>
+
+      <div className="flex items-center gap-2 text-sm">
+        <span className="text-muted-foreground">Abort incomplete multipart uploads after</span>
+        <DaysInput
+          value={rule.abortIncompleteMultipartUploadDays}
+          onChange={setNumber('abortIncompleteMultipartUploadDays')}
+          disabled={disabled}
+        />
+        <span className="text-muted-foreground">days</span>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Form editor for a bucket's lifecycle rules, with a JSON tab showing the
+ * configuration as S3 receives it. JSON edits are applied back to the form.
+ * Nothing is saved until the whole configuration validates.
+ */
+export function LifecycleEditor({ rules, onSave, isSaving }: LifecycleEditorProps) {
+  const [draft, setDraft] = useState<LifecycleRule[]>(rules);
+  const [tab, setTab] = useState('form');
+  const [json, setJson] = useState('');
+  const [jsonError, setJsonError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setDraft(rules);
+  }, [rules]);
+
+  const { errors } = useMemo(() => validateLifecycleRules(draft), [draft]);
+  const isDirty = useMemo(() => JSON.stringify(draft) !== JSON.stringify(rules), [draft, rules]);
+
+  const handleTabChange = (value: string) => {
+    if (value === 'json') {
+      setJson(toJson(draft));
+      setJsonError(null);
+    }
+    setTab(value);
+  };
+
+  const applyJson = () => {
+    try {
+      const parsed = JSON.parse(json);
+      const s3Rules = Array.isArray(parsed) ? parsed : parsed?.Rules;
+      if (!Array.isArray(s3Rules)) {
+        setJsonError('Expected an object with a "Rules" array');
+        return;
+      }
+      const nextRules = fromS3LifecycleRules(s3Rules);
+      setDraft(nextRules);
+      setJson(toJson(nextRules));
+      setJsonError(null);
+    } catch (error) {
+      setJsonError(error instanceof Error ? error.message : 'Invalid JSON');
+    }
+  };
+
+  const handleSave = async () => {
+    try {
+      await onSave(draft);
+    } catch {
+      // The hook already reported the error
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <Tabs value={tab} onValueChange={handleTabChange}>
+        <TabsList>
+          <TabsTrigger value="form">Rules</TabsTrigger>
+          <TabsTrigger value="json">JSON</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="form" className="space-y-4">
+          {draft.length === 0 && (
+            <p className="text-sm text-muted-foreground">
+              This bucket has no lifecycle rules. Objects are kept until they are deleted.
+            </p>
+          )}
+          {draft.map((rule, index) => (
+            <RuleEditor
+              key={index}
+              rule={rule}
+              onChange={(next) => setDraft(draft.map((r, i) => i === index ? next : r))}
+              onRemove={() => setDraft(draft.filter((_, i) => i !== index))}
+              disabled={isSaving}
+            />
+          ))}
+          <Button variant="outline" size="sm" onClick={() => setDraft([...draft, newRule(draft)])} disabled={isSaving}>
+            <Plus className="mr-1.5 h-4 w-4" />
+            Add rule
+          </Button>
+        </TabsContent>
+
+        <TabsContent value="json" className="space-y-3">
+          <p className="text-sm text-muted-foreground">
+            The LifecycleConfiguration sent to S3. Settings the form doesn't support, such as date-based
+            actions and object size filters, are dropped when applied.
+          </p>
+          <Textarea
+            value={json}
+            onChange={(e) => setJson(e.target.value)}
+            className="min-h-[320px] font-mono text-xs"
+            spellCheck={false}
+            disabled={isSaving}
+          />
+          {jsonError && <p className="text-sm text-destructive">{jsonError}</p>}
+          <Button variant="outline" size="sm" onClick={applyJson} disabled={isSaving}>
+            Apply JSON
+          </Button>
+        </TabsContent>
+      </Tabs>
+
+      {errors.length > 0 && (
+        <ul className="rounded-md border border-destructive/50 p-3 text-sm text-destructive space-y-1">
+          {errors.map((error, index) => (
+            <li key={index}>{error}</li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex justify-end gap-2">
+        <Button variant="outline" onClick={() => setDraft(rules)} disabled={!isDirty || isSaving}>
+          Discard changes
+        </Button>
+        <Button onClick={handleSave} disabled={!isDirty || errors.length > 0 || isSaving}>
+          {isSaving ? (
+            <>
+              <span className="mr-2">Saving...</span>
+              <i className="ri-loader-4-line animate-spin"></i>
+            </>
+          ) : (
+            'Save rules'
+          )}
+        </Button>
+      </div>
+    </div>
+  );
+}
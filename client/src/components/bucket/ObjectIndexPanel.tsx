@@ -0,0 +1,149 @@
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { S3ObjectIndex } from "@/lib/types";
+import { formatBytes, formatDate } from "@/lib/utils";
+
+interface ObjectIndexPanelProps {
+  index: S3ObjectIndex | null;
+  rescanMinutes?: number;
+  onConfigure: (settings: { enabled: boolean; indexTags: boolean }) => Promise<unknown>;
+  onScan: () => Promise<unknown>;
+  isConfiguring: boolean;
+  isStartingScan: boolean;
+}
+
+function describeInterval(minutes: number) {
+  if (minutes % (24 * 60) === 0) {
+    const days = minutes / (24 * 60);
+    return days === 1 ? 'once a day' : `every ${days} days`;
+  }
+  if (minutes % 60 === 0) {
+    const hours = minutes / 60;
+    return hours === 1 ? 'every hour' : `every ${hours} hours`;
+  }
+  return `every ${minutes} minutes`;
+}
+
+/**
+ * Opt a bucket in to the object index and show how its scans are going. Indexed
+ * buckets are searched from the database instead of by listing S3.
+ */
+export function ObjectIndexPanel({
+  index,
+  rescanMinutes,
+  onConfigure,
+  onScan,
+  isConfiguring,
+  isStartingScan,
+}: ObjectIndexPanelProps) {
+  const enabled = !!index?.enabled;
+  const indexTags = !!index?.indexTags;
+
+  const configure = async (settings: { enabled: boolean; indexTags: boolean }) => {
+    try {
+      await onConfigure(settings);
+    } catch {
+      // The hook already reported the error
+    }
+  };
+
+  const handleScan = async () => {
+    try {
+      await onScan();
+    } catch {
+      // The hook already reported the error
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-3">
+        <div className="flex items-start gap-3">
+          <Switch
+            id="index-enabled"
+            checked={enabled}
+            onCheckedChange={(checked) => configure({ enabled: checked, indexTags })}
+            disabled={isConfiguring}
+          />
+          <div className="space-y-0.5">
+            <Label htmlFor="index-enabled" className="text-sm">Index this bucket</Label>
+            <p className="text-xs text-muted-foreground">
+              Keeps a copy of every object's key, size, date and storage class in the database, so searches
+              and folder sizes don't have to list the bucket.
+              {rescanMinutes ? ` The index is refreshed ${describeInterval(rescanMinutes)}.` : ' Scheduled refreshes are turned off; use Scan now.'}
+            </p>
+          </div>
+        </div>
+        <div className="flex items-start gap-3">
+          <Switch
+            id="index-tags"
+            checked={indexTags}
+            onCheckedChange={(checked) => configure({ enabled, indexTags: checked })}
+            disabled={isConfiguring || !enabled}
+          />
+          <div className="space-y-0.5">
+            <Label htmlFor="index-tags" className="text-sm">Include object tags</Label>
+            <p className="text-xs text-muted-foreground">
+              Needed to search by tag. Costs one extra S3 request for each new or changed object.
+            </p>
+          </div>
+        </div>
+      </div>
+
+      {index && enabled && (
+        <div className="rounded-md border p-4 space-y-3">
+          <div className="flex items-center justify-between gap-2">
+            <div className="flex items-center gap-2">
+              <h3 className="text-sm font-semibold">Status</h3>
+              {index.isScanning ? (
+                <Badge variant="secondary">Scanning</Badge>
+              ) : index.status === 'failed' ? (
+                <Badge variant="destructive">Failed</Badge>
+              ) : index.lastScanCompletedAt ? (
+                <Badge variant="outline">Up to date</Badge>
+              ) : (
+                <Badge variant="outline">Not scanned yet</Badge>
+              )}
+            </div>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleScan}
+              disabled={index.isScanning || isStartingScan}
+            >
+              <i className="ri-refresh-line mr-1.5"></i>
+              Scan now
+            </Button>
+          </div>
+
+          {index.isScanning && (
+            <p className="text-sm text-muted-foreground">
+              <i className="ri-loader-4-line animate-spin mr-1.5"></i>
+              {index.scannedCount.toLocaleString()} objects listed so far
+            </p>
+          )}
+          {index.status === 'failed' && index.lastError && (
+            <p className="text-sm text-destructive">{index.lastError}</p>
+          )}
+
+          <dl className="grid grid-cols-2 gap-x-4 gap-y-1 text-sm">
+            <dt className="text-muted-foreground">Objects</dt>
+            <dd>{index.objectCount.toLocaleString()}</dd>
+            <dt className="text-muted-foreground">Total size</dt>
+            <dd>{formatBytes(index.totalBytes)}</dd>
+            <dt className="text-muted-foreground">Last completed scan</dt>
+            <dd>{index.lastScanCompletedAt ? formatDate(index.lastScanCompletedAt) : 'Never'}</dd>
+            {index.lastScanStartedAt && (
+              <>
+                <dt className="text-muted-foreground">Last scan started</dt>
+                <dd>{formatDate(index.lastScanStartedAt)}</dd>
+              </>
+            )}
+          </dl>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -23,7 +23,7 @@ import { EnhancedS3Bucket } from "@/lib/types";
 interface BatchOperationDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
-  operationType: "move" | "copy";
+  operationType: "move" | "copy" | "download";
   sourceBucket: string;
   selectedCount: number;
   onConfirm: (destinationBucket: string, destinationPrefix: string) => void;
@@ -63,12 +63,16 @@ export function BatchOperationDialog({
     onConfirm(destinationBucket, destinationPrefix);
   };
 
-  const title = operationType === "move" ? "Move Files" : "Copy Files";
-  const description = operationType === "move" 
-    ? `Move ${selectedCount} selected file(s) to another location`
-    : `Copy ${selectedCount} selected file(s) to another location`;
+  const isDownload = operationType === "download";
   
-  const actionLabel = operationType === "move" ? "Move Files" : "Copy Files";
+  const title = isDownload ? "Download as ZIP" : operationType === "move" ? "Move Files" : "Copy Files";
+  const description = isDownload
+    ? `Download ${selectedCount} selected item(s) as a single ZIP archive. Folders are included with their contents.`
+    : operationType === "move" 
+      ? `Move ${selectedCount} selected file(s) to another location`
+      : `Copy ${selectedCount} selected file(s) to another location`;
+  
+  const actionLabel = isDownload ? "Download ZIP" : operationType === "move" ? "Move Files" : "Copy Files";
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
@@ -78,46 +82,52 @@ export function BatchOperationDialog({
           <DialogDescription>{description}</DialogDescription>
         </DialogHeader>
 
-        <div className="grid gap-4 py-4">
-          <div className="grid grid-cols-4 items-center gap-4">
-            <Label htmlFor="destination-bucket" className="text-right">
-              Destination Bucket
-            </Label>
-            <Select
-              value={destinationBucket}
-              onValueChange={setDestinationBucket}
-              disabled={isProcessing}
-            >
-              <SelectTrigger id="destination-bucket" className="col-span-3">
-                <SelectValue placeholder="Select bucket" />
-              </SelectTrigger>
-              <SelectContent>
-                {allBuckets.map((bucket: EnhancedS3Bucket) => (
-                  <SelectItem 
-                    key={`${bucket.accountId}-${bucket.Name}`} 
-                    value={bucket.Name || ""}
-                  >
-                    {bucket.Name} ({bucket.accountName} - {bucket.region})
-                  </SelectItem>
-                ))}
-              </SelectContent>
-            </Select>
-          </div>
-          
-          <div className="grid grid-cols-4 items-center gap-4">
-            <Label htmlFor="destination-prefix" className="text-right">
-              Destination Folder
-            </Label>
-            <Input
-              id="destination-prefix"
-              placeholder="e.g., my-folder/ (optional)"
-              value={destinationPrefix}
-              onChange={(e) => setDestinationPrefix(e.target.value)}
-              className="col-span-3"
-              disabled={isProcessing}
-            />
+        {isDownload ? (
+          <p className="py-4 text-sm text-muted-foreground">
+            Files keep their folder structure inside the archive. Very large selections may be refused by the server.
+          </p>
+        ) : (
+          <div className="grid gap-4 py-4">
+            <div className="grid grid-cols-4 items-center gap-4">
+              <Label htmlFor="destination-bucket" className="text-right">
+                Destination Bucket
+              </Label>
+              <Select
+                value={destinationBucket}
+                onValueChange={setDestinationBucket}
+                disabled={isProcessing}
+              >
+                <SelectTrigger id="destination-bucket" className="col-span-3">
+                  <SelectValue placeholder="Select bucket" />
+                </SelectTrigger>
+                <SelectContent>
+                  {allBuckets.map((bucket: EnhancedS3Bucket) => (
+                    <SelectItem 
+                      key={`${bucket.accountId}-${bucket.Name}`} 
+                      value={bucket.Name || ""}
+                    >
+                      {bucket.Name} ({bucket.accountName} - {bucket.region})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            
+            <div className="grid grid-cols-4 items-center gap-4">
+              <Label htmlFor="destination-prefix" className="text-right">
+                Destination Folder
+              </Label>
+              <Input
+                id="destination-prefix"
+                placeholder="e.g., my-folder/ (optional)"
+                value={destinationPrefix}
+                onChange={(e) => setDestinationPrefix(e.target.value)}
+                className="col-span-3"
+                disabled={isProcessing}
+              />
+            </div>
           </div>
-        </div>
+        )}
         
         <DialogFooter>
           <Button 
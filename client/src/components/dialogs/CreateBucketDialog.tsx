@@ -0,0 +1,275 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { useS3BucketManagement } from "@/hooks/use-s3";
+import { S3Account, S3BucketEncryption } from "@/lib/types";
+
+interface CreateBucketDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  accounts: S3Account[];
+  defaultAccountId?: number;
+  onCreated?: (bucket: string, accountId: number) => void;
+}
+
+type EncryptionChoice = "none" | "AES256" | "aws:kms";
+
+const AWS_REGIONS = [
+  { value: "us-east-1", label: "US East (N. Virginia)" },
+  { value: "us-east-2", label: "US East (Ohio)" },
+  { value: "us-west-1", label: "US West (N. California)" },
+  { value: "us-west-2", label: "US West (Oregon)" },
+  { value: "ca-central-1", label: "Canada (Central)" },
+  { value: "eu-west-1", label: "EU West (Ireland)" },
+  { value: "eu-west-2", label: "EU West (London)" },
+  { value: "eu-central-1", label: "EU Central (Frankfurt)" },
+  { value: "ap-northeast-1", label: "Asia Pacific (Tokyo)" },
+  { value: "ap-northeast-2", label: "Asia Pacific (Seoul)" },
+  { value: "ap-southeast-1", label: "Asia Pacific (Singapore)" },
+  { value: "ap-southeast-2", label: "Asia Pacific (Sydney)" },
+  { value: "ap-south-1", label: "Asia Pacific (Mumbai)" },
+  { value: "sa-east-1", label: "South America (São Paulo)" },
+];
+
+// Mirrors the server's check so obvious mistakes are caught before submitting
+function getNameError(name: string) {
+  if (!name) return null;
+  if (!/^[a-z0-9][a-z0-9.-]{1,61}[a-z0-9]$/.test(name)) {
+    return "Use 3-63 lowercase letters, numbers, dots and hyphens, starting and ending with a letter or number";
+  }
+  if (name.includes("..")) {
+    return "Bucket names can't contain consecutive dots";
+  }
+  return null;
+}
+
+export function CreateBucketDialog({
+  open,
+  onOpenChange,
+  accounts,
+  defaultAccountId,
+  onCreated,
+}: CreateBucketDialogProps) {
+  const [accountId, setAccountId] = useState<number | undefined>(defaultAccountId);
+  const [name, setName] = useState("");
+  const [region, setRegion] = useState("");
+  const [objectLock, setObjectLock] = useState(false);
+  const [encryption, setEncryption] = useState<EncryptionChoice>("AES256");
+  const [kmsKeyId, setKmsKeyId] = useState("");
+
+  const account = accounts.find(a => a.id === accountId);
+  const { createBucket, isCreating } = useS3BucketManagement(accountId);
+
+  // Reset form when dialog opens
+  useEffect(() => {
+    if (open) {
+      const initialAccount = accounts.find(a => a.id === defaultAccountId) || accounts[0];
+      setAccountId(initialAccount?.id);
+      setRegion(initialAccount?.region || "us-east-1");
+      setName("");
+      setObjectLock(false);
+      setEncryption("AES256");
+      setKmsKeyId("");
+    }
+  }, [open, defaultAccountId, accounts]);
+
+  const handleAccountChange = (value: string) => {
+    const next = accounts.find(a => a.id === parseInt(value));
+    setAccountId(next?.id);
+    setRegion(next?.region || "us-east-1");
+  };
+
+  // Custom endpoints (MinIO, R2, ...) have a single region, so there is nothing to pick
+  const isCustomEndpoint = !!account?.endpoint;
+  const regionOptions = AWS_REGIONS.some(option => option.value === region) || !region
+    ? AWS_REGIONS
+    : [{ value: region, label: region }, ...AWS_REGIONS];
+
+  const nameError = getNameError(name);
+  const isValid = !!accountId && !!name && !nameError;
+
+  const handleCreate = async () => {
+    if (!accountId) return;
+
+    const encryptionOption: S3BucketEncryption | undefined = encryption === "none"
+      ? undefined
+      : { type: encryption, kmsKeyId: encryption === "aws:kms" ? kmsKeyId.trim() || undefined : undefined };
+
+    try {
+      await createBucket(name, {
+        region: isCustomEndpoint ? undefined : region,
+        objectLock,
+        encryption: encryptionOption,
+      });
+      onCreated?.(name, accountId);
+      onOpenChange(false);
+    } catch {
+      // The hook already reported the error; keep the dialog open to retry
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle>Create Bucket</DialogTitle>
+          <DialogDescription>
+            Bucket names are global across all AWS accounts and can't be changed later.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 py-4">
+          <div className="grid grid-cols-4 items-center gap-4">
+            <Label htmlFor="bucket-account" className="text-right">
+              Account
+            </Label>
+            <Select value={accountId?.toString()} onValueChange={handleAccountChange} disabled={isCreating}>
+              <SelectTrigger id="bucket-account" className="col-span-3">
+                <SelectValue placeholder="Select an account" />
+              </SelectTrigger>
+              <SelectContent>
+                {accounts.map(option => (
+                  <SelectItem key={option.id} value={option.id.toString()}>
+                    {option.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="grid grid-cols-4 items-start gap-4">
+            <Label htmlFor="bucket-name" className="text-right pt-2">
+              Name
+            </Label>
+            <div className="col-span-3 space-y-1">
+              <Input
+                id="bucket-name"
+                value={name}
+                onChange={(e) => setName(e.target.value.toLowerCase())}
+                placeholder="my-bucket"
+                disabled={isCreating}
+              />
+              {nameError && <p className="text-xs text-destructive">{nameError}</p>}
+            </div>
+          </div>
+
+          {!isCustomEndpoint && (
+            <div className="grid grid-cols-4 items-center gap-4">
+              <Label htmlFor="bucket-region" className="text-right">
+                Region
+              </Label>
+              <Select value={region} onValueChange={setRegion} disabled={isCreating}>
+                <SelectTrigger id="bucket-region" className="col-span-3">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {regionOptions.map(option => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <div className="grid grid-cols-4 items-center gap-4">
+            <Label htmlFor="bucket-encryption" className="text-right">
+              Encryption
+            </Label>
+            <Select
+              value={encryption}
+              onValueChange={(value) => setEncryption(value as EncryptionChoice)}
+              disabled={isCreating}
+            >
+              <SelectTrigger id="bucket-encryption" className="col-span-3">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="AES256">SSE-S3 (S3 managed keys)</SelectItem>
+                <SelectItem value="aws:kms">SSE-KMS (AWS KMS keys)</SelectItem>
+                <SelectItem value="none">Provider default</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {encryption === "aws:kms" && (
+            <div className="grid grid-cols-4 items-center gap-4">
+              <Label htmlFor="bucket-kms-key" className="text-right">
+                KMS key
+              </Label>
+              <Input
+                id="bucket-kms-key"
+                value={kmsKeyId}
+                onChange={(e) => setKmsKeyId(e.target.value)}
+                placeholder="Key ARN or ID (blank for aws/s3)"
+                className="col-span-3"
+                disabled={isCreating}
+              />
+            </div>
+          )}
+
+          <div className="grid grid-cols-4 items-start gap-4">
+            <div />
+            <div className="col-span-3 flex items-start gap-2">
+              <Checkbox
+                id="bucket-object-lock"
+                checked={objectLock}
+                onCheckedChange={(checked) => setObjectLock(!!checked)}
+                disabled={isCreating}
+              />
+              <div className="space-y-1">
+                <Label htmlFor="bucket-object-lock">Enable Object Lock</Label>
+                <p className="text-xs text-muted-foreground">
+                  Protects object versions from deletion or overwrite. Can only be turned on now,
+                  can't be turned off later, and enables versioning.
+                </p>
+              </div>
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+            disabled={isCreating}
+          >
+            Cancel
+          </Button>
+          <Button
+            onClick={handleCreate}
+            disabled={!isValid || isCreating}
+            className="ml-2"
+          >
+            {isCreating ? (
+              <>
+                <span className="mr-2">Creating...</span>
+                <i className="ri-loader-4-line animate-spin"></i>
+              </>
+            ) : (
+              "Create Bucket"
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,193 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { useS3BucketManagement, useEmptyBucketJob } from "@/hooks/use-s3";
+import { useToast } from "@/hooks/use-toast";
+
+interface DeleteBucketDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  accountId: number;
+  bucket: string;
+  onDeleted?: () => void;
+}
+
+/**
+ * Confirms deleting a bucket by typing its name. With "empty first" the server
+ * deletes every object version, delete marker and pending upload before removing
+ * the bucket, and the dialog shows its progress.
+ */
+export function DeleteBucketDialog({ open, onOpenChange, accountId, bucket, onDeleted }: DeleteBucketDialogProps) {
+  const [confirmation, setConfirmation] = useState("");
+  const [emptyFirst, setEmptyFirst] = useState(false);
+  const [notEmpty, setNotEmpty] = useState(false);
+  const [jobId, setJobId] = useState<string | undefined>();
+  const { toast } = useToast();
+
+  const { deleteBucket, startEmptyBucket, invalidateBuckets, isDeleting, isStartingEmpty } = useS3BucketManagement(accountId);
+  const { data: job } = useEmptyBucketJob(accountId, jobId);
+
+  // Reset form when dialog opens
+  useEffect(() => {
+    if (open) {
+      setConfirmation("");
+      setEmptyFirst(false);
+      setNotEmpty(false);
+      setJobId(undefined);
+    }
+  }, [open]);
+
+  useEffect(() => {
+    if (job?.status !== "running" && job?.bucketDeleted) {
+      toast({
+        title: "Bucket deleted",
+        description: `Emptied and deleted ${bucket}`,
+      });
+      invalidateBuckets();
+      onOpenChange(false);
+      onDeleted?.();
+    }
+  }, [job?.status, job?.bucketDeleted]);
+
+  const isRunning = !!jobId && (!job || job.status === "running");
+  const isBusy = isDeleting || isStartingEmpty || isRunning;
+  const isConfirmed = confirmation === bucket;
+
+  const handleDelete = async () => {
+    if (emptyFirst) {
+      try {
+        const started = await startEmptyBucket(bucket, true);
+        setJobId(started.id);
+      } catch {
+        // The hook already reported the error
+      }
+      return;
+    }
+
+    try {
+      await deleteBucket(bucket);
+      onOpenChange(false);
+      onDeleted?.();
+    } catch (error) {
+      if (error instanceof Error && error.message.startsWith("409:")) {
+        setNotEmpty(true);
+        setEmptyFirst(true);
+      }
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !isRunning && onOpenChange(next)}>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle>Delete Bucket</DialogTitle>
+          <DialogDescription>
+            Deleting <span className="font-medium text-foreground">{bucket}</span> can't be undone.
+            Its name may be taken by someone else once it is gone.
+          </DialogDescription>
+        </DialogHeader>
+
+        {jobId ? (
+          <div className="space-y-2 py-4 text-sm">
+            {!job || job.status === "running" ? (
+              <p className="flex items-center gap-2">
+                <i className="ri-loader-4-line animate-spin"></i>
+                Emptying bucket... {job ? `${job.deleted.toLocaleString()} object version(s) deleted` : ''}
+              </p>
+            ) : job.status === "failed" ? (
+              <p className="text-destructive">Emptying the bucket failed: {job.error}</p>
+            ) : job.bucketDeleted ? (
+              <p>Deleted {job.deleted.toLocaleString()} object version(s) and the bucket.</p>
+            ) : (
+              <p>
+                Deleted {job.deleted.toLocaleString()} object version(s), but {job.errorCount} could not be deleted,
+                so the bucket was kept.
+              </p>
+            )}
+            {job && job.abortedUploads > 0 && (
+              <p className="text-muted-foreground">Aborted {job.abortedUploads} incomplete upload(s).</p>
+            )}
+            {job && job.errors.length > 0 && (
+              <ul className="max-h-40 overflow-y-auto rounded-md border p-2 text-xs text-destructive space-y-1">
+                {job.errors.map((error, index) => (
+                  <li key={index} className="break-all">{error.key}: {error.message}</li>
+                ))}
+              </ul>
+            )}
+          </div>
+        ) : (
+          <div className="grid gap-4 py-4">
+            {notEmpty && (
+              <p className="text-sm text-destructive">
+                This bucket still contains objects or old versions. Empty it first to delete it.
+              </p>
+            )}
+            <div className="flex items-start gap-2">
+              <Checkbox
+                id="empty-bucket-first"
+                checked={emptyFirst}
+                onCheckedChange={(checked) => setEmptyFirst(!!checked)}
+                disabled={isBusy}
+              />
+              <div className="space-y-1">
+                <Label htmlFor="empty-bucket-first">Empty the bucket first</Label>
+                <p className="text-xs text-muted-foreground">
+                  Permanently deletes every object, all previous versions and incomplete uploads.
+                </p>
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="delete-bucket-confirm">Type the bucket name to confirm</Label>
+              <Input
+                id="delete-bucket-confirm"
+                value={confirmation}
+                onChange={(e) => setConfirmation(e.target.value)}
+                placeholder={bucket}
+                disabled={isBusy}
+              />
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+            disabled={isBusy}
+          >
+            {jobId && !isRunning ? "Close" : "Cancel"}
+          </Button>
+          {!jobId && (
+            <Button
+              variant="destructive"
+              onClick={handleDelete}
+              disabled={!isConfirmed || isBusy}
+              className="ml-2"
+            >
+              {isBusy ? (
+                <>
+                  <span className="mr-2">Deleting...</span>
+                  <i className="ri-loader-4-line animate-spin"></i>
+                </>
+              ) : emptyFirst ? (
+                "Empty and Delete"
+              ) : (
+                "Delete Bucket"
+              )}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -25,6 +25,10 @@ interface FileInfo {
   filename: string;
   contentType?: string;
   size: number;
+  // Folders share everything under `path`; collections share the picked `keys`;
+  // requests take uploads into the folder at `path`
+  shareType?: 'file' | 'folder' | 'collection' | 'request';
+  keys?: string[];
 }
 
 interface ShareDialogProps {
@@ -42,10 +46,19 @@ export function ShareDialog({
   const [expiryType, setExpiryType] = useState("never"); // "days" or "never"
   const [expiryDays, setExpiryDays] = useState("7"); // Default 7 days
   const [allowDownload, setAllowDownload] = useState(true);
+  const [allowPreview, setAllowPreview] = useState(true);
   const [directS3Link, setDirectS3Link] = useState(false);
+  const [allowSubfolders, setAllowSubfolders] = useState(true);
+  const [maxFileSizeMb, setMaxFileSizeMb] = useState("");
+  const [allowedExtensions, setAllowedExtensions] = useState("");
+  const [maxFiles, setMaxFiles] = useState("");
+  const [askUploaderInfo, setAskUploaderInfo] = useState(true);
   const [password, setPassword] = useState("");
   const [shareUrl, setShareUrl] = useState("");
   const { toast } = useToast();
+  const shareType = file.shareType || 'file';
+  const isFile = shareType === 'file';
+  const isRequest = shareType === 'request';
   
   const createShareMutation = useMutation({
     mutationFn: async (data: {
@@ -57,8 +70,16 @@ export function ShareDialog({
       contentType?: string;
       size: number;
       allowDownload: boolean;
+      allowPreview: boolean;
       password?: string;
       directS3Link: boolean;
+      shareType: string;
+      keys?: string[];
+      allowSubfolders: boolean;
+      maxFileSize?: number;
+      allowedExtensions?: string;
+      maxFiles?: number;
+      askUploaderInfo?: boolean;
     }) => {
       const res = await apiRequest("POST", "/api/shared-files", data);
       return await res.json();
@@ -99,6 +120,16 @@ export function ShareDialog({
       }
     }
     
+    const sizeMb = parseFloat(maxFileSizeMb);
+    const fileCount = parseInt(maxFiles, 10);
+    if (isRequest && ((maxFileSizeMb.trim() && !(sizeMb > 0)) || (maxFiles.trim() && !(fileCount > 0)))) {
+      toast({
+        title: "Invalid limits",
+        description: "File size and file count limits must be positive numbers",
+      });
+      return;
+    }
+    
     createShareMutation.mutate({
       accountId: file.accountId,
       bucket: file.bucket,
@@ -108,8 +139,18 @@ export function ShareDialog({
       contentType: file.contentType,
       size: file.size,
       allowDownload,
+      allowPreview,
       password: password.trim() || undefined,
-      directS3Link
+      directS3Link: isFile && directS3Link,
+      shareType,
+      keys: file.keys,
+      allowSubfolders,
+      ...(isRequest && {
+        maxFileSize: sizeMb > 0 ? Math.round(sizeMb * 1024 * 1024) : undefined,
+        allowedExtensions: allowedExtensions.trim() || undefined,
+        maxFiles: fileCount > 0 ? fileCount : undefined,
+        askUploaderInfo
+      })
     });
   }
   
@@ -117,9 +158,15 @@ export function ShareDialog({
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent className="sm:max-w-[450px]">
         <DialogHeader>
-          <DialogTitle>Share File</DialogTitle>
+          <DialogTitle>
+            {isRequest ? 'Request Files' : shareType === 'folder' ? 'Share Folder' : shareType === 'collection' ? `Share ${file.keys?.length || 0} Files` : 'Share File'}
+          </DialogTitle>
           <DialogDescription>
-            Create a shareable link for "{file.filename}"
+            {isRequest
+              ? `Create an upload-only link; files sent through it are saved in "${file.filename}"`
+              : shareType === 'collection'
+                ? 'Create a shareable link for the selected files'
+                : `Create a shareable link for "${file.filename}"`}
           </DialogDescription>
         </DialogHeader>
         
@@ -154,27 +201,101 @@ export function ShareDialog({
             </RadioGroup>
           </div>
           
-          {/* Access Options */}
-          <div className="space-y-3">
-            <h4 className="font-medium text-sm">Access Options</h4>
-            <div className="flex items-center space-x-2">
-              <Checkbox 
-                id="allow-download" 
-                checked={allowDownload} 
-                onCheckedChange={(checked) => setAllowDownload(checked as boolean)}
-              />
-              <Label htmlFor="allow-download">Allow download</Label>
+          {/* Upload limits for file requests */}
+          {isRequest && (
+            <div className="space-y-3">
+              <h4 className="font-medium text-sm">Upload Limits (Optional)</h4>
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-1">
+                  <Label htmlFor="max-file-size">Max file size (MB)</Label>
+                  <Input
+                    id="max-file-size"
+                    type="number"
+                    min="1"
+                    placeholder="No limit"
+                    value={maxFileSizeMb}
+                    onChange={(e) => setMaxFileSizeMb(e.target.value)}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="max-files">Max files in total</Label>
+                  <Input
+                    id="max-files"
+                    type="number"
+                    min="1"
+                    placeholder="No limit"
+                    value={maxFiles}
+                    onChange={(e) => setMaxFiles(e.target.value)}
+                  />
+                </div>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="allowed-extensions">Allowed file types</Label>
+                <Input
+                  id="allowed-extensions"
+                  placeholder="Any type, or e.g. pdf, docx, jpg"
+                  value={allowedExtensions}
+                  onChange={(e) => setAllowedExtensions(e.target.value)}
+                />
+              </div>
+              <div className="flex items-center space-x-2">
+                <Checkbox 
+                  id="ask-uploader-info" 
+                  checked={askUploaderInfo} 
+                  onCheckedChange={(checked) => setAskUploaderInfo(checked as boolean)}
+                />
+                <Label htmlFor="ask-uploader-info">Ask uploaders for their name and email</Label>
+              </div>
             </div>
+          )}
+          
+          {/* Access Options */}
+          {!isRequest && (
+            <div className="space-y-3">
+              <h4 className="font-medium text-sm">Access Options</h4>
+              <div className="flex items-center space-x-2">
+                <Checkbox 
+                  id="allow-download" 
+                  checked={allowDownload} 
+                  onCheckedChange={(checked) => setAllowDownload(checked as boolean)}
+                />
+                <Label htmlFor="allow-download">Allow download</Label>
+              </div>
             
-            <div className="flex items-center space-x-2">
-              <Checkbox 
-                id="direct-s3-link" 
-                checked={directS3Link} 
-                onCheckedChange={(checked) => setDirectS3Link(checked as boolean)}
-              />
-              <Label htmlFor="direct-s3-link">Use direct S3 link</Label>
+              {shareType === 'folder' && (
+                <div className="flex items-center space-x-2">
+                  <Checkbox 
+                    id="allow-subfolders" 
+                    checked={allowSubfolders} 
+                    onCheckedChange={(checked) => setAllowSubfolders(checked as boolean)}
+                  />
+                  <Label htmlFor="allow-subfolders">Allow browsing subfolders</Label>
+                </div>
+              )}
+            
+              {isFile && (
+                <>
+                  <div className="flex items-center space-x-2">
+                    <Checkbox 
+                      id="allow-preview" 
+                      checked={allowPreview} 
+                      onCheckedChange={(checked) => setAllowPreview(checked as boolean)}
+                    />
+                    <Label htmlFor="allow-preview">Show a preview on the share page</Label>
+                  </div>
+            
+                  <div className="flex items-center space-x-2">
+                    <Checkbox 
+                      id="direct-s3-link" 
+                      checked={directS3Link} 
+                      onCheckedChange={(checked) => setDirectS3Link(checked as boolean)}
+                    />
+                    <Label htmlFor="direct-s3-link">Use direct S3 link</Label>
+                  </div>
+                </>
+              )}
             </div>
-          </div>
+          )}
           
           {/* Password Protection */}
           <div className="space-y-3">
@@ -209,7 +330,7 @@ export function ShareDialog({
                 </Button>
               </div>
               <div className="text-xs text-muted-foreground mt-1">
-                {directS3Link ? (
+                {isFile && directS3Link ? (
                   <div className="flex items-center gap-1">
                     <ExternalLink className="h-3 w-3" /> Direct S3 link (faster, less secure)
                   </div>
@@ -235,7 +356,7 @@ export function ShareDialog({
               onClick={handleShare}
               disabled={createShareMutation.isPending}
             >
-              {createShareMutation.isPending ? "Creating..." : "Create share link"}
+              {createShareMutation.isPending ? "Creating..." : isRequest ? "Create upload link" : "Create share link"}
             </Button>
           )}
         </DialogFooter>
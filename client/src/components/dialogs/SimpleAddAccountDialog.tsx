@@ -9,6 +9,7 @@ import {
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
 import { useToast } from "@/hooks/use-toast";
 import { useQueryClient } from "@tanstack/react-query";
 import { Loader2 } from "lucide-react";
@@ -27,6 +28,9 @@ export function SimpleAddAccountDialog({ open, onOpenChange }: SimpleAddAccountD
     accessKeyId: "",
     secretAccessKey: "",
     region: "us-east-1",
+    endpoint: "",
+    forcePathStyle: false,
+    tlsVerify: true,
     defaultBucket: ""
   });
   
@@ -39,6 +43,14 @@ export function SimpleAddAccountDialog({ open, onOpenChange }: SimpleAddAccountD
     }));
   };
   
+  // Handle checkbox changes for the endpoint options
+  const handleCheckedChange = (name: "forcePathStyle" | "tlsVerify", checked: boolean) => {
+    setFormData(prev => ({
+      ...prev,
+      [name]: checked
+    }));
+  };
+  
   // Handle form submission
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -61,7 +73,10 @@ export function SimpleAddAccountDialog({ open, onOpenChange }: SimpleAddAccountD
         body: JSON.stringify({
           accessKeyId: formData.accessKeyId,
           secretAccessKey: formData.secretAccessKey,
-          region: formData.region
+          region: formData.region,
+          endpoint: formData.endpoint.trim() || undefined,
+          forcePathStyle: formData.forcePathStyle,
+          tlsVerify: formData.tlsVerify
         })
       });
       
@@ -84,6 +99,7 @@ export function SimpleAddAccountDialog({ open, onOpenChange }: SimpleAddAccountD
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           ...formData,
+          endpoint: formData.endpoint.trim() || undefined,
           defaultBucket
         })
       });
@@ -108,6 +124,9 @@ export function SimpleAddAccountDialog({ open, onOpenChange }: SimpleAddAccountD
         accessKeyId: "",
         secretAccessKey: "",
         region: "us-east-1",
+        endpoint: "",
+        forcePathStyle: false,
+        tlsVerify: true,
         defaultBucket: ""
       });
       
@@ -185,9 +204,46 @@ export function SimpleAddAccountDialog({ open, onOpenChange }: SimpleAddAccountD
               <option value="us-east-2">US East (Ohio)</option>
               <option value="us-west-1">US West (N. California)</option>
               <option value="us-west-2">US West (Oregon)</option>
+              <option value="auto">Auto (R2 / custom endpoint)</option>
             </select>
           </div>
           
+          <div className="space-y-2">
+            <Label htmlFor="endpoint">Custom Endpoint (optional)</Label>
+            <Input 
+              id="endpoint"
+              name="endpoint"
+              type="url"
+              value={formData.endpoint}
+              onChange={handleChange}
+              placeholder="https://minio.example.com:9000"
+              disabled={isLoading}
+            />
+          </div>
+          
+          {formData.endpoint.trim() && (
+            <div className="space-y-2">
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id="forcePathStyle"
+                  checked={formData.forcePathStyle}
+                  onCheckedChange={(checked) => handleCheckedChange("forcePathStyle", checked === true)}
+                  disabled={isLoading}
+                />
+                <Label htmlFor="forcePathStyle" className="font-normal">Use path-style addressing</Label>
+              </div>
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id="skipTlsVerify"
+                  checked={!formData.tlsVerify}
+                  onCheckedChange={(checked) => handleCheckedChange("tlsVerify", checked !== true)}
+                  disabled={isLoading}
+                />
+                <Label htmlFor="skipTlsVerify" className="font-normal">Skip TLS certificate verification</Label>
+              </div>
+            </div>
+          )}
+          
           <DialogFooter className="pt-4">
             <Button 
               type="button" 
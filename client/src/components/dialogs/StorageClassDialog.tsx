@@ -0,0 +1,184 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { S3_STORAGE_CLASSES } from "@/lib/s3";
+
+type RestoreTier = "Expedited" | "Standard" | "Bulk";
+
+interface StorageClassDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  operationType: "change" | "restore";
+  selectedCount: number;
+  // Shown as the initial choice when changing a single file's class
+  currentStorageClass?: string;
+  onChangeStorageClass: (storageClass: string) => Promise<unknown>;
+  onRestore: (days: number, tier: RestoreTier) => Promise<unknown>;
+  isProcessing: boolean;
+}
+
+const RESTORE_TIERS: { value: RestoreTier; label: string }[] = [
+  { value: "Expedited", label: "Expedited (1-5 minutes, Glacier Flexible Retrieval only)" },
+  { value: "Standard", label: "Standard (3-5 hours, up to 12 hours for Deep Archive)" },
+  { value: "Bulk", label: "Bulk (5-12 hours, up to 48 hours for Deep Archive)" },
+];
+
+export function StorageClassDialog({
+  open,
+  onOpenChange,
+  operationType,
+  selectedCount,
+  currentStorageClass,
+  onChangeStorageClass,
+  onRestore,
+  isProcessing = false,
+}: StorageClassDialogProps) {
+  const [storageClass, setStorageClass] = useState<string>("STANDARD_IA");
+  const [tier, setTier] = useState<RestoreTier>("Standard");
+  const [days, setDays] = useState("7");
+
+  // Reset form when dialog opens
+  useEffect(() => {
+    if (open) {
+      setStorageClass(currentStorageClass || "STANDARD_IA");
+      setTier("Standard");
+      setDays("7");
+    }
+  }, [open, currentStorageClass]);
+
+  const isRestore = operationType === "restore";
+  const parsedDays = parseInt(days);
+  const isValid = isRestore ? !isNaN(parsedDays) && parsedDays >= 1 : !!storageClass;
+
+  const handleConfirm = async () => {
+    try {
+      if (isRestore) {
+        await onRestore(parsedDays, tier);
+      } else {
+        await onChangeStorageClass(storageClass);
+      }
+      onOpenChange(false);
+    } catch {
+      // The caller reports the error; keep the dialog open to retry
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle>{isRestore ? "Restore from Archive" : "Change Storage Class"}</DialogTitle>
+          <DialogDescription>
+            {isRestore
+              ? `Make a temporary copy of ${selectedCount} archived file(s) available for download.`
+              : `Move ${selectedCount} file(s) to another storage class. Each file is copied over itself, which creates a new version in versioned buckets.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isRestore ? (
+          <div className="grid gap-4 py-4">
+            <div className="grid grid-cols-4 items-center gap-4">
+              <Label htmlFor="restore-tier" className="text-right">
+                Retrieval tier
+              </Label>
+              <Select value={tier} onValueChange={(value) => setTier(value as RestoreTier)} disabled={isProcessing}>
+                <SelectTrigger id="restore-tier" className="col-span-3">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {RESTORE_TIERS.map(option => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="grid grid-cols-4 items-center gap-4">
+              <Label htmlFor="restore-days" className="text-right">
+                Days
+              </Label>
+              <Input
+                id="restore-days"
+                type="number"
+                min={1}
+                value={days}
+                onChange={(e) => setDays(e.target.value)}
+                className="col-span-3"
+                disabled={isProcessing}
+              />
+            </div>
+          </div>
+        ) : (
+          <div className="grid gap-4 py-4">
+            <div className="grid grid-cols-4 items-center gap-4">
+              <Label htmlFor="storage-class" className="text-right">
+                Storage class
+              </Label>
+              <Select value={storageClass} onValueChange={setStorageClass} disabled={isProcessing}>
+                <SelectTrigger id="storage-class" className="col-span-3">
+                  <SelectValue placeholder="Select storage class" />
+                </SelectTrigger>
+                <SelectContent>
+                  {S3_STORAGE_CLASSES.map(option => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {(storageClass === "GLACIER" || storageClass === "DEEP_ARCHIVE") && (
+              <p className="text-sm text-muted-foreground">
+                Files in this class must be restored before they can be downloaded again.
+              </p>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+            disabled={isProcessing}
+          >
+            Cancel
+          </Button>
+          <Button
+            onClick={handleConfirm}
+            disabled={!isValid || isProcessing}
+            className="ml-2"
+          >
+            {isProcessing ? (
+              <>
+                <span className="mr-2">Processing...</span>
+                <i className="ri-loader-4-line animate-spin"></i>
+              </>
+            ) : isRestore ? (
+              "Request Restore"
+            ) : (
+              "Change Class"
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,213 @@
+import { useEffect, useMemo, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { CodeEditor } from "@/components/files/CodeEditor";
+import { useTextEditor } from "@/hooks/use-s3";
+import { getApiErrorMessage } from "@/lib/queryClient";
+import { HIGHLIGHT_LANGUAGES } from "@/lib/highlight";
+import { formatBytes } from "@/lib/utils";
+import { getCodeLanguage } from "@shared/file-preview";
+
+const PLAIN_TEXT = 'plain';
+
+const MODE_LABELS: Record<string, string> = {
+  javascript: 'JavaScript',
+  typescript: 'TypeScript',
+  json: 'JSON',
+  python: 'Python',
+  ruby: 'Ruby',
+  go: 'Go',
+  rust: 'Rust',
+  java: 'Java',
+  kotlin: 'Kotlin',
+  c: 'C',
+  cpp: 'C++',
+  csharp: 'C#',
+  php: 'PHP',
+  swift: 'Swift',
+  shell: 'Shell',
+  sql: 'SQL',
+  html: 'HTML / XML',
+  css: 'CSS',
+  yaml: 'YAML',
+  ini: 'INI / TOML',
+};
+
+// The ETag the file has now, sent back with a 409 so the user can overwrite it
+function getConflictEtag(error: Error | null): string | undefined {
+  const match = error?.message.match(/^409: ([\s\S]*)$/);
+  if (!match) return undefined;
+  try {
+    return JSON.parse(match[1]).currentEtag;
+  } catch {
+    return undefined;
+  }
+}
+
+interface TextEditorDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  accountId: number;
+  bucket: string;
+  fileKey: string | null;
+}
+
+/**
+ * Edits a small text or code file in place. Saving sends the ETag the file
+ * was opened with; if someone else saved in the meantime the user chooses
+ * between reloading their version and overwriting it.
+ */
+export function TextEditorDialog({ open, onOpenChange, accountId, bucket, fileKey }: TextEditorDialogProps) {
+  const { file, isLoading, error, reload, save, isSaving, saveError, isConflict } = useTextEditor(
+    accountId,
+    bucket,
+    open && fileKey ? fileKey : undefined
+  );
+  const [text, setText] = useState('');
+  const [mode, setMode] = useState(PLAIN_TEXT);
+  const filename = fileKey?.split('/').pop() || '';
+
+  useEffect(() => {
+    setMode(fileKey ? getCodeLanguage(fileKey) || PLAIN_TEXT : PLAIN_TEXT);
+  }, [fileKey]);
+
+  useEffect(() => {
+    if (file) setText(file.text);
+  }, [file]);
+
+  const isDirty = !!file && text !== file.text;
+
+  // JSON is checked as you type; the server checks JSON and YAML again on save
+  const jsonError = useMemo(() => {
+    if (mode !== 'json' || !text.trim()) return undefined;
+    try {
+      JSON.parse(text);
+      return undefined;
+    } catch (e) {
+      return e instanceof Error ? e.message : 'Invalid JSON';
+    }
+  }, [mode, text]);
+
+  const handleSave = async (etag = file?.etag) => {
+    if (!file || !etag || isSaving || jsonError) return;
+    try {
+      await save({ text, etag });
+    } catch {
+      // Shown below the editor or already reported by the hook
+    }
+  };
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next && isDirty && !confirm("Discard your unsaved changes?")) return;
+    onOpenChange(next);
+  };
+
+  const handleReload = async () => {
+    if (isDirty && !confirm("Reload the file and discard your changes?")) return;
+    await reload();
+  };
+
+  const conflictEtag = getConflictEtag(saveError);
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-5xl w-[95vw] h-[90vh] flex flex-col">
+        <DialogHeader className="pr-8">
+          <div className="flex items-center justify-between gap-3">
+            <div className="min-w-0">
+              <DialogTitle className="truncate" title={fileKey || undefined}>
+                {filename}
+                {isDirty && <span className="text-muted-foreground" title="Unsaved changes"> •</span>}
+              </DialogTitle>
+              <DialogDescription>
+                {file ? `${formatBytes(file.size)} • Ctrl+S to save` : bucket}
+              </DialogDescription>
+            </div>
+            <Select value={mode} onValueChange={setMode}>
+              <SelectTrigger className="h-8 w-[150px] text-xs shrink-0">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={PLAIN_TEXT}>Plain text</SelectItem>
+                {HIGHLIGHT_LANGUAGES.map(language => (
+                  <SelectItem key={language} value={language}>{MODE_LABELS[language] || language}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </DialogHeader>
+
+        <div className="flex-1 min-h-0 flex flex-col gap-2">
+          {isLoading ? (
+            <p className="text-sm text-muted-foreground"><i className="ri-loader-4-line animate-spin mr-1.5"></i>Loading…</p>
+          ) : error ? (
+            <p className="text-sm text-destructive">{getApiErrorMessage(error, "Could not open this file")}</p>
+          ) : file && (
+            <>
+              <CodeEditor
+                value={text}
+                onChange={setText}
+                language={mode === PLAIN_TEXT ? undefined : mode}
+                onSave={() => handleSave()}
+                readOnly={isSaving}
+                className="flex-1 min-h-0"
+              />
+
+              {jsonError && (
+                <p className="text-xs text-destructive">Invalid JSON: {jsonError}</p>
+              )}
+
+              {saveError && (
+                <div className="rounded-md border border-destructive/50 p-3 text-sm space-y-2">
+                  <p className="text-destructive">{getApiErrorMessage(saveError, "The file couldn't be saved")}</p>
+                  {isConflict && (
+                    <div className="flex flex-wrap gap-2">
+                      <Button variant="outline" size="sm" onClick={handleReload}>
+                        Reload their version
+                      </Button>
+                      {conflictEtag && (
+                        <Button variant="destructive" size="sm" onClick={() => handleSave(conflictEtag)} disabled={isSaving}>
+                          Overwrite with mine
+                        </Button>
+                      )}
+                    </div>
+                  )}
+                </div>
+              )}
+            </>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)} disabled={isSaving}>
+            Close
+          </Button>
+          <Button onClick={() => handleSave()} disabled={!isDirty || !!jsonError || isSaving} className="ml-2">
+            {isSaving ? (
+              <>
+                <span className="mr-2">Saving...</span>
+                <i className="ri-loader-4-line animate-spin"></i>
+              </>
+            ) : (
+              'Save'
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
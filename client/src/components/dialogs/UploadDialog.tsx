@@ -1,4 +1,4 @@
-import { useState, useRef, useEffect } from "react";
+import { useState, useRef, useEffect, useMemo } from "react";
 import {
   Dialog,
   DialogContent,
@@ -16,9 +16,11 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
-import { uploadFile } from "@/lib/s3";
+import { uploadFileResumable, getUploadKey, MULTIPART_THRESHOLD } from "@/lib/multipart-upload";
+import { checkObjectsExist } from "@/lib/s3";
+import { getUploadItemsFromFileList, getUploadItemsFromDataTransfer, getRenamedPath } from "@/lib/upload-items";
 import { useQueryClient } from "@tanstack/react-query";
-import { FileUploadProgress } from "@/lib/types";
+import { FileUploadProgress, UploadItem, UploadConflictResolution } from "@/lib/types";
 import { Progress } from "@/components/ui/progress";
 import { formatBytes } from "@/lib/utils";
 
@@ -28,14 +30,46 @@ interface UploadDialogProps {
   bucket: string;
   prefix?: string;
   accountId: number;
+  // Files or folders dropped onto the page before the dialog opened
+  initialItems?: UploadItem[];
 }
 
-export function UploadDialog({ open, onOpenChange, bucket, prefix = "", accountId }: UploadDialogProps) {
+interface QueueEntry {
+  item: UploadItem;
+  // Path under the prefix the file will be uploaded to (changes when renamed)
+  targetPath: string;
+  conflict: boolean;
+  resolution: UploadConflictResolution;
+  progress: FileUploadProgress;
+}
+
+// How many files upload at the same time
+const FILE_CONCURRENCY = 3;
+
+// The exists endpoint accepts at most this many keys per request
+const EXISTS_CHECK_BATCH_SIZE = 1000;
+
+// Give up looking for a free "name (n)" after this many tries
+const MAX_RENAME_ATTEMPTS = 20;
+
+function toQueue(items: UploadItem[]): QueueEntry[] {
+  return items.map(item => ({
+    item,
+    targetPath: item.relativePath,
+    conflict: false,
+    resolution: "overwrite",
+    progress: { filename: item.relativePath, progress: 0, status: "pending" },
+  }));
+}
+
+export function UploadDialog({ open, onOpenChange, bucket, prefix = "", accountId, initialItems }: UploadDialogProps) {
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const fileInputRef = useRef<HTMLInputElement>(null);
-  const [files, setFiles] = useState<File[]>([]);
-  const [uploadProgress, setUploadProgress] = useState<FileUploadProgress[]>([]);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+  const [queue, setQueue] = useState<QueueEntry[]>([]);
+  const [conflictsChecked, setConflictsChecked] = useState(false);
+  const [isCheckingConflicts, setIsCheckingConflicts] = useState(false);
   const [isUploading, setIsUploading] = useState(false);
   const [isDragging, setIsDragging] = useState(false);
   
@@ -88,20 +122,45 @@ export function UploadDialog({ open, onOpenChange, bucket, prefix = "", accountI
     }
   }, [open, toast, onOpenChange]);
 
+  // Start with anything dropped onto the page
+  useEffect(() => {
+    if (open && initialItems && initialItems.length > 0) {
+      selectItems(initialItems);
+    }
+  }, [open, initialItems]);
+  
+  // React doesn't know the non-standard directory picker attribute
+  useEffect(() => {
+    folderInputRef.current?.setAttribute("webkitdirectory", "");
+  }, [open]);
+
+  const selectItems = (items: UploadItem[]) => {
+    setQueue(toQueue(items));
+    setConflictsChecked(false);
+  };
+
+  const updateEntry = (index: number, changes: Partial<QueueEntry>) => {
+    setQueue(prev => {
+      const next = [...prev];
+      next[index] = { ...next[index], ...changes };
+      return next;
+    });
+  };
+
+  const setResolution = (index: number, resolution: UploadConflictResolution) => {
+    updateEntry(index, { resolution });
+  };
+
+  const setAllResolutions = (resolution: UploadConflictResolution) => {
+    setQueue(prev => prev.map(entry => (entry.conflict ? { ...entry, resolution } : entry)));
+  };
+
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files.length > 0) {
-      const fileList = Array.from(e.target.files);
-      setFiles(fileList);
-      
-      // Initialize progress for each file
-      setUploadProgress(
-        fileList.map(file => ({
-          filename: file.name,
-          progress: 0,
-          status: "pending"
-        }))
-      );
+      selectItems(getUploadItemsFromFileList(e.target.files));
     }
+    // Allow picking the same files again
+    e.target.value = "";
   };
 
   const handleDragEnter = (e: React.DragEvent) => {
@@ -122,28 +181,104 @@ export function UploadDialog({ open, onOpenChange, bucket, prefix = "", accountI
     setIsDragging(true);
   };
 
-  const handleDrop = (e: React.DragEvent) => {
+  const handleDrop = async (e: React.DragEvent) => {
     e.preventDefault();
     e.stopPropagation();
     setIsDragging(false);
     
-    if (e.dataTransfer.files && e.dataTransfer.files.length > 0) {
-      const fileList = Array.from(e.dataTransfer.files);
-      setFiles(fileList);
+    const items = await getUploadItemsFromDataTransfer(e.dataTransfer);
+    if (items.length > 0) {
+      selectItems(items);
+    }
+  };
+
+  // Ask the server which of the given paths already exist under the prefix
+  const findExisting = async (paths: string[]) => {
+    const existing = new Set<string>();
+    for (let i = 0; i < paths.length; i += EXISTS_CHECK_BATCH_SIZE) {
+      const keys = paths.slice(i, i + EXISTS_CHECK_BATCH_SIZE).map(path => getUploadKey(prefix, path));
+      const found = await checkObjectsExist(accountId, bucket, keys);
+      found.forEach(key => existing.add(key));
+    }
+    return paths.filter(path => existing.has(getUploadKey(prefix, path)));
+  };
+
+  // Mark files that would overwrite existing objects. Returns true if any were found.
+  const checkConflicts = async () => {
+    const existing = new Set(await findExisting(queue.map(entry => entry.item.relativePath)));
+    setQueue(prev => prev.map(entry => ({
+      ...entry,
+      conflict: existing.has(entry.item.relativePath),
+      resolution: existing.has(entry.item.relativePath) ? "skip" : "overwrite",
+    })));
+    setConflictsChecked(true);
+    return existing.size > 0;
+  };
+
+  // Pick "name (n).ext" paths for entries being renamed that are free both in the
+  // bucket and within this upload
+  const resolveRenames = async (entries: QueueEntry[]) => {
+    const taken = new Set(entries.map(entry => entry.item.relativePath));
+    const renaming = entries.filter(entry => entry.conflict && entry.resolution === "rename");
+    let attempt = 1;
+    let unresolved = renaming;
+    
+    while (unresolved.length > 0 && attempt <= MAX_RENAME_ATTEMPTS) {
+      const candidates = new Map(unresolved.map(entry => [entry, getRenamedPath(entry.item.relativePath, attempt)]));
+      const existing = new Set(await findExisting(Array.from(candidates.values())));
       
-      // Initialize progress for each file
-      setUploadProgress(
-        fileList.map(file => ({
-          filename: file.name,
-          progress: 0,
-          status: "pending"
-        }))
+      unresolved = unresolved.filter(entry => {
+        const candidate = candidates.get(entry)!;
+        if (existing.has(candidate) || taken.has(candidate)) {
+          return true;
+        }
+        entry.targetPath = candidate;
+        taken.add(candidate);
+        return false;
+      });
+      attempt++;
+    }
+    
+    if (unresolved.length > 0) {
+      throw new Error(`Could not find a free name for ${unresolved[0].item.relativePath}`);
+    }
+  };
+
+  const uploadEntry = async (entry: QueueEntry, index: number) => {
+    let notice: string | undefined;
+    const updateProgress = (progress: FileUploadProgress) => {
+      notice = progress.notice || notice;
+      updateEntry(index, { progress: { ...progress, filename: entry.targetPath, notice } });
+    };
+    
+    try {
+      updateProgress({ filename: entry.targetPath, progress: 0, status: "uploading" });
+      
+      // Upload the file (large files go straight to S3 in resumable parts)
+      await uploadFileResumable(
+        accountId, 
+        bucket, 
+        entry.item.file, 
+        prefix,
+        updateProgress,
+        entry.targetPath
       );
+      
+      updateProgress({ filename: entry.targetPath, progress: 100, status: "completed" });
+      return true;
+    } catch (error) {
+      updateProgress({
+        filename: entry.targetPath,
+        progress: 0,
+        status: "error",
+        error: error instanceof Error ? error.message : "Upload failed",
+      });
+      return false;
     }
   };
 
   const handleUpload = async () => {
-    if (files.length === 0) {
+    if (queue.length === 0) {
       toast({
         title: "No files selected",
         description: "Please select at least one file to upload",
@@ -152,84 +287,81 @@ export function UploadDialog({ open, onOpenChange, bucket, prefix = "", accountI
       return;
     }
     
+    // First pass: look for conflicts and let the user decide what to do with them
+    if (!conflictsChecked) {
+      setIsCheckingConflicts(true);
+      try {
+        if (await checkConflicts()) {
+          return;
+        }
+      } catch (error) {
+        toast({
+          title: "Could not check for existing files",
+          description: error instanceof Error ? error.message : "Please try again.",
+          variant: "destructive",
+        });
+        return;
+      } finally {
+        setIsCheckingConflicts(false);
+      }
+    }
+    
     setIsUploading(true);
     
     try {
-      const uploadPromises = files.map(async (file, index) => {
-        try {
-          // Update progress as the file uploads
-          const updateProgress = (progress: FileUploadProgress) => {
-            setUploadProgress(prev => {
-              const newProgress = [...prev];
-              newProgress[index] = progress;
-              return newProgress;
-            });
-          };
-          
-          // Start upload with progress
-          updateProgress({
-            filename: file.name,
-            progress: 0,
-            status: "uploading"
-          });
-          
-          // Upload the file
-          await uploadFile(
-            accountId, 
-            bucket, 
-            file, 
-            prefix,
-            updateProgress
-          );
-          
-          // Mark as completed
-          updateProgress({
-            filename: file.name,
-            progress: 100,
-            status: "completed"
-          });
-          
-        } catch (error) {
-          // Handle individual file upload error
-          setUploadProgress(prev => {
-            const newProgress = [...prev];
-            newProgress[index] = {
-              filename: file.name,
-              progress: 0,
-              status: "error",
-              error: error instanceof Error ? error.message : "Upload failed"
-            };
-            return newProgress;
-          });
-          
-          throw error;
-        }
-      });
+      const entries = queue.map(entry => ({ ...entry }));
+      await resolveRenames(entries);
       
-      // Wait for all uploads to complete
-      await Promise.all(uploadPromises);
+      const work = entries
+        .map((entry, index) => ({ entry, index }))
+        .filter(({ entry }) => !(entry.conflict && entry.resolution === "skip"))
+        // Retrying after a partial failure only re-sends what didn't make it
+        .filter(({ entry }) => entry.progress.status !== "completed");
+      setQueue(entries);
+      
+      let next = 0;
+      let failed = 0;
+      const worker = async () => {
+        while (next < work.length) {
+          const { entry, index } = work[next++];
+          if (!(await uploadEntry(entry, index))) {
+            failed++;
+          }
+        }
+      };
+      await Promise.all(Array.from({ length: Math.min(FILE_CONCURRENCY, work.length) }, worker));
       
       // Invalidate the objects query to refresh the list
       queryClient.invalidateQueries({ 
-        queryKey: [`/api/s3/${accountId}/objects`, bucket, prefix] 
+        queryKey: [`/api/s3/${accountId}/objects`, bucket] 
       });
       
+      const skipped = entries.length - work.length;
+      if (failed > 0) {
+        toast({
+          title: "Upload finished with errors",
+          description: `${work.length - failed} uploaded, ${failed} failed${skipped ? `, ${skipped} skipped` : ""}`,
+          variant: "destructive",
+        });
+        return;
+      }
+      
       toast({
         title: "Upload complete",
-        description: `Successfully uploaded ${files.length} file(s)`,
+        description: `Successfully uploaded ${work.length} file(s)${skipped ? `, skipped ${skipped}` : ""}`,
       });
       
       // Close the dialog after a short delay
       setTimeout(() => {
         onOpenChange(false);
-        setFiles([]);
-        setUploadProgress([]);
+        setQueue([]);
+        setConflictsChecked(false);
       }, 1500);
       
     } catch (error) {
       toast({
         title: "Upload failed",
-        description: "Some files failed to upload. Please try again.",
+        description: error instanceof Error ? error.message : "Some files failed to upload. Please try again.",
         variant: "destructive",
       });
     } finally {
@@ -237,13 +369,28 @@ export function UploadDialog({ open, onOpenChange, bucket, prefix = "", accountI
     }
   };
 
+  // Aggregate progress across the files being uploaded, weighted by size
+  const { totalBytes, uploadedBytes } = useMemo(() => {
+    return queue.reduce((totals, entry) => {
+      if (entry.conflict && entry.resolution === "skip") return totals;
+      const size = entry.item.file.size;
+      return {
+        totalBytes: totals.totalBytes + size,
+        uploadedBytes: totals.uploadedBytes + (size * entry.progress.progress) / 100,
+      };
+    }, { totalBytes: 0, uploadedBytes: 0 });
+  }, [queue]);
+  const overallProgress = totalBytes > 0 ? Math.round((uploadedBytes / totalBytes) * 100) : 0;
+  const conflictCount = queue.filter(entry => entry.conflict).length;
+  const hasStarted = queue.some(entry => entry.progress.status !== "pending");
+
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent className="sm:max-w-lg">
         <DialogHeader>
           <DialogTitle>Upload Files</DialogTitle>
           <DialogDescription>
-            Upload files to your S3 bucket.
+            Upload files or whole folders to your S3 bucket.
           </DialogDescription>
         </DialogHeader>
         
@@ -263,7 +410,7 @@ export function UploadDialog({ open, onOpenChange, bucket, prefix = "", accountI
                     <polyline points="17 8 12 3 7 8"></polyline>
                     <line x1="12" y1="3" x2="12" y2="15"></line>
                   </svg>
-                  <p className="font-semibold text-primary mb-1">Drop files to upload</p>
+                  <p className="font-semibold text-primary mb-1">Drop files or folders to upload</p>
                 </>
               ) : (
                 <>
@@ -272,10 +419,12 @@ export function UploadDialog({ open, onOpenChange, bucket, prefix = "", accountI
                     <polyline points="17 8 12 3 7 8"></polyline>
                     <line x1="12" y1="3" x2="12" y2="15"></line>
                   </svg>
-                  <p className="text-muted-foreground mb-1">Drag and drop files here, or click to browse</p>
+                  <p className="text-muted-foreground mb-1">Drag and drop files or folders here, or click to browse</p>
                 </>
               )}
-              <p className="text-xs text-muted-foreground mb-3">Maximum file size: 100MB</p>
+              <p className="text-xs text-muted-foreground mb-3">
+                Files over {formatBytes(MULTIPART_THRESHOLD)} upload directly to S3 and resume if interrupted
+              </p>
               <input 
                 type="file" 
                 className="hidden" 
@@ -283,36 +432,92 @@ export function UploadDialog({ open, onOpenChange, bucket, prefix = "", accountI
                 ref={fileInputRef}
                 onChange={handleFileChange}
               />
-              <Button
-                className="mt-2"
-                onClick={() => fileInputRef.current?.click()}
-                disabled={isUploading}
-                variant={isDragging ? "secondary" : "default"}
-              >
-                Browse Files
-              </Button>
+              <input 
+                type="file" 
+                className="hidden" 
+                ref={folderInputRef}
+                onChange={handleFileChange}
+              />
+              <div className="flex gap-2 mt-2">
+                <Button
+                  onClick={() => fileInputRef.current?.click()}
+                  disabled={isUploading}
+                  variant={isDragging ? "secondary" : "default"}
+                >
+                  Browse Files
+                </Button>
+                <Button
+                  onClick={() => folderInputRef.current?.click()}
+                  disabled={isUploading}
+                  variant="outline"
+                >
+                  Browse Folder
+                </Button>
+              </div>
             </div>
           </div>
           
-          {/* Selected files */}
-          {files.length > 0 && (
+          {/* Upload queue */}
+          {queue.length > 0 && (
             <div className="mt-4 space-y-3">
-              <h3 className="text-sm font-medium">Selected Files ({files.length})</h3>
-              <div className="max-h-[200px] overflow-y-auto space-y-2">
-                {files.map((file, index) => {
-                  const progress = uploadProgress[index];
+              <div className="flex justify-between items-center">
+                <h3 className="text-sm font-medium">Selected Files ({queue.length})</h3>
+                <span className="text-xs text-muted-foreground">{formatBytes(totalBytes)}</span>
+              </div>
+              
+              {hasStarted && (
+                <div className="space-y-1">
+                  <Progress value={overallProgress} className="h-2" />
+                  <p className="text-xs text-muted-foreground text-right">{overallProgress}% overall</p>
+                </div>
+              )}
+              
+              {conflictCount > 0 && !hasStarted && (
+                <div className="rounded-md border border-amber-300 bg-amber-50 dark:bg-amber-950/30 p-3 text-xs space-y-2">
+                  <p>{conflictCount} file(s) already exist at the destination. Choose what to do with each, or for all:</p>
+                  <div className="flex gap-2">
+                    <Button size="sm" variant="outline" onClick={() => setAllResolutions("skip")}>Skip all</Button>
+                    <Button size="sm" variant="outline" onClick={() => setAllResolutions("overwrite")}>Overwrite all</Button>
+                    <Button size="sm" variant="outline" onClick={() => setAllResolutions("rename")}>Keep both</Button>
+                  </div>
+                </div>
+              )}
+              
+              <div className="max-h-[240px] overflow-y-auto space-y-2">
+                {queue.map((entry, index) => {
+                  const progress = entry.progress;
+                  const skipped = entry.conflict && entry.resolution === "skip";
                   return (
-                    <div key={index} className="text-sm bg-muted p-3 rounded-md">
-                      <div className="flex justify-between items-center mb-1">
-                        <span className="font-medium truncate">{file.name}</span>
-                        <span className="text-xs text-muted-foreground">{formatBytes(file.size)}</span>
+                    <div key={`${entry.item.relativePath}-${index}`} className={`text-sm bg-muted p-3 rounded-md ${skipped ? 'opacity-60' : ''}`}>
+                      <div className="flex justify-between items-center mb-1 gap-2">
+                        <span className="font-medium truncate" title={entry.targetPath}>{entry.targetPath}</span>
+                        <span className="text-xs text-muted-foreground whitespace-nowrap">{formatBytes(entry.item.file.size)}</span>
                       </div>
-                      {progress && (
+                      {entry.conflict && !hasStarted && (
+                        <div className="flex items-center justify-between gap-2 mb-1">
+                          <span className="text-xs text-amber-600">Already exists</span>
+                          <Select
+                            value={entry.resolution}
+                            onValueChange={(value) => setResolution(index, value as UploadConflictResolution)}
+                          >
+                            <SelectTrigger className="h-7 w-[130px] text-xs">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="skip">Skip</SelectItem>
+                              <SelectItem value="overwrite">Overwrite</SelectItem>
+                              <SelectItem value="rename">Keep both</SelectItem>
+                            </SelectContent>
+                          </Select>
+                        </div>
+                      )}
+                      {hasStarted && (
                         <div className="space-y-1">
                           <Progress value={progress.progress} className="h-2" />
                           <div className="flex justify-between items-center text-xs">
                             <span>
-                              {progress.status === "pending" && "Pending"}
+                              {skipped && "Skipped"}
+                              {!skipped && progress.status === "pending" && "Pending"}
                               {progress.status === "uploading" && "Uploading..."}
                               {progress.status === "completed" && "Completed"}
                               {progress.status === "error" && "Failed"}
@@ -322,6 +527,9 @@ export function UploadDialog({ open, onOpenChange, bucket, prefix = "", accountI
                           {progress.status === "error" && (
                             <p className="text-xs text-destructive">{progress.error}</p>
                           )}
+                          {progress.status !== "error" && progress.notice && (
+                            <p className="text-xs text-amber-600">{progress.notice}</p>
+                          )}
                         </div>
                       )}
                     </div>
@@ -348,8 +556,8 @@ export function UploadDialog({ open, onOpenChange, bucket, prefix = "", accountI
           <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isUploading}>
             Cancel
           </Button>
-          <Button onClick={handleUpload} disabled={files.length === 0 || isUploading}>
-            {isUploading ? "Uploading..." : "Upload"}
+          <Button onClick={handleUpload} disabled={queue.length === 0 || isUploading || isCheckingConflicts}>
+            {isUploading ? "Uploading..." : isCheckingConflicts ? "Checking..." : "Upload"}
           </Button>
         </DialogFooter>
       </DialogContent>
@@ -0,0 +1,82 @@
+import React, { useMemo, useRef } from 'react';
+import { highlight } from "@/lib/highlight";
+import { cn } from "@/lib/utils";
+import { MAX_HIGHLIGHT_CHARS, TOKEN_CLASSES } from "@/components/files/FilePreview";
+
+interface CodeEditorProps {
+  value: string;
+  onChange: (value: string) => void;
+  // Highlighter language; plain text when not set
+  language?: string;
+  // Called on Ctrl+S / Cmd+S
+  onSave?: () => void;
+  readOnly?: boolean;
+  className?: string;
+}
+
+const INDENT = '  ';
+
+/**
+ * Plain textarea drawn over a highlighted copy of its text. The textarea's own
+ * text is transparent, so the caret and selection come from it and the colours
+ * from the copy underneath, which is scrolled along with it.
+ */
+export function CodeEditor({ value, onChange, language, onSave, readOnly, className }: CodeEditorProps) {
+  const highlightRef = useRef<HTMLPreElement>(null);
+  const highlighted = !!language && value.length <= MAX_HIGHLIGHT_CHARS;
+  const tokens = useMemo(() => highlighted ? highlight(value, language!) : [], [highlighted, value, language]);
+
+  const handleScroll = (e: React.UIEvent<HTMLTextAreaElement>) => {
+    if (!highlightRef.current) return;
+    highlightRef.current.scrollTop = e.currentTarget.scrollTop;
+    highlightRef.current.scrollLeft = e.currentTarget.scrollLeft;
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 's') {
+      e.preventDefault();
+      onSave?.();
+      return;
+    }
+    // Tab indents instead of moving focus out of the editor
+    if (e.key === 'Tab' && !e.shiftKey && !readOnly) {
+      e.preventDefault();
+      const textarea = e.currentTarget;
+      textarea.setRangeText(INDENT, textarea.selectionStart, textarea.selectionEnd, 'end');
+      onChange(textarea.value);
+    }
+  };
+
+  // Both layers need identical metrics for the colours to line up with the text
+  const layer = 'absolute inset-0 m-0 p-3 font-mono text-xs leading-5 whitespace-pre';
+
+  return (
+    <div className={cn('relative overflow-hidden rounded-md border bg-muted/30', className)}>
+      {highlighted && (
+        <pre ref={highlightRef} aria-hidden className={cn(layer, 'overflow-hidden pointer-events-none')}>
+          {tokens.map((token, index) => token.type === 'plain'
+            ? token.text
+            : <span key={index} className={TOKEN_CLASSES[token.type]}>{token.text}</span>)}
+          {/* Keeps a trailing newline's empty last line the same height as the textarea's */}
+          {'\n'}
+        </pre>
+      )}
+      <textarea
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        onScroll={handleScroll}
+        onKeyDown={handleKeyDown}
+        readOnly={readOnly}
+        spellCheck={false}
+        autoCapitalize="off"
+        autoComplete="off"
+        wrap="off"
+        className={cn(
+          layer,
+          'h-full w-full resize-none overflow-auto bg-transparent outline-none',
+          highlighted && 'text-transparent caret-foreground selection:bg-primary/25'
+        )}
+      />
+    </div>
+  );
+}
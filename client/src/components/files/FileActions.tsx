@@ -1,4 +1,5 @@
 import { useState } from "react";
+import { useLocation } from "wouter";
 import { Button } from "@/components/ui/button";
 import {
   Select,
@@ -11,6 +12,8 @@ import {
   DropdownMenu,
   DropdownMenuContent,
   DropdownMenuItem,
+  DropdownMenuCheckboxItem,
+  DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import { UploadDialog } from "@/components/dialogs/UploadDialog";
@@ -32,10 +35,22 @@ interface FileActionsProps {
   onBatchDelete: () => void;
   onBatchMove?: () => void;
   onBatchCopy?: () => void;
+  onBatchEditMetadata?: () => void;
+  onBatchChangeStorageClass?: () => void;
+  onBatchRestore?: () => void;
+  onBatchShare?: () => void;
+  // Set when exactly one small text file is selected
+  onEdit?: () => void;
   onSelectAll: () => void;
   onClearSelection: () => void;
   onSearch?: (query: string) => void;
+  // Search the whole bucket rather than the loaded folder
+  onAdvancedSearch?: (query: string) => void;
   onUpload?: () => void;
+  // Create an upload-only link into the current folder
+  onRequestFiles?: () => void;
+  showDeleted?: boolean;
+  onShowDeletedChange?: (show: boolean) => void;
 }
 
 export function FileActions({
@@ -54,11 +69,21 @@ export function FileActions({
   onBatchDelete,
   onBatchMove,
   onBatchCopy,
+  onBatchEditMetadata,
+  onBatchChangeStorageClass,
+  onBatchRestore,
+  onBatchShare,
+  onEdit,
   onSelectAll,
   onClearSelection,
   onSearch,
+  onAdvancedSearch,
   onUpload,
+  onRequestFiles,
+  showDeleted = false,
+  onShowDeletedChange,
 }: FileActionsProps) {
+  const [, navigate] = useLocation();
   const [isUploadOpen, setIsUploadOpen] = useState(false);
   const [searchText, setSearchText] = useState("");
   
@@ -131,6 +156,12 @@ export function FileActions({
               </Button>
             </DropdownMenuTrigger>
             <DropdownMenuContent align="end" className="w-40 sm:w-48">
+              {onEdit && (
+                <DropdownMenuItem onClick={onEdit}>
+                  <i className="ri-edit-2-line mr-2"></i>
+                  Edit File
+                </DropdownMenuItem>
+              )}
               <DropdownMenuItem onClick={() => onBatchMove && onBatchMove()}>
                 <i className="ri-file-transfer-line mr-2"></i>
                 Move Files
@@ -139,6 +170,30 @@ export function FileActions({
                 <i className="ri-file-copy-line mr-2"></i>
                 Copy Files
               </DropdownMenuItem>
+              {onBatchShare && (
+                <DropdownMenuItem onClick={onBatchShare}>
+                  <i className="ri-links-line mr-2"></i>
+                  Share Files
+                </DropdownMenuItem>
+              )}
+              {onBatchEditMetadata && (
+                <DropdownMenuItem onClick={onBatchEditMetadata}>
+                  <i className="ri-price-tag-3-line mr-2"></i>
+                  Edit Metadata
+                </DropdownMenuItem>
+              )}
+              {onBatchChangeStorageClass && (
+                <DropdownMenuItem onClick={onBatchChangeStorageClass}>
+                  <i className="ri-stack-line mr-2"></i>
+                  Storage Class
+                </DropdownMenuItem>
+              )}
+              {onBatchRestore && (
+                <DropdownMenuItem onClick={onBatchRestore}>
+                  <i className="ri-snowy-line mr-2"></i>
+                  Restore from Archive
+                </DropdownMenuItem>
+              )}
             </DropdownMenuContent>
           </DropdownMenu>
           
@@ -166,6 +221,12 @@ export function FileActions({
                   setSearchText(e.target.value);
                   onSearch(e.target.value);
                 }}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter" && onAdvancedSearch) {
+                    onAdvancedSearch(searchText);
+                  }
+                }}
+                title={onAdvancedSearch ? "Press Enter to search all subfolders" : undefined}
               />
               {searchText && (
                 <button 
@@ -219,6 +280,12 @@ export function FileActions({
                 <i className="ri-upload-line mr-2"></i>
                 Upload files
               </DropdownMenuItem>
+              {onRequestFiles && (
+                <DropdownMenuItem onClick={onRequestFiles}>
+                  <i className="ri-inbox-archive-line mr-2"></i>
+                  Request files
+                </DropdownMenuItem>
+              )}
               <DropdownMenuItem>
                 <i className="ri-folder-add-line mr-2"></i>
                 New folder
@@ -227,6 +294,29 @@ export function FileActions({
                 <i className="ri-refresh-line mr-2"></i>
                 Refresh
               </DropdownMenuItem>
+              <DropdownMenuItem
+                onClick={() => navigate(`/bucket-settings?account=${accountId}&bucket=${encodeURIComponent(bucket)}`)}
+              >
+                <i className="ri-settings-4-line mr-2"></i>
+                Bucket settings
+              </DropdownMenuItem>
+              {onAdvancedSearch && (
+                <DropdownMenuItem onClick={() => onAdvancedSearch(searchText)}>
+                  <i className="ri-search-eye-line mr-2"></i>
+                  Search bucket
+                </DropdownMenuItem>
+              )}
+              {onShowDeletedChange && (
+                <>
+                  <DropdownMenuSeparator />
+                  <DropdownMenuCheckboxItem
+                    checked={showDeleted}
+                    onCheckedChange={(checked) => onShowDeletedChange(!!checked)}
+                  >
+                    Show deleted files
+                  </DropdownMenuCheckboxItem>
+                </>
+              )}
             </DropdownMenuContent>
           </DropdownMenu>
           
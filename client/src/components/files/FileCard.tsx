@@ -1,7 +1,10 @@
 import React from 'react';
 import { formatBytes, formatDate } from '@/lib/utils';
 import { S3Object } from '@/lib/types';
+import { isArchiveStorageClass } from '@/lib/s3';
+import { hasThumbnail } from '@shared/file-preview';
 import { FileIcon } from './FileIcon';
+import { FileThumbnail } from './FileThumbnail';
 import { Button } from '@/components/ui/button';
 import { Checkbox } from '@/components/ui/checkbox';
 import { useToast } from '@/hooks/use-toast';
@@ -11,7 +14,7 @@ import {
   DropdownMenuItem,
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
-import { MoreHorizontal, Download, Trash, PenSquare, Link, ExternalLink } from 'lucide-react';
+import { MoreHorizontal, Download, Trash, PenSquare, Link, ExternalLink, History, Info, Layers, Snowflake, Eye, FilePen } from 'lucide-react';
 
 interface FileCardProps {
   file: S3Object;
@@ -23,8 +26,16 @@ interface FileCardProps {
   onSelect?: (file: S3Object, selected: boolean) => void;
   onDelete?: () => void;
   onDownload?: () => void;
+  // Set for files that can be previewed; clicking the file opens the preview instead of downloading
+  onPreview?: () => void;
+  // Set for small text files that can be edited in place
+  onEdit?: () => void;
   onRename?: () => void;
   onShare?: () => void;
+  onVersions?: () => void;
+  onDetails?: () => void;
+  onChangeStorageClass?: () => void;
+  onRestore?: () => void;
   viewMode: 'grid' | 'list';
 }
 
@@ -38,14 +49,23 @@ export function FileCard({
   onSelect,
   onDelete,
   onDownload,
+  onPreview,
+  onEdit,
   onRename,
   onShare,
+  onVersions,
+  onDetails,
+  onChangeStorageClass,
+  onRestore,
   viewMode,
 }: FileCardProps) {
   const { toast } = useToast();
   const fileName = file.Key?.split('/').pop() || '';
   const fileSize = file.Size || 0;
   const lastModified = file.LastModified ? new Date(file.LastModified) : new Date();
+  const isArchived = isArchiveStorageClass(file.StorageClass);
+  // Archived objects can't be read, so they keep their icon
+  const showThumbnail = !!file.Key && !isArchived && hasThumbnail(fileName);
 
   const handleSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (onSelect) {
@@ -70,19 +90,36 @@ export function FileCard({
           </div>
         )}
 
-        <div className="flex flex-col items-center justify-center p-3 sm:p-6 group cursor-pointer" onClick={onDownload}>
-          <FileIcon 
-            filename={fileName} 
-            size="lg" 
-            showBackground
-            className="mb-2 sm:mb-4 h-12 w-12 sm:h-16 sm:w-16"
-          />
+        <div className="flex flex-col items-center justify-center p-3 sm:p-6 group cursor-pointer" onClick={onPreview || onDownload}>
+          {showThumbnail ? (
+            <FileThumbnail
+              key={file.ETag}
+              accountId={accountId}
+              bucket={bucket}
+              fileKey={file.Key!}
+              filename={fileName}
+              etag={file.ETag}
+              className="mb-2 sm:mb-4 h-24 w-full sm:h-28"
+            />
+          ) : (
+            <FileIcon 
+              filename={fileName} 
+              size="lg" 
+              showBackground
+              className="mb-2 sm:mb-4 h-12 w-12 sm:h-16 sm:w-16"
+            />
+          )}
           <div className="w-full mt-1 sm:mt-2 text-center space-y-0.5 sm:space-y-1">
             <p className="text-xs sm:text-sm font-medium truncate max-w-full" title={fileName}>
               {fileName}
             </p>
             <p className="text-[10px] sm:text-xs text-muted-foreground">
               {formatBytes(fileSize)}
+              {isArchived && (
+                <span className="ml-1.5 inline-flex items-center text-sky-600" title={`Archived (${file.StorageClass})`}>
+                  <Snowflake className="h-3 w-3" />
+                </span>
+              )}
             </p>
           </div>
         </div>
@@ -99,6 +136,18 @@ export function FileCard({
               </Button>
             </DropdownMenuTrigger>
             <DropdownMenuContent align="end" className="min-w-[160px] sm:min-w-[200px]">
+              {onPreview && (
+                <DropdownMenuItem onClick={onPreview} className="cursor-pointer text-xs sm:text-sm py-1.5">
+                  <Eye className="mr-2 h-3.5 w-3.5 sm:h-4 sm:w-4" />
+                  <span>Preview</span>
+                </DropdownMenuItem>
+              )}
+              {onEdit && (
+                <DropdownMenuItem onClick={onEdit} className="cursor-pointer text-xs sm:text-sm py-1.5">
+                  <FilePen className="mr-2 h-3.5 w-3.5 sm:h-4 sm:w-4" />
+                  <span>Edit</span>
+                </DropdownMenuItem>
+              )}
               <DropdownMenuItem onClick={onDownload} className="cursor-pointer text-xs sm:text-sm py-1.5">
                 <Download className="mr-2 h-3.5 w-3.5 sm:h-4 sm:w-4" />
                 <span>Download</span>
@@ -125,6 +174,30 @@ export function FileCard({
                 <PenSquare className="mr-2 h-3.5 w-3.5 sm:h-4 sm:w-4" />
                 <span>Rename</span>
               </DropdownMenuItem>
+              {onDetails && (
+                <DropdownMenuItem onClick={onDetails} className="cursor-pointer text-xs sm:text-sm py-1.5">
+                  <Info className="mr-2 h-3.5 w-3.5 sm:h-4 sm:w-4" />
+                  <span>Details</span>
+                </DropdownMenuItem>
+              )}
+              {onChangeStorageClass && (
+                <DropdownMenuItem onClick={onChangeStorageClass} className="cursor-pointer text-xs sm:text-sm py-1.5">
+                  <Layers className="mr-2 h-3.5 w-3.5 sm:h-4 sm:w-4" />
+                  <span>Storage class</span>
+                </DropdownMenuItem>
+              )}
+              {isArchived && onRestore && (
+                <DropdownMenuItem onClick={onRestore} className="cursor-pointer text-xs sm:text-sm py-1.5">
+                  <Snowflake className="mr-2 h-3.5 w-3.5 sm:h-4 sm:w-4" />
+                  <span>Restore from archive</span>
+                </DropdownMenuItem>
+              )}
+              {onVersions && (
+                <DropdownMenuItem onClick={onVersions} className="cursor-pointer text-xs sm:text-sm py-1.5">
+                  <History className="mr-2 h-3.5 w-3.5 sm:h-4 sm:w-4" />
+                  <span>Versions</span>
+                </DropdownMenuItem>
+              )}
               <DropdownMenuItem onClick={onDelete} className="cursor-pointer text-destructive text-xs sm:text-sm py-1.5">
                 <Trash className="mr-2 h-3.5 w-3.5 sm:h-4 sm:w-4" />
                 <span>Delete</span>
@@ -152,7 +225,7 @@ export function FileCard({
           />
         )}
         
-        <div className="flex items-center space-x-2 sm:space-x-3 flex-1 min-w-0 cursor-pointer" onClick={onDownload}>
+        <div className="flex items-center space-x-2 sm:space-x-3 flex-1 min-w-0 cursor-pointer" onClick={onPreview || onDownload}>
           <FileIcon filename={fileName} size="md" className="h-8 w-8 sm:h-10 sm:w-10" />
           
           <div className="flex-1 min-w-0">
@@ -163,6 +236,15 @@ export function FileCard({
               <span>{formatBytes(fileSize)}</span>
               <span className="hidden sm:inline">•</span>
               <span>{formatDate(lastModified)}</span>
+              {isArchived && (
+                <>
+                  <span className="hidden sm:inline">•</span>
+                  <span className="inline-flex items-center text-sky-600">
+                    <Snowflake className="mr-1 h-3 w-3" />
+                    {file.StorageClass}
+                  </span>
+                </>
+              )}
             </div>
           </div>
         </div>
@@ -198,6 +280,18 @@ export function FileCard({
             </Button>
           </DropdownMenuTrigger>
           <DropdownMenuContent align="end" className="min-w-[150px] sm:min-w-[180px]">
+            {onPreview && (
+              <DropdownMenuItem onClick={onPreview} className="cursor-pointer text-xs sm:text-sm py-1.5">
+                <Eye className="mr-2 h-3.5 w-3.5 sm:h-4 sm:w-4" />
+                <span>Preview</span>
+              </DropdownMenuItem>
+            )}
+            {onEdit && (
+              <DropdownMenuItem onClick={onEdit} className="cursor-pointer text-xs sm:text-sm py-1.5">
+                <FilePen className="mr-2 h-3.5 w-3.5 sm:h-4 sm:w-4" />
+                <span>Edit</span>
+              </DropdownMenuItem>
+            )}
             <DropdownMenuItem onClick={onDownload} className="cursor-pointer text-xs sm:text-sm py-1.5 sm:hidden">
               <Download className="mr-2 h-3.5 w-3.5" />
               <span>Download</span>
@@ -210,6 +304,30 @@ export function FileCard({
               <PenSquare className="mr-2 h-3.5 w-3.5 sm:h-4 sm:w-4" />
               <span>Rename</span>
             </DropdownMenuItem>
+            {onDetails && (
+              <DropdownMenuItem onClick={onDetails} className="cursor-pointer text-xs sm:text-sm py-1.5">
+                <Info className="mr-2 h-3.5 w-3.5 sm:h-4 sm:w-4" />
+                <span>Details</span>
+              </DropdownMenuItem>
+            )}
+            {onChangeStorageClass && (
+              <DropdownMenuItem onClick={onChangeStorageClass} className="cursor-pointer text-xs sm:text-sm py-1.5">
+                <Layers className="mr-2 h-3.5 w-3.5 sm:h-4 sm:w-4" />
+                <span>Storage class</span>
+              </DropdownMenuItem>
+            )}
+            {isArchived && onRestore && (
+              <DropdownMenuItem onClick={onRestore} className="cursor-pointer text-xs sm:text-sm py-1.5">
+                <Snowflake className="mr-2 h-3.5 w-3.5 sm:h-4 sm:w-4" />
+                <span>Restore from archive</span>
+              </DropdownMenuItem>
+            )}
+            {onVersions && (
+              <DropdownMenuItem onClick={onVersions} className="cursor-pointer text-xs sm:text-sm py-1.5">
+                <History className="mr-2 h-3.5 w-3.5 sm:h-4 sm:w-4" />
+                <span>Versions</span>
+              </DropdownMenuItem>
+            )}
             <DropdownMenuItem 
               onClick={() => {
                 const publicUrl = `https://${bucket}.s3.amazonaws.com/${file.Key}`;
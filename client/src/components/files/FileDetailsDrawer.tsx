@@ -0,0 +1,343 @@
+import { useEffect, useState } from 'react';
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetFooter,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { formatBytes, formatDate } from "@/lib/utils";
+import { S3MetadataUpdate, S3SystemMetadata } from "@/lib/types";
+import { useS3ObjectMetadata } from "@/hooks/use-s3";
+import { Plus, X } from "lucide-react";
+
+interface FileDetailsDrawerProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  accountId: number;
+  bucket: string;
+  // One key shows and edits that object; several keys edit them all at once
+  keys: string[];
+}
+
+interface Entry {
+  name: string;
+  value: string;
+}
+
+const SYSTEM_FIELDS: { field: keyof S3SystemMetadata; label: string; placeholder: string }[] = [
+  { field: 'contentType', label: 'Content-Type', placeholder: 'e.g. image/png' },
+  { field: 'cacheControl', label: 'Cache-Control', placeholder: 'e.g. max-age=3600' },
+  { field: 'contentDisposition', label: 'Content-Disposition', placeholder: 'e.g. attachment' },
+  { field: 'contentEncoding', label: 'Content-Encoding', placeholder: 'e.g. gzip' },
+  { field: 'contentLanguage', label: 'Content-Language', placeholder: 'e.g. en-US' },
+];
+
+const EMPTY_SYSTEM: S3SystemMetadata = {
+  contentType: '',
+  cacheControl: '',
+  contentDisposition: '',
+  contentEncoding: '',
+  contentLanguage: '',
+};
+
+function toEntries(record: Record<string, string> = {}): Entry[] {
+  return Object.entries(record).map(([name, value]) => ({ name, value }));
+}
+
+// Rows without a name are ignored
+function toRecord(entries: Entry[]): Record<string, string> {
+  return Object.fromEntries(
+    entries.filter(entry => entry.name.trim()).map(entry => [entry.name.trim(), entry.value])
+  );
+}
+
+function isSameRecord(a: Record<string, string>, b: Record<string, string>) {
+  const aKeys = Object.keys(a);
+  return aKeys.length === Object.keys(b).length && aKeys.every(key => b[key] === a[key]);
+}
+
+function EntryEditor({
+  entries,
+  onChange,
+  namePlaceholder,
+  valuePlaceholder,
+  disabled,
+}: {
+  entries: Entry[];
+  onChange: (entries: Entry[]) => void;
+  namePlaceholder: string;
+  valuePlaceholder: string;
+  disabled?: boolean;
+}) {
+  const updateEntry = (index: number, change: Partial<Entry>) => {
+    onChange(entries.map((entry, i) => i === index ? { ...entry, ...change } : entry));
+  };
+
+  return (
+    <div className="space-y-2">
+      {entries.map((entry, index) => (
+        <div key={index} className="flex items-center gap-2">
+          <Input
+            value={entry.name}
+            placeholder={namePlaceholder}
+            onChange={(e) => updateEntry(index, { name: e.target.value })}
+            className="h-8 text-sm"
+            disabled={disabled}
+          />
+          <Input
+            value={entry.value}
+            placeholder={valuePlaceholder}
+            onChange={(e) => updateEntry(index, { value: e.target.value })}
+            className="h-8 text-sm"
+            disabled={disabled}
+          />
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8 shrink-0"
+            onClick={() => onChange(entries.filter((_, i) => i !== index))}
+            disabled={disabled}
+            title="Remove"
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+      <Button
+        variant="outline"
+        size="sm"
+        className="h-7"
+        onClick={() => onChange([...entries, { name: '', value: '' }])}
+        disabled={disabled}
+      >
+        <Plus className="mr-1.5 h-3.5 w-3.5" />
+        Add
+      </Button>
+    </div>
+  );
+}
+
+/**
+ * Drawer showing an object's system metadata, user metadata (x-amz-meta-*) and
+ * tags, with an editor. Metadata changes are saved by copying the object over
+ * itself; with several keys the entered values are applied to each object.
+ */
+export function FileDetailsDrawer({ open, onOpenChange, accountId, bucket, keys }: FileDetailsDrawerProps) {
+  const isBulk = keys.length > 1;
+  const singleKey = open && keys.length === 1 ? keys[0] : undefined;
+  const { details, isLoading, isError, error, updateMetadata, isUpdating } = useS3ObjectMetadata(accountId, bucket, singleKey);
+
+  const [system, setSystem] = useState<S3SystemMetadata>(EMPTY_SYSTEM);
+  const [metadata, setMetadata] = useState<Entry[]>([]);
+  const [tags, setTags] = useState<Entry[]>([]);
+
+  // Start from the object's current values, or from a blank form for bulk edits
+  useEffect(() => {
+    if (!open) return;
+
+    if (!isBulk && details) {
+      setSystem({
+        contentType: details.contentType || '',
+        cacheControl: details.cacheControl || '',
+        contentDisposition: details.contentDisposition || '',
+        contentEncoding: details.contentEncoding || '',
+        contentLanguage: details.contentLanguage || '',
+      });
+      setMetadata(toEntries(details.metadata));
+      setTags(toEntries(details.tags));
+    } else if (isBulk) {
+      setSystem(EMPTY_SYSTEM);
+      setMetadata([]);
+      setTags([]);
+    }
+  }, [open, isBulk, details]);
+
+  const buildUpdate = (): S3MetadataUpdate | null => {
+    if (isBulk) {
+      // Only what was filled in is applied; everything else is left as it is
+      const changedSystem = Object.fromEntries(
+        Object.entries(system).filter(([, value]) => value)
+      ) as S3SystemMetadata;
+      const metadataChanges = toRecord(metadata);
+      const tagChanges = toRecord(tags);
+
+      const update: S3MetadataUpdate = { mode: 'merge' };
+      if (Object.keys(changedSystem).length > 0) update.system = changedSystem;
+      if (Object.keys(metadataChanges).length > 0) update.metadata = metadataChanges;
+      if (Object.keys(tagChanges).length > 0) update.tags = tagChanges;
+      return update.system || update.metadata || update.tags ? update : null;
+    }
+
+    if (!details) return null;
+
+    const update: S3MetadataUpdate = { mode: 'replace' };
+    const systemChanged = SYSTEM_FIELDS.some(({ field }) => (system[field] || '') !== (details[field] || ''));
+    const nextMetadata = toRecord(metadata);
+    const nextTags = toRecord(tags);
+
+    if (systemChanged) update.system = system;
+    if (!isSameRecord(nextMetadata, details.metadata)) update.metadata = nextMetadata;
+    if (!isSameRecord(nextTags, details.tags)) update.tags = nextTags;
+    return update.system || update.metadata || update.tags ? update : null;
+  };
+
+  const handleSave = async () => {
+    const update = buildUpdate();
+    if (!update) {
+      onOpenChange(false);
+      return;
+    }
+
+    try {
+      const result = await updateMetadata(keys, update);
+      if (result.errors.length === 0) {
+        onOpenChange(false);
+      }
+    } catch {
+      // The hook already reported the error
+    }
+  };
+
+  const fileName = keys[0]?.split('/').pop() || '';
+  const showForm = isBulk || !!details;
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent className="w-full sm:max-w-lg overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>{isBulk ? 'Edit metadata' : 'File details'}</SheetTitle>
+          <SheetDescription className="break-all">
+            {isBulk
+              ? `Changes apply to ${keys.length} selected item(s). Leave a field blank to keep each file's current value.`
+              : fileName}
+          </SheetDescription>
+        </SheetHeader>
+
+        {!isBulk && isLoading && (
+          <div className="mt-6 space-y-3">
+            <Skeleton className="h-24 w-full" />
+            <Skeleton className="h-40 w-full" />
+          </div>
+        )}
+
+        {!isBulk && isError && (
+          <p className="mt-6 text-sm text-destructive">
+            {error instanceof Error ? error.message : "Failed to load file details"}
+          </p>
+        )}
+
+        {!isBulk && details && (
+          <dl className="mt-6 grid grid-cols-3 gap-x-3 gap-y-1.5 text-sm">
+            <dt className="text-muted-foreground">Size</dt>
+            <dd className="col-span-2">{details.size !== undefined ? formatBytes(details.size) : '-'}</dd>
+            <dt className="text-muted-foreground">Modified</dt>
+            <dd className="col-span-2">{details.lastModified ? formatDate(details.lastModified) : '-'}</dd>
+            <dt className="text-muted-foreground">Storage class</dt>
+            <dd className="col-span-2">
+              {details.storageClass}
+              {details.archiveStatus && ` (${details.archiveStatus})`}
+            </dd>
+            {details.isArchived && (
+              <>
+                <dt className="text-muted-foreground">Restore</dt>
+                <dd className="col-span-2">
+                  {details.restoreStatus === 'in-progress'
+                    ? 'In progress'
+                    : details.restoreStatus === 'restored'
+                      ? `Restored${details.restoreExpiresAt ? ` until ${formatDate(details.restoreExpiresAt)}` : ''}`
+                      : 'Archived - restore required before download'}
+                </dd>
+              </>
+            )}
+            <dt className="text-muted-foreground">Encryption</dt>
+            <dd className="col-span-2 break-all">
+              {details.serverSideEncryption || 'None'}
+              {details.sseKmsKeyId && <span className="block text-xs text-muted-foreground">{details.sseKmsKeyId}</span>}
+            </dd>
+            <dt className="text-muted-foreground">ETag</dt>
+            <dd className="col-span-2 font-mono text-xs break-all">{details.etag?.replace(/"/g, '') || '-'}</dd>
+            {details.versionId && (
+              <>
+                <dt className="text-muted-foreground">Version</dt>
+                <dd className="col-span-2 font-mono text-xs break-all">{details.versionId}</dd>
+              </>
+            )}
+          </dl>
+        )}
+
+        {showForm && (
+          <div className="mt-6 space-y-6">
+            <div className="space-y-3">
+              <h3 className="text-sm font-semibold">System metadata</h3>
+              {SYSTEM_FIELDS.map(({ field, label, placeholder }) => (
+                <div key={field} className="grid grid-cols-3 items-center gap-3">
+                  <Label htmlFor={`metadata-${field}`} className="text-sm">{label}</Label>
+                  <Input
+                    id={`metadata-${field}`}
+                    value={system[field] || ''}
+                    placeholder={isBulk ? 'Keep current' : placeholder}
+                    onChange={(e) => setSystem(prev => ({ ...prev, [field]: e.target.value }))}
+                    className="col-span-2 h-8 text-sm"
+                    disabled={isUpdating}
+                  />
+                </div>
+              ))}
+            </div>
+
+            <div className="space-y-3">
+              <h3 className="text-sm font-semibold">User metadata</h3>
+              <p className="text-xs text-muted-foreground">
+                Sent as x-amz-meta-&lt;name&gt; headers.
+                {isBulk && ' Entries are added to each file; an empty value removes that entry.'}
+              </p>
+              <EntryEditor
+                entries={metadata}
+                onChange={setMetadata}
+                namePlaceholder="Name"
+                valuePlaceholder="Value"
+                disabled={isUpdating}
+              />
+            </div>
+
+            <div className="space-y-3">
+              <h3 className="text-sm font-semibold">Tags</h3>
+              <p className="text-xs text-muted-foreground">
+                Up to 10 tags per file.
+                {isBulk && ' Tags are added to each file; an empty value removes that tag.'}
+              </p>
+              <EntryEditor
+                entries={tags}
+                onChange={setTags}
+                namePlaceholder="Key"
+                valuePlaceholder="Value"
+                disabled={isUpdating}
+              />
+            </div>
+          </div>
+        )}
+
+        <SheetFooter className="mt-6">
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isUpdating}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={!showForm || isUpdating}>
+            {isUpdating ? (
+              <>
+                <span className="mr-2">Saving...</span>
+                <i className="ri-loader-4-line animate-spin"></i>
+              </>
+            ) : (
+              'Save'
+            )}
+          </Button>
+        </SheetFooter>
+      </SheetContent>
+    </Sheet>
+  );
+}
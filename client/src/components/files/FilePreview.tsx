@@ -0,0 +1,309 @@
+import { useEffect, useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { FileIcon } from "@/components/files/FileIcon";
+import { useFilePreview } from "@/hooks/use-s3";
+import { getTextPreview } from "@/lib/s3";
+import { getApiErrorMessage } from "@/lib/queryClient";
+import { highlight, TokenType } from "@/lib/highlight";
+import { S3Object, TextPreview } from "@/lib/types";
+import { formatBytes } from "@/lib/utils";
+import { getCodeLanguage, MAX_TEXT_PREVIEW_BYTES, PreviewKind } from "@shared/file-preview";
+
+// Larger text is shown without colours; highlighting it would make the page sluggish
+export const MAX_HIGHLIGHT_CHARS = 100 * 1024;
+
+// CSV files are shown as a table up to this many rows
+const MAX_CSV_ROWS = 500;
+
+export const TOKEN_CLASSES: Record<TokenType, string> = {
+  plain: '',
+  comment: 'text-muted-foreground italic',
+  string: 'text-emerald-700 dark:text-emerald-400',
+  number: 'text-amber-700 dark:text-amber-400',
+  keyword: 'text-violet-700 dark:text-violet-400 font-medium',
+  literal: 'text-sky-700 dark:text-sky-400',
+  tag: 'text-rose-700 dark:text-rose-400',
+  attr: 'text-sky-800 dark:text-sky-300',
+};
+
+// Quoted fields may contain commas and doubled quotes; quoted newlines aren't supported
+function parseCsvLine(line: string, separator: string) {
+  const fields: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === separator) {
+      fields.push(field);
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  fields.push(field);
+  return fields;
+}
+
+function CodeView({ text, language }: { text: string; language?: string }) {
+  const tokens = useMemo(
+    () => language && text.length <= MAX_HIGHLIGHT_CHARS ? highlight(text, language) : undefined,
+    [text, language]
+  );
+
+  return (
+    <pre className="text-xs font-mono whitespace-pre p-4 overflow-auto h-full bg-muted/30 rounded-md">
+      {tokens
+        ? tokens.map((token, index) => token.type === 'plain'
+          ? token.text
+          : <span key={index} className={TOKEN_CLASSES[token.type]}>{token.text}</span>)
+        : text}
+    </pre>
+  );
+}
+
+function CsvView({ text, separator }: { text: string; separator: string }) {
+  const rows = useMemo(
+    () => text.split(/\r?\n/).filter(line => line.length > 0).slice(0, MAX_CSV_ROWS + 1).map(line => parseCsvLine(line, separator)),
+    [text, separator]
+  );
+  const [header, ...body] = rows;
+  if (!header) return <CodeView text={text} />;
+
+  return (
+    <div className="overflow-auto h-full rounded-md border">
+      <table className="text-xs w-full">
+        <thead className="sticky top-0 bg-muted">
+          <tr>
+            {header.map((cell, index) => (
+              <th key={index} className="px-2 py-1.5 text-left font-semibold whitespace-nowrap">{cell}</th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {body.slice(0, MAX_CSV_ROWS).map((row, rowIndex) => (
+            <tr key={rowIndex} className="border-t">
+              {row.map((cell, index) => (
+                <td key={index} className="px-2 py-1 whitespace-nowrap">{cell}</td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+function TextView({ filename, preview }: { filename: string; preview: TextPreview }) {
+  const extension = filename.split('.').pop()?.toLowerCase();
+  const language = getCodeLanguage(filename);
+
+  // Pretty-print JSON when the whole file was read and parses
+  const text = useMemo(() => {
+    if (language !== 'json' || preview.truncated) return preview.text;
+    try {
+      return JSON.stringify(JSON.parse(preview.text), null, 2);
+    } catch {
+      return preview.text;
+    }
+  }, [language, preview]);
+
+  return (
+    <div className="flex flex-col w-full h-full gap-2">
+      {preview.truncated && (
+        <p className="text-xs text-muted-foreground">
+          Showing the first {formatBytes(MAX_TEXT_PREVIEW_BYTES)} of {formatBytes(preview.size)}. Download the file to see all of it.
+        </p>
+      )}
+      <div className="flex-1 min-h-0">
+        {extension === 'csv' || extension === 'tsv'
+          ? <CsvView text={text} separator={extension === 'tsv' ? '\t' : ','} />
+          : <CodeView text={text} language={language} />}
+      </div>
+    </div>
+  );
+}
+
+interface FilePreviewContentProps {
+  filename: string;
+  kind: PreviewKind;
+  // Signed inline URL for images, PDFs, video and audio
+  url?: string;
+  // Reads the start of a text or code file
+  loadText: () => Promise<TextPreview>;
+  // Cache key for the loaded text
+  textQueryKey: unknown[];
+}
+
+/**
+ * Renders a file the way the browser can show it: images, PDFs and media from
+ * their signed URL, text and code from a size-capped read of the file.
+ */
+export function FilePreviewContent({ filename, kind, url, loadText, textQueryKey }: FilePreviewContentProps) {
+  const isText = kind === 'text' || kind === 'code';
+  const textQuery = useQuery({
+    queryKey: textQueryKey,
+    queryFn: loadText,
+    enabled: isText,
+    staleTime: 5 * 60 * 1000,
+    retry: false,
+  });
+
+  if (isText) {
+    if (textQuery.isLoading) {
+      return <p className="text-sm text-muted-foreground"><i className="ri-loader-4-line animate-spin mr-1.5"></i>Loading…</p>;
+    }
+    if (textQuery.error || !textQuery.data) {
+      return <p className="text-sm text-destructive">{getApiErrorMessage(textQuery.error, "Could not load this file")}</p>;
+    }
+    return <TextView filename={filename} preview={textQuery.data} />;
+  }
+
+  if (!url) return null;
+
+  switch (kind) {
+    case 'image':
+      return <img src={url} alt={filename} className="max-w-full max-h-full object-contain mx-auto" />;
+    case 'pdf':
+      return <iframe src={url} title={filename} className="w-full h-full rounded-md border bg-white" />;
+    case 'video':
+      // The browser streams from the signed URL with range requests
+      return <video key={url} src={url} controls className="max-w-full max-h-full mx-auto bg-black" />;
+    case 'audio':
+      return (
+        <div className="flex flex-col items-center justify-center w-full h-full gap-6">
+          <FileIcon filename={filename} size="lg" showBackground className="h-20 w-20" />
+          <audio key={url} src={url} controls className="w-full max-w-md" />
+        </div>
+      );
+    default:
+      return null;
+  }
+}
+
+interface FilePreviewDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  accountId: number;
+  bucket: string;
+  // The previewable files of the folder, in the order they are listed
+  files: S3Object[];
+  currentKey: string | null;
+  onNavigate: (key: string) => void;
+  onDownload: (key: string) => void;
+}
+
+/**
+ * Lightbox for previewing the files of a folder, with previous/next buttons
+ * and arrow-key navigation.
+ */
+export function FilePreviewDialog({
+  open,
+  onOpenChange,
+  accountId,
+  bucket,
+  files,
+  currentKey,
+  onNavigate,
+  onDownload,
+}: FilePreviewDialogProps) {
+  const { preview, isLoading, error } = useFilePreview(accountId, bucket, open && currentKey ? currentKey : undefined);
+
+  const index = files.findIndex(file => file.Key === currentKey);
+  const previous = index > 0 ? files[index - 1] : undefined;
+  const next = index >= 0 && index < files.length - 1 ? files[index + 1] : undefined;
+  const filename = currentKey?.split('/').pop() || '';
+
+  useEffect(() => {
+    if (!open) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      // Leave arrow keys alone while a video or audio control has focus
+      if (e.target instanceof HTMLMediaElement || e.target instanceof HTMLInputElement) return;
+      if (e.key === 'ArrowLeft' && previous?.Key) onNavigate(previous.Key);
+      if (e.key === 'ArrowRight' && next?.Key) onNavigate(next.Key);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [open, previous, next, onNavigate]);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-5xl w-[95vw] h-[90vh] flex flex-col">
+        <DialogHeader className="pr-8">
+          <div className="flex items-center justify-between gap-3">
+            <div className="min-w-0">
+              <DialogTitle className="truncate" title={currentKey || undefined}>{filename}</DialogTitle>
+              <DialogDescription>
+                {index >= 0 && `${index + 1} of ${files.length}`}
+                {preview?.size !== undefined && ` • ${formatBytes(preview.size)}`}
+              </DialogDescription>
+            </div>
+            <div className="flex items-center gap-1 shrink-0">
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => previous?.Key && onNavigate(previous.Key)}
+                disabled={!previous}
+                title="Previous file"
+              >
+                <i className="ri-arrow-left-s-line text-lg"></i>
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => next?.Key && onNavigate(next.Key)}
+                disabled={!next}
+                title="Next file"
+              >
+                <i className="ri-arrow-right-s-line text-lg"></i>
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => currentKey && onDownload(currentKey)} disabled={!currentKey}>
+                <i className="ri-download-line mr-1.5"></i>
+                Download
+              </Button>
+            </div>
+          </div>
+        </DialogHeader>
+
+        <div className="flex-1 min-h-0 flex items-center justify-center overflow-hidden">
+          {isLoading ? (
+            <p className="text-sm text-muted-foreground"><i className="ri-loader-4-line animate-spin mr-1.5"></i>Loading preview…</p>
+          ) : error ? (
+            <div className="flex flex-col items-center gap-3 text-center">
+              <FileIcon filename={filename} size="lg" showBackground className="h-16 w-16" />
+              <p className="text-sm text-muted-foreground">{getApiErrorMessage(error, "This file can't be previewed")}</p>
+            </div>
+          ) : preview && currentKey && (
+            <div className="w-full h-full flex items-center justify-center">
+              <FilePreviewContent
+                filename={filename}
+                kind={preview.kind}
+                url={preview.url}
+                loadText={() => getTextPreview(accountId, bucket, currentKey)}
+                textQueryKey={[`/api/s3/${accountId}/preview/text`, bucket, currentKey]}
+              />
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
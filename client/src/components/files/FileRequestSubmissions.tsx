@@ -0,0 +1,116 @@
+import { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Link } from "wouter";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { formatBytes, formatDate } from "@/lib/utils";
+import { FileRequestSubmission, SharedFile } from "@/lib/types";
+import { Inbox } from "lucide-react";
+
+interface FileRequestSubmissionsProps {
+  request: SharedFile;
+}
+
+export function FileRequestSubmissions({ request }: FileRequestSubmissionsProps) {
+  const [open, setOpen] = useState(false);
+
+  const { data: submissions = [], isLoading } = useQuery<FileRequestSubmission[]>({
+    queryKey: [`/api/shared-files/${request.id}/submissions`],
+    enabled: open, // Only fetch when dialog is open
+  });
+
+  // Open the submission's folder in the file browser
+  const getFolderUrl = (prefix: string) => {
+    const params = new URLSearchParams();
+    params.set('account', request.accountId.toString());
+    params.set('bucket', request.bucket);
+    params.set('prefix', prefix);
+    return `/browser?${params.toString()}`;
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="gap-1">
+          <Inbox className="h-4 w-4" />
+          <span className="hidden sm:inline">Submissions</span>
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-3xl">
+        <DialogHeader>
+          <DialogTitle className="text-xl">Submissions: {request.filename}</DialogTitle>
+          <DialogDescription>
+            Files sent through this request, each in its own folder under {request.bucket}/{request.path}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="space-y-2">
+            <Skeleton className="h-10 w-full" />
+            <Skeleton className="h-10 w-full" />
+            <Skeleton className="h-10 w-full" />
+          </div>
+        ) : submissions.length > 0 ? (
+          <div className="border rounded-md overflow-hidden">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-[120px]">Date</TableHead>
+                  <TableHead>From</TableHead>
+                  <TableHead>Files</TableHead>
+                  <TableHead></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {submissions.map((submission) => (
+                  <TableRow key={submission.id}>
+                    <TableCell className="font-medium">
+                      {formatDate(submission.createdAt)}
+                    </TableCell>
+                    <TableCell>
+                      <div>{submission.uploaderName || 'Anonymous'}</div>
+                      {submission.uploaderEmail && (
+                        <div className="text-xs text-muted-foreground">{submission.uploaderEmail}</div>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {submission.fileCount} • {formatBytes(submission.totalBytes)}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button variant="ghost" size="sm" asChild>
+                        <Link href={getFolderUrl(submission.prefix)}>
+                          <i className="ri-folder-open-line mr-1"></i>
+                          Open
+                        </Link>
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        ) : (
+          <div className="text-center py-10 text-muted-foreground">
+            No files have been sent yet.
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,42 @@
+import { useState } from 'react';
+import { FileIcon } from './FileIcon';
+import { getThumbnailUrl } from '@/lib/s3';
+import { cn } from '@/lib/utils';
+
+interface FileThumbnailProps {
+  accountId: number;
+  bucket: string;
+  fileKey: string;
+  filename: string;
+  etag?: string;
+  className?: string;
+}
+
+/**
+ * Server-generated thumbnail for the grid view, loaded once the card scrolls
+ * into view. Shows the file icon until it arrives, and instead of it when the
+ * server can't make one.
+ */
+export function FileThumbnail({ accountId, bucket, fileKey, filename, etag, className }: FileThumbnailProps) {
+  const [loaded, setLoaded] = useState(false);
+  const [failed, setFailed] = useState(false);
+
+  return (
+    <div className={cn('relative flex items-center justify-center', className)}>
+      {(!loaded || failed) && (
+        <FileIcon filename={filename} size="lg" showBackground className="h-12 w-12 sm:h-16 sm:w-16" />
+      )}
+      {!failed && (
+        <img
+          src={getThumbnailUrl(accountId, bucket, fileKey, etag)}
+          alt={filename}
+          loading="lazy"
+          decoding="async"
+          onLoad={() => setLoaded(true)}
+          onError={() => setFailed(true)}
+          className={cn('max-h-full max-w-full rounded object-contain', !loaded && 'absolute opacity-0')}
+        />
+      )}
+    </div>
+  );
+}
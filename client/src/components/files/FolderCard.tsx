@@ -2,7 +2,7 @@ import React from 'react';
 import { S3CommonPrefix } from '@/lib/types';
 import { FileIcon } from './FileIcon';
 import { Button } from '@/components/ui/button';
-import { MoreHorizontal } from 'lucide-react';
+import { Link, MoreHorizontal } from 'lucide-react';
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -17,6 +17,7 @@ interface FolderCardProps {
   prefix: string;
   viewMode: 'grid' | 'list';
   onClick: () => void;
+  onShare?: () => void;
 }
 
 export function FolderCard({
@@ -26,6 +27,7 @@ export function FolderCard({
   prefix,
   viewMode,
   onClick,
+  onShare,
 }: FolderCardProps) {
   const folderPath = folder.Prefix || '';
   const folderName = folderPath.split('/').filter(Boolean).pop() || '';
@@ -63,6 +65,15 @@ export function FolderCard({
               }} className="cursor-pointer">
                 <span>Open folder</span>
               </DropdownMenuItem>
+              {onShare && (
+                <DropdownMenuItem onClick={(e) => {
+                  e.stopPropagation();
+                  onShare();
+                }} className="cursor-pointer">
+                  <Link className="mr-2 h-4 w-4" />
+                  <span>Share folder</span>
+                </DropdownMenuItem>
+              )}
             </DropdownMenuContent>
           </DropdownMenu>
         </div>
@@ -85,6 +96,21 @@ export function FolderCard({
           </p>
         </div>
       </div>
+      
+      {onShare && (
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-8 w-8"
+          onClick={(e) => {
+            e.stopPropagation();
+            onShare();
+          }}
+          title="Share folder"
+        >
+          <Link className="h-4 w-4" />
+        </Button>
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,318 @@
+import { FormEvent, useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { FileIcon } from "@/components/files/FileIcon";
+import { VirtualizedFileList } from "@/components/files/VirtualizedFileList";
+import { S3_STORAGE_CLASSES } from "@/lib/s3";
+import { S3Object, S3SearchQuery, S3SearchSummary } from "@/lib/types";
+import { formatBytes, formatDate } from "@/lib/utils";
+
+interface SearchResultsProps {
+  prefix: string;
+  initialPattern: string;
+  results: S3Object[];
+  scanned: number;
+  summary: S3SearchSummary | null;
+  error: string | null;
+  isSearching: boolean;
+  isCancelled: boolean;
+  hasSearched: boolean;
+  onSearch: (query: S3SearchQuery) => void;
+  onLoadMore: () => void;
+  onCancel: () => void;
+  onClose: () => void;
+  selectedFiles: Record<string, S3Object>;
+  onSelect: (file: S3Object, selected: boolean) => void;
+  onSelectAll: (selected: boolean) => void;
+  onOpenFolder: (prefix: string) => void;
+  onDetails: (key: string) => void;
+}
+
+const MB = 1024 * 1024;
+
+// A plain word from the toolbar's search box becomes "anything containing it"
+function toGlob(text: string) {
+  return text && !/[*?]/.test(text) ? `*${text}*` : text;
+}
+
+function parseMegabytes(value: string) {
+  const parsed = parseFloat(value);
+  return isNaN(parsed) ? undefined : Math.round(parsed * MB);
+}
+
+/**
+ * Filter form and streamed results for a recursive search of the bucket.
+ * Results can be selected like files in a folder, so the browser's batch
+ * actions work on them.
+ */
+export function SearchResults({
+  prefix,
+  initialPattern,
+  results,
+  scanned,
+  summary,
+  error,
+  isSearching,
+  isCancelled,
+  hasSearched,
+  onSearch,
+  onLoadMore,
+  onCancel,
+  onClose,
+  selectedFiles,
+  onSelect,
+  onSelectAll,
+  onOpenFolder,
+  onDetails,
+}: SearchResultsProps) {
+  const [searchPrefix, setSearchPrefix] = useState(prefix);
+  const [pattern, setPattern] = useState(toGlob(initialPattern));
+  const [patternType, setPatternType] = useState<'glob' | 'regex'>('glob');
+  const [caseSensitive, setCaseSensitive] = useState(false);
+  const [minSize, setMinSize] = useState('');
+  const [maxSize, setMaxSize] = useState('');
+  const [modifiedAfter, setModifiedAfter] = useState('');
+  const [modifiedBefore, setModifiedBefore] = useState('');
+  const [storageClasses, setStorageClasses] = useState<string[]>([]);
+  const [contentType, setContentType] = useState('');
+  const [tagKey, setTagKey] = useState('');
+  const [tagValue, setTagValue] = useState('');
+  const [live, setLive] = useState(false);
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    onSearch({
+      prefix: searchPrefix || undefined,
+      pattern: pattern || undefined,
+      patternType,
+      caseSensitive,
+      minSize: parseMegabytes(minSize),
+      maxSize: parseMegabytes(maxSize),
+      // Date inputs are local days; include the whole of the "before" day
+      modifiedAfter: modifiedAfter ? new Date(`${modifiedAfter}T00:00:00`).toISOString() : undefined,
+      modifiedBefore: modifiedBefore ? new Date(`${modifiedBefore}T23:59:59.999`).toISOString() : undefined,
+      storageClasses: storageClasses.length > 0 ? storageClasses : undefined,
+      contentType: contentType.trim() || undefined,
+      tagKey: tagKey.trim() || undefined,
+      tagValue: tagKey.trim() && tagValue ? tagValue : undefined,
+      live: live || undefined,
+    });
+  };
+
+  const toggleStorageClass = (value: string, checked: boolean) => {
+    setStorageClasses(prev => checked ? [...prev, value] : prev.filter(storageClass => storageClass !== value));
+  };
+
+  const allSelected = results.length > 0 && results.every(file => !!selectedFiles[file.Key || '']);
+
+  return (
+    <div className="space-y-4">
+      <form onSubmit={handleSubmit} className="rounded-md border p-4 space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-[1fr_auto_auto] gap-3 items-end">
+          <div className="space-y-1.5">
+            <Label htmlFor="search-pattern">Name</Label>
+            <Input
+              id="search-pattern"
+              value={pattern}
+              onChange={(e) => setPattern(e.target.value)}
+              placeholder={patternType === 'glob' ? '*.jpg, reports/**/2024-*.csv' : '^logs/.*\\.gz$'}
+              className="font-mono text-sm"
+            />
+          </div>
+          <Select value={patternType} onValueChange={(value) => setPatternType(value as 'glob' | 'regex')}>
+            <SelectTrigger className="w-32">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="glob">Glob</SelectItem>
+              <SelectItem value="regex">Regex</SelectItem>
+            </SelectContent>
+          </Select>
+          <div className="flex items-center gap-2 h-10">
+            <Checkbox
+              id="search-case-sensitive"
+              checked={caseSensitive}
+              onCheckedChange={(checked) => setCaseSensitive(!!checked)}
+            />
+            <Label htmlFor="search-case-sensitive" className="text-sm font-normal">Match case</Label>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-3">
+          <div className="space-y-1.5">
+            <Label htmlFor="search-prefix">Search in</Label>
+            <Input
+              id="search-prefix"
+              value={searchPrefix}
+              onChange={(e) => setSearchPrefix(e.target.value)}
+              placeholder="Whole bucket"
+            />
+          </div>
+          <div className="space-y-1.5">
+            <Label>Size (MB)</Label>
+            <div className="flex items-center gap-2">
+              <Input type="number" min={0} step="any" value={minSize} onChange={(e) => setMinSize(e.target.value)} placeholder="Min" />
+              <Input type="number" min={0} step="any" value={maxSize} onChange={(e) => setMaxSize(e.target.value)} placeholder="Max" />
+            </div>
+          </div>
+          <div className="space-y-1.5">
+            <Label>Modified</Label>
+            <div className="flex items-center gap-2">
+              <Input type="date" value={modifiedAfter} onChange={(e) => setModifiedAfter(e.target.value)} title="From" />
+              <Input type="date" value={modifiedBefore} onChange={(e) => setModifiedBefore(e.target.value)} title="Until" />
+            </div>
+          </div>
+          <div className="space-y-1.5">
+            <Label htmlFor="search-content-type">Content type</Label>
+            <Input
+              id="search-content-type"
+              value={contentType}
+              onChange={(e) => setContentType(e.target.value)}
+              placeholder="image/* or application/pdf"
+            />
+          </div>
+          <div className="space-y-1.5">
+            <Label>Tag</Label>
+            <div className="flex items-center gap-2">
+              <Input value={tagKey} onChange={(e) => setTagKey(e.target.value)} placeholder="Key" />
+              <Input value={tagValue} onChange={(e) => setTagValue(e.target.value)} placeholder="Any value" disabled={!tagKey.trim()} />
+            </div>
+          </div>
+          <div className="space-y-1.5 sm:col-span-2 lg:col-span-3">
+            <Label>Storage class</Label>
+            <div className="flex flex-wrap gap-x-4 gap-y-2 pt-1">
+              {S3_STORAGE_CLASSES.map(({ value, label }) => (
+                <div key={value} className="flex items-center gap-1.5">
+                  <Checkbox
+                    id={`search-class-${value}`}
+                    checked={storageClasses.includes(value)}
+                    onCheckedChange={(checked) => toggleStorageClass(value, !!checked)}
+                  />
+                  <Label htmlFor={`search-class-${value}`} className="text-xs font-normal">{label}</Label>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        {(contentType.trim() || tagKey.trim()) && (
+          <p className="text-xs text-muted-foreground">
+            Content type and tag filters check each object individually, so they make searches slower.
+          </p>
+        )}
+
+        <div className="flex items-center justify-end gap-2">
+          <div className="flex items-center gap-2 mr-auto">
+            <Checkbox
+              id="search-live"
+              checked={live}
+              onCheckedChange={(checked) => setLive(!!checked)}
+            />
+            <Label htmlFor="search-live" className="text-sm font-normal">Search S3 directly, even if the bucket is indexed</Label>
+          </div>
+          <Button type="button" variant="ghost" onClick={onClose}>
+            Back to folder
+          </Button>
+          {isSearching ? (
+            <Button type="button" variant="outline" onClick={onCancel}>
+              Cancel search
+            </Button>
+          ) : (
+            <Button type="submit">
+              <i className="ri-search-line mr-1.5"></i>
+              Search
+            </Button>
+          )}
+        </div>
+      </form>
+
+      {hasSearched && (
+        <div className="flex items-center justify-between gap-2 text-sm">
+          <div className="flex items-center gap-3">
+            <Checkbox
+              checked={allSelected}
+              onCheckedChange={(checked) => onSelectAll(!!checked)}
+              disabled={results.length === 0}
+              aria-label="Select all results"
+            />
+            <span className="text-muted-foreground">
+              {isSearching && <i className="ri-loader-4-line animate-spin mr-1.5"></i>}
+              {results.length} match{results.length === 1 ? '' : 'es'} in {scanned.toLocaleString()} objects scanned
+              {isCancelled && ' (cancelled)'}
+              {summary?.source === 'index' && (
+                <> · from the index{summary.indexedAt ? ` as of ${formatDate(summary.indexedAt)}` : ''}</>
+              )}
+            </span>
+          </div>
+          {summary?.truncated && !isSearching && (
+            <Button variant="outline" size="sm" onClick={onLoadMore}>
+              Load more results
+            </Button>
+          )}
+        </div>
+      )}
+
+      {error && (
+        <p className="rounded-md border border-destructive/50 p-3 text-sm text-destructive">{error}</p>
+      )}
+
+      {hasSearched && !isSearching && !error && results.length === 0 && (
+        <p className="text-center py-12 text-muted-foreground">No objects match these filters</p>
+      )}
+
+      <VirtualizedFileList<S3Object>
+        items={results}
+        viewMode="list"
+        getItemKey={(file) => file.Key || ''}
+        renderItem={(file) => {
+          const key = file.Key || '';
+          const slash = key.lastIndexOf('/');
+          const name = key.slice(slash + 1);
+          const folder = key.slice(0, slash + 1);
+          return (
+            <div className="flex items-center gap-3 px-3 py-2 border-b hover:bg-muted/50">
+              <Checkbox
+                checked={!!selectedFiles[key]}
+                onCheckedChange={(checked) => onSelect(file, !!checked)}
+                aria-label={`Select ${name}`}
+              />
+              <FileIcon filename={name} size="sm" />
+              <div className="min-w-0 flex-1">
+                <p className="text-sm truncate" title={key}>{name}</p>
+                <button
+                  type="button"
+                  className="text-xs text-muted-foreground truncate hover:underline max-w-full block text-left"
+                  onClick={() => onOpenFolder(folder)}
+                  title="Open folder"
+                >
+                  {folder || '/'}
+                </button>
+              </div>
+              <span className="hidden sm:block w-24 text-right text-xs text-muted-foreground">
+                {formatBytes(file.Size || 0)}
+              </span>
+              <span className="hidden md:block w-40 text-right text-xs text-muted-foreground">
+                {file.LastModified ? formatDate(file.LastModified) : ''}
+              </span>
+              <span className="hidden lg:block w-36 text-right text-xs text-muted-foreground">
+                {file.StorageClass || 'STANDARD'}
+              </span>
+              <Button variant="ghost" size="sm" onClick={() => onDetails(key)}>
+                Details
+              </Button>
+            </div>
+          );
+        }}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,218 @@
+import { useMemo, useState } from "react";
+import { useInfiniteQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { FileIcon } from "@/components/files/FileIcon";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, getApiErrorMessage } from "@/lib/queryClient";
+import { formatBytes, formatDate } from "@/lib/utils";
+import { SharedFileType, SharedListing } from "@/lib/types";
+
+interface SharedFolderListingProps {
+  token: string;
+  name: string;
+  shareType: SharedFileType;
+  allowDownload: boolean;
+  allowSubfolders: boolean;
+}
+
+// Start a download in the browser without leaving the page
+function startDownload(url: string, filename?: string) {
+  const link = document.createElement("a");
+  link.href = url;
+  if (filename) link.setAttribute("download", filename);
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+}
+
+/**
+ * The public listing of a folder or collection share. Paths are relative to
+ * the share and checked again by the server, so navigating here can never
+ * reach past the shared folder.
+ */
+export function SharedFolderListing({ token, name, shareType, allowDownload, allowSubfolders }: SharedFolderListingProps) {
+  const { toast } = useToast();
+  const [path, setPath] = useState("");
+
+  const query = useInfiniteQuery({
+    queryKey: [`/api/shared/${token}/list`, path],
+    queryFn: async ({ pageParam }) => {
+      const params = new URLSearchParams();
+      if (path) params.set("path", path);
+      if (pageParam) params.set("continuationToken", pageParam);
+      const res = await apiRequest("GET", `/api/shared/${token}/list?${params.toString()}`);
+      return res.json() as Promise<SharedListing>;
+    },
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (lastPage) => lastPage.nextContinuationToken,
+    retry: false,
+    refetchOnWindowFocus: false,
+  });
+
+  const listing = useMemo(() => {
+    const pages = query.data?.pages || [];
+    return {
+      folders: pages.flatMap(page => page.folders),
+      files: pages.flatMap(page => page.files),
+      missing: pages.flatMap(page => page.missing),
+    };
+  }, [query.data]);
+
+  const fileMutation = useMutation({
+    mutationFn: async (file: { name: string; path: string }) => {
+      const res = await apiRequest("GET", `/api/shared/${token}/file?path=${encodeURIComponent(file.path)}`);
+      const { url } = await res.json() as { url: string };
+      startDownload(url, file.name);
+    },
+    onError: (error) => {
+      const isArchived = error instanceof Error && error.message.startsWith("409:");
+      toast({
+        title: isArchived ? "File is archived" : "Download failed",
+        description: getApiErrorMessage(error, "Unable to download the file. Please try again later."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const archiveMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/shared/${token}/archive`, { path });
+      const result = await res.json() as { downloadUrl: string; fileCount: number; errors: unknown[] };
+      startDownload(result.downloadUrl);
+      return result;
+    },
+    onSuccess: (result) => {
+      toast({
+        title: "Download started",
+        description: result.errors.length === 0
+          ? `Zipping ${result.fileCount} file(s)`
+          : `Zipping ${result.fileCount} file(s); ${result.errors.length} item(s) could not be included`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Download failed",
+        description: getApiErrorMessage(error, "Failed to prepare download"),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const segments = path.split("/").filter(Boolean);
+  const isEmpty = !query.isLoading && listing.folders.length === 0 && listing.files.length === 0;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-3">
+        {allowSubfolders && shareType === "folder" ? (
+          <div className="flex items-center flex-wrap text-sm min-w-0">
+            <button
+              className={segments.length ? "text-primary hover:underline" : "font-medium"}
+              onClick={() => setPath("")}
+              disabled={segments.length === 0}
+            >
+              {name}
+            </button>
+            {segments.map((segment, index) => (
+              <span key={index} className="flex items-center">
+                <i className="ri-arrow-right-s-line mx-1 text-muted-foreground"></i>
+                <button
+                  className={index < segments.length - 1 ? "text-primary hover:underline" : "font-medium"}
+                  onClick={() => setPath(segments.slice(0, index + 1).join("/") + "/")}
+                  disabled={index === segments.length - 1}
+                >
+                  {segment}
+                </button>
+              </span>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm font-medium truncate">{name}</p>
+        )}
+
+        {allowDownload && (
+          <Button
+            size="sm"
+            onClick={() => archiveMutation.mutate()}
+            disabled={archiveMutation.isPending || isEmpty}
+            className="shrink-0"
+          >
+            <i className={`${archiveMutation.isPending ? "ri-loader-4-line animate-spin" : "ri-folder-zip-line"} mr-2`}></i>
+            Download all as ZIP
+          </Button>
+        )}
+      </div>
+
+      <div className="rounded-md border divide-y max-h-[60vh] overflow-auto">
+        {query.isLoading ? (
+          <p className="p-4 text-sm text-muted-foreground">
+            <i className="ri-loader-4-line animate-spin mr-1.5"></i>Loading…
+          </p>
+        ) : query.error ? (
+          <p className="p-4 text-sm text-destructive">
+            {getApiErrorMessage(query.error, "This folder couldn't be listed")}
+          </p>
+        ) : isEmpty ? (
+          <p className="p-4 text-sm text-muted-foreground text-center">This folder is empty</p>
+        ) : (
+          <>
+            {listing.folders.map(folder => (
+              <button
+                key={folder.path}
+                className="flex w-full items-center gap-3 p-2 text-left hover:bg-muted/40"
+                onClick={() => setPath(folder.path)}
+              >
+                <FileIcon filename={folder.name} isFolder size="sm" />
+                <span className="text-sm font-medium truncate">{folder.name}/</span>
+              </button>
+            ))}
+            {listing.files.map(file => (
+              <div key={file.path} className="flex items-center gap-3 p-2">
+                <FileIcon filename={file.name} size="sm" />
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm truncate" title={file.path}>
+                    {shareType === "collection" ? file.path : file.name}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {formatBytes(file.size)}
+                    {file.lastModified && ` • ${formatDate(file.lastModified)}`}
+                  </p>
+                </div>
+                {allowDownload && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 shrink-0"
+                    onClick={() => fileMutation.mutate(file)}
+                    disabled={fileMutation.isPending && fileMutation.variables?.path === file.path}
+                    title="Download"
+                  >
+                    <i className="ri-download-line"></i>
+                  </Button>
+                )}
+              </div>
+            ))}
+          </>
+        )}
+      </div>
+
+      {query.hasNextPage && (
+        <Button
+          variant="outline"
+          size="sm"
+          className="w-full"
+          onClick={() => query.fetchNextPage()}
+          disabled={query.isFetchingNextPage}
+        >
+          {query.isFetchingNextPage ? "Loading..." : "Load more"}
+        </Button>
+      )}
+
+      {listing.missing.length > 0 && (
+        <p className="text-xs text-muted-foreground">
+          {listing.missing.length} shared file(s) are no longer available: {listing.missing.join(", ")}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,154 @@
+import { Area, AreaChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
+import { StorageBreakdownView } from "@/components/files/StorageStats";
+import { useStorageOverview } from "@/hooks/use-s3";
+import { getApiErrorMessage } from "@/lib/queryClient";
+import { StorageHistoryPoint } from "@/lib/types";
+import { formatBytes } from "@/lib/utils";
+
+const HISTORY_DAYS = 30;
+
+const chartConfig = {
+  totalBytes: { label: "Stored", color: "hsl(var(--chart-1))" },
+} satisfies ChartConfig;
+
+function formatDay(date: string) {
+  return new Date(`${date}T00:00:00Z`).toLocaleDateString(undefined, { month: "short", day: "numeric", timeZone: "UTC" });
+}
+
+function StorageGrowthChart({ points, snapshotHours }: { points: StorageHistoryPoint[]; snapshotHours: number }) {
+  if (points.length < 2) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        {snapshotHours
+          ? "Growth shows up here once storage has been recorded on a few different days."
+          : "Storage snapshots are turned off on this server, so growth isn't recorded."}
+      </p>
+    );
+  }
+
+  const first = points[0].totalBytes;
+  const last = points[points.length - 1].totalBytes;
+  const change = last - first;
+
+  return (
+    <div className="space-y-2">
+      <p className="text-sm text-muted-foreground">
+        {change === 0 ? "No change" : `${change > 0 ? "+" : "−"}${formatBytes(Math.abs(change))}`} since {formatDay(points[0].date)}
+      </p>
+      <ChartContainer config={chartConfig} className="aspect-auto h-40 w-full">
+        <AreaChart data={points} margin={{ left: 0, right: 8, top: 8 }}>
+          <CartesianGrid vertical={false} />
+          <XAxis dataKey="date" tickLine={false} axisLine={false} tickFormatter={formatDay} minTickGap={24} />
+          <YAxis tickLine={false} axisLine={false} width={64} tickFormatter={(value: number) => formatBytes(value, 0)} />
+          <ChartTooltip
+            content={
+              <ChartTooltipContent
+                labelFormatter={(_, payload) => payload?.[0] ? formatDay(payload[0].payload.date) : ""}
+                formatter={(value) => formatBytes(Number(value))}
+              />
+            }
+          />
+          <Area
+            dataKey="totalBytes"
+            type="monotone"
+            fill="var(--color-totalBytes)"
+            fillOpacity={0.2}
+            stroke="var(--color-totalBytes)"
+          />
+        </AreaChart>
+      </ChartContainer>
+    </div>
+  );
+}
+
+/**
+ * Storage used across all of the user's accounts: totals by file type and
+ * storage class, the largest buckets, and growth from the recorded snapshots.
+ */
+export function StorageOverview() {
+  const { overview, history, isLoading, error, refresh, isRefreshing } = useStorageOverview(HISTORY_DAYS);
+
+  const buckets = (overview?.accounts || [])
+    .flatMap(account => account.buckets.map(bucket => ({ ...bucket, accountId: account.accountId, accountName: account.accountName })))
+    .sort((a, b) => (b.stats?.totalBytes || 0) - (a.stats?.totalBytes || 0));
+  const failedAccounts = (overview?.accounts || []).filter(account => account.error);
+  const multipleAccounts = (overview?.accounts.length || 0) > 1;
+
+  return (
+    <Card className="bg-card rounded-xl shadow-sm mb-6">
+      <CardContent className="p-4 space-y-6">
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+          <h2 className="text-lg font-medium">Storage</h2>
+          <div className="flex items-center gap-2">
+            {overview && (
+              <p className="text-muted-foreground text-sm">
+                <span className="font-medium text-foreground">{formatBytes(overview.totalBytes)}</span> in {overview.objectCount.toLocaleString()} objects
+                {multipleAccounts && ` across ${overview.accounts.length} accounts`}
+              </p>
+            )}
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => refresh()}
+              disabled={isLoading || isRefreshing}
+              title="Recalculate"
+            >
+              <i className={`ri-refresh-line ${isRefreshing ? 'animate-spin' : ''}`}></i>
+            </Button>
+          </div>
+        </div>
+
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">
+            <i className="ri-loader-4-line animate-spin mr-1.5"></i>
+            Adding up your buckets…
+          </p>
+        ) : error ? (
+          <p className="text-sm text-destructive">{getApiErrorMessage(error, "Could not calculate storage statistics")}</p>
+        ) : overview && (
+          <>
+            <StorageBreakdownView breakdown={overview} />
+
+            {buckets.length > 0 && (
+              <div className="space-y-1 text-sm">
+                <h3 className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">Buckets</h3>
+                {buckets.slice(0, 8).map(bucket => (
+                  <div key={`${bucket.accountId}:${bucket.bucket}`} className="flex items-center justify-between gap-2">
+                    <span className="truncate">
+                      {bucket.bucket}
+                      {multipleAccounts && <span className="text-xs text-muted-foreground ml-2">{bucket.accountName}</span>}
+                    </span>
+                    {bucket.stats ? (
+                      <span className="font-medium whitespace-nowrap">{formatBytes(bucket.stats.totalBytes)}</span>
+                    ) : (
+                      <span className="text-xs text-destructive whitespace-nowrap" title={bucket.error}>Unavailable</span>
+                    )}
+                  </div>
+                ))}
+                {buckets.length > 8 && (
+                  <p className="text-xs text-muted-foreground">and {buckets.length - 8} more</p>
+                )}
+              </div>
+            )}
+
+            {failedAccounts.map(account => (
+              <p key={account.accountId} className="text-xs text-destructive">
+                Couldn't list the buckets of {account.accountName}: {account.error}
+              </p>
+            ))}
+          </>
+        )}
+
+        {history && (
+          <div className="space-y-2">
+            <h3 className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">Last {HISTORY_DAYS} days</h3>
+            <StorageGrowthChart points={history.points} snapshotHours={history.snapshotHours} />
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,150 +1,146 @@
-import { Card, CardContent } from "@/components/ui/card";
-import { Progress } from "@/components/ui/progress";
-import { useQuery } from "@tanstack/react-query";
-import { formatBytes } from "@/lib/utils";
-import { listBuckets, listObjects } from "@/lib/s3";
-import { S3Account } from "@/lib/types";
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { useStorageStats } from "@/hooks/use-s3";
+import { getApiErrorMessage } from "@/lib/queryClient";
+import { S3_STORAGE_CLASSES } from "@/lib/s3";
+import { StorageBreakdown } from "@/lib/types";
+import { formatBytes, formatDate } from "@/lib/utils";
 
-interface StorageStatsProps {
-  account?: S3Account;
+// File type categories the server sorts objects into, by extension
+export const FILE_CATEGORIES = [
+  { value: "documents", label: "Documents", color: "bg-primary" },
+  { value: "images", label: "Images", color: "bg-[hsl(var(--chart-2))]" },
+  { value: "videos", label: "Videos", color: "bg-[hsl(var(--chart-3))]" },
+  { value: "audio", label: "Audio", color: "bg-[hsl(var(--chart-4))]" },
+  { value: "archives", label: "Archives", color: "bg-[hsl(var(--chart-5))]" },
+  { value: "other", label: "Other", color: "bg-muted-foreground/40" },
+];
+
+export function getStorageClassLabel(storageClass: string) {
+  return S3_STORAGE_CLASSES.find(({ value }) => value === storageClass)?.label || storageClass;
 }
 
-export function StorageStats({ account }: StorageStatsProps) {
-  // If we don't have an account, show placeholder stats
-  if (!account) {
-    return (
-      <Card className="bg-card rounded-xl shadow-sm mb-6">
-        <CardContent className="p-4">
-          <div className="flex flex-col sm:flex-row sm:items-center justify-between mb-3">
-            <h2 className="text-lg font-medium">Storage</h2>
-            <div className="text-right">
-              <p className="text-muted-foreground text-sm">
-                <span className="font-medium text-foreground">-- GB</span> of -- GB used
-              </p>
-            </div>
-          </div>
-          
-          <Progress value={0} className="h-4" />
-          
-          <div className="mt-4 grid grid-cols-2 sm:grid-cols-4 gap-3 text-sm">
-            <div className="flex items-center">
-              <div className="w-3 h-3 bg-primary rounded-full mr-2"></div>
-              <span className="text-muted-foreground">Documents</span>
-              <span className="ml-auto font-medium">--</span>
-            </div>
-            <div className="flex items-center">
-              <div className="w-3 h-3 bg-[hsl(var(--chart-2))] rounded-full mr-2"></div>
-              <span className="text-muted-foreground">Images</span>
-              <span className="ml-auto font-medium">--</span>
-            </div>
-            <div className="flex items-center">
-              <div className="w-3 h-3 bg-[hsl(var(--chart-3))] rounded-full mr-2"></div>
-              <span className="text-muted-foreground">Videos</span>
-              <span className="ml-auto font-medium">--</span>
+interface StorageBreakdownViewProps {
+  breakdown: StorageBreakdown;
+}
+
+/**
+ * Bytes by file type as a stacked bar with a legend, then bytes by storage class.
+ */
+export function StorageBreakdownView({ breakdown }: StorageBreakdownViewProps) {
+  const storageClasses = Object.entries(breakdown.byStorageClass)
+    .sort(([, a], [, b]) => b.totalBytes - a.totalBytes);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex h-4 w-full overflow-hidden rounded-full bg-muted">
+        {breakdown.totalBytes > 0 && FILE_CATEGORIES.map(category => {
+          const bytes = breakdown.byCategory[category.value]?.totalBytes || 0;
+          return bytes > 0 ? (
+            <div
+              key={category.value}
+              className={category.color}
+              style={{ width: `${(bytes / breakdown.totalBytes) * 100}%` }}
+              title={`${category.label}: ${formatBytes(bytes)}`}
+            />
+          ) : null;
+        })}
+      </div>
+
+      <div className="grid grid-cols-2 sm:grid-cols-3 gap-3 text-sm">
+        {FILE_CATEGORIES.map(category => {
+          const totals = breakdown.byCategory[category.value];
+          return (
+            <div key={category.value} className="flex items-center" title={`${(totals?.objectCount || 0).toLocaleString()} objects`}>
+              <div className={`w-3 h-3 ${category.color} rounded-full mr-2`}></div>
+              <span className="text-muted-foreground">{category.label}</span>
+              <span className="ml-auto font-medium">{formatBytes(totals?.totalBytes || 0)}</span>
             </div>
-            <div className="flex items-center">
-              <div className="w-3 h-3 bg-[hsl(var(--chart-4))] rounded-full mr-2"></div>
-              <span className="text-muted-foreground">Other</span>
-              <span className="ml-auto font-medium">--</span>
+          );
+        })}
+      </div>
+
+      {storageClasses.length > 0 && (
+        <div className="space-y-1 text-sm">
+          <h3 className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">By storage class</h3>
+          {storageClasses.map(([storageClass, totals]) => (
+            <div key={storageClass} className="flex items-center justify-between gap-2">
+              <span className="text-muted-foreground">{getStorageClassLabel(storageClass)}</span>
+              <span>
+                <span className="font-medium">{formatBytes(totals.totalBytes)}</span>
+                <span className="text-xs text-muted-foreground ml-2">{totals.objectCount.toLocaleString()} objects</span>
+              </span>
             </div>
-          </div>
-        </CardContent>
-      </Card>
-    );
-  }
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
 
-  // Fetch buckets for the account
-  const { data: buckets = [] } = useQuery({
-    queryKey: [`/api/s3/${account.id}/buckets`],
-    queryFn: () => listBuckets(account.id),
-  });
+interface StorageStatsProps {
+  accountId: number;
+  bucket: string;
+  prefix: string;
+}
 
-  // Note: This is demo/placeholder data as S3 doesn't provide storage quotas through API
-  // In a production app, you would track this information separately or use CloudWatch metrics
-  const totalStorageLimit = 5 * 1024 * 1024 * 1024; // 5 GB (free tier limit)
-  
-  // If we have a default bucket, get the objects to calculate actual size
-  const { data: bucketObjects = { objects: [], folders: [], prefix: '', delimiter: '/' } } = useQuery({
-    queryKey: [`/api/s3/${account.id}/objects`, account.defaultBucket],
-    queryFn: async () => {
-      if (account.defaultBucket) {
-        try {
-          return await listObjects(account.id, account.defaultBucket, '');
-        } catch (error) {
-          console.error('Error fetching objects for storage stats:', error);
-          return { objects: [], folders: [], prefix: '', delimiter: '/' };
-        }
-      }
-      return { objects: [], folders: [], prefix: '', delimiter: '/' };
-    },
-    enabled: !!account.defaultBucket,
-  });
-  
-  // Calculate actual storage used based on object sizes
-  const objectSizes = bucketObjects.objects.map(obj => obj.Size || 0);
-  const usedStorage = objectSizes.length > 0 
-    ? objectSizes.reduce((total, size) => total + size, 0) 
-    : 0;
-    
-  const percentUsed = Math.min((usedStorage / totalStorageLimit) * 100, 100);
-  
-  // Calculate file type distribution
-  const docTypes = ['.pdf', '.doc', '.docx', '.txt', '.xls', '.xlsx', '.ppt', '.pptx'];
-  const imageTypes = ['.jpg', '.jpeg', '.png', '.gif', '.svg', '.webp', '.bmp', '.tiff'];
-  const videoTypes = ['.mp4', '.mov', '.avi', '.wmv', '.flv', '.mkv', '.webm'];
-  
-  // Group files by type
-  const docsSize = bucketObjects.objects
-    .filter(obj => docTypes.some(ext => obj.Key?.toLowerCase().endsWith(ext)))
-    .reduce((total, obj) => total + (obj.Size || 0), 0);
-    
-  const imagesSize = bucketObjects.objects
-    .filter(obj => imageTypes.some(ext => obj.Key?.toLowerCase().endsWith(ext)))
-    .reduce((total, obj) => total + (obj.Size || 0), 0);
-    
-  const videosSize = bucketObjects.objects
-    .filter(obj => videoTypes.some(ext => obj.Key?.toLowerCase().endsWith(ext)))
-    .reduce((total, obj) => total + (obj.Size || 0), 0);
-    
-  const otherSize = usedStorage - docsSize - imagesSize - videosSize;
-  
-  const fileTypes = [
-    { type: "Documents", size: docsSize, color: "bg-primary" },
-    { type: "Images", size: imagesSize, color: "bg-[hsl(var(--chart-2))]" },
-    { type: "Videos", size: videosSize, color: "bg-[hsl(var(--chart-3))]" },
-    { type: "Other", size: otherSize, color: "bg-[hsl(var(--chart-4))]" },
-  ];
+/**
+ * Button that opens the storage totals for the folder being browsed. Totals
+ * are only calculated once it is opened, since unindexed buckets have to be
+ * listed in full.
+ */
+export function StorageStats({ accountId, bucket, prefix }: StorageStatsProps) {
+  const [open, setOpen] = useState(false);
+  const { stats, isLoading, error, refresh, isRefreshing } = useStorageStats(accountId, bucket, prefix, open);
 
   return (
-    <Card className="bg-card rounded-xl shadow-sm mb-6">
-      <CardContent className="p-4">
-        <div className="flex flex-col sm:flex-row sm:items-center justify-between mb-3">
-          <h2 className="text-lg font-medium">Storage</h2>
-          <div className="text-right">
-            <p className="text-muted-foreground text-sm">
-              <span className="font-medium text-foreground">{formatBytes(usedStorage)}</span> of {formatBytes(totalStorageLimit)} used
-            </p>
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="sm">
+          <i className="ri-pie-chart-line mr-1.5"></i>
+          Storage
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-96">
+        <div className="flex items-start justify-between gap-2 mb-3">
+          <div className="min-w-0">
+            <h2 className="font-medium truncate">{prefix || bucket}</h2>
+            {stats && (
+              <p className="text-sm text-muted-foreground">
+                <span className="font-medium text-foreground">{formatBytes(stats.totalBytes)}</span> in {stats.objectCount.toLocaleString()} objects
+              </p>
+            )}
           </div>
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => refresh()}
+            disabled={isLoading || isRefreshing}
+            title="Recalculate"
+          >
+            <i className={`ri-refresh-line ${isRefreshing ? 'animate-spin' : ''}`}></i>
+          </Button>
         </div>
-        
-        <Progress value={percentUsed} className="h-4" />
-        
-        <p className="text-xs text-muted-foreground mt-2">
-          {account.defaultBucket ? 
-            `Showing storage usage for "${account.defaultBucket}" bucket. S3 doesn't have storage limits by default, 5GB is a typical free tier limit.` : 
-            "Select a default bucket in account settings to see actual storage metrics."}
-        </p>
-        
-        <div className="mt-4 grid grid-cols-2 sm:grid-cols-4 gap-3 text-sm">
-          {fileTypes.map((fileType, index) => (
-            <div key={index} className="flex items-center">
-              <div className={`w-3 h-3 ${fileType.color} rounded-full mr-2`}></div>
-              <span className="text-muted-foreground">{fileType.type}</span>
-              <span className="ml-auto font-medium">{formatBytes(fileType.size)}</span>
-            </div>
-          ))}
-        </div>
-      </CardContent>
-    </Card>
+
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground py-4">
+            <i className="ri-loader-4-line animate-spin mr-1.5"></i>
+            Adding up every object in this folder…
+          </p>
+        ) : error ? (
+          <p className="text-sm text-destructive">{getApiErrorMessage(error, "Could not calculate storage statistics")}</p>
+        ) : stats && (
+          <>
+            <StorageBreakdownView breakdown={stats} />
+            <p className="text-xs text-muted-foreground mt-3">
+              {stats.source === 'index'
+                ? `From the object index, scanned ${formatDate(stats.computedAt)}`
+                : `Calculated ${formatDate(stats.computedAt)}`}
+            </p>
+          </>
+        )}
+      </PopoverContent>
+    </Popover>
   );
 }
@@ -0,0 +1,179 @@
+import { useState } from 'react';
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { formatBytes, formatDate } from "@/lib/utils";
+import { S3ObjectVersion } from "@/lib/types";
+import { useS3ObjectVersions } from "@/hooks/use-s3";
+import { Download, History, Trash, Undo2 } from "lucide-react";
+
+interface VersionsPanelProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  accountId: number;
+  bucket: string;
+  objectKey: string | null;
+}
+
+// ETags are quoted by S3; multipart ETags end in "-<parts>"
+function formatEtag(etag?: string) {
+  return etag ? etag.replace(/"/g, '') : '';
+}
+
+/**
+ * Side panel listing every version and delete marker of a file, with actions to
+ * download a version, make it current again, or delete it permanently.
+ */
+export function VersionsPanel({ open, onOpenChange, accountId, bucket, objectKey }: VersionsPanelProps) {
+  const [versionToDelete, setVersionToDelete] = useState<S3ObjectVersion | null>(null);
+  const {
+    versions,
+    isLoading,
+    isError,
+    error,
+    downloadVersion,
+    restoreVersion,
+    deleteVersion,
+    isRestoring,
+    isDeletingVersion,
+  } = useS3ObjectVersions(accountId, bucket, open ? objectKey ?? undefined : undefined);
+
+  const fileName = objectKey?.split('/').pop() || '';
+  const isBusy = isRestoring || isDeletingVersion;
+
+  return (
+    <>
+      <Sheet open={open} onOpenChange={onOpenChange}>
+        <SheetContent className="w-full sm:max-w-lg overflow-y-auto">
+          <SheetHeader>
+            <SheetTitle className="flex items-center gap-2">
+              <History className="h-5 w-5" />
+              Versions
+            </SheetTitle>
+            <SheetDescription className="break-all">{fileName}</SheetDescription>
+          </SheetHeader>
+
+          <div className="mt-6 space-y-2">
+            {isLoading ? (
+              Array.from({ length: 3 }).map((_, index) => (
+                <Skeleton key={index} className="h-20 w-full" />
+              ))
+            ) : isError ? (
+              <p className="text-sm text-destructive">
+                {error instanceof Error ? error.message : "Failed to load versions"}
+              </p>
+            ) : versions.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                No versions found. Versioning may not be enabled for this bucket.
+              </p>
+            ) : (
+              versions.map(version => (
+                <div key={version.versionId} className="rounded-md border p-3 space-y-2">
+                  <div className="flex items-center justify-between gap-2">
+                    <div className="flex items-center gap-2 min-w-0">
+                      {version.isLatest && <Badge>Current</Badge>}
+                      {version.isDeleteMarker && <Badge variant="destructive">Delete marker</Badge>}
+                      <span className="text-sm text-muted-foreground">
+                        {version.lastModified ? formatDate(version.lastModified) : ''}
+                      </span>
+                    </div>
+                    {!version.isDeleteMarker && version.size !== undefined && (
+                      <span className="text-sm">{formatBytes(version.size)}</span>
+                    )}
+                  </div>
+
+                  <div className="text-xs text-muted-foreground font-mono break-all">
+                    <div>Version: {version.versionId}</div>
+                    {version.etag && <div>ETag: {formatEtag(version.etag)}</div>}
+                  </div>
+
+                  <div className="flex flex-wrap gap-2">
+                    {!version.isDeleteMarker && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="h-7"
+                        onClick={() => downloadVersion(version.versionId)}
+                      >
+                        <Download className="mr-1.5 h-3.5 w-3.5" />
+                        Download
+                      </Button>
+                    )}
+                    {!version.isDeleteMarker && !version.isLatest && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="h-7"
+                        disabled={isBusy}
+                        onClick={() => restoreVersion(version.versionId)}
+                      >
+                        <Undo2 className="mr-1.5 h-3.5 w-3.5" />
+                        Restore
+                      </Button>
+                    )}
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="h-7 text-destructive"
+                      disabled={isBusy}
+                      onClick={() => setVersionToDelete(version)}
+                    >
+                      <Trash className="mr-1.5 h-3.5 w-3.5" />
+                      {version.isDeleteMarker ? 'Remove marker' : 'Delete'}
+                    </Button>
+                  </div>
+                </div>
+              ))
+            )}
+          </div>
+        </SheetContent>
+      </Sheet>
+
+      <AlertDialog open={!!versionToDelete} onOpenChange={(isOpen) => !isOpen && setVersionToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {versionToDelete?.isDeleteMarker ? 'Remove delete marker?' : 'Permanently delete this version?'}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {versionToDelete?.isDeleteMarker
+                ? 'Removing the delete marker makes the previous version current again.'
+                : 'This version will be removed from S3 and cannot be recovered.'}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              onClick={() => {
+                if (versionToDelete) {
+                  deleteVersion(versionToDelete.versionId);
+                }
+                setVersionToDelete(null);
+              }}
+            >
+              {versionToDelete?.isDeleteMarker ? 'Remove' : 'Delete'}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
@@ -0,0 +1,115 @@
+import { ReactNode, useEffect, useRef, useState } from "react";
+import { useVirtualizer } from "@tanstack/react-virtual";
+
+interface VirtualizedFileListProps<T> {
+  items: T[];
+  viewMode: 'grid' | 'list';
+  getItemKey: (item: T, index: number) => string;
+  renderItem: (item: T, index: number) => ReactNode;
+  hasMore?: boolean;
+  isLoadingMore?: boolean;
+  onLoadMore?: () => void;
+}
+
+// Matches the Tailwind breakpoints used by the grid view (sm, md, lg)
+function getGridColumns(width: number) {
+  if (width >= 1024) return 4;
+  if (width >= 768) return 3;
+  if (width >= 640) return 2;
+  return 1;
+}
+
+function useWindowWidth() {
+  const [width, setWidth] = useState(() => window.innerWidth);
+
+  useEffect(() => {
+    const handleResize = () => setWidth(window.innerWidth);
+    window.addEventListener("resize", handleResize);
+    return () => window.removeEventListener("resize", handleResize);
+  }, []);
+
+  return width;
+}
+
+/**
+ * Renders only the rows of files/folders that are on screen, so folders with
+ * hundreds of thousands of objects stay responsive. Calls onLoadMore when the
+ * user scrolls near the end of the loaded items.
+ */
+export function VirtualizedFileList<T>({
+  items,
+  viewMode,
+  getItemKey,
+  renderItem,
+  hasMore = false,
+  isLoadingMore = false,
+  onLoadMore,
+}: VirtualizedFileListProps<T>) {
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const windowWidth = useWindowWidth();
+  const columns = viewMode === 'grid' ? getGridColumns(windowWidth) : 1;
+  const rowCount = Math.ceil(items.length / columns);
+
+  const virtualizer = useVirtualizer({
+    count: rowCount,
+    getScrollElement: () => scrollRef.current,
+    estimateSize: () => (viewMode === 'grid' ? 196 : 64),
+    overscan: 5,
+  });
+
+  // Re-measure when the layout changes shape
+  useEffect(() => {
+    virtualizer.measure();
+  }, [virtualizer, viewMode, columns]);
+
+  const virtualRows = virtualizer.getVirtualItems();
+  const lastVisibleRow = virtualRows.length > 0 ? virtualRows[virtualRows.length - 1].index : -1;
+
+  // Fetch the next page once the user scrolls close to the end
+  useEffect(() => {
+    if (hasMore && !isLoadingMore && onLoadMore && lastVisibleRow >= rowCount - 5) {
+      onLoadMore();
+    }
+  }, [hasMore, isLoadingMore, onLoadMore, lastVisibleRow, rowCount]);
+
+  return (
+    <div ref={scrollRef} className="h-[calc(100vh-16rem)] overflow-y-auto">
+      <div className="relative w-full" style={{ height: virtualizer.getTotalSize() }}>
+        {virtualRows.map(virtualRow => {
+          const rowItems = items.slice(virtualRow.index * columns, (virtualRow.index + 1) * columns);
+
+          return (
+            <div
+              key={virtualRow.key}
+              data-index={virtualRow.index}
+              ref={virtualizer.measureElement}
+              className="absolute left-0 top-0 w-full"
+              style={{ transform: `translateY(${virtualRow.start}px)` }}
+            >
+              <div
+                className={viewMode === 'grid' ? 'grid gap-4 pb-4' : 'pb-2'}
+                style={viewMode === 'grid' ? { gridTemplateColumns: `repeat(${columns}, minmax(0, 1fr))` } : undefined}
+              >
+                {rowItems.map((item, offset) => {
+                  const index = virtualRow.index * columns + offset;
+                  return (
+                    <div key={getItemKey(item, index)}>
+                      {renderItem(item, index)}
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {isLoadingMore && (
+        <div className="flex items-center justify-center py-4 text-sm text-muted-foreground">
+          <i className="ri-loader-4-line animate-spin mr-2"></i>
+          Loading more items...
+        </div>
+      )}
+    </div>
+  );
+}
@@ -83,6 +83,17 @@ export function Sidebar() {
             <span>Settings</span>
           </a>
         </Link>
+        <Link href="/bucket-settings">
+          <a className={cn(
+            "flex items-center px-4 py-2.5 text-sm font-medium rounded-lg",
+            isActive("/bucket-settings") ? 
+              "text-white bg-primary" : 
+              "text-foreground hover:bg-muted"
+          )}>
+            <i className="ri-database-2-line mr-3 text-lg"></i>
+            <span>Bucket Settings</span>
+          </a>
+        </Link>
         
         {/* Admin Links - Only show for admin users */}
         {user?.isAdmin && (
@@ -101,6 +112,17 @@ export function Sidebar() {
                     <span>User Management</span>
                   </a>
                 </Link>
+                <Link href="/admin/object-index">
+                  <a className={cn(
+                    "flex items-center px-4 py-2.5 text-sm font-medium rounded-lg",
+                    isActive("/admin/object-index") ? 
+                      "text-white bg-primary" : 
+                      "text-foreground hover:bg-muted"
+                  )}>
+                    <i className="ri-database-line mr-3 text-lg"></i>
+                    <span>Object Index</span>
+                  </a>
+                </Link>
               </div>
             </div>
           </>
@@ -1,19 +1,53 @@
-import { useState, useEffect } from "react";
-import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useState, useEffect, useMemo, useRef, useCallback } from "react";
+import { useQuery, useInfiniteQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { 
   listBuckets, 
   listObjects, 
   deleteObject, 
   deleteObjects, 
   getDownloadUrl, 
-  getDownloadUrlsForBatch, 
-  uploadFile,
+  prepareBatchDownload, 
   copyObjects,
   moveObjects,
-  renameObject
+  renameObject,
+  listObjectVersions,
+  restoreObjectVersion,
+  deleteObjectVersion,
+  listDeletedObjects,
+  getObjectDetails,
+  updateObjectMetadata,
+  changeStorageClass,
+  restoreObjects,
+  getBucketLifecycle,
+  putBucketLifecycle,
+  createBucket,
+  deleteBucket,
+  startEmptyBucket,
+  getEmptyBucketJob,
+  getBucketSettings,
+  updateBucketSettings,
+  getBucketPolicy,
+  putBucketPolicy,
+  getBucketCors,
+  putBucketCors,
+  searchObjects,
+  getObjectIndex,
+  configureObjectIndex,
+  startObjectIndexScan,
+  getFolderSize,
+  getStorageStats,
+  getStorageOverview,
+  getStorageHistory,
+  getFilePreview,
+  getEditableText,
+  saveEditedText
 } from "@/lib/s3";
+import { getApiErrorMessage } from "@/lib/queryClient";
+import { uploadFileResumable } from "@/lib/multipart-upload";
 import { useToast } from "@/hooks/use-toast";
-import { S3Bucket, S3Object, S3CommonPrefix, S3ListObjectsResult, FileUploadProgress, S3Account, EnhancedS3Bucket } from "@/lib/types";
+import { S3Bucket, S3Object, S3CommonPrefix, S3ListObjectsResult, FileUploadProgress, S3Account, EnhancedS3Bucket, S3MetadataUpdate, S3BucketSettingsUpdate, S3CreateBucketOptions, S3SearchQuery, S3SearchSummary } from "@/lib/types";
+import type { LifecycleRule } from "@shared/lifecycle";
+import type { BucketPolicy, CorsRule } from "@shared/bucket-config";
 
 /**
  * Hook for working with S3 buckets
@@ -95,25 +129,58 @@ export function useAllS3Buckets() {
 }
 
 /**
- * Hook for listing objects in an S3 bucket
+ * Hook for listing objects in an S3 bucket, one page at a time.
+ * Loaded pages are merged into a single listing; call fetchNextPage to load more.
  */
 export function useS3Objects(
   accountId: number | undefined,
   bucket: string | undefined,
   prefix: string = "",
-  enabled = true
+  enabled = true,
+  pageSize = 1000
 ) {
   const isEnabled = enabled && typeof accountId === 'number' && typeof bucket === 'string';
-  const { toast } = useToast();
   
-  return useQuery<S3ListObjectsResult>({
+  const query = useInfiniteQuery({
     queryKey: [`/api/s3/${accountId}/objects`, bucket, prefix],
-    queryFn: () => listObjects(accountId as number, bucket as string, prefix),
+    queryFn: ({ pageParam }) => listObjects(accountId as number, bucket as string, prefix, "/", {
+      continuationToken: pageParam,
+      pageSize,
+    }),
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (lastPage) => lastPage.isTruncated ? lastPage.nextContinuationToken : undefined,
     enabled: isEnabled,
     retry: 1, // Only retry once for S3 failures
     refetchOnWindowFocus: false,
     staleTime: 0 // Always treat data as stale to ensure fresh content on bucket switching
   });
+  
+  // Merge the loaded pages into one listing
+  const data = useMemo<S3ListObjectsResult | undefined>(() => {
+    const pages = query.data?.pages;
+    if (!pages || pages.length === 0) return undefined;
+    
+    const lastPage = pages[pages.length - 1];
+    return {
+      objects: pages.flatMap(page => page.objects),
+      folders: pages.flatMap(page => page.folders),
+      prefix: lastPage.prefix,
+      delimiter: lastPage.delimiter,
+      isTruncated: lastPage.isTruncated,
+      nextContinuationToken: lastPage.nextContinuationToken,
+    };
+  }, [query.data]);
+  
+  return {
+    data,
+    isLoading: query.isLoading,
+    isError: query.isError,
+    error: query.error,
+    refetch: query.refetch,
+    fetchNextPage: query.fetchNextPage,
+    hasNextPage: query.hasNextPage,
+    isFetchingNextPage: query.isFetchingNextPage,
+  };
 }
 
 /**
@@ -218,71 +285,54 @@ export function useS3FileOperations(accountId: number | undefined) {
         description: "Your file will download shortly",
       });
     } catch (error) {
+      const isArchived = error instanceof Error && error.message.startsWith("409:");
       toast({
-        title: "Download failed",
-        description: error instanceof Error ? error.message : "Failed to generate download link",
+        title: isArchived ? "File is archived" : "Download failed",
+        description: getApiErrorMessage(error, "Failed to generate download link"),
         variant: "destructive",
       });
     }
   };
 
-  // Batch file download
-  const downloadFiles = async (bucket: string, keys: string[]) => {
-    if (!accountId) {
-      toast({
-        title: "Download failed",
-        description: "Account ID is required",
-        variant: "destructive",
-      });
-      return;
-    }
-    
-    if (keys.length === 0) {
-      toast({
-        title: "No files selected",
-        description: "Please select at least one file to download",
-        variant: "destructive",
-      });
-      return;
-    }
-    
-    toast({
-      title: "Preparing files",
-      description: `Generating download links for ${keys.length} file(s)...`,
-    });
-    
-    try {
-      const urlMap = await getDownloadUrlsForBatch(accountId, bucket, keys);
+  // Batch download as a single ZIP archive streamed by the server
+  const batchDownloadMutation = useMutation({
+    mutationFn: async ({ bucket, keys }: { bucket: string; keys: string[] }) => {
+      if (!accountId) throw new Error("Account ID is required");
+      if (keys.length === 0) throw new Error("Please select at least one file to download");
       
-      // Create download links sequentially to avoid browser blocking multiple downloads
-      let delay = 0;
-      const delayIncrement = 250; // milliseconds between downloads
+      const result = await prepareBatchDownload(accountId, bucket, keys);
       
-      Object.entries(urlMap).forEach(([key, url], index) => {
-        setTimeout(() => {
-          const link = document.createElement("a");
-          link.href = url;
-          link.setAttribute("download", key.split("/").pop() || `file-${index}`);
-          document.body.appendChild(link);
-          link.click();
-          document.body.removeChild(link);
-        }, delay);
-        
-        delay += delayIncrement;
-      });
+      // Let the browser stream the archive to disk rather than holding it in memory
+      const link = document.createElement("a");
+      link.href = result.downloadUrl;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
       
-      toast({
-        title: "Downloads started",
-        description: `${Object.keys(urlMap).length} file(s) will download shortly`,
-      });
-    } catch (error) {
+      return result;
+    },
+    onSuccess: (result) => {
+      if (result.errors.length === 0) {
+        toast({
+          title: "Download started",
+          description: `Zipping ${result.fileCount} file(s)`,
+        });
+      } else {
+        toast({
+          title: "Download started with errors",
+          description: `Zipping ${result.fileCount} file(s); ${result.errors.length} item(s) could not be included`,
+          variant: "destructive",
+        });
+      }
+    },
+    onError: (error) => {
       toast({
         title: "Batch download failed",
-        description: error instanceof Error ? error.message : "Failed to generate download links",
+        description: error instanceof Error ? error.message : "Failed to prepare download",
         variant: "destructive",
       });
-    }
-  };
+    },
+  });
 
   // Batch copy operation
   const batchCopyMutation = useMutation({
@@ -356,9 +406,15 @@ export function useS3FileOperations(accountId: number | undefined) {
       return moveObjects(accountId, sourceBucket, keys, destinationBucket, destinationPrefix);
     },
     onSuccess: (result, variables) => {
-      const { moved, errors } = result;
+      const { moved, errors, copiedNotDeleted = [] } = result;
       
-      if (errors.length === 0) {
+      if (copiedNotDeleted.length > 0) {
+        toast({
+          title: "Move incomplete",
+          description: `${copiedNotDeleted.length} file(s) were copied but the originals could not be deleted, so they now exist in both locations`,
+          variant: "destructive",
+        });
+      } else if (errors.length === 0) {
         toast({
           title: "Batch move successful",
           description: `Successfully moved ${moved.length} file(s)`,
@@ -435,24 +491,992 @@ export function useS3FileOperations(accountId: number | undefined) {
     renameFile: (bucket: string, sourceKey: string, newName: string) => 
       renameFileMutation.mutate({ bucket, sourceKey, newName }),
     
-    // Batch operations
+    // Batch operations resolve with the server's result once done; the hook shows the toasts
     batchDeleteFiles: (bucket: string, keys: string[]) => 
-      batchDeleteMutation.mutate({ bucket, keys }),
+      batchDeleteMutation.mutateAsync({ bucket, keys }),
     batchCopyFiles: (sourceBucket: string, keys: string[], destinationBucket: string, destinationPrefix = "") => 
-      batchCopyMutation.mutate({ sourceBucket, keys, destinationBucket, destinationPrefix }),
+      batchCopyMutation.mutateAsync({ sourceBucket, keys, destinationBucket, destinationPrefix }),
     batchMoveFiles: (sourceBucket: string, keys: string[], destinationBucket: string, destinationPrefix = "") => 
-      batchMoveMutation.mutate({ sourceBucket, keys, destinationBucket, destinationPrefix }),
-    downloadFiles,
+      batchMoveMutation.mutateAsync({ sourceBucket, keys, destinationBucket, destinationPrefix }),
+    batchDownloadFiles: (bucket: string, keys: string[]) => 
+      batchDownloadMutation.mutate({ bucket, keys }),
     
     // Mutation states
     isDeleting: deleteFileMutation.isPending,
     isBatchDeleting: batchDeleteMutation.isPending,
+    isBatchDownloading: batchDownloadMutation.isPending,
     isBatchCopying: batchCopyMutation.isPending,
     isBatchMoving: batchMoveMutation.isPending,
     isRenaming: renameFileMutation.isPending,
   };
 }
 
+/**
+ * Hook for an object's version history: list, download, restore and delete versions
+ */
+export function useS3ObjectVersions(accountId: number | undefined, bucket: string | undefined, key: string | undefined) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const enabled = typeof accountId === 'number' && !!bucket && !!key;
+  
+  const query = useQuery({
+    queryKey: [`/api/s3/${accountId}/versions`, bucket, key],
+    queryFn: () => listObjectVersions(accountId as number, bucket as string, key as string),
+    enabled,
+    refetchOnWindowFocus: false,
+  });
+  
+  // Restoring or deleting a version can change the listing and the deleted files view
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: [`/api/s3/${accountId}/versions`, bucket, key] });
+    queryClient.invalidateQueries({ queryKey: [`/api/s3/${accountId}/objects`, bucket] });
+    queryClient.invalidateQueries({ queryKey: [`/api/s3/${accountId}/deleted-objects`, bucket] });
+  };
+  
+  const restoreMutation = useMutation({
+    mutationFn: async (versionId: string) => {
+      if (!enabled) throw new Error("Account, bucket and key are required");
+      return restoreObjectVersion(accountId as number, bucket as string, key as string, versionId);
+    },
+    onSuccess: () => {
+      toast({
+        title: "Version restored",
+        description: "The selected version is now the current version",
+      });
+      invalidate();
+    },
+    onError: (error) => {
+      toast({
+        title: "Restore failed",
+        description: error instanceof Error ? error.message : "Failed to restore version",
+        variant: "destructive",
+      });
+    },
+  });
+  
+  const deleteMutation = useMutation({
+    mutationFn: async (versionId: string) => {
+      if (!enabled) throw new Error("Account, bucket and key are required");
+      return deleteObjectVersion(accountId as number, bucket as string, key as string, versionId);
+    },
+    onSuccess: () => {
+      toast({
+        title: "Version deleted",
+        description: "The version has been permanently deleted",
+      });
+      invalidate();
+    },
+    onError: (error) => {
+      toast({
+        title: "Delete failed",
+        description: error instanceof Error ? error.message : "Failed to delete version",
+        variant: "destructive",
+      });
+    },
+  });
+  
+  const downloadVersion = async (versionId: string) => {
+    if (!enabled) return;
+    
+    try {
+      const signedUrl = await getDownloadUrl(accountId as number, bucket as string, key as string, versionId);
+      
+      const link = document.createElement("a");
+      link.href = signedUrl;
+      link.setAttribute("download", (key as string).split("/").pop() || "download");
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+    } catch (error) {
+      toast({
+        title: "Download failed",
+        description: error instanceof Error ? error.message : "Failed to generate download link",
+        variant: "destructive",
+      });
+    }
+  };
+  
+  return {
+    versions: query.data || [],
+    isLoading: query.isLoading,
+    isError: query.isError,
+    error: query.error,
+    downloadVersion,
+    restoreVersion: (versionId: string) => restoreMutation.mutate(versionId),
+    deleteVersion: (versionId: string) => deleteMutation.mutate(versionId),
+    isRestoring: restoreMutation.isPending,
+    isDeletingVersion: deleteMutation.isPending,
+  };
+}
+
+/**
+ * Hook for the deleted files in a folder of a versioned bucket. Undeleting removes
+ * the delete marker so the previous version becomes current again.
+ */
+export function useS3DeletedObjects(
+  accountId: number | undefined,
+  bucket: string | undefined,
+  prefix: string = "",
+  enabled = true
+) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const isEnabled = enabled && typeof accountId === 'number' && !!bucket;
+  
+  const query = useQuery({
+    queryKey: [`/api/s3/${accountId}/deleted-objects`, bucket, prefix],
+    queryFn: () => listDeletedObjects(accountId as number, bucket as string, prefix),
+    enabled: isEnabled,
+    refetchOnWindowFocus: false,
+  });
+  
+  const undeleteMutation = useMutation({
+    mutationFn: async ({ key, deleteMarkerVersionId }: { key: string; deleteMarkerVersionId: string }) => {
+      if (!accountId || !bucket) throw new Error("Account ID and bucket are required");
+      return deleteObjectVersion(accountId, bucket, key, deleteMarkerVersionId);
+    },
+    onSuccess: (_, variables) => {
+      toast({
+        title: "File restored",
+        description: `${variables.key.split("/").pop()} has been undeleted`,
+      });
+      queryClient.invalidateQueries({ queryKey: [`/api/s3/${accountId}/deleted-objects`, bucket] });
+      queryClient.invalidateQueries({ queryKey: [`/api/s3/${accountId}/objects`, bucket] });
+      queryClient.invalidateQueries({ queryKey: [`/api/s3/${accountId}/versions`, bucket, variables.key] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Undelete failed",
+        description: error instanceof Error ? error.message : "Failed to undelete file",
+        variant: "destructive",
+      });
+    },
+  });
+  
+  return {
+    deletedObjects: query.data || [],
+    isLoading: query.isLoading,
+    isError: query.isError,
+    error: query.error,
+    undeleteObject: (key: string, deleteMarkerVersionId: string) =>
+      undeleteMutation.mutate({ key, deleteMarkerVersionId }),
+    isUndeleting: undeleteMutation.isPending,
+  };
+}
+
+/**
+ * Hook for an object's metadata and tags, and for editing them on one or many objects
+ */
+export function useS3ObjectMetadata(accountId: number | undefined, bucket: string | undefined, key?: string) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  
+  const query = useQuery({
+    queryKey: [`/api/s3/${accountId}/object-details`, bucket, key],
+    queryFn: () => getObjectDetails(accountId as number, bucket as string, key as string),
+    enabled: typeof accountId === 'number' && !!bucket && !!key,
+    refetchOnWindowFocus: false,
+  });
+  
+  const updateMutation = useMutation({
+    mutationFn: async ({ keys, update }: { keys: string[]; update: S3MetadataUpdate }) => {
+      if (!accountId || !bucket) throw new Error("Account ID and bucket are required");
+      return updateObjectMetadata(accountId, bucket, keys, update);
+    },
+    onSuccess: ({ updated, errors }) => {
+      if (errors.length === 0) {
+        toast({
+          title: "Metadata updated",
+          description: `Updated ${updated.length} file(s)`,
+        });
+      } else {
+        toast({
+          title: "Partial metadata update",
+          description: `Updated ${updated.length} file(s), but ${errors.length} failed: ${errors[0].message}`,
+          variant: "destructive",
+        });
+      }
+      
+      queryClient.invalidateQueries({ queryKey: [`/api/s3/${accountId}/object-details`, bucket] });
+      queryClient.invalidateQueries({ queryKey: [`/api/s3/${accountId}/objects`, bucket] });
+      queryClient.invalidateQueries({ queryKey: [`/api/s3/${accountId}/versions`, bucket] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Metadata update failed",
+        description: error instanceof Error ? error.message : "Failed to update metadata",
+        variant: "destructive",
+      });
+    },
+  });
+  
+  return {
+    details: query.data,
+    isLoading: query.isLoading,
+    isError: query.isError,
+    error: query.error,
+    updateMetadata: (keys: string[], update: S3MetadataUpdate) =>
+      updateMutation.mutateAsync({ keys, update }),
+    isUpdating: updateMutation.isPending,
+  };
+}
+
+/**
+ * Hook for storage class changes and restores of archived objects
+ */
+export function useS3StorageClass(accountId: number | undefined) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  
+  const invalidate = (bucket: string) => {
+    queryClient.invalidateQueries({ queryKey: [`/api/s3/${accountId}/objects`, bucket] });
+    queryClient.invalidateQueries({ queryKey: [`/api/s3/${accountId}/object-details`, bucket] });
+  };
+  
+  const changeMutation = useMutation({
+    mutationFn: async ({ bucket, keys, storageClass }: { bucket: string; keys: string[]; storageClass: string }) => {
+      if (!accountId) throw new Error("Account ID is required");
+      return changeStorageClass(accountId, bucket, keys, storageClass);
+    },
+    onSuccess: ({ updated, errors }, variables) => {
+      if (errors.length === 0) {
+        toast({
+          title: "Storage class changed",
+          description: `Moved ${updated.length} file(s) to ${variables.storageClass}`,
+        });
+      } else {
+        toast({
+          title: "Partial storage class change",
+          description: `Moved ${updated.length} file(s), but ${errors.length} failed: ${errors[0].message}`,
+          variant: "destructive",
+        });
+      }
+      invalidate(variables.bucket);
+    },
+    onError: (error) => {
+      toast({
+        title: "Storage class change failed",
+        description: getApiErrorMessage(error, "Failed to change storage class"),
+        variant: "destructive",
+      });
+    },
+  });
+  
+  const restoreMutation = useMutation({
+    mutationFn: async ({ 
+      bucket, 
+      keys, 
+      days, 
+      tier 
+    }: { 
+      bucket: string; 
+      keys: string[]; 
+      days: number; 
+      tier: "Expedited" | "Standard" | "Bulk";
+    }) => {
+      if (!accountId) throw new Error("Account ID is required");
+      return restoreObjects(accountId, bucket, keys, days, tier);
+    },
+    onSuccess: ({ requested, errors }, variables) => {
+      if (errors.length === 0) {
+        toast({
+          title: "Restore requested",
+          description: `Restoring ${requested.length} file(s) for ${variables.days} day(s). This can take minutes to hours depending on the tier.`,
+        });
+      } else {
+        toast({
+          title: "Partial restore request",
+          description: `Requested ${requested.length} restore(s), but ${errors.length} failed: ${errors[0].message}`,
+          variant: "destructive",
+        });
+      }
+      invalidate(variables.bucket);
+    },
+    onError: (error) => {
+      toast({
+        title: "Restore request failed",
+        description: getApiErrorMessage(error, "Failed to request restore"),
+        variant: "destructive",
+      });
+    },
+  });
+  
+  return {
+    changeStorageClass: (bucket: string, keys: string[], storageClass: string) =>
+      changeMutation.mutateAsync({ bucket, keys, storageClass }),
+    restoreObjects: (bucket: string, keys: string[], days: number, tier: "Expedited" | "Standard" | "Bulk") =>
+      restoreMutation.mutateAsync({ bucket, keys, days, tier }),
+    isChangingStorageClass: changeMutation.isPending,
+    isRestoring: restoreMutation.isPending,
+  };
+}
+
+/**
+ * Hook for creating and deleting buckets, and emptying them before deletion
+ */
+export function useS3BucketManagement(accountId: number | undefined) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  
+  const invalidateBuckets = () => {
+    queryClient.invalidateQueries({ queryKey: [`/api/s3/${accountId}/buckets`] });
+    queryClient.invalidateQueries({ queryKey: ['all-buckets'] });
+  };
+  
+  const createMutation = useMutation({
+    mutationFn: async ({ bucket, options }: { bucket: string; options: S3CreateBucketOptions }) => {
+      if (!accountId) throw new Error("Account ID is required");
+      return createBucket(accountId, bucket, options);
+    },
+    onSuccess: (_, { bucket }) => {
+      toast({
+        title: "Bucket created",
+        description: `Created ${bucket}`,
+      });
+      invalidateBuckets();
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to create bucket",
+        description: getApiErrorMessage(error, "Failed to create bucket"),
+        variant: "destructive",
+      });
+    },
+  });
+  
+  // A non-empty bucket is reported to the caller instead of toasted, so it can
+  // offer to empty the bucket first
+  const deleteMutation = useMutation({
+    mutationFn: async (bucket: string) => {
+      if (!accountId) throw new Error("Account ID is required");
+      return deleteBucket(accountId, bucket);
+    },
+    onSuccess: (_, bucket) => {
+      toast({
+        title: "Bucket deleted",
+        description: `Deleted ${bucket}`,
+      });
+      invalidateBuckets();
+    },
+    onError: (error) => {
+      if (error instanceof Error && error.message.startsWith("409:")) return;
+      toast({
+        title: "Failed to delete bucket",
+        description: getApiErrorMessage(error, "Failed to delete bucket"),
+        variant: "destructive",
+      });
+    },
+  });
+  
+  const emptyMutation = useMutation({
+    mutationFn: async ({ bucket, deleteAfter }: { bucket: string; deleteAfter: boolean }) => {
+      if (!accountId) throw new Error("Account ID is required");
+      return startEmptyBucket(accountId, bucket, deleteAfter);
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to empty bucket",
+        description: getApiErrorMessage(error, "Failed to start emptying the bucket"),
+        variant: "destructive",
+      });
+    },
+  });
+  
+  return {
+    createBucket: (bucket: string, options: S3CreateBucketOptions) => createMutation.mutateAsync({ bucket, options }),
+    deleteBucket: deleteMutation.mutateAsync,
+    startEmptyBucket: (bucket: string, deleteAfter: boolean) => emptyMutation.mutateAsync({ bucket, deleteAfter }),
+    invalidateBuckets,
+    isCreating: createMutation.isPending,
+    isDeleting: deleteMutation.isPending,
+    isStartingEmpty: emptyMutation.isPending,
+  };
+}
+
+/**
+ * Hook for polling an empty-bucket job until it finishes
+ */
+export function useEmptyBucketJob(accountId: number | undefined, jobId: string | undefined) {
+  return useQuery({
+    queryKey: [`/api/s3/${accountId}/buckets/empty`, jobId],
+    queryFn: () => getEmptyBucketJob(accountId as number, jobId as string),
+    enabled: typeof accountId === 'number' && !!jobId,
+    refetchInterval: (query) => query.state.data?.status === 'running' || !query.state.data ? 1000 : false,
+  });
+}
+
+/**
+ * Hook for a bucket's versioning, encryption, Block Public Access and tags
+ */
+export function useBucketSettings(accountId: number | undefined, bucket: string | undefined) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const queryKey = [`/api/s3/${accountId}/bucket-settings`, bucket];
+  
+  const query = useQuery({
+    queryKey,
+    queryFn: () => getBucketSettings(accountId as number, bucket as string),
+    enabled: typeof accountId === 'number' && !!bucket,
+  });
+  
+  const updateMutation = useMutation({
+    mutationFn: async (update: S3BucketSettingsUpdate) => {
+      if (!accountId || !bucket) throw new Error("Account ID and bucket are required");
+      return updateBucketSettings(accountId, bucket, update);
+    },
+    onSuccess: (settings) => {
+      queryClient.setQueryData(queryKey, settings);
+      toast({
+        title: "Bucket settings saved",
+        description: `Updated settings for ${bucket}`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to save bucket settings",
+        description: getApiErrorMessage(error, "Failed to save bucket settings"),
+        variant: "destructive",
+      });
+    },
+  });
+  
+  return {
+    settings: query.data,
+    isLoading: query.isLoading,
+    isError: query.isError,
+    error: query.error,
+    updateSettings: updateMutation.mutateAsync,
+    isUpdating: updateMutation.isPending,
+  };
+}
+
+/**
+ * Hook for reading and saving a bucket policy
+ */
+export function useBucketPolicy(accountId: number | undefined, bucket: string | undefined) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const queryKey = [`/api/s3/${accountId}/buckets/policy`, bucket];
+  
+  const query = useQuery({
+    queryKey,
+    queryFn: () => getBucketPolicy(accountId as number, bucket as string),
+    enabled: typeof accountId === 'number' && !!bucket,
+  });
+  
+  const saveMutation = useMutation({
+    mutationFn: async (policy: BucketPolicy | null) => {
+      if (!accountId || !bucket) throw new Error("Account ID and bucket are required");
+      return putBucketPolicy(accountId, bucket, policy);
+    },
+    onSuccess: (policy) => {
+      queryClient.setQueryData(queryKey, policy);
+      toast({
+        title: policy ? "Bucket policy saved" : "Bucket policy removed",
+        description: `Updated the policy for ${bucket}`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to save bucket policy",
+        description: getApiErrorMessage(error, "Failed to save bucket policy"),
+        variant: "destructive",
+      });
+    },
+  });
+  
+  return {
+    policy: query.data,
+    isLoading: query.isLoading,
+    isError: query.isError,
+    error: query.error,
+    savePolicy: saveMutation.mutateAsync,
+    isSaving: saveMutation.isPending,
+  };
+}
+
+/**
+ * Hook for reading and saving a bucket's CORS rules
+ */
+export function useBucketCors(accountId: number | undefined, bucket: string | undefined) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const queryKey = [`/api/s3/${accountId}/buckets/cors`, bucket];
+  
+  const query = useQuery({
+    queryKey,
+    queryFn: () => getBucketCors(accountId as number, bucket as string),
+    enabled: typeof accountId === 'number' && !!bucket,
+  });
+  
+  const saveMutation = useMutation({
+    mutationFn: async (rules: CorsRule[]) => {
+      if (!accountId || !bucket) throw new Error("Account ID and bucket are required");
+      return putBucketCors(accountId, bucket, rules);
+    },
+    onSuccess: (rules) => {
+      queryClient.setQueryData(queryKey, rules);
+      toast({
+        title: rules.length === 0 ? "CORS configuration removed" : "CORS rules saved",
+        description: `Updated CORS for ${bucket}`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to save CORS rules",
+        description: getApiErrorMessage(error, "Failed to save CORS rules"),
+        variant: "destructive",
+      });
+    },
+  });
+  
+  return {
+    rules: query.data,
+    isLoading: query.isLoading,
+    isError: query.isError,
+    error: query.error,
+    saveRules: saveMutation.mutateAsync,
+    isSaving: saveMutation.isPending,
+  };
+}
+
+/**
+ * Hook for reading and saving a bucket's lifecycle rules
+ */
+export function useBucketLifecycle(accountId: number | undefined, bucket: string | undefined) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const queryKey = [`/api/s3/${accountId}/lifecycle`, bucket];
+  
+  const query = useQuery({
+    queryKey,
+    queryFn: () => getBucketLifecycle(accountId as number, bucket as string),
+    enabled: typeof accountId === 'number' && !!bucket,
+  });
+  
+  const saveMutation = useMutation({
+    mutationFn: async (rules: LifecycleRule[]) => {
+      if (!accountId || !bucket) throw new Error("Account ID and bucket are required");
+      return putBucketLifecycle(accountId, bucket, rules);
+    },
+    onSuccess: (rules) => {
+      queryClient.setQueryData(queryKey, rules);
+      toast({
+        title: "Lifecycle rules saved",
+        description: rules.length === 0
+          ? `Removed the lifecycle configuration from ${bucket}`
+          : `Saved ${rules.length} rule(s) for ${bucket}`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to save lifecycle rules",
+        description: getApiErrorMessage(error, "Failed to save lifecycle rules"),
+        variant: "destructive",
+      });
+    },
+  });
+  
+  return {
+    rules: query.data,
+    isLoading: query.isLoading,
+    isError: query.isError,
+    error: query.error,
+    saveRules: saveMutation.mutateAsync,
+    isSaving: saveMutation.isPending,
+  };
+}
+
+/**
+ * Hook for a bucket's object index: status (polled while a scan runs), opting
+ * in or out, and starting a re-scan
+ */
+export function useObjectIndex(accountId: number | undefined, bucket: string | undefined) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const queryKey = [`/api/s3/${accountId}/object-index`, bucket];
+  
+  const query = useQuery({
+    queryKey,
+    queryFn: () => getObjectIndex(accountId as number, bucket as string),
+    enabled: typeof accountId === 'number' && !!bucket,
+    refetchInterval: (query) => query.state.data?.index?.isScanning ? 2000 : false,
+  });
+  
+  const configureMutation = useMutation({
+    mutationFn: async (settings: { enabled: boolean; indexTags: boolean }) => {
+      if (!accountId || !bucket) throw new Error("Account ID and bucket are required");
+      return configureObjectIndex(accountId, bucket, settings);
+    },
+    onSuccess: (status) => {
+      queryClient.setQueryData(queryKey, status);
+      queryClient.invalidateQueries({ queryKey: [`/api/s3/${accountId}/folder-size`, bucket] });
+      toast({
+        title: status.index?.enabled ? "Indexing turned on" : "Indexing turned off",
+        description: status.index?.enabled
+          ? `${bucket} is being scanned into the index`
+          : `Removed ${bucket} from the index`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to update indexing",
+        description: getApiErrorMessage(error, "Failed to update indexing"),
+        variant: "destructive",
+      });
+    },
+  });
+  
+  const scanMutation = useMutation({
+    mutationFn: async () => {
+      if (!accountId || !bucket) throw new Error("Account ID and bucket are required");
+      return startObjectIndexScan(accountId, bucket);
+    },
+    onSuccess: (status) => {
+      queryClient.setQueryData(queryKey, status);
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to start scan",
+        description: getApiErrorMessage(error, "Failed to start scan"),
+        variant: "destructive",
+      });
+    },
+  });
+  
+  return {
+    index: query.data?.index ?? null,
+    rescanMinutes: query.data?.rescanMinutes,
+    isLoading: query.isLoading,
+    isError: query.isError,
+    error: query.error,
+    configureIndex: configureMutation.mutateAsync,
+    isConfiguring: configureMutation.isPending,
+    startScan: scanMutation.mutateAsync,
+    isStartingScan: scanMutation.isPending,
+  };
+}
+
+/**
+ * Hook for the total size of a folder, from the object index. data is null
+ * when the bucket isn't indexed.
+ */
+export function useFolderSize(accountId: number | undefined, bucket: string | undefined, prefix: string) {
+  return useQuery({
+    queryKey: [`/api/s3/${accountId}/folder-size`, bucket, prefix],
+    queryFn: () => getFolderSize(accountId as number, bucket as string, prefix),
+    enabled: typeof accountId === 'number' && !!bucket,
+    staleTime: 5 * 60 * 1000,
+    retry: false,
+  });
+}
+
+/**
+ * Hook for how to preview a file. The signed URL lasts an hour, so it is
+ * reused for half of that.
+ */
+export function useFilePreview(accountId: number | undefined, bucket: string | undefined, key: string | undefined) {
+  const query = useQuery({
+    queryKey: [`/api/s3/${accountId}/preview`, bucket, key],
+    queryFn: () => getFilePreview(accountId as number, bucket as string, key as string),
+    enabled: typeof accountId === 'number' && !!bucket && !!key,
+    staleTime: 30 * 60 * 1000,
+    retry: false,
+  });
+  
+  return {
+    preview: query.data,
+    isLoading: query.isLoading,
+    error: query.error,
+  };
+}
+
+// The server answers 409 when the file changed after the editor opened it,
+// and 422 when a JSON or YAML file doesn't parse
+function isEditRejection(error: unknown) {
+  return error instanceof Error && /^(409|422):/.test(error.message);
+}
+
+/**
+ * Hook for editing a text file: loads its contents and ETag, and saves new
+ * text only if the file hasn't changed since. Conflicts and validation errors
+ * are returned as saveError for the editor to show rather than toasted.
+ */
+export function useTextEditor(accountId: number | undefined, bucket: string | undefined, key: string | undefined) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const queryKey = [`/api/s3/${accountId}/object-text`, bucket, key];
+  
+  const query = useQuery({
+    queryKey,
+    queryFn: () => getEditableText(accountId as number, bucket as string, key as string),
+    enabled: typeof accountId === 'number' && !!bucket && !!key,
+    // Refetching would replace the ETag the unsaved edits are based on
+    staleTime: Infinity,
+    gcTime: 0,
+    refetchOnWindowFocus: false,
+    retry: false,
+  });
+  
+  const saveMutation = useMutation({
+    mutationFn: async ({ text, etag }: { text: string; etag: string }) => {
+      if (!accountId || !bucket || !key) throw new Error("Account ID, bucket and key are required");
+      return saveEditedText(accountId, bucket, key, text, etag);
+    },
+    onSuccess: (saved, { text }) => {
+      queryClient.setQueryData(queryKey, { ...query.data, text, etag: saved.etag, size: saved.size });
+      queryClient.invalidateQueries({ queryKey: [`/api/s3/${accountId}/objects`, bucket] });
+      queryClient.invalidateQueries({ queryKey: [`/api/s3/${accountId}/preview/text`, bucket, key] });
+      toast({
+        title: "File saved",
+        description: key?.split('/').pop(),
+      });
+    },
+    onError: (error) => {
+      if (isEditRejection(error)) return;
+      toast({
+        title: "Failed to save file",
+        description: getApiErrorMessage(error, "Failed to save file"),
+        variant: "destructive",
+      });
+    },
+  });
+  
+  return {
+    file: query.data,
+    isLoading: query.isLoading,
+    error: query.error,
+    reload: async () => {
+      saveMutation.reset();
+      await query.refetch();
+    },
+    save: saveMutation.mutateAsync,
+    isSaving: saveMutation.isPending,
+    saveError: saveMutation.error && isEditRejection(saveMutation.error) ? saveMutation.error : null,
+    isConflict: !!saveMutation.error && saveMutation.error.message.startsWith('409:'),
+  };
+}
+
+/**
+ * Hook for the storage totals of a bucket or prefix. refresh() asks the server
+ * to recalculate instead of returning its cached totals.
+ */
+export function useStorageStats(accountId: number | undefined, bucket: string | undefined, prefix = '', enabled = true) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const queryKey = [`/api/s3/${accountId}/storage-stats`, bucket, prefix];
+  
+  const query = useQuery({
+    queryKey,
+    queryFn: () => getStorageStats(accountId as number, bucket as string, prefix),
+    enabled: enabled && typeof accountId === 'number' && !!bucket,
+    staleTime: 5 * 60 * 1000,
+    retry: false,
+  });
+  
+  const refreshMutation = useMutation({
+    mutationFn: async () => {
+      if (!accountId || !bucket) throw new Error("Account ID and bucket are required");
+      return getStorageStats(accountId, bucket, prefix, true);
+    },
+    onSuccess: (stats) => {
+      queryClient.setQueryData(queryKey, stats);
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to refresh storage statistics",
+        description: getApiErrorMessage(error, "Failed to refresh storage statistics"),
+        variant: "destructive",
+      });
+    },
+  });
+  
+  return {
+    stats: query.data,
+    isLoading: query.isLoading,
+    error: query.error,
+    refresh: refreshMutation.mutate,
+    isRefreshing: refreshMutation.isPending,
+  };
+}
+
+/**
+ * Hook for the storage totals across all of the user's accounts, and their
+ * growth over the last `days` days
+ */
+export function useStorageOverview(days = 30) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  
+  const overviewQuery = useQuery({
+    queryKey: ['/api/storage-stats'],
+    queryFn: () => getStorageOverview(),
+    staleTime: 5 * 60 * 1000,
+  });
+  
+  const historyQuery = useQuery({
+    queryKey: ['/api/storage-stats/history', days],
+    queryFn: () => getStorageHistory(days),
+  });
+  
+  const refreshMutation = useMutation({
+    mutationFn: () => getStorageOverview(true),
+    onSuccess: (overview) => {
+      queryClient.setQueryData(['/api/storage-stats'], overview);
+    },
+    onError: (error) => {
+      toast({
+        title: "Failed to refresh storage statistics",
+        description: getApiErrorMessage(error, "Failed to refresh storage statistics"),
+        variant: "destructive",
+      });
+    },
+  });
+  
+  return {
+    overview: overviewQuery.data,
+    history: historyQuery.data,
+    isLoading: overviewQuery.isLoading,
+    error: overviewQuery.error,
+    refresh: refreshMutation.mutate,
+    isRefreshing: refreshMutation.isPending,
+  };
+}
+
+/**
+ * Hook for a recursive search of a bucket. Matches are added as the server
+ * streams them back; a new search, cancel() or unmounting stops the current one.
+ */
+export function useS3Search(accountId: number | undefined, bucket: string | undefined) {
+  const [results, setResults] = useState<S3Object[]>([]);
+  const [scanned, setScanned] = useState(0);
+  const [summary, setSummary] = useState<S3SearchSummary | null>(null);
+  const [status, setStatus] = useState<'idle' | 'searching' | 'done' | 'cancelled' | 'error'>('idle');
+  const [error, setError] = useState<string | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+  const queryRef = useRef<S3SearchQuery | null>(null);
+  
+  const run = useCallback(async (query: S3SearchQuery, append: boolean) => {
+    if (!accountId || !bucket) return;
+    
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    
+    if (!append) {
+      setResults([]);
+      setScanned(0);
+    }
+    setSummary(null);
+    setError(null);
+    setStatus('searching');
+    
+    // Matches in one chunk of the stream are added with a single state update
+    let pending: S3Object[] = [];
+    const flush = () => {
+      const batch = pending;
+      pending = [];
+      if (batch.length > 0 && !controller.signal.aborted) {
+        setResults(prev => prev.concat(batch));
+      }
+    };
+    // Progress counts restart with each request, so "load more" adds to the total
+    let lastScanned = 0;
+    let failed = false;
+    
+    try {
+      await searchObjects(accountId, bucket, query, (event) => {
+        if (controller.signal.aborted) return;
+        switch (event.type) {
+          case 'match':
+            pending.push(event.object);
+            if (pending.length === 1) queueMicrotask(flush);
+            break;
+          case 'progress': {
+            const delta = event.scanned - lastScanned;
+            lastScanned = event.scanned;
+            setScanned(prev => prev + delta);
+            break;
+          }
+          case 'done': {
+            const { type, ...rest } = event;
+            setSummary(rest);
+            break;
+          }
+          case 'error':
+            failed = true;
+            setError(event.message);
+            break;
+        }
+      }, controller.signal);
+      flush();
+      if (!controller.signal.aborted) {
+        setStatus(failed ? 'error' : 'done');
+      }
+    } catch (err) {
+      if (controller.signal.aborted) return;
+      setError(getApiErrorMessage(err, "Search failed"));
+      setStatus('error');
+    } finally {
+      if (controllerRef.current === controller) {
+        controllerRef.current = null;
+      }
+    }
+  }, [accountId, bucket]);
+  
+  const search = useCallback((query: S3SearchQuery) => {
+    queryRef.current = query;
+    return run(query, false);
+  }, [run]);
+  
+  const loadMore = useCallback(() => {
+    if (!queryRef.current || !summary?.nextStartAfter) return;
+    return run({ ...queryRef.current, startAfter: summary.nextStartAfter }, true);
+  }, [run, summary]);
+  
+  const cancel = useCallback(() => {
+    if (!controllerRef.current) return;
+    controllerRef.current.abort();
+    controllerRef.current = null;
+    setStatus('cancelled');
+  }, []);
+  
+  const clear = useCallback(() => {
+    controllerRef.current?.abort();
+    controllerRef.current = null;
+    queryRef.current = null;
+    setResults([]);
+    setScanned(0);
+    setSummary(null);
+    setError(null);
+    setStatus('idle');
+  }, []);
+  
+  // Drop results when the bucket changes, and stop the walk on unmount
+  useEffect(() => clear, [accountId, bucket, clear]);
+  
+  // Forget results that were deleted or moved away by a batch operation
+  const removeResults = useCallback((keys: string[]) => {
+    const removed = new Set(keys);
+    setResults(prev => prev.filter(object => !removed.has(object.Key || '')));
+  }, []);
+  
+  return {
+    results,
+    scanned,
+    summary,
+    error,
+    isSearching: status === 'searching',
+    isCancelled: status === 'cancelled',
+    hasSearched: status !== 'idle',
+    search,
+    loadMore,
+    cancel,
+    clear,
+    removeResults,
+  };
+}
+
 /**
  * Hook for uploading files to S3
  */
@@ -481,7 +1505,7 @@ export function useS3Upload(accountId: number | undefined) {
         }));
       };
       
-      return uploadFile(accountId, bucket, file, prefix, onProgress);
+      return uploadFileResumable(accountId, bucket, file, prefix, onProgress);
     },
     onSuccess: (_, variables) => {
       // Set completed status
@@ -491,6 +1515,7 @@ export function useS3Upload(accountId: number | undefined) {
           filename: variables.file.name,
           progress: 100,
           status: "completed",
+          notice: prev[variables.file.name]?.notice,
         }
       }));
       
@@ -0,0 +1,94 @@
+import type { BucketPolicy, CorsRule } from "@shared/bucket-config";
+
+// Starter statements and rules offered by the bucket policy and CORS editors.
+// Each template adds to what is already in the editor rather than replacing it.
+
+export interface ConfigTemplate<T> {
+  label: string;
+  description: string;
+  apply: (current: T) => T;
+}
+
+type PolicyStatement = BucketPolicy["Statement"][number];
+
+function addStatement(current: BucketPolicy | null, statement: PolicyStatement): BucketPolicy {
+  return {
+    Version: current?.Version || "2012-10-17",
+    ...(current?.Id && { Id: current.Id }),
+    Statement: [...(current?.Statement || []), statement],
+  };
+}
+
+export function getPolicyTemplates(bucket: string): ConfigTemplate<BucketPolicy | null>[] {
+  return [
+    {
+      label: "Public read for a prefix",
+      description: "Anyone can download objects under public/",
+      apply: current => addStatement(current, {
+        Sid: "PublicReadPrefix",
+        Effect: "Allow",
+        Principal: "*",
+        Action: "s3:GetObject",
+        Resource: `arn:aws:s3:::${bucket}/public/*`,
+      }),
+    },
+    {
+      label: "Cross-account read",
+      description: "Another AWS account can list the bucket and download objects",
+      apply: current => addStatement(current, {
+        Sid: "CrossAccountRead",
+        Effect: "Allow",
+        Principal: { AWS: "arn:aws:iam::123456789012:root" },
+        Action: ["s3:GetObject", "s3:ListBucket"],
+        Resource: [`arn:aws:s3:::${bucket}`, `arn:aws:s3:::${bucket}/*`],
+      }),
+    },
+    {
+      label: "Require HTTPS",
+      description: "Deny any request not made over TLS",
+      apply: current => addStatement(current, {
+        Sid: "DenyInsecureTransport",
+        Effect: "Deny",
+        Principal: "*",
+        Action: "s3:*",
+        Resource: [`arn:aws:s3:::${bucket}`, `arn:aws:s3:::${bucket}/*`],
+        Condition: { Bool: { "aws:SecureTransport": "false" } },
+      }),
+    },
+  ];
+}
+
+export function getCorsTemplates(): ConfigTemplate<CorsRule[]>[] {
+  return [
+    {
+      label: "Browser uploads",
+      description: "Lets this app upload and download directly from the browser",
+      apply: current => [
+        ...current,
+        {
+          ID: "BrowserUploads",
+          AllowedOrigins: [window.location.origin],
+          AllowedMethods: ["GET", "PUT", "POST", "HEAD"],
+          AllowedHeaders: ["*"],
+          // Multipart uploads read each part's ETag from the response
+          ExposeHeaders: ["ETag"],
+          MaxAgeSeconds: 3000,
+        },
+      ],
+    },
+    {
+      label: "Public read from any origin",
+      description: "Any website can fetch objects with GET",
+      apply: current => [
+        ...current,
+        {
+          ID: "PublicRead",
+          AllowedOrigins: ["*"],
+          AllowedMethods: ["GET", "HEAD"],
+          AllowedHeaders: ["*"],
+          MaxAgeSeconds: 3000,
+        },
+      ],
+    },
+  ];
+}
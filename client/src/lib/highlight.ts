@@ -0,0 +1,257 @@
+// A small syntax highlighter for the code preview and editor. It only knows
+// comments, strings, numbers, keywords and markup tags, which is enough to make
+// source files readable without shipping a full grammar for every language.
+
+export type TokenType = 'plain' | 'comment' | 'string' | 'number' | 'keyword' | 'literal' | 'tag' | 'attr';
+
+export interface Token {
+  type: TokenType;
+  text: string;
+}
+
+interface Rule {
+  type: TokenType;
+  // Recompiled as sticky, so it only matches at the current position
+  pattern: RegExp;
+}
+
+interface LanguageSpec {
+  lineComment?: string[];
+  blockComment?: [string, string];
+  quotes?: string[];
+  keywords?: string[];
+  literals?: string[];
+  // Extra rules tried before the generic ones
+  rules?: Rule[];
+}
+
+const C_LIKE_LITERALS = ['true', 'false', 'null'];
+
+const LANGUAGES: Record<string, LanguageSpec> = {
+  javascript: {
+    lineComment: ['//'],
+    blockComment: ['/*', '*/'],
+    quotes: ['"', "'", '`'],
+    keywords: ['async', 'await', 'break', 'case', 'catch', 'class', 'const', 'continue', 'default', 'delete', 'do', 'else', 'export', 'extends', 'finally', 'for', 'from', 'function', 'if', 'import', 'in', 'instanceof', 'let', 'new', 'of', 'return', 'static', 'super', 'switch', 'this', 'throw', 'try', 'typeof', 'var', 'void', 'while', 'yield'],
+    literals: ['true', 'false', 'null', 'undefined', 'NaN'],
+  },
+  typescript: {
+    lineComment: ['//'],
+    blockComment: ['/*', '*/'],
+    quotes: ['"', "'", '`'],
+    keywords: ['abstract', 'as', 'async', 'await', 'break', 'case', 'catch', 'class', 'const', 'continue', 'declare', 'default', 'delete', 'do', 'else', 'enum', 'export', 'extends', 'finally', 'for', 'from', 'function', 'if', 'implements', 'import', 'in', 'instanceof', 'interface', 'keyof', 'let', 'namespace', 'new', 'of', 'private', 'protected', 'public', 'readonly', 'return', 'satisfies', 'static', 'super', 'switch', 'this', 'throw', 'try', 'type', 'typeof', 'var', 'void', 'while', 'yield'],
+    literals: ['true', 'false', 'null', 'undefined', 'NaN'],
+  },
+  json: {
+    rules: [{ type: 'attr', pattern: /"(?:[^"\\\n]|\\.)*"(?=\s*:)/ }],
+    quotes: ['"'],
+    literals: C_LIKE_LITERALS,
+  },
+  python: {
+    lineComment: ['#'],
+    rules: [{ type: 'string', pattern: /("""|''')[\s\S]*?(?:\1|$)/ }],
+    quotes: ['"', "'"],
+    keywords: ['and', 'as', 'assert', 'async', 'await', 'break', 'class', 'continue', 'def', 'del', 'elif', 'else', 'except', 'finally', 'for', 'from', 'global', 'if', 'import', 'in', 'is', 'lambda', 'nonlocal', 'not', 'or', 'pass', 'raise', 'return', 'try', 'while', 'with', 'yield'],
+    literals: ['True', 'False', 'None'],
+  },
+  ruby: {
+    lineComment: ['#'],
+    quotes: ['"', "'"],
+    keywords: ['begin', 'break', 'case', 'class', 'def', 'do', 'else', 'elsif', 'end', 'ensure', 'for', 'if', 'in', 'module', 'next', 'require', 'rescue', 'return', 'self', 'then', 'unless', 'until', 'when', 'while', 'yield'],
+    literals: ['true', 'false', 'nil'],
+  },
+  go: {
+    lineComment: ['//'],
+    blockComment: ['/*', '*/'],
+    quotes: ['"', "'", '`'],
+    keywords: ['break', 'case', 'chan', 'const', 'continue', 'default', 'defer', 'else', 'fallthrough', 'for', 'func', 'go', 'goto', 'if', 'import', 'interface', 'map', 'package', 'range', 'return', 'select', 'struct', 'switch', 'type', 'var'],
+    literals: ['true', 'false', 'nil', 'iota'],
+  },
+  rust: {
+    lineComment: ['//'],
+    blockComment: ['/*', '*/'],
+    quotes: ['"'],
+    keywords: ['as', 'async', 'await', 'break', 'const', 'continue', 'crate', 'dyn', 'else', 'enum', 'extern', 'fn', 'for', 'if', 'impl', 'in', 'let', 'loop', 'match', 'mod', 'move', 'mut', 'pub', 'ref', 'return', 'self', 'Self', 'static', 'struct', 'super', 'trait', 'type', 'unsafe', 'use', 'where', 'while'],
+    literals: ['true', 'false', 'None', 'Some', 'Ok', 'Err'],
+  },
+  java: {
+    lineComment: ['//'],
+    blockComment: ['/*', '*/'],
+    quotes: ['"', "'"],
+    keywords: ['abstract', 'break', 'case', 'catch', 'class', 'continue', 'default', 'do', 'else', 'enum', 'extends', 'final', 'finally', 'for', 'if', 'implements', 'import', 'instanceof', 'interface', 'new', 'package', 'private', 'protected', 'public', 'return', 'static', 'super', 'switch', 'synchronized', 'this', 'throw', 'throws', 'try', 'void', 'while'],
+    literals: C_LIKE_LITERALS,
+  },
+  kotlin: {
+    lineComment: ['//'],
+    blockComment: ['/*', '*/'],
+    quotes: ['"', "'"],
+    keywords: ['as', 'break', 'class', 'companion', 'continue', 'data', 'do', 'else', 'enum', 'for', 'fun', 'if', 'import', 'in', 'interface', 'is', 'object', 'override', 'package', 'private', 'return', 'sealed', 'super', 'this', 'throw', 'try', 'val', 'var', 'when', 'while'],
+    literals: C_LIKE_LITERALS,
+  },
+  c: {
+    lineComment: ['//'],
+    blockComment: ['/*', '*/'],
+    quotes: ['"', "'"],
+    rules: [{ type: 'keyword', pattern: /#\s*[a-z]+/ }],
+    keywords: ['break', 'case', 'char', 'const', 'continue', 'default', 'do', 'double', 'else', 'enum', 'extern', 'float', 'for', 'goto', 'if', 'int', 'long', 'return', 'short', 'signed', 'sizeof', 'static', 'struct', 'switch', 'typedef', 'union', 'unsigned', 'void', 'volatile', 'while'],
+    literals: ['NULL', 'true', 'false'],
+  },
+  cpp: {
+    lineComment: ['//'],
+    blockComment: ['/*', '*/'],
+    quotes: ['"', "'"],
+    rules: [{ type: 'keyword', pattern: /#\s*[a-z]+/ }],
+    keywords: ['auto', 'break', 'case', 'catch', 'char', 'class', 'const', 'constexpr', 'continue', 'default', 'delete', 'do', 'double', 'else', 'enum', 'float', 'for', 'if', 'int', 'long', 'namespace', 'new', 'private', 'protected', 'public', 'return', 'static', 'struct', 'switch', 'template', 'this', 'throw', 'try', 'typename', 'using', 'virtual', 'void', 'while'],
+    literals: ['nullptr', 'NULL', 'true', 'false'],
+  },
+  csharp: {
+    lineComment: ['//'],
+    blockComment: ['/*', '*/'],
+    quotes: ['"', "'"],
+    keywords: ['abstract', 'async', 'await', 'break', 'case', 'catch', 'class', 'const', 'continue', 'default', 'do', 'else', 'enum', 'finally', 'for', 'foreach', 'if', 'in', 'interface', 'internal', 'namespace', 'new', 'override', 'private', 'protected', 'public', 'readonly', 'return', 'static', 'struct', 'switch', 'this', 'throw', 'try', 'using', 'var', 'virtual', 'void', 'while'],
+    literals: C_LIKE_LITERALS,
+  },
+  php: {
+    lineComment: ['//', '#'],
+    blockComment: ['/*', '*/'],
+    quotes: ['"', "'"],
+    rules: [{ type: 'attr', pattern: /\$[A-Za-z_]\w*/ }],
+    keywords: ['abstract', 'as', 'break', 'case', 'catch', 'class', 'const', 'continue', 'default', 'echo', 'else', 'elseif', 'extends', 'finally', 'fn', 'for', 'foreach', 'function', 'if', 'implements', 'interface', 'namespace', 'new', 'private', 'protected', 'public', 'return', 'static', 'switch', 'throw', 'try', 'use', 'while'],
+    literals: ['true', 'false', 'null', 'TRUE', 'FALSE', 'NULL'],
+  },
+  swift: {
+    lineComment: ['//'],
+    blockComment: ['/*', '*/'],
+    quotes: ['"'],
+    keywords: ['as', 'break', 'case', 'class', 'continue', 'default', 'defer', 'do', 'else', 'enum', 'extension', 'for', 'func', 'guard', 'if', 'import', 'in', 'init', 'let', 'protocol', 'return', 'self', 'struct', 'switch', 'throw', 'try', 'var', 'where', 'while'],
+    literals: ['true', 'false', 'nil'],
+  },
+  shell: {
+    lineComment: ['#'],
+    quotes: ['"', "'"],
+    rules: [{ type: 'attr', pattern: /\$\{?[A-Za-z_]\w*\}?/ }],
+    keywords: ['case', 'do', 'done', 'elif', 'else', 'esac', 'export', 'fi', 'for', 'function', 'if', 'in', 'local', 'return', 'then', 'until', 'while', 'FROM', 'RUN', 'COPY', 'ADD', 'CMD', 'ENTRYPOINT', 'ENV', 'ARG', 'WORKDIR', 'EXPOSE', 'USER', 'LABEL', 'VOLUME'],
+    literals: ['true', 'false'],
+  },
+  sql: {
+    lineComment: ['--'],
+    blockComment: ['/*', '*/'],
+    quotes: ["'", '"'],
+    keywords: ['add', 'alter', 'and', 'as', 'asc', 'begin', 'by', 'case', 'commit', 'create', 'delete', 'desc', 'distinct', 'drop', 'else', 'end', 'exists', 'from', 'group', 'having', 'in', 'index', 'inner', 'insert', 'into', 'is', 'join', 'key', 'left', 'like', 'limit', 'not', 'on', 'or', 'order', 'outer', 'primary', 'references', 'right', 'select', 'set', 'table', 'then', 'union', 'update', 'values', 'when', 'where', 'with'],
+    literals: ['null', 'true', 'false'],
+  },
+  html: {
+    rules: [
+      { type: 'comment', pattern: /<!--[\s\S]*?(?:-->|$)/ },
+      { type: 'tag', pattern: /<\/?[A-Za-z][\w:.-]*|\/?>/ },
+      { type: 'attr', pattern: /[A-Za-z_:][\w:.-]*(?=\s*=)/ },
+    ],
+    quotes: ['"', "'"],
+  },
+  css: {
+    blockComment: ['/*', '*/'],
+    quotes: ['"', "'"],
+    rules: [
+      { type: 'attr', pattern: /--?[A-Za-z][\w-]*(?=\s*:)|[A-Za-z][\w-]*(?=\s*:[^:{;]*;)/ },
+      { type: 'keyword', pattern: /@[A-Za-z-]+/ },
+      { type: 'number', pattern: /#[0-9A-Fa-f]{3,8}\b|\d*\.?\d+(?:px|em|rem|%|vh|vw|s|ms|deg|fr)?/ },
+    ],
+  },
+  yaml: {
+    lineComment: ['#'],
+    quotes: ['"', "'"],
+    rules: [{ type: 'attr', pattern: /[A-Za-z_][\w .-]*(?=:(?:\s|$))/ }],
+    literals: ['true', 'false', 'null', 'yes', 'no', '~'],
+  },
+  ini: {
+    lineComment: ['#', ';'],
+    quotes: ['"', "'"],
+    rules: [
+      { type: 'tag', pattern: /\[[^\]\n]*\]/ },
+      { type: 'attr', pattern: /[A-Za-z_][\w.-]*(?=\s*=)/ },
+    ],
+    literals: ['true', 'false'],
+  },
+};
+
+// Language names highlight() understands
+export const HIGHLIGHT_LANGUAGES = Object.keys(LANGUAGES);
+
+function escapeRegExp(text: string) {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+const compiledRules = new Map<string, Rule[]>();
+
+function getRules(language: string): Rule[] {
+  const cached = compiledRules.get(language);
+  if (cached) return cached;
+
+  const spec = LANGUAGES[language] || {};
+  const sticky = (pattern: RegExp) => new RegExp(pattern.source, 'y');
+  const rules: Rule[] = (spec.rules || []).map(rule => ({ type: rule.type, pattern: sticky(rule.pattern) }));
+  if (spec.blockComment) {
+    const [start, end] = spec.blockComment.map(escapeRegExp);
+    rules.push({ type: 'comment', pattern: new RegExp(`${start}[\\s\\S]*?(?:${end}|$)`, 'y') });
+  }
+  for (const marker of spec.lineComment || []) {
+    rules.push({ type: 'comment', pattern: new RegExp(`${escapeRegExp(marker)}.*`, 'y') });
+  }
+  for (const quote of spec.quotes || []) {
+    const q = escapeRegExp(quote);
+    // Backtick strings may span lines; the others end at the line
+    const body = quote === '`' ? `[^\\\\${q}]` : `[^\\\\${q}\\n]`;
+    rules.push({ type: 'string', pattern: new RegExp(`${q}(?:${body}|\\\\[\\s\\S])*(?:${q}|$)`, 'y') });
+  }
+  rules.push({ type: 'number', pattern: sticky(/\b(?:0x[0-9A-Fa-f]+|\d+(?:\.\d+)?(?:[eE][+-]?\d+)?)\b/) });
+  // Words are matched whole so keywords inside identifiers aren't coloured
+  rules.push({ type: 'plain', pattern: sticky(/[A-Za-z_$][\w$]*/) });
+
+  compiledRules.set(language, rules);
+  return rules;
+}
+
+// Split code into tokens; joining their text gives back the input exactly
+export function highlight(code: string, language: string): Token[] {
+  const spec = LANGUAGES[language] || {};
+  const keywords = new Set(spec.keywords || []);
+  const literals = new Set(spec.literals || []);
+  // SQL is usually written in either case
+  const normalize = language === 'sql' ? (word: string) => word.toLowerCase() : (word: string) => word;
+  const rules = getRules(language);
+
+  const tokens: Token[] = [];
+  const push = (type: TokenType, text: string) => {
+    const last = tokens[tokens.length - 1];
+    if (last && last.type === type) {
+      last.text += text;
+    } else {
+      tokens.push({ type, text });
+    }
+  };
+
+  let position = 0;
+  while (position < code.length) {
+    let matched = false;
+    for (const rule of rules) {
+      rule.pattern.lastIndex = position;
+      const match = rule.pattern.exec(code);
+      if (!match || match[0].length === 0) continue;
+
+      let type = rule.type;
+      if (type === 'plain') {
+        const word = normalize(match[0]);
+        type = keywords.has(word) ? 'keyword' : literals.has(word) ? 'literal' : 'plain';
+      }
+      push(type, match[0]);
+      position += match[0].length;
+      matched = true;
+      break;
+    }
+    if (!matched) {
+      push('plain', code[position]);
+      position++;
+    }
+  }
+  return tokens;
+}
@@ -0,0 +1,40 @@
+// Line-by-line diff for previewing configuration changes before they are saved.
+// Uses a plain longest-common-subsequence table, which is fine for documents
+// the size of a bucket policy (at most a few hundred lines).
+
+export interface DiffLine {
+  type: "same" | "added" | "removed";
+  text: string;
+}
+
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = before ? before.split("\n") : [];
+  const b = after ? after.split("\n") : [];
+
+  // common[i][j] = length of the LCS of a[i..] and b[j..]
+  const common: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      common[i][j] = a[i] === b[j] ? common[i + 1][j + 1] + 1 : Math.max(common[i + 1][j], common[i][j + 1]);
+    }
+  }
+
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      lines.push({ type: "same", text: a[i] });
+      i++;
+      j++;
+    } else if (common[i + 1][j] >= common[i][j + 1]) {
+      lines.push({ type: "removed", text: a[i++] });
+    } else {
+      lines.push({ type: "added", text: b[j++] });
+    }
+  }
+  while (i < a.length) lines.push({ type: "removed", text: a[i++] });
+  while (j < b.length) lines.push({ type: "added", text: b[j++] });
+
+  return lines;
+}
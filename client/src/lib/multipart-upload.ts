@@ -0,0 +1,274 @@
+import { FileUploadProgress } from "@/lib/types";
+import {
+  uploadFile,
+  createMultipartUpload,
+  presignUploadParts,
+  listUploadedParts,
+  completeMultipartUpload,
+  abortMultipartUpload,
+  UploadedPart,
+} from "@/lib/s3";
+
+// Files up to this size are sent through the server in a single request; larger
+// files are uploaded straight to S3 in parts and can be resumed after a reload.
+// Direct uploads need the bucket's CORS rules to allow PUT and expose ETag; when
+// they don't, the file is sent through the server instead.
+export const MULTIPART_THRESHOLD = 8 * 1024 * 1024;
+
+// S3 requires parts of at least 5 MB (except the last) and at most 10,000 parts
+const MIN_PART_SIZE = 8 * 1024 * 1024;
+const MAX_PARTS = 10000;
+
+const PART_CONCURRENCY = 4;
+const MAX_PART_ATTEMPTS = 4;
+
+// localStorage key prefix for uploads that can be resumed
+const RESUME_STORAGE_PREFIX = "s3-multipart-upload:";
+
+interface StoredUpload {
+  uploadId: string;
+  partSize: number;
+}
+
+type UploadResult = { bucket: string; key: string; size: number; mimetype: string };
+
+const PART_NETWORK_ERROR = "Network error during part upload";
+
+// The browser can't upload to the bucket directly, usually because of its CORS rules
+class DirectUploadBlockedError extends Error {}
+
+// Same key layout as the server's upload route
+export function getUploadKey(prefix: string, filename: string) {
+  return prefix ? `${prefix}${prefix.endsWith('/') ? '' : '/'}${filename}` : filename;
+}
+
+function getPartSize(fileSize: number) {
+  return Math.max(MIN_PART_SIZE, Math.ceil(fileSize / MAX_PARTS));
+}
+
+// Identifies the same file going to the same place, across page reloads
+function getResumeStorageKey(accountId: number, bucket: string, key: string, file: File) {
+  return `${RESUME_STORAGE_PREFIX}${accountId}:${bucket}:${key}:${file.size}:${file.lastModified}`;
+}
+
+function loadStoredUpload(storageKey: string): StoredUpload | null {
+  try {
+    const value = localStorage.getItem(storageKey);
+    return value ? JSON.parse(value) : null;
+  } catch {
+    return null;
+  }
+}
+
+function wait(ms: number) {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+// PUT one part to its presigned URL and return the ETag S3 assigned to it
+function putPart(url: string, body: Blob, onProgress: (loaded: number) => void, signal?: AbortSignal): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open("PUT", url);
+
+    xhr.upload.addEventListener("progress", (event) => {
+      if (event.lengthComputable) {
+        onProgress(event.loaded);
+      }
+    });
+
+    xhr.addEventListener("load", () => {
+      if (xhr.status < 200 || xhr.status >= 300) {
+        reject(new Error(`Part upload failed: ${xhr.status} ${xhr.statusText}`));
+        return;
+      }
+
+      const etag = xhr.getResponseHeader("ETag");
+      if (!etag) {
+        reject(new DirectUploadBlockedError("the bucket's CORS configuration doesn't expose the ETag header"));
+        return;
+      }
+      resolve(etag);
+    });
+
+    xhr.addEventListener("error", () => reject(new Error(PART_NETWORK_ERROR)));
+    xhr.addEventListener("abort", () => reject(new Error("Upload aborted")));
+
+    if (signal) {
+      if (signal.aborted) {
+        xhr.abort();
+        return;
+      }
+      signal.addEventListener("abort", () => xhr.abort(), { once: true });
+    }
+
+    xhr.send(body);
+  });
+}
+
+/**
+ * Upload a file directly to S3 as a multipart upload. Parts are sent in parallel
+ * and retried individually; if the page is reloaded, uploading the same file to
+ * the same place again skips the parts S3 already has.
+ */
+export async function uploadFileMultipart(
+  accountId: number,
+  bucket: string,
+  file: File,
+  prefix: string = "",
+  onProgress?: (progress: FileUploadProgress) => void,
+  { relativePath, signal }: { relativePath?: string; signal?: AbortSignal } = {}
+): Promise<UploadResult> {
+  const key = getUploadKey(prefix, relativePath || file.name);
+  const storageKey = getResumeStorageKey(accountId, bucket, key, file);
+  const partSize = getPartSize(file.size);
+  const partCount = Math.max(1, Math.ceil(file.size / partSize));
+
+  const getPartRange = (partNumber: number) => {
+    const start = (partNumber - 1) * partSize;
+    return { start, end: Math.min(start + partSize, file.size) };
+  };
+
+  const completed = new Map<number, UploadedPart>();
+  let uploadId: string | undefined;
+
+  // Resume a previous attempt if S3 still has it
+  const stored = loadStoredUpload(storageKey);
+  if (stored && stored.partSize === partSize) {
+    try {
+      const parts = await listUploadedParts(accountId, bucket, key, stored.uploadId);
+      for (const part of parts) {
+        const { start, end } = getPartRange(part.partNumber);
+        if (part.partNumber <= partCount && part.size === end - start) {
+          completed.set(part.partNumber, part);
+        }
+      }
+      uploadId = stored.uploadId;
+    } catch (error) {
+      console.warn("Could not resume upload, starting again:", error);
+      localStorage.removeItem(storageKey);
+    }
+  } else if (stored) {
+    // Left over from an attempt with a different part size; it can't be reused
+    abortMultipartUpload(accountId, bucket, key, stored.uploadId).catch(() => {});
+    localStorage.removeItem(storageKey);
+  }
+
+  if (!uploadId) {
+    const created = await createMultipartUpload(accountId, bucket, key, file.type || undefined);
+    uploadId = created.uploadId;
+    localStorage.setItem(storageKey, JSON.stringify({ uploadId, partSize } satisfies StoredUpload));
+  }
+
+  // Progress counts finished parts in full plus the bytes sent for parts in flight
+  const inFlight = new Map<number, number>();
+  const reportProgress = () => {
+    let loaded = 0;
+    completed.forEach(part => { loaded += part.size ?? 0; });
+    inFlight.forEach(bytes => { loaded += bytes; });
+    onProgress?.({
+      filename: file.name,
+      progress: file.size > 0 ? Math.min(99, Math.round((loaded / file.size) * 100)) : 0,
+      status: "uploading",
+    });
+  };
+  reportProgress();
+
+  const uploadPart = async (partNumber: number) => {
+    const { start, end } = getPartRange(partNumber);
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        // Presign per attempt so a retry never uses an expired URL
+        const urls = await presignUploadParts(accountId, bucket, key, uploadId!, [partNumber]);
+        const etag = await putPart(urls[partNumber], file.slice(start, end), (loaded) => {
+          inFlight.set(partNumber, loaded);
+          reportProgress();
+        }, signal);
+
+        inFlight.delete(partNumber);
+        completed.set(partNumber, { partNumber, etag, size: end - start });
+        reportProgress();
+        return;
+      } catch (error) {
+        inFlight.delete(partNumber);
+        if (error instanceof DirectUploadBlockedError) {
+          throw error;
+        }
+        if (attempt >= MAX_PART_ATTEMPTS || signal?.aborted) {
+          // Browsers report a PUT refused by the bucket's CORS rules as a network error
+          if (!signal?.aborted && completed.size === 0 && error instanceof Error && error.message === PART_NETWORK_ERROR) {
+            throw new DirectUploadBlockedError("the bucket's CORS configuration doesn't allow uploads from this site");
+          }
+          throw error;
+        }
+        await wait(1000 * 2 ** (attempt - 1));
+      }
+    }
+  };
+
+  const pending = Array.from({ length: partCount }, (_, index) => index + 1)
+    .filter(partNumber => !completed.has(partNumber));
+  let next = 0;
+  let failed = false;
+
+  const worker = async () => {
+    while (next < pending.length && !failed) {
+      const partNumber = pending[next++];
+      try {
+        await uploadPart(partNumber);
+      } catch (error) {
+        // Stop the other workers; the parts already uploaded are kept for a resume
+        failed = true;
+        throw error;
+      }
+    }
+  };
+
+  try {
+    await Promise.all(Array.from({ length: Math.min(PART_CONCURRENCY, pending.length) }, worker));
+  } catch (error) {
+    // Nothing can be resumed if the bucket refuses direct uploads
+    if (error instanceof DirectUploadBlockedError) {
+      abortMultipartUpload(accountId, bucket, key, uploadId).catch(() => {});
+      localStorage.removeItem(storageKey);
+    }
+    throw error;
+  }
+
+  await completeMultipartUpload(accountId, bucket, key, uploadId, Array.from(completed.values()));
+  localStorage.removeItem(storageKey);
+
+  onProgress?.({
+    filename: file.name,
+    progress: 100,
+    status: "completed",
+  });
+
+  return { bucket, key, size: file.size, mimetype: file.type };
+}
+
+// Upload a file, using a direct multipart upload when it is large enough and
+// falling back to the server when the bucket doesn't accept direct uploads
+export async function uploadFileResumable(
+  accountId: number,
+  bucket: string,
+  file: File,
+  prefix: string = "",
+  onProgress?: (progress: FileUploadProgress) => void,
+  relativePath?: string
+): Promise<UploadResult> {
+  if (file.size <= MULTIPART_THRESHOLD) {
+    return uploadFile(accountId, bucket, file, prefix, onProgress, relativePath);
+  }
+
+  try {
+    return await uploadFileMultipart(accountId, bucket, file, prefix, onProgress, { relativePath });
+  } catch (error) {
+    if (!(error instanceof DirectUploadBlockedError)) {
+      throw error;
+    }
+    console.warn("Direct upload to S3 failed, sending through the server:", error.message);
+    const notice = `Sent through the server because ${error.message}, so it can't be resumed if interrupted`;
+    return uploadFile(accountId, bucket, file, prefix, onProgress && (progress => onProgress({ ...progress, notice })), relativePath);
+  }
+}
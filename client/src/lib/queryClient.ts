@@ -7,10 +7,26 @@ async function throwIfResNotOk(res: Response) {
   }
 }
 
+// Pull the server's message out of an error thrown by apiRequest ("409: {"message": ...}")
+export function getApiErrorMessage(error: unknown, fallback: string) {
+  if (!(error instanceof Error)) return fallback;
+  
+  const match = error.message.match(/^\d{3}: ([\s\S]*)$/);
+  if (!match) return error.message || fallback;
+  
+  try {
+    const body = JSON.parse(match[1]);
+    return body.message || fallback;
+  } catch {
+    return match[1] || fallback;
+  }
+}
+
 export async function apiRequest(
   method: string,
   url: string,
   data?: unknown | undefined,
+  signal?: AbortSignal,
 ): Promise<Response> {
   console.log(`Making ${method} request to ${url}`);
   
@@ -24,6 +40,7 @@ export async function apiRequest(
     headers,
     credentials: "include", // Always include credentials for session cookies
     body: data instanceof FormData ? data : (data ? JSON.stringify(data) : undefined),
+    signal,
   };
   
   console.log("Request options:", { method, url, withCredentials: true });
@@ -1,35 +1,249 @@
-import { S3Account, S3Bucket, S3ListObjectsResult, FileUploadProgress } from "@/lib/types";
+import { S3Account, S3Bucket, S3ListObjectsResult, FileUploadProgress, S3ObjectVersion, S3DeletedObject, S3ObjectDetails, S3MetadataUpdate, S3BucketSettings, S3BucketSettingsUpdate, S3CreateBucketOptions, S3EmptyBucketJob, S3SearchQuery, S3SearchEvent, S3ObjectIndexStatus, S3FolderSize, S3StorageStats, StorageOverview, StorageHistory, S3FilePreview, TextPreview, EditableText, SavedText } from "@/lib/types";
 import { apiRequest } from "@/lib/queryClient";
+import type { LifecycleRule } from "@shared/lifecycle";
+import type { BucketPolicy, CorsRule } from "@shared/bucket-config";
 
 export async function listBuckets(accountId: number): Promise<S3Bucket[]> {
   const res = await apiRequest("GET", `/api/s3/${accountId}/buckets`);
   return await res.json();
 }
 
+export async function createBucket(
+  accountId: number,
+  bucket: string,
+  options: S3CreateBucketOptions = {}
+): Promise<void> {
+  await apiRequest("POST", `/api/s3/${accountId}/buckets`, {
+    bucket,
+    ...options,
+  });
+}
+
+// Only succeeds for an empty bucket; see startEmptyBucket
+export async function deleteBucket(accountId: number, bucket: string): Promise<void> {
+  const params = new URLSearchParams({ bucket });
+  await apiRequest("DELETE", `/api/s3/${accountId}/buckets?${params.toString()}`);
+}
+
+// Start deleting everything in a bucket, optionally followed by the bucket itself
+export async function startEmptyBucket(
+  accountId: number,
+  bucket: string,
+  deleteBucket: boolean
+): Promise<S3EmptyBucketJob> {
+  const res = await apiRequest("POST", `/api/s3/${accountId}/buckets/empty`, {
+    bucket,
+    deleteBucket,
+  });
+  return await res.json();
+}
+
+export async function getEmptyBucketJob(accountId: number, jobId: string): Promise<S3EmptyBucketJob> {
+  const res = await apiRequest("GET", `/api/s3/${accountId}/buckets/empty/${jobId}`);
+  return await res.json();
+}
+
+export async function getBucketSettings(accountId: number, bucket: string): Promise<S3BucketSettings> {
+  const params = new URLSearchParams({ bucket });
+  const res = await apiRequest("GET", `/api/s3/${accountId}/bucket-settings?${params.toString()}`);
+  return await res.json();
+}
+
+export async function updateBucketSettings(
+  accountId: number,
+  bucket: string,
+  update: S3BucketSettingsUpdate
+): Promise<S3BucketSettings> {
+  const res = await apiRequest("PUT", `/api/s3/${accountId}/bucket-settings`, {
+    bucket,
+    ...update,
+  });
+  return await res.json();
+}
+
+export async function getObjectIndex(accountId: number, bucket: string): Promise<S3ObjectIndexStatus> {
+  const params = new URLSearchParams({ bucket });
+  const res = await apiRequest("GET", `/api/s3/${accountId}/object-index?${params.toString()}`);
+  return await res.json();
+}
+
+export async function configureObjectIndex(
+  accountId: number,
+  bucket: string,
+  settings: { enabled: boolean; indexTags: boolean }
+): Promise<S3ObjectIndexStatus> {
+  const res = await apiRequest("PUT", `/api/s3/${accountId}/object-index`, {
+    bucket,
+    ...settings,
+  });
+  return await res.json();
+}
+
+export async function startObjectIndexScan(accountId: number, bucket: string): Promise<S3ObjectIndexStatus> {
+  const res = await apiRequest("POST", `/api/s3/${accountId}/object-index/scan`, { bucket });
+  return await res.json();
+}
+
+// Total size under a prefix from the object index; null when the bucket isn't indexed
+export async function getFolderSize(accountId: number, bucket: string, prefix: string): Promise<S3FolderSize | null> {
+  const params = new URLSearchParams({ bucket, prefix });
+  try {
+    const res = await apiRequest("GET", `/api/s3/${accountId}/folder-size?${params.toString()}`);
+    return await res.json();
+  } catch (error) {
+    if (error instanceof Error && error.message.startsWith("404:")) return null;
+    throw error;
+  }
+}
+
+export async function getFilePreview(accountId: number, bucket: string, key: string): Promise<S3FilePreview> {
+  const params = new URLSearchParams({ bucket, key });
+  const res = await apiRequest("GET", `/api/s3/${accountId}/preview?${params.toString()}`);
+  return await res.json();
+}
+
+// Loaded directly by an <img>; the ETag makes the URL change when the object does
+export function getThumbnailUrl(accountId: number, bucket: string, key: string, etag?: string) {
+  const params = new URLSearchParams({ bucket, key });
+  if (etag) params.set('etag', etag);
+  return `/api/s3/${accountId}/thumbnail?${params.toString()}`;
+}
+
+export async function getTextPreview(accountId: number, bucket: string, key: string): Promise<TextPreview> {
+  const params = new URLSearchParams({ bucket, key });
+  const res = await apiRequest("GET", `/api/s3/${accountId}/preview/text?${params.toString()}`);
+  return await res.json();
+}
+
+export async function getEditableText(accountId: number, bucket: string, key: string): Promise<EditableText> {
+  const params = new URLSearchParams({ bucket, key });
+  const res = await apiRequest("GET", `/api/s3/${accountId}/object-text?${params.toString()}`);
+  return await res.json();
+}
+
+// Fails with a 409 if the file no longer has the ETag it was opened with
+export async function saveEditedText(accountId: number, bucket: string, key: string, text: string, etag: string): Promise<SavedText> {
+  const res = await apiRequest("PUT", `/api/s3/${accountId}/object-text`, { bucket, key, text, etag });
+  return await res.json();
+}
+
+// Storage totals for a bucket or prefix; refresh recalculates instead of using the server's cache
+export async function getStorageStats(accountId: number, bucket: string, prefix = '', refresh = false): Promise<S3StorageStats> {
+  const params = new URLSearchParams({ bucket, prefix });
+  if (refresh) params.set('refresh', 'true');
+  const res = await apiRequest("GET", `/api/s3/${accountId}/storage-stats?${params.toString()}`);
+  return await res.json();
+}
+
+export async function getStorageOverview(refresh = false): Promise<StorageOverview> {
+  const res = await apiRequest("GET", `/api/storage-stats${refresh ? '?refresh=true' : ''}`);
+  return await res.json();
+}
+
+export async function getStorageHistory(days: number): Promise<StorageHistory> {
+  const res = await apiRequest("GET", `/api/storage-stats/history?days=${days}`);
+  return await res.json();
+}
+
+export async function getBucketPolicy(accountId: number, bucket: string): Promise<BucketPolicy | null> {
+  const params = new URLSearchParams({ bucket });
+  const res = await apiRequest("GET", `/api/s3/${accountId}/buckets/policy?${params.toString()}`);
+  const { policy } = await res.json();
+  return policy;
+}
+
+// Replace the bucket policy; null deletes it
+export async function putBucketPolicy(
+  accountId: number,
+  bucket: string,
+  policy: BucketPolicy | null
+): Promise<BucketPolicy | null> {
+  const res = await apiRequest("PUT", `/api/s3/${accountId}/buckets/policy`, {
+    bucket,
+    policy,
+  });
+  const { policy: saved } = await res.json();
+  return saved;
+}
+
+export async function getBucketCors(accountId: number, bucket: string): Promise<CorsRule[]> {
+  const params = new URLSearchParams({ bucket });
+  const res = await apiRequest("GET", `/api/s3/${accountId}/buckets/cors?${params.toString()}`);
+  const { rules } = await res.json();
+  return rules;
+}
+
+// Replace the CORS rules; an empty list removes the configuration
+export async function putBucketCors(accountId: number, bucket: string, rules: CorsRule[]): Promise<CorsRule[]> {
+  const res = await apiRequest("PUT", `/api/s3/${accountId}/buckets/cors`, {
+    bucket,
+    rules,
+  });
+  const { rules: saved } = await res.json();
+  return saved;
+}
+
 export async function listObjects(
   accountId: number,
   bucket: string,
   prefix: string = "",
-  delimiter: string = "/"
+  delimiter: string = "/",
+  options: { continuationToken?: string; pageSize?: number } = {}
 ): Promise<S3ListObjectsResult> {
   const params = new URLSearchParams({
     bucket,
     ...(prefix && { prefix }),
     ...(delimiter && { delimiter }),
+    ...(options.continuationToken && { continuationToken: options.continuationToken }),
+    ...(options.pageSize && { pageSize: options.pageSize.toString() }),
   });
   
   const res = await apiRequest("GET", `/api/s3/${accountId}/objects?${params.toString()}`);
   return await res.json();
 }
 
+// Run a recursive search, calling onEvent for each event the server streams back.
+// Resolves when the stream ends; abort the signal to cancel the search.
+export async function searchObjects(
+  accountId: number,
+  bucket: string,
+  query: S3SearchQuery,
+  onEvent: (event: S3SearchEvent) => void,
+  signal?: AbortSignal
+): Promise<void> {
+  const res = await apiRequest("POST", `/api/s3/${accountId}/search`, { bucket, ...query }, signal);
+  if (!res.body) {
+    throw new Error("Search results could not be read");
+  }
+  
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  let buffered = "";
+  
+  for (;;) {
+    const { done, value } = await reader.read();
+    buffered += decoder.decode(value, { stream: !done });
+    
+    // One JSON event per line; keep a partial last line for the next chunk
+    const lines = buffered.split("\n");
+    buffered = done ? "" : lines.pop() || "";
+    for (const line of lines) {
+      if (line.trim()) onEvent(JSON.parse(line));
+    }
+    if (done) return;
+  }
+}
+
 export async function getDownloadUrl(
   accountId: number,
   bucket: string,
-  key: string
+  key: string,
+  versionId?: string
 ): Promise<string> {
   const params = new URLSearchParams({
     bucket,
     key,
+    ...(versionId && { versionId }),
   });
   
   const res = await apiRequest("GET", `/api/s3/${accountId}/download?${params.toString()}`);
@@ -50,6 +264,167 @@ export async function deleteObject(
   await apiRequest("DELETE", `/api/s3/${accountId}/objects?${params.toString()}`);
 }
 
+export async function listObjectVersions(
+  accountId: number,
+  bucket: string,
+  key: string
+): Promise<S3ObjectVersion[]> {
+  const params = new URLSearchParams({
+    bucket,
+    key,
+  });
+  
+  const res = await apiRequest("GET", `/api/s3/${accountId}/versions?${params.toString()}`);
+  const data = await res.json();
+  return data.versions;
+}
+
+// Copy an old version over the object so it becomes the current version
+export async function restoreObjectVersion(
+  accountId: number,
+  bucket: string,
+  key: string,
+  versionId: string
+): Promise<void> {
+  await apiRequest("POST", `/api/s3/${accountId}/versions/restore`, {
+    bucket,
+    key,
+    versionId,
+  });
+}
+
+// Permanently delete one version; deleting a delete marker undeletes the object
+export async function deleteObjectVersion(
+  accountId: number,
+  bucket: string,
+  key: string,
+  versionId: string
+): Promise<void> {
+  const params = new URLSearchParams({
+    bucket,
+    key,
+    versionId,
+  });
+  
+  await apiRequest("DELETE", `/api/s3/${accountId}/versions?${params.toString()}`);
+}
+
+export async function listDeletedObjects(
+  accountId: number,
+  bucket: string,
+  prefix: string = ""
+): Promise<S3DeletedObject[]> {
+  const params = new URLSearchParams({
+    bucket,
+    ...(prefix && { prefix }),
+  });
+  
+  const res = await apiRequest("GET", `/api/s3/${accountId}/deleted-objects?${params.toString()}`);
+  const data = await res.json();
+  return data.objects;
+}
+
+export async function getObjectDetails(
+  accountId: number,
+  bucket: string,
+  key: string
+): Promise<S3ObjectDetails> {
+  const params = new URLSearchParams({
+    bucket,
+    key,
+  });
+  
+  const res = await apiRequest("GET", `/api/s3/${accountId}/object-details?${params.toString()}`);
+  return await res.json();
+}
+
+// Apply one metadata/tag update to every key; folders are included recursively
+export async function updateObjectMetadata(
+  accountId: number,
+  bucket: string,
+  keys: string[],
+  update: S3MetadataUpdate
+): Promise<{ updated: string[]; errors: { key: string; message: string }[] }> {
+  const res = await apiRequest("POST", `/api/s3/${accountId}/object-metadata`, {
+    bucket,
+    keys,
+    update,
+  });
+  
+  return await res.json();
+}
+
+// Storage classes an object can be moved to (mirrors the server's list)
+export const S3_STORAGE_CLASSES = [
+  { value: "STANDARD", label: "Standard" },
+  { value: "STANDARD_IA", label: "Standard-IA" },
+  { value: "ONEZONE_IA", label: "One Zone-IA" },
+  { value: "INTELLIGENT_TIERING", label: "Intelligent-Tiering" },
+  { value: "GLACIER_IR", label: "Glacier Instant Retrieval" },
+  { value: "GLACIER", label: "Glacier Flexible Retrieval" },
+  { value: "DEEP_ARCHIVE", label: "Glacier Deep Archive" },
+];
+
+// Objects in these classes must be restored before they can be downloaded
+export function isArchiveStorageClass(storageClass?: string) {
+  return storageClass === "GLACIER" || storageClass === "DEEP_ARCHIVE";
+}
+
+export async function changeStorageClass(
+  accountId: number,
+  bucket: string,
+  keys: string[],
+  storageClass: string
+): Promise<{ updated: string[]; errors: { key: string; message: string }[] }> {
+  const res = await apiRequest("POST", `/api/s3/${accountId}/storage-class`, {
+    bucket,
+    keys,
+    storageClass,
+  });
+  
+  return await res.json();
+}
+
+// Ask S3 for a temporary readable copy of archived objects
+export async function restoreObjects(
+  accountId: number,
+  bucket: string,
+  keys: string[],
+  days: number,
+  tier: "Expedited" | "Standard" | "Bulk"
+): Promise<{ requested: string[]; errors: { key: string; message: string }[] }> {
+  const res = await apiRequest("POST", `/api/s3/${accountId}/restore`, {
+    bucket,
+    keys,
+    days,
+    tier,
+  });
+  
+  return await res.json();
+}
+
+export async function getBucketLifecycle(accountId: number, bucket: string): Promise<LifecycleRule[]> {
+  const params = new URLSearchParams({ bucket });
+  const res = await apiRequest("GET", `/api/s3/${accountId}/lifecycle?${params.toString()}`);
+  const { rules } = await res.json();
+  return rules;
+}
+
+// Replace the bucket's lifecycle rules; an empty list removes the configuration
+export async function putBucketLifecycle(
+  accountId: number,
+  bucket: string,
+  rules: LifecycleRule[]
+): Promise<LifecycleRule[]> {
+  const res = await apiRequest("PUT", `/api/s3/${accountId}/lifecycle`, {
+    bucket,
+    rules,
+  });
+  
+  const { rules: saved } = await res.json();
+  return saved;
+}
+
 export async function deleteObjects(
   accountId: number,
   bucket: string,
@@ -63,11 +438,18 @@ export async function deleteObjects(
   return await response.json();
 }
 
-export async function getDownloadUrlsForBatch(
+// Prepare a ZIP archive of the selected keys (folders included recursively). The
+// returned URL streams the archive and can only be used once.
+export async function prepareBatchDownload(
   accountId: number,
   bucket: string,
   keys: string[]
-): Promise<{ [key: string]: string }> {
+): Promise<{
+  downloadUrl: string;
+  fileCount: number;
+  totalBytes: number;
+  errors: { key: string; message: string }[];
+}> {
   const response = await apiRequest("POST", `/api/s3/${accountId}/batch-download`, {
     bucket,
     keys,
@@ -99,7 +481,12 @@ export async function moveObjects(
   keys: string[],
   destinationBucket: string,
   destinationPrefix: string = ""
-): Promise<{ moved: string[]; errors: { key: string; message: string }[] }> {
+): Promise<{
+  moved: string[];
+  errors: { key: string; message: string }[];
+  // Keys copied to the destination whose original could not be deleted
+  copiedNotDeleted: { sourceKey: string; destinationKey: string; message: string }[];
+}> {
   const response = await apiRequest("POST", `/api/s3/${accountId}/batch-move`, {
     sourceBucket,
     destinationBucket,
@@ -125,12 +512,105 @@ export async function renameObject(
   return await response.json();
 }
 
+// Returns the keys that already exist, so uploads can skip, overwrite or rename them
+export async function checkObjectsExist(
+  accountId: number,
+  bucket: string,
+  keys: string[]
+): Promise<string[]> {
+  const res = await apiRequest("POST", `/api/s3/${accountId}/objects/exists`, {
+    bucket,
+    keys,
+  });
+  const data = await res.json();
+  return data.existing;
+}
+
+export interface UploadedPart {
+  partNumber: number;
+  etag: string;
+  size?: number;
+}
+
+export async function createMultipartUpload(
+  accountId: number,
+  bucket: string,
+  key: string,
+  contentType?: string
+): Promise<{ uploadId: string; bucket: string; key: string }> {
+  const res = await apiRequest("POST", `/api/s3/${accountId}/multipart/create`, {
+    bucket,
+    key,
+    contentType,
+  });
+  return await res.json();
+}
+
+export async function presignUploadParts(
+  accountId: number,
+  bucket: string,
+  key: string,
+  uploadId: string,
+  partNumbers: number[]
+): Promise<Record<number, string>> {
+  const res = await apiRequest("POST", `/api/s3/${accountId}/multipart/presign`, {
+    bucket,
+    key,
+    uploadId,
+    partNumbers,
+  });
+  const data = await res.json();
+  return data.urls;
+}
+
+export async function listUploadedParts(
+  accountId: number,
+  bucket: string,
+  key: string,
+  uploadId: string
+): Promise<UploadedPart[]> {
+  const params = new URLSearchParams({ bucket, key, uploadId });
+  const res = await apiRequest("GET", `/api/s3/${accountId}/multipart/parts?${params.toString()}`);
+  const data = await res.json();
+  return data.parts;
+}
+
+export async function completeMultipartUpload(
+  accountId: number,
+  bucket: string,
+  key: string,
+  uploadId: string,
+  parts: UploadedPart[]
+): Promise<{ bucket: string; key: string; etag?: string }> {
+  const res = await apiRequest("POST", `/api/s3/${accountId}/multipart/complete`, {
+    bucket,
+    key,
+    uploadId,
+    parts: parts.map(({ partNumber, etag }) => ({ partNumber, etag })),
+  });
+  return await res.json();
+}
+
+export async function abortMultipartUpload(
+  accountId: number,
+  bucket: string,
+  key: string,
+  uploadId: string
+): Promise<void> {
+  await apiRequest("POST", `/api/s3/${accountId}/multipart/abort`, {
+    bucket,
+    key,
+    uploadId,
+  });
+}
+
 export async function uploadFile(
   accountId: number,
   bucket: string,
   file: File,
   prefix: string = "",
-  onProgress?: (progress: FileUploadProgress) => void
+  onProgress?: (progress: FileUploadProgress) => void,
+  relativePath?: string
 ): Promise<{bucket: string, key: string, size: number, mimetype: string}> {
   console.log("Starting upload for accountId:", accountId, "to bucket:", bucket, "with file:", file.name);
   const formData = new FormData();
@@ -141,6 +621,11 @@ export async function uploadFile(
     formData.append("prefix", prefix);
   }
   
+  // Path under the prefix, used instead of the file name for folder uploads
+  if (relativePath) {
+    formData.append("relativePath", relativePath);
+  }
+  
   // If we have a progress callback, use XMLHttpRequest for upload progress
   if (onProgress) {
     return new Promise((resolve, reject) => {
@@ -1,3 +1,5 @@
+import type { PreviewKind } from "@shared/file-preview";
+
 export interface User {
   id: number;
   username: string;
@@ -43,17 +45,276 @@ export interface S3ListObjectsResult {
   folders: S3CommonPrefix[];
   prefix: string;
   delimiter: string;
+  isTruncated?: boolean;
+  nextContinuationToken?: string;
+}
+
+// One entry from an object's version history (dates are ISO strings over the API)
+export interface S3ObjectVersion {
+  key: string;
+  versionId: string;
+  isLatest: boolean;
+  isDeleteMarker: boolean;
+  size?: number;
+  lastModified?: string;
+  etag?: string;
+  storageClass?: string;
+}
+
+// An object in a versioned bucket whose current version is a delete marker
+export interface S3DeletedObject {
+  key: string;
+  deleteMarkerVersionId: string;
+  deletedAt?: string;
+  size?: number;
+  etag?: string;
+}
+
+// Editable system headers of an object
+export interface S3SystemMetadata {
+  contentType?: string;
+  cacheControl?: string;
+  contentDisposition?: string;
+  contentEncoding?: string;
+  contentLanguage?: string;
+}
+
+// From the x-amz-restore header of an archived object
+export type S3RestoreStatus = 'none' | 'in-progress' | 'restored';
+
+export interface S3ObjectDetails extends S3SystemMetadata {
+  key: string;
+  size?: number;
+  lastModified?: string;
+  etag?: string;
+  versionId?: string;
+  serverSideEncryption?: string;
+  sseKmsKeyId?: string;
+  storageClass: string;
+  // Set when an Intelligent-Tiering object sits in an archive tier
+  archiveStatus?: string;
+  isArchived: boolean;
+  restoreStatus: S3RestoreStatus;
+  restoreExpiresAt?: string;
+  isReadable: boolean;
+  metadata: Record<string, string>;
+  tags: Record<string, string>;
+}
+
+// "replace" sets metadata/tags to exactly what is given; "merge" adds to each
+// object's own entries and an empty value removes an entry (used for bulk edits)
+export interface S3MetadataUpdate {
+  system?: S3SystemMetadata;
+  metadata?: Record<string, string>;
+  tags?: Record<string, string>;
+  mode?: 'replace' | 'merge';
+}
+
+export interface S3BucketEncryption {
+  type: 'AES256' | 'aws:kms';
+  kmsKeyId?: string;
+  bucketKeyEnabled?: boolean;
+}
+
+export interface S3PublicAccessBlock {
+  blockPublicAcls: boolean;
+  ignorePublicAcls: boolean;
+  blockPublicPolicy: boolean;
+  restrictPublicBuckets: boolean;
+}
+
+export interface S3BucketSettings {
+  region?: string;
+  versioning: 'Enabled' | 'Suspended' | 'Disabled';
+  objectLockEnabled: boolean;
+  encryption: S3BucketEncryption | null;
+  publicAccessBlock: S3PublicAccessBlock | null;
+  tags: Record<string, string>;
+}
+
+// Sections left out are unchanged; null removes encryption / Block Public Access
+export interface S3BucketSettingsUpdate {
+  versioning?: 'Enabled' | 'Suspended';
+  encryption?: S3BucketEncryption | null;
+  publicAccessBlock?: S3PublicAccessBlock | null;
+  tags?: Record<string, string>;
 }
 
+export interface S3CreateBucketOptions {
+  region?: string;
+  objectLock?: boolean;
+  encryption?: S3BucketEncryption;
+}
+
+// Background job deleting every object version in a bucket
+export interface S3EmptyBucketJob {
+  id: string;
+  bucket: string;
+  deleteBucket: boolean;
+  status: 'running' | 'completed' | 'failed';
+  deleted: number;
+  abortedUploads: number;
+  errorCount: number;
+  errors: { key: string; message: string }[];
+  bucketDeleted: boolean;
+  error?: string;
+}
+
+// Filters for a recursive search; sizes are in bytes and dates are ISO strings
+export interface S3SearchQuery {
+  prefix?: string;
+  pattern?: string;
+  patternType?: 'glob' | 'regex';
+  caseSensitive?: boolean;
+  minSize?: number;
+  maxSize?: number;
+  modifiedAfter?: string;
+  modifiedBefore?: string;
+  storageClasses?: string[];
+  contentType?: string;
+  tagKey?: string;
+  tagValue?: string;
+  maxResults?: number;
+  startAfter?: string;
+  // Skip the object index and list S3 directly
+  live?: boolean;
+}
+
+// A bucket opted in to the object index, with the state of its latest scan
+export interface S3ObjectIndex {
+  id: number;
+  accountId: number;
+  bucket: string;
+  enabled: boolean;
+  indexTags: boolean;
+  status: 'idle' | 'running' | 'failed';
+  isScanning: boolean;
+  scannedCount: number;
+  objectCount: number;
+  totalBytes: number;
+  lastError: string | null;
+  lastScanStartedAt: string | null;
+  lastScanCompletedAt: string | null;
+}
+
+export interface S3ObjectIndexStatus {
+  index: S3ObjectIndex | null;
+  // 0 when scheduled re-scans are turned off
+  rescanMinutes: number;
+}
+
+export interface S3FolderSize {
+  objectCount: number;
+  totalBytes: number;
+  indexedAt: string;
+}
+
+export interface StorageTotals {
+  objectCount: number;
+  totalBytes: number;
+}
+
+// Totals broken down by storage class and by file type category
+export interface StorageBreakdown extends StorageTotals {
+  byStorageClass: Record<string, StorageTotals>;
+  byCategory: Record<string, StorageTotals>;
+}
+
+export interface S3StorageStats extends StorageBreakdown {
+  bucket: string;
+  prefix: string;
+  // "index" when summed from the object index, "live" when listed from S3
+  source: 'index' | 'live';
+  computedAt: string;
+}
+
+export interface AccountStorageStats extends StorageBreakdown {
+  accountId: number;
+  accountName: string;
+  buckets: { bucket: string; stats?: S3StorageStats; error?: string }[];
+  error?: string;
+}
+
+export interface StorageOverview extends StorageBreakdown {
+  accounts: AccountStorageStats[];
+}
+
+export interface StorageHistoryPoint extends StorageTotals {
+  // UTC day, YYYY-MM-DD
+  date: string;
+  bytesByStorageClass: Record<string, number>;
+  bytesByCategory: Record<string, number>;
+}
+
+export interface StorageHistory {
+  points: StorageHistoryPoint[];
+  // 0 when snapshots are turned off
+  snapshotHours: number;
+}
+
+export interface S3FilePreview {
+  kind: PreviewKind;
+  // Signed inline URL; not set for text and code, which are fetched separately
+  url?: string;
+  contentType?: string;
+  size?: number;
+}
+
+export interface TextPreview {
+  text: string;
+  // Size of the whole file
+  size: number;
+  // Only the first part of the file was read
+  truncated: boolean;
+}
+
+export interface EditableText {
+  text: string;
+  // Sent back when saving, so a file changed in the meantime isn't overwritten
+  etag: string;
+  size: number;
+  contentType?: string;
+  lastModified?: string;
+}
+
+export interface SavedText {
+  etag: string;
+  size: number;
+}
+
+export interface S3SearchSummary {
+  scanned: number;
+  matched: number;
+  truncated: boolean;
+  nextStartAfter?: string;
+  // "index" when answered from the bucket's object index rather than by listing S3
+  source?: 'index' | 'live';
+  indexedAt?: string;
+}
+
+export type S3SearchEvent =
+  | { type: 'match'; object: S3Object & { ContentType?: string } }
+  | { type: 'progress'; scanned: number }
+  | ({ type: 'done' } & S3SearchSummary)
+  | { type: 'error'; message: string };
+
 export interface S3Account {
   id: number;
   userId: number;
   name: string;
-  accessKeyId: string;
-  secretAccessKey: string;
+  accessKeyIdLast4: string;
   region: string;
+  endpoint?: string;
+  forcePathStyle: boolean;
+  tlsVerify: boolean;
+  authType: 'static' | 'assume-role';
+  roleArn?: string;
+  externalId?: string;
+  sessionDurationSeconds?: number;
   defaultBucket?: string;
   isActive: boolean;
+  isHealthy: boolean;
+  lastCredentialError?: string;
   createdAt: string;
 }
 
@@ -69,10 +330,36 @@ export interface SharedFile {
   shareToken: string;
   expiresAt?: string;
   allowDownload: boolean;
-  password?: string;
+  allowPreview: boolean;
+  hasPassword: boolean;
   createdAt: string;
   shareUrl?: string;
   accessCount?: number;
+  shareType: SharedFileType;
+  // Collection items, relative to `path`
+  items?: string[];
+  allowSubfolders: boolean;
+  // File request limits; null when unlimited
+  maxFileSize?: number | null;
+  allowedExtensions?: string[] | null;
+  maxFiles?: number | null;
+  askUploaderInfo?: boolean;
+}
+
+// A single file, everything under a folder prefix, a set of picked files, or
+// an upload-only file request into a folder
+export type SharedFileType = 'file' | 'folder' | 'collection' | 'request';
+
+// Files one visitor uploaded to a file request, in their own folder
+export interface FileRequestSubmission {
+  id: number;
+  shareId: number;
+  prefix: string;
+  uploaderName?: string | null;
+  uploaderEmail?: string | null;
+  fileCount: number;
+  totalBytes: number;
+  createdAt: string;
 }
 
 export interface UserSettings {
@@ -86,13 +373,40 @@ export interface UserSettings {
 }
 
 export interface SharedFileAccess {
+  shareType: SharedFileType;
   filename: string;
   contentType?: string;
   filesize: number;
-  signedUrl: string;
+  // Folder and collection shares are downloaded file by file from their listing
+  signedUrl?: string;
   directS3Url?: string;
   allowDownload: boolean;
+  allowPreview: boolean;
+  // Set when the share allows previews and the file type can be shown
+  previewKind?: PreviewKind;
+  // Inline URL for media previews; text is fetched from the share's text preview route
+  previewUrl?: string;
   expiresAt?: string;
+  // Collection shares only
+  itemCount?: number;
+  allowSubfolders?: boolean;
+  // File requests only; maxFileSize already includes the server's own limit, and
+  // remainingFiles is what's left of maxFiles, which counts every uploader's files
+  maxFileSize?: number;
+  allowedExtensions?: string[] | null;
+  maxFiles?: number | null;
+  remainingFiles?: number | null;
+  askUploaderInfo?: boolean;
+}
+
+// One page of a folder share's listing; paths are relative to the shared folder
+export interface SharedListing {
+  path: string;
+  folders: { name: string; path: string }[];
+  files: { name: string; path: string; size: number; lastModified?: string }[];
+  // Collection items that have been deleted since the share was made
+  missing: string[];
+  nextContinuationToken?: string;
 }
 
 export interface FileUploadProgress {
@@ -100,8 +414,18 @@ export interface FileUploadProgress {
   progress: number;
   status: 'pending' | 'uploading' | 'completed' | 'error';
   error?: string;
+  // Something the user should know about how the file was sent
+  notice?: string;
 }
 
+// A file picked for upload, with its path relative to the folder it was picked from
+export interface UploadItem {
+  file: File;
+  relativePath: string;
+}
+
+export type UploadConflictResolution = 'skip' | 'overwrite' | 'rename';
+
 export interface FileAccessLog {
   id: number;
   fileId: number;
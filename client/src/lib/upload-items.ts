@@ -0,0 +1,71 @@
+import { UploadItem } from "@/lib/types";
+
+// Collects files for upload from file inputs and drag-and-drop, keeping each
+// file's path relative to the folder that was picked or dropped.
+
+export function getUploadItemsFromFileList(fileList: FileList | File[]): UploadItem[] {
+  return Array.from(fileList).map(file => ({
+    file,
+    // Set by <input webkitdirectory>, e.g. "photos/2024/a.jpg"; empty for plain files
+    relativePath: file.webkitRelativePath || file.name,
+  }));
+}
+
+function readFile(entry: FileSystemFileEntry): Promise<File> {
+  return new Promise((resolve, reject) => entry.file(resolve, reject));
+}
+
+// readEntries returns directory contents in batches, so keep reading until it's empty
+async function readAllEntries(directory: FileSystemDirectoryEntry): Promise<FileSystemEntry[]> {
+  const reader = directory.createReader();
+  const entries: FileSystemEntry[] = [];
+
+  while (true) {
+    const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+    if (batch.length === 0) {
+      return entries;
+    }
+    entries.push(...batch);
+  }
+}
+
+async function collectEntry(entry: FileSystemEntry, path: string, items: UploadItem[]) {
+  if (entry.isFile) {
+    const file = await readFile(entry as FileSystemFileEntry);
+    items.push({ file, relativePath: path + file.name });
+  } else if (entry.isDirectory) {
+    const children = await readAllEntries(entry as FileSystemDirectoryEntry);
+    for (const child of children) {
+      await collectEntry(child, `${path}${entry.name}/`, items);
+    }
+  }
+}
+
+// Walk dropped files and folders. Entries must be taken from the DataTransfer
+// synchronously, before the first await, or the browser clears them.
+export async function getUploadItemsFromDataTransfer(dataTransfer: DataTransfer): Promise<UploadItem[]> {
+  const entries = Array.from(dataTransfer.items)
+    .filter(item => item.kind === "file")
+    .map(item => item.webkitGetAsEntry());
+
+  // Browsers without the entries API only give us the top-level files
+  if (entries.length === 0 || entries.some(entry => !entry)) {
+    return getUploadItemsFromFileList(dataTransfer.files);
+  }
+
+  const items: UploadItem[] = [];
+  for (const entry of entries) {
+    await collectEntry(entry!, "", items);
+  }
+  return items;
+}
+
+// "docs/report.pdf" -> "docs/report (1).pdf"
+export function getRenamedPath(relativePath: string, attempt: number) {
+  const slash = relativePath.lastIndexOf("/");
+  const folder = relativePath.slice(0, slash + 1);
+  const name = relativePath.slice(slash + 1);
+  const dot = name.lastIndexOf(".");
+  const [base, extension] = dot > 0 ? [name.slice(0, dot), name.slice(dot)] : [name, ""];
+  return `${folder}${base} (${attempt})${extension}`;
+}
@@ -111,7 +111,7 @@ export default function AccountManager() {
                     <div className="flex items-center">
                       <i className="ri-key-2-line text-muted-foreground mr-2"></i>
                       <span className="text-sm">
-                        {account.accessKeyId.substring(0, 4)}...{account.accessKeyId.substring(account.accessKeyId.length - 4)}
+                        ••••{account.accessKeyIdLast4}
                       </span>
                     </div>
                     <div className="flex items-center">
@@ -126,6 +126,14 @@ export default function AccountManager() {
                         Added: {formatDate(account.createdAt)}
                       </span>
                     </div>
+                    {!account.isHealthy && (
+                      <div className="flex items-start text-destructive">
+                        <i className="ri-error-warning-line mr-2"></i>
+                        <span className="text-sm">
+                          Credentials rejected by S3{account.lastCredentialError ? `: ${account.lastCredentialError}` : ""}. Update or rotate this account's keys.
+                        </span>
+                      </div>
+                    )}
                   </div>
                 </CardContent>
                 <CardFooter className="flex justify-between">
@@ -411,8 +411,7 @@ export default function AccountSettings() {
                                   <h4 className="font-medium">{account.name}</h4>
                                   <p className="text-sm text-muted-foreground">
                                     {account.region} • 
-                                    {account.accessKeyId.substring(0, 4)}...
-                                    {account.accessKeyId.substring(account.accessKeyId.length - 4)}
+                                    ••••{account.accessKeyIdLast4}
                                   </p>
                                 </div>
                               </div>
@@ -0,0 +1,140 @@
+import { useQuery } from "@tanstack/react-query";
+import { Layout } from "@/components/layout/Layout";
+import {
+  Table,
+  TableBody,
+  TableCaption,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Loader2, ShieldAlert } from "lucide-react";
+import { useAuth } from "@/hooks/use-auth";
+import { S3ObjectIndex } from "@/lib/types";
+import { formatBytes, formatDate } from "@/lib/utils";
+
+interface AdminIndexedBucket extends S3ObjectIndex {
+  accountName?: string;
+  userId?: string;
+}
+
+interface AdminObjectIndexResponse {
+  rescanMinutes: number;
+  buckets: AdminIndexedBucket[];
+}
+
+export default function ObjectIndexJobs() {
+  const { user: currentUser } = useAuth();
+
+  // Every indexed bucket in the system (admin only), polled while scans run
+  const { data, isLoading } = useQuery<AdminObjectIndexResponse>({
+    queryKey: ['/api/admin/object-index'],
+    enabled: currentUser?.isAdmin === true,
+    refetchInterval: (query) => query.state.data?.buckets.some(bucket => bucket.isScanning) ? 5000 : false,
+  });
+  const buckets = data?.buckets || [];
+
+  // If not admin, show access denied
+  if (currentUser && currentUser.isAdmin !== true) {
+    return (
+      <Layout>
+        <div className="flex flex-col items-center justify-center h-[70vh]">
+          <ShieldAlert className="w-16 h-16 text-destructive mb-4" />
+          <h1 className="text-2xl font-semibold mb-2">Access Denied</h1>
+          <p className="text-muted-foreground">
+            You don't have permission to view the object index jobs.
+          </p>
+        </div>
+      </Layout>
+    );
+  }
+
+  // Loading state
+  if (isLoading) {
+    return (
+      <Layout>
+        <div className="flex justify-center items-center h-[70vh]">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      </Layout>
+    );
+  }
+
+  return (
+    <Layout>
+      <div className="container mx-auto py-6">
+        <div className="flex justify-between items-center mb-6">
+          <h1 className="text-2xl font-semibold">Object Index</h1>
+          <p className="text-sm text-muted-foreground">
+            {data?.rescanMinutes
+              ? `Buckets are re-scanned every ${data.rescanMinutes} minutes`
+              : 'Scheduled re-scans are turned off'}
+          </p>
+        </div>
+
+        <div className="bg-card rounded-lg border shadow-sm">
+          <Table>
+            <TableCaption>Buckets opted in to the background indexer</TableCaption>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Bucket</TableHead>
+                <TableHead>Account</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Objects</TableHead>
+                <TableHead className="text-right">Size</TableHead>
+                <TableHead>Last scan</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {buckets.map((indexed) => (
+                <TableRow key={indexed.id}>
+                  <TableCell className="font-medium">
+                    {indexed.bucket}
+                    {indexed.indexTags && <span className="ml-2 text-xs text-muted-foreground">with tags</span>}
+                  </TableCell>
+                  <TableCell>
+                    <div>{indexed.accountName || `Account ${indexed.accountId}`}</div>
+                    <div className="text-sm text-muted-foreground">User {indexed.userId}</div>
+                  </TableCell>
+                  <TableCell>
+                    {!indexed.enabled ? (
+                      <Badge variant="outline">Off</Badge>
+                    ) : indexed.isScanning ? (
+                      <Badge variant="secondary">
+                        Scanning · {indexed.scannedCount.toLocaleString()} listed
+                      </Badge>
+                    ) : indexed.status === 'failed' ? (
+                      <Badge variant="destructive" title={indexed.lastError || undefined}>Failed</Badge>
+                    ) : (
+                      <Badge variant="outline">Idle</Badge>
+                    )}
+                    {indexed.status === 'failed' && indexed.lastError && (
+                      <div className="mt-1 text-xs text-destructive max-w-xs truncate" title={indexed.lastError}>
+                        {indexed.lastError}
+                      </div>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right">{indexed.objectCount.toLocaleString()}</TableCell>
+                  <TableCell className="text-right">{formatBytes(indexed.totalBytes)}</TableCell>
+                  <TableCell>
+                    {indexed.lastScanCompletedAt ? formatDate(indexed.lastScanCompletedAt) : 'Never completed'}
+                  </TableCell>
+                </TableRow>
+              ))}
+
+              {buckets.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center py-8">
+                    No buckets are indexed
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </div>
+    </Layout>
+  );
+}
@@ -1,4 +1,4 @@
-import { useState, useEffect, useCallback } from "react";
+import { useState, useEffect, useCallback, useMemo } from "react";
 import { useLocation } from "wouter";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { apiRequest, queryClient } from "@/lib/queryClient";
@@ -10,14 +10,25 @@ import { FileActions } from "@/components/files/FileActions";
 import { FileCard } from "@/components/files/FileCard";
 import { FolderCard } from "@/components/files/FolderCard";
 import { StorageStats } from "@/components/files/StorageStats";
+import { VirtualizedFileList } from "@/components/files/VirtualizedFileList";
+import { VersionsPanel } from "@/components/files/VersionsPanel";
+import { FilePreviewDialog } from "@/components/files/FilePreview";
+import { TextEditorDialog } from "@/components/dialogs/TextEditorDialog";
+import { getPreviewKind, isEditable, MAX_EDITABLE_BYTES } from "@shared/file-preview";
+import { FileDetailsDrawer } from "@/components/files/FileDetailsDrawer";
+import { SearchResults } from "@/components/files/SearchResults";
 import { Button } from "@/components/ui/button";
-import { useS3Buckets, useS3Objects, useS3FileOperations, useAllS3Buckets } from "@/hooks/use-s3";
-import { S3Bucket, S3Object, S3CommonPrefix, S3Account, EnhancedS3Bucket } from "@/lib/types";
+import { useS3Buckets, useS3Objects, useS3FileOperations, useAllS3Buckets, useS3DeletedObjects, useS3StorageClass, useS3Search, useFolderSize } from "@/hooks/use-s3";
+import { S3Bucket, S3Object, S3CommonPrefix, S3Account, EnhancedS3Bucket, UploadItem, SharedFileType } from "@/lib/types";
+import { isArchiveStorageClass } from "@/lib/s3";
+import { formatBytes, formatDate } from "@/lib/utils";
+import { getUploadItemsFromDataTransfer } from "@/lib/upload-items";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/use-auth";
 import { UploadDialog } from "@/components/dialogs/UploadDialog";
 import { BatchOperationDialog } from "@/components/dialogs/BatchOperationDialog";
 import { ShareDialog } from "@/components/dialogs/ShareDialog";
+import { StorageClassDialog } from "@/components/dialogs/StorageClassDialog";
 import {
   AlertDialog,
   AlertDialogAction,
@@ -29,6 +40,10 @@ import {
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
 
+type BrowserItem =
+  | { type: 'folder'; folder: S3CommonPrefix }
+  | { type: 'file'; file: S3Object };
+
 export default function Browser() {
   const [location, navigate] = useLocation();
   const { user, isLoading: authLoading, isAuthenticated } = useAuth();
@@ -59,8 +74,11 @@ export default function Browser() {
   
   // State for dialog controls
   const [isUploadOpen, setIsUploadOpen] = useState(false);
+  const [droppedItems, setDroppedItems] = useState<UploadItem[] | undefined>();
+  const [isPageDragging, setIsPageDragging] = useState(false);
   const [isBatchMoveOpen, setIsBatchMoveOpen] = useState(false);
   const [isBatchCopyOpen, setIsBatchCopyOpen] = useState(false);
+  const [isBatchDownloadOpen, setIsBatchDownloadOpen] = useState(false);
   const [currentBatchOperation, setCurrentBatchOperation] = useState<"move" | "copy">("move");
   
   // State for file operations
@@ -72,6 +90,8 @@ export default function Browser() {
     filename: string;
     contentType?: string;
     size: number;
+    shareType?: SharedFileType;
+    keys?: string[];
   }>({
     accountId: 0,
     bucket: '',
@@ -84,6 +104,26 @@ export default function Browser() {
   const [isDeleteConfirmOpen, setIsDeleteConfirmOpen] = useState(false);
   const [fileToDelete, setFileToDelete] = useState<string>('');
   
+  // State for the versions panel and the deleted files view
+  const [versionsKey, setVersionsKey] = useState<string | null>(null);
+  // File open in the preview lightbox
+  const [previewKey, setPreviewKey] = useState<string | null>(null);
+  const [editKey, setEditKey] = useState<string | null>(null);
+  const [showDeleted, setShowDeleted] = useState(false);
+  
+  // Set while the recursive search view is open; pattern comes from the toolbar's search box
+  const [searchView, setSearchView] = useState<{ pattern: string } | null>(null);
+  
+  // Keys shown in the file details drawer; several keys means a bulk metadata edit
+  const [detailsKeys, setDetailsKeys] = useState<string[]>([]);
+  
+  // Pending storage class change or archive restore
+  const [storageClassAction, setStorageClassAction] = useState<{
+    type: "change" | "restore";
+    keys: string[];
+    currentStorageClass?: string;
+  } | null>(null);
+  
   // Update user settings when view mode changes
   const updateViewModeMutation = useMutation({
     mutationFn: async (newViewMode: 'grid' | 'list') => {
@@ -249,25 +289,58 @@ export default function Browser() {
   const { 
     data: objectsData,
     isLoading: isLoadingObjects,
-    refetch: refetchObjects
+    refetch: refetchObjects,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage
   } = useS3Objects(parsedAccountId, bucket, prefix, !!bucket);
   
   // Hook for file operations
   const { 
     deleteFile, 
     downloadFile, 
-    batchDownload,
-    batchDelete,
-    batchMove,
-    batchCopy,
+    batchDownloadFiles,
+    batchDeleteFiles,
+    batchMoveFiles,
+    batchCopyFiles,
     isDeleting, 
-    isDownloading, 
     isBatchDownloading,
     isBatchDeleting,
     isBatchMoving,
     isBatchCopying
   } = useS3FileOperations(parsedAccountId);
   
+  // Storage class changes and Glacier restores
+  const {
+    changeStorageClass,
+    restoreObjects,
+    isChangingStorageClass,
+    isRestoring
+  } = useS3StorageClass(parsedAccountId);
+  
+  // Deleted files in the current folder, only fetched while "Show deleted files" is on
+  const {
+    deletedObjects,
+    isLoading: isLoadingDeleted,
+    isError: isDeletedError,
+    undeleteObject,
+    isUndeleting
+  } = useS3DeletedObjects(parsedAccountId, bucket, prefix, showDeleted && !!bucket);
+  
+  // The deleted files view is per bucket
+  useEffect(() => {
+    setShowDeleted(false);
+  }, [bucket]);
+  
+  // Recursive search of the bucket, shown instead of the folder while open
+  const search = useS3Search(parsedAccountId, bucket);
+  // Only known for buckets with an object index
+  const { data: folderSize } = useFolderSize(parsedAccountId, bucket, prefix);
+  
+  useEffect(() => {
+    setSearchView(null);
+  }, [bucket, prefix]);
+  
   // Fetch account information to check for default bucket
   const { 
     data: accounts = [],
@@ -301,9 +374,16 @@ export default function Browser() {
     });
   }, []);
   
-  // Handle selecting all files
+  // Ticking a search result starts selection mode, so the batch actions show up
+  const handleSearchResultSelection = useCallback((file: S3Object, selected: boolean) => {
+    if (selected) setSelectionMode(true);
+    handleFileSelection(file, selected);
+  }, [handleFileSelection]);
+  
+  // Handle selecting all files (all search results while searching)
   const selectAllFiles = useCallback(() => {
-    const allFiles = filteredFiles.reduce((acc, file) => {
+    if (searchView) setSelectionMode(true);
+    const allFiles = (searchView ? search.results : filteredFiles).reduce((acc, file) => {
       if (file.Key) {
         acc[file.Key] = file;
       }
@@ -311,7 +391,7 @@ export default function Browser() {
     }, {} as Record<string, S3Object>);
     
     setSelectedFiles(allFiles);
-  }, [filteredFiles]);
+  }, [filteredFiles, searchView, search.results]);
   
   // Handle clearing selection
   const clearSelection = useCallback(() => {
@@ -375,6 +455,21 @@ export default function Browser() {
     setSearchQuery(query);
   }, []);
   
+  // Open the recursive search view, starting from the toolbar's search text
+  const handleAdvancedSearch = useCallback((query: string) => {
+    setSelectedFiles({});
+    setSelectionMode(false);
+    setSearchView({ pattern: query });
+  }, []);
+  
+  const { clear: clearSearch } = search;
+  const closeSearch = useCallback(() => {
+    clearSearch();
+    setSelectedFiles({});
+    setSelectionMode(false);
+    setSearchView(null);
+  }, [clearSearch]);
+  
   // Handle batch operations
   const handleBatchMove = useCallback(() => {
     setCurrentBatchOperation("move");
@@ -386,6 +481,65 @@ export default function Browser() {
     setIsBatchCopyOpen(true);
   }, []);
   
+  // Share everything under a folder prefix
+  const handleFolderShare = useCallback((folder: S3CommonPrefix) => {
+    if (!folder.Prefix || !parsedAccountId) return;
+    
+    setShareFile({
+      accountId: parsedAccountId,
+      bucket,
+      path: folder.Prefix,
+      filename: folder.Prefix.split('/').filter(Boolean).pop() || folder.Prefix,
+      size: 0,
+      shareType: 'folder'
+    });
+    setIsShareOpen(true);
+  }, [parsedAccountId, bucket]);
+  
+  // Upload-only link that drops files into the current folder
+  const handleRequestFiles = useCallback(() => {
+    if (!parsedAccountId) return;
+    
+    setShareFile({
+      accountId: parsedAccountId,
+      bucket,
+      path: prefix,
+      filename: prefix.split('/').filter(Boolean).pop() || bucket,
+      size: 0,
+      shareType: 'request'
+    });
+    setIsShareOpen(true);
+  }, [parsedAccountId, bucket, prefix]);
+  
+  // Share the selected files behind one link
+  const handleBatchShare = useCallback(() => {
+    const files = Object.values(selectedFiles).filter(file => file.Key);
+    if (files.length === 0 || !parsedAccountId) return;
+    
+    // A single file is shared the usual way
+    if (files.length === 1) {
+      const key = files[0].Key!;
+      setShareFile({
+        accountId: parsedAccountId,
+        bucket,
+        path: key,
+        filename: key.split('/').pop() || key,
+        size: files[0].Size || 0
+      });
+    } else {
+      setShareFile({
+        accountId: parsedAccountId,
+        bucket,
+        path: '',
+        filename: `${files.length} files`,
+        size: files.reduce((total, file) => total + (file.Size || 0), 0),
+        shareType: 'collection',
+        keys: files.map(file => file.Key!)
+      });
+    }
+    setIsShareOpen(true);
+  }, [parsedAccountId, bucket, selectedFiles]);
+  
   const handleBatchMoveConfirm = useCallback(async (destinationBucket: string, destinationPrefix: string) => {
     if (!parsedAccountId) return;
     
@@ -393,23 +547,17 @@ export default function Browser() {
     if (selectedKeys.length === 0) return;
     
     try {
-      await batchMove(bucket, selectedKeys, destinationBucket, destinationPrefix);
-      notify({ 
-        title: "Files moved successfully", 
-        description: `Moved ${selectedKeys.length} files to ${destinationBucket}/${destinationPrefix}` 
-      });
+      // The hook reports success, partial failures and errors
+      const result = await batchMoveFiles(bucket, selectedKeys, destinationBucket, destinationPrefix);
       setSelectedFiles({});
       setSelectionMode(false);
+      // Search results that failed to move are still there
+      search.removeResults(result.moved);
       refetchObjects();
     } catch (error) {
       console.error("Error moving files:", error);
-      notify({ 
-        title: "Failed to move files", 
-        description: "An error occurred during the batch move operation", 
-        variant: "destructive" 
-      });
     }
-  }, [parsedAccountId, bucket, selectedFiles, batchMove, notify, refetchObjects]);
+  }, [parsedAccountId, bucket, selectedFiles, batchMoveFiles, refetchObjects, search.removeResults]);
   
   const handleBatchCopyConfirm = useCallback(async (destinationBucket: string, destinationPrefix: string) => {
     if (!parsedAccountId) return;
@@ -418,42 +566,59 @@ export default function Browser() {
     if (selectedKeys.length === 0) return;
     
     try {
-      await batchCopy(bucket, selectedKeys, destinationBucket, destinationPrefix);
-      notify({ 
-        title: "Files copied successfully", 
-        description: `Copied ${selectedKeys.length} files to ${destinationBucket}/${destinationPrefix}` 
-      });
+      await batchCopyFiles(bucket, selectedKeys, destinationBucket, destinationPrefix);
     } catch (error) {
       console.error("Error copying files:", error);
-      notify({ 
-        title: "Failed to copy files", 
-        description: "An error occurred during the batch copy operation", 
-        variant: "destructive" 
-      });
     }
-  }, [parsedAccountId, bucket, selectedFiles, batchCopy, notify]);
+  }, [parsedAccountId, bucket, selectedFiles, batchCopyFiles]);
+  
+  // Dropping files or folders anywhere on the page opens the upload dialog with them
+  const handlePageDragOver = useCallback((e: React.DragEvent) => {
+    if (isUploadOpen || !e.dataTransfer.types.includes("Files")) return;
+    e.preventDefault();
+    setIsPageDragging(true);
+  }, [isUploadOpen]);
   
-  const handleBatchDownload = useCallback(async () => {
+  const handlePageDragLeave = useCallback((e: React.DragEvent) => {
+    // Ignore moves between child elements
+    if (!e.currentTarget.contains(e.relatedTarget as Node | null)) {
+      setIsPageDragging(false);
+    }
+  }, []);
+  
+  const handlePageDrop = useCallback(async (e: React.DragEvent) => {
+    if (isUploadOpen || !e.dataTransfer.types.includes("Files")) return;
+    e.preventDefault();
+    setIsPageDragging(false);
+    
+    const items = await getUploadItemsFromDataTransfer(e.dataTransfer);
+    if (items.length > 0) {
+      setDroppedItems(items);
+      setIsUploadOpen(true);
+    }
+  }, [isUploadOpen]);
+  
+  const handleUploadOpenChange = useCallback((open: boolean) => {
+    setIsUploadOpen(open);
+    if (!open) {
+      setDroppedItems(undefined);
+    }
+  }, []);
+  
+  const handleBatchDownload = useCallback(() => {
+    setIsBatchDownloadOpen(true);
+  }, []);
+  
+  const handleBatchDownloadConfirm = useCallback(() => {
     if (!parsedAccountId) return;
     
     const selectedKeys = Object.keys(selectedFiles);
     if (selectedKeys.length === 0) return;
     
-    try {
-      await batchDownload(bucket, selectedKeys);
-      notify({ 
-        title: "Download started", 
-        description: `Downloading ${selectedKeys.length} files` 
-      });
-    } catch (error) {
-      console.error("Error downloading files:", error);
-      notify({ 
-        title: "Failed to download files", 
-        description: "An error occurred during the download operation", 
-        variant: "destructive" 
-      });
-    }
-  }, [parsedAccountId, bucket, selectedFiles, batchDownload, notify]);
+    // The hook reports progress and errors; the archive streams in the background
+    batchDownloadFiles(bucket, selectedKeys);
+    setIsBatchDownloadOpen(false);
+  }, [parsedAccountId, bucket, selectedFiles, batchDownloadFiles]);
   
   const handleBatchDelete = useCallback(async () => {
     if (!parsedAccountId) return;
@@ -466,23 +631,114 @@ export default function Browser() {
     }
     
     try {
-      await batchDelete(bucket, selectedKeys);
-      notify({ 
-        title: "Files deleted successfully", 
-        description: `Deleted ${selectedKeys.length} files` 
-      });
+      const result = await batchDeleteFiles(bucket, selectedKeys);
       setSelectedFiles({});
       setSelectionMode(false);
+      search.removeResults(result.deleted);
       refetchObjects();
     } catch (error) {
       console.error("Error deleting files:", error);
+    }
+  }, [parsedAccountId, bucket, selectedFiles, batchDeleteFiles, refetchObjects, search.removeResults]);
+  
+  // Folders first, then files, as one list for the virtualized view
+  const browserItems = useMemo<BrowserItem[]>(() => [
+    ...filteredFolders.map(folder => ({ type: 'folder' as const, folder })),
+    ...filteredFiles.map(file => ({ type: 'file' as const, file })),
+  ], [filteredFolders, filteredFiles]);
+  
+  // Files the preview lightbox can step through, in the order they are listed
+  const previewableFiles = useMemo(
+    () => filteredFiles.filter(file => file.Key && getPreviewKind(file.Key)),
+    [filteredFiles]
+  );
+  
+  // Small text files open in the editor; archived ones have to be restored first
+  const canEdit = (file: S3Object) =>
+    !!file.Key && isEditable(file.Key) && (file.Size || 0) <= MAX_EDITABLE_BYTES && !isArchiveStorageClass(file.StorageClass);
+  const selectedList = Object.values(selectedFiles);
+  const editableSelection = selectedList.length === 1 && canEdit(selectedList[0]) ? selectedList[0] : undefined;
+  
+  const handlePreviewDownload = useCallback(async (key: string) => {
+    try {
+      await downloadFile(bucket, key);
+    } catch (error) {
       notify({ 
-        title: "Failed to delete files", 
-        description: "An error occurred during the delete operation", 
-        variant: "destructive" 
+        title: "Download failed", 
+        description: "Failed to download file",
+        variant: "destructive"
       });
     }
-  }, [parsedAccountId, bucket, selectedFiles, batchDelete, notify, refetchObjects]);
+  }, [bucket, downloadFile, notify]);
+  
+  const renderFileCard = (file: S3Object) => (
+    <FileCard
+      file={file}
+      bucket={bucket}
+      accountId={parsedAccountId!}
+      prefix={prefix}
+      selectable={selectionMode}
+      selected={!!selectedFiles[file.Key || '']}
+      onSelect={(file, selected) => handleFileSelection(file, selected)}
+      viewMode={viewMode}
+      onDelete={() => {
+        if (!file.Key) return;
+        setFileToDelete(file.Key);
+        setIsDeleteConfirmOpen(true);
+      }}
+      onDownload={async () => {
+        if (!file.Key) return;
+        try {
+          await downloadFile(bucket, file.Key);
+        } catch (error) {
+          notify({ 
+            title: "Download failed", 
+            description: "Failed to download file",
+            variant: "destructive"
+          });
+        }
+      }}
+      onPreview={file.Key && getPreviewKind(file.Key) ? () => setPreviewKey(file.Key!) : undefined}
+      onEdit={canEdit(file) ? () => setEditKey(file.Key!) : undefined}
+      onShare={() => {
+        if (!file.Key) return;
+        // Set the file to share and open the share dialog
+        setShareFile({
+          accountId: parsedAccountId!,
+          bucket: bucket,
+          path: file.Key,
+          filename: file.Key.split('/').pop() || file.Key,
+          contentType: file.contentType,
+          size: file.Size || 0
+        });
+        setIsShareOpen(true);
+      }}
+      onVersions={() => {
+        if (!file.Key) return;
+        setVersionsKey(file.Key);
+      }}
+      onDetails={() => {
+        if (!file.Key) return;
+        setDetailsKeys([file.Key]);
+      }}
+      onChangeStorageClass={() => {
+        if (!file.Key) return;
+        setStorageClassAction({ type: "change", keys: [file.Key], currentStorageClass: file.StorageClass || "STANDARD" });
+      }}
+      onRestore={() => {
+        if (!file.Key) return;
+        setStorageClassAction({ type: "restore", keys: [file.Key] });
+      }}
+      onRename={() => {
+        if (!file.Key) return;
+        // Alert user that rename is coming soon
+        notify({
+          title: "Rename feature",
+          description: "File rename functionality will be available soon"
+        });
+      }}
+    />
+  );
   
   // Return loading state
   if (isLoadingBuckets || isLoadingAccounts) {
@@ -593,7 +849,18 @@ export default function Browser() {
   // Return file browser if bucket is selected
   return (
     <Layout>
-      <div className="space-y-6">
+      <div
+        className="space-y-6 relative"
+        onDragOver={handlePageDragOver}
+        onDragLeave={handlePageDragLeave}
+        onDrop={handlePageDrop}
+      >
+        {isPageDragging && (
+          <div className="absolute inset-0 z-20 flex items-center justify-center rounded-lg border-2 border-dashed border-primary bg-primary/5 pointer-events-none">
+            <p className="font-semibold text-primary">Drop files or folders to upload to {prefix || bucket}</p>
+          </div>
+        )}
+        
         {/* Breadcrumbs for navigation */}
         <div className="flex items-center justify-between">
           <Breadcrumbs 
@@ -601,12 +868,22 @@ export default function Browser() {
             bucket={bucket} 
             prefix={prefix} 
           />
-          <StorageStats account={accounts.find(a => a.id === parsedAccountId)} />
+          <div className="flex items-center gap-3">
+            {folderSize && (
+              <span
+                className="text-xs text-muted-foreground"
+                title={folderSize.indexedAt ? `From the object index, ${formatDate(folderSize.indexedAt)}` : 'From the object index'}
+              >
+                {folderSize.objectCount.toLocaleString()} objects · {formatBytes(folderSize.totalBytes)}
+              </span>
+            )}
+            <StorageStats accountId={parsedAccountId!} bucket={bucket} prefix={prefix} />
+          </div>
         </div>
         
         {/* File actions toolbar */}
         <FileActions
-          title={`Browsing ${bucket}`}
+          title={searchView ? `Searching ${bucket}` : `Browsing ${bucket}`}
           bucket={bucket}
           prefix={prefix}
           accountId={parsedAccountId!}
@@ -624,116 +901,143 @@ export default function Browser() {
           onBatchDelete={handleBatchDelete}
           onBatchMove={handleBatchMove}
           onBatchCopy={handleBatchCopy}
+          onBatchEditMetadata={() => setDetailsKeys(Object.keys(selectedFiles))}
+          onBatchChangeStorageClass={() => setStorageClassAction({ type: "change", keys: Object.keys(selectedFiles) })}
+          onBatchRestore={() => setStorageClassAction({ type: "restore", keys: Object.keys(selectedFiles) })}
+          onBatchShare={handleBatchShare}
+          onRequestFiles={handleRequestFiles}
+          onEdit={editableSelection ? () => setEditKey(editableSelection.Key!) : undefined}
           onSelectAll={selectAllFiles}
           onClearSelection={clearSelection}
-          onSearch={handleSearch}
+          onSearch={searchView ? undefined : handleSearch}
+          onAdvancedSearch={searchView ? undefined : handleAdvancedSearch}
           onUpload={() => setIsUploadOpen(true)}
+          showDeleted={showDeleted}
+          onShowDeletedChange={setShowDeleted}
         />
         
-        {/* Content area for files and folders */}
-        <div className="relative min-h-[300px]">
-          {/* Loading indicator */}
-          {isLoadingObjects && (
-            <div className="absolute inset-0 bg-background/80 flex items-center justify-center z-10">
-              <div className="animate-spin text-primary">
-                <svg className="h-8 w-8" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
-                  <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
-                  <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
-                </svg>
+        {/* Recursive search results replace the folder view while a search is open */}
+        {searchView ? (
+          <SearchResults
+            prefix={prefix}
+            initialPattern={searchView.pattern}
+            results={search.results}
+            scanned={search.scanned}
+            summary={search.summary}
+            error={search.error}
+            isSearching={search.isSearching}
+            isCancelled={search.isCancelled}
+            hasSearched={search.hasSearched}
+            onSearch={search.search}
+            onLoadMore={search.loadMore}
+            onCancel={search.cancel}
+            onClose={closeSearch}
+            selectedFiles={selectedFiles}
+            onSelect={handleSearchResultSelection}
+            onSelectAll={(selected) => selected ? selectAllFiles() : clearSelection()}
+            onOpenFolder={(folderPrefix) => {
+              closeSearch();
+              navigateTo({ account: parsedAccountId, bucket, prefix: folderPrefix });
+            }}
+            onDetails={(key) => setDetailsKeys([key])}
+          />
+        ) : (
+          <div className="relative min-h-[300px]">
+            {/* Loading indicator */}
+            {isLoadingObjects && (
+              <div className="absolute inset-0 bg-background/80 flex items-center justify-center z-10">
+                <div className="animate-spin text-primary">
+                  <svg className="h-8 w-8" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+                    <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                    <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+                  </svg>
+                </div>
               </div>
-            </div>
-          )}
+            )}
           
-          {/* Parent directory button */}
-          {prefix && (
-            <div className={viewMode === 'grid' ? 'mb-6' : 'mb-2'}>
-              <Button
-                variant="outline"
-                className="w-full md:w-auto flex items-center gap-2"
-                onClick={handleNavigateUp}
-              >
-                <svg className="h-4 w-4" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
-                </svg>
-                <span>Parent Directory</span>
-              </Button>
-            </div>
-          )}
+            {/* Parent directory button */}
+            {prefix && (
+              <div className={viewMode === 'grid' ? 'mb-6' : 'mb-2'}>
+                <Button
+                  variant="outline"
+                  className="w-full md:w-auto flex items-center gap-2"
+                  onClick={handleNavigateUp}
+                >
+                  <svg className="h-4 w-4" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+                  </svg>
+                  <span>Parent Directory</span>
+                </Button>
+              </div>
+            )}
+          
+            {/* Grid or list of folders and files, virtualized so large folders stay responsive */}
+            <VirtualizedFileList<BrowserItem>
+              items={browserItems}
+              viewMode={viewMode}
+              getItemKey={(item) => item.type === 'folder' ? `folder:${item.folder.Prefix}` : `file:${item.file.Key}`}
+              hasMore={!!hasNextPage}
+              isLoadingMore={isFetchingNextPage}
+              onLoadMore={fetchNextPage}
+              renderItem={(item) => item.type === 'folder' ? (
+                <FolderCard
+                  folder={item.folder}
+                  accountId={parsedAccountId!}
+                  bucket={bucket}
+                  prefix={prefix}
+                  viewMode={viewMode}
+                  onClick={() => handleFolderClick(item.folder)}
+                  onShare={() => handleFolderShare(item.folder)}
+                />
+              ) : renderFileCard(item.file)}
+            />
+          
+            {/* Deleted files in this folder (versioned buckets only) */}
+            {showDeleted && (
+              <div className="mt-6 rounded-md border">
+                <div className="px-3 py-2 border-b text-sm font-medium">Deleted files</div>
+                {isLoadingDeleted ? (
+                  <p className="p-3 text-sm text-muted-foreground">Loading deleted files...</p>
+                ) : isDeletedError ? (
+                  <p className="p-3 text-sm text-destructive">Could not list deleted files for this bucket</p>
+                ) : deletedObjects.length === 0 ? (
+                  <p className="p-3 text-sm text-muted-foreground">
+                    No deleted files in this folder. Deleted files can only be recovered in versioned buckets.
+                  </p>
+                ) : (
+                  deletedObjects.map(deleted => (
+                    <div key={deleted.key} className="flex items-center justify-between gap-2 px-3 py-2 border-b last:border-b-0">
+                      <div className="min-w-0">
+                        <p className="text-sm truncate line-through text-muted-foreground" title={deleted.key}>
+                          {deleted.key.split('/').pop()}
+                        </p>
+                        <p className="text-xs text-muted-foreground">
+                          {deleted.size !== undefined && `${formatBytes(deleted.size)} • `}
+                          {deleted.deletedAt ? `Deleted ${formatDate(deleted.deletedAt)}` : 'Deleted'}
+                        </p>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <Button variant="ghost" size="sm" onClick={() => setVersionsKey(deleted.key)}>
+                          Versions
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          disabled={isUndeleting}
+                          onClick={() => undeleteObject(deleted.key, deleted.deleteMarkerVersionId)}
+                        >
+                          Undelete
+                        </Button>
+                      </div>
+                    </div>
+                  ))
+                )}
+              </div>
+            )}
           
-          {/* Grid or list of folders and files */}
-          <div className={viewMode === 'grid' 
-            ? 'grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4' 
-            : 'space-y-2'
-          }>
-            {/* Folders */}
-            {filteredFolders.map((folder, index) => (
-              <FolderCard
-                key={index}
-                folder={folder}
-                accountId={parsedAccountId!}
-                bucket={bucket}
-                prefix={prefix}
-                viewMode={viewMode}
-                onClick={() => handleFolderClick(folder)}
-              />
-            ))}
-            
-            {/* Files */}
-            {filteredFiles.map((file, index) => (
-              <FileCard
-                key={index}
-                file={file}
-                bucket={bucket}
-                accountId={parsedAccountId!}
-                prefix={prefix}
-                selectable={selectionMode}
-                selected={!!selectedFiles[file.Key || '']}
-                onSelect={(file, selected) => handleFileSelection(file, selected)}
-                viewMode={viewMode}
-                onDelete={() => {
-                  if (!file.Key) return;
-                  setFileToDelete(file.Key);
-                  setIsDeleteConfirmOpen(true);
-                }}
-                onDownload={async () => {
-                  if (!file.Key) return;
-                  try {
-                    await downloadFile(bucket, file.Key);
-                  } catch (error) {
-                    notify({ 
-                      title: "Download failed", 
-                      description: "Failed to download file",
-                      variant: "destructive"
-                    });
-                  }
-                }}
-                onShare={() => {
-                  if (!file.Key) return;
-                  // Set the file to share and open the share dialog
-                  setShareFile({
-                    accountId: parsedAccountId!,
-                    bucket: bucket,
-                    path: file.Key,
-                    filename: file.Key.split('/').pop() || file.Key,
-                    contentType: file.contentType,
-                    size: file.Size || 0
-                  });
-                  setIsShareOpen(true);
-                }}
-                onRename={() => {
-                  if (!file.Key) return;
-                  // Alert user that rename is coming soon
-                  notify({
-                    title: "Rename feature",
-                    description: "File rename functionality will be available soon"
-                  });
-                }}
-              />
-            ))}
-            
             {/* Empty state */}
-            {filteredFiles.length === 0 && filteredFolders.length === 0 && !isLoadingObjects && (
-              <div className="col-span-full text-center py-12">
+            {browserItems.length === 0 && !isLoadingObjects && (
+              <div className="text-center py-12">
                 <p className="text-muted-foreground">This folder is empty</p>
                 <Button 
                   className="mt-4"
@@ -744,16 +1048,17 @@ export default function Browser() {
               </div>
             )}
           </div>
-        </div>
+        )}
       </div>
       
       {/* Upload dialog */}
       <UploadDialog
         open={isUploadOpen}
-        onOpenChange={setIsUploadOpen}
+        onOpenChange={handleUploadOpenChange}
         bucket={bucket}
         prefix={prefix}
         accountId={parsedAccountId!}
+        initialItems={droppedItems}
       />
       
       {/* Batch move dialog */}
@@ -778,6 +1083,68 @@ export default function Browser() {
         isProcessing={isBatchCopying}
       />
       
+      {/* Batch download dialog */}
+      <BatchOperationDialog
+        open={isBatchDownloadOpen}
+        onOpenChange={setIsBatchDownloadOpen}
+        operationType="download"
+        sourceBucket={bucket}
+        selectedCount={Object.keys(selectedFiles).length}
+        onConfirm={handleBatchDownloadConfirm}
+        isProcessing={isBatchDownloading}
+      />
+      
+      {/* Version history of a single file */}
+      <VersionsPanel
+        open={!!versionsKey}
+        onOpenChange={(open) => !open && setVersionsKey(null)}
+        accountId={parsedAccountId!}
+        bucket={bucket}
+        objectKey={versionsKey}
+      />
+      
+      {/* Preview of images, PDFs, media and text, stepping through the folder */}
+      <FilePreviewDialog
+        open={!!previewKey}
+        onOpenChange={(open) => !open && setPreviewKey(null)}
+        accountId={parsedAccountId!}
+        bucket={bucket}
+        files={previewableFiles}
+        currentKey={previewKey}
+        onNavigate={setPreviewKey}
+        onDownload={handlePreviewDownload}
+      />
+      
+      {/* In-place editor for small text and code files */}
+      <TextEditorDialog
+        open={!!editKey}
+        onOpenChange={(open) => !open && setEditKey(null)}
+        accountId={parsedAccountId!}
+        bucket={bucket}
+        fileKey={editKey}
+      />
+      
+      {/* File details and metadata editor */}
+      <FileDetailsDrawer
+        open={detailsKeys.length > 0}
+        onOpenChange={(open) => !open && setDetailsKeys([])}
+        accountId={parsedAccountId!}
+        bucket={bucket}
+        keys={detailsKeys}
+      />
+      
+      {/* Storage class change / archive restore dialog */}
+      <StorageClassDialog
+        open={!!storageClassAction}
+        onOpenChange={(open) => !open && setStorageClassAction(null)}
+        operationType={storageClassAction?.type || "change"}
+        selectedCount={storageClassAction?.keys.length || 0}
+        currentStorageClass={storageClassAction?.currentStorageClass}
+        onChangeStorageClass={(storageClass) => changeStorageClass(bucket, storageClassAction?.keys || [], storageClass)}
+        onRestore={(days, tier) => restoreObjects(bucket, storageClassAction?.keys || [], days, tier)}
+        isProcessing={isChangingStorageClass || isRestoring}
+      />
+      
       {/* Share file dialog */}
       {isShareOpen && (
         <ShareDialog
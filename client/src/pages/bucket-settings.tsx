@@ -0,0 +1,295 @@
+import { useCallback, useState } from "react";
+import { useLocation, useSearch } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { Layout } from "@/components/layout/Layout";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import BucketSelect from "@/components/files/BucketSelect";
+import { LifecycleEditor } from "@/components/bucket/LifecycleEditor";
+import { BucketSettingsPanel } from "@/components/bucket/BucketSettingsPanel";
+import { JsonConfigEditor } from "@/components/bucket/JsonConfigEditor";
+import { ObjectIndexPanel } from "@/components/bucket/ObjectIndexPanel";
+import { CreateBucketDialog } from "@/components/dialogs/CreateBucketDialog";
+import { DeleteBucketDialog } from "@/components/dialogs/DeleteBucketDialog";
+import { useAllS3Buckets, useBucketLifecycle, useBucketSettings, useBucketPolicy, useBucketCors, useObjectIndex } from "@/hooks/use-s3";
+import { S3Account } from "@/lib/types";
+import { getApiErrorMessage } from "@/lib/queryClient";
+import { getPolicyTemplates, getCorsTemplates } from "@/lib/bucket-templates";
+import type { LifecycleRule } from "@shared/lifecycle";
+import { validateBucketPolicy, validateCorsRules, type BucketPolicy, type CorsRule } from "@shared/bucket-config";
+
+// Stable empty values so the editors don't reset their drafts on every render
+const NO_RULES: LifecycleRule[] = [];
+const NO_CORS_RULES: CorsRule[] = [];
+const CORS_TEMPLATES = getCorsTemplates();
+
+export default function BucketSettings() {
+  const [, navigate] = useLocation();
+  const search = useSearch();
+  const { data: buckets, isLoading: isLoadingBuckets } = useAllS3Buckets();
+  const { data: accounts = [] } = useQuery<S3Account[]>({
+    queryKey: ['/api/s3-accounts'],
+  });
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+  const [isDeleteOpen, setIsDeleteOpen] = useState(false);
+
+  // The bucket is addressed the same way as in the browser: ?account=<id>&bucket=<name>
+  const urlParams = new URLSearchParams(search);
+  const accountIdParam = urlParams.get('account');
+  const accountId = accountIdParam ? parseInt(accountIdParam) : undefined;
+  const bucket = urlParams.get('bucket') || undefined;
+
+  const selectBucket = (bucketName: string, bucketAccountId: number) => {
+    const params = new URLSearchParams({ account: bucketAccountId.toString(), bucket: bucketName });
+    navigate(`/bucket-settings?${params.toString()}`);
+  };
+
+  const general = useBucketSettings(accountId, bucket);
+  const lifecycle = useBucketLifecycle(accountId, bucket);
+  const policy = useBucketPolicy(accountId, bucket);
+  const cors = useBucketCors(accountId, bucket);
+  const objectIndex = useObjectIndex(accountId, bucket);
+  
+  const validatePolicy = useCallback((value: unknown) => validateBucketPolicy(value, bucket || '').errors, [bucket]);
+  const validateCors = useCallback((value: unknown) => validateCorsRules(value).errors, []);
+
+  return (
+    <Layout>
+      <div className="space-y-6">
+        <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+          <h1 className="text-2xl font-bold tracking-tight">Bucket Settings</h1>
+          <div className="flex items-center gap-2">
+            <div className="w-64">
+              <BucketSelect
+                buckets={buckets}
+                currentBucket={bucket}
+                onBucketChange={selectBucket}
+                isLoading={isLoadingBuckets}
+              />
+            </div>
+            <Button variant="outline" onClick={() => setIsCreateOpen(true)} disabled={accounts.length === 0}>
+              <i className="ri-add-line mr-2"></i>
+              New bucket
+            </Button>
+            {bucket && accountId !== undefined && (
+              <Button
+                variant="outline"
+                onClick={() => navigate(`/browser?account=${accountId}&bucket=${encodeURIComponent(bucket)}`)}
+              >
+                <i className="ri-folder-open-line mr-2"></i>
+                Browse
+              </Button>
+            )}
+          </div>
+        </div>
+
+        {!bucket || accountId === undefined ? (
+          <p className="text-sm text-muted-foreground">Select a bucket to view its settings.</p>
+        ) : (
+          <Tabs defaultValue="general">
+            <TabsList className="mb-6">
+              <TabsTrigger value="general">General</TabsTrigger>
+              <TabsTrigger value="lifecycle">Lifecycle</TabsTrigger>
+              <TabsTrigger value="policy">Policy</TabsTrigger>
+              <TabsTrigger value="cors">CORS</TabsTrigger>
+              <TabsTrigger value="index">Index</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="general">
+              <div className="grid gap-6">
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Bucket settings</CardTitle>
+                    <CardDescription>
+                      Versioning, default encryption, public access and tags for {bucket}.
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    {general.isLoading ? (
+                      <div className="space-y-3">
+                        <Skeleton className="h-24 w-full" />
+                        <Skeleton className="h-24 w-full" />
+                      </div>
+                    ) : general.isError || !general.settings ? (
+                      <p className="text-sm text-destructive">
+                        {getApiErrorMessage(general.error, "Failed to load bucket settings")}
+                      </p>
+                    ) : (
+                      <BucketSettingsPanel
+                        settings={general.settings}
+                        onSave={general.updateSettings}
+                        isSaving={general.isUpdating}
+                      />
+                    )}
+                  </CardContent>
+                </Card>
+
+                <Card className="border-destructive/50">
+                  <CardHeader>
+                    <CardTitle>Delete bucket</CardTitle>
+                    <CardDescription>
+                      Remove this bucket from the account. Buckets must be empty before they can be deleted.
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <Button variant="destructive" onClick={() => setIsDeleteOpen(true)}>
+                      Delete bucket...
+                    </Button>
+                  </CardContent>
+                </Card>
+              </div>
+            </TabsContent>
+
+            <TabsContent value="lifecycle">
+              <Card>
+                <CardHeader>
+                  <CardTitle>Lifecycle rules</CardTitle>
+                  <CardDescription>
+                    Move objects to cheaper storage classes or delete them automatically as they age.
+                    S3 applies rule changes once a day.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  {lifecycle.isLoading ? (
+                    <div className="space-y-3">
+                      <Skeleton className="h-32 w-full" />
+                      <Skeleton className="h-32 w-full" />
+                    </div>
+                  ) : lifecycle.isError ? (
+                    <p className="text-sm text-destructive">
+                      {getApiErrorMessage(lifecycle.error, "Failed to load lifecycle rules")}
+                    </p>
+                  ) : (
+                    <LifecycleEditor
+                      rules={lifecycle.rules || NO_RULES}
+                      onSave={lifecycle.saveRules}
+                      isSaving={lifecycle.isSaving}
+                    />
+                  )}
+                </CardContent>
+              </Card>
+            </TabsContent>
+
+            <TabsContent value="policy">
+              <Card>
+                <CardHeader>
+                  <CardTitle>Bucket policy</CardTitle>
+                  <CardDescription>
+                    A JSON policy granting or denying access to this bucket, for example to other AWS accounts.
+                    Leave it empty to remove the policy.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  {policy.isLoading ? (
+                    <Skeleton className="h-64 w-full" />
+                  ) : policy.isError ? (
+                    <p className="text-sm text-destructive">
+                      {getApiErrorMessage(policy.error, "Failed to load bucket policy")}
+                    </p>
+                  ) : (
+                    <JsonConfigEditor<BucketPolicy | null>
+                      value={policy.policy ?? null}
+                      emptyValue={null}
+                      validate={validatePolicy}
+                      templates={getPolicyTemplates(bucket)}
+                      onSave={policy.savePolicy}
+                      isSaving={policy.isSaving}
+                      placeholder='{ "Version": "2012-10-17", "Statement": [] }'
+                    />
+                  )}
+                </CardContent>
+              </Card>
+            </TabsContent>
+
+            <TabsContent value="cors">
+              <Card>
+                <CardHeader>
+                  <CardTitle>CORS rules</CardTitle>
+                  <CardDescription>
+                    Which websites can access this bucket from a browser. Direct browser uploads need a rule
+                    allowing PUT from this app's origin. Leave it empty to remove the configuration.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  {cors.isLoading ? (
+                    <Skeleton className="h-64 w-full" />
+                  ) : cors.isError ? (
+                    <p className="text-sm text-destructive">
+                      {getApiErrorMessage(cors.error, "Failed to load CORS rules")}
+                    </p>
+                  ) : (
+                    <JsonConfigEditor<CorsRule[]>
+                      value={cors.rules || NO_CORS_RULES}
+                      emptyValue={NO_CORS_RULES}
+                      validate={validateCors}
+                      templates={CORS_TEMPLATES}
+                      onSave={cors.saveRules}
+                      isSaving={cors.isSaving}
+                      placeholder='[ { "AllowedOrigins": ["https://example.com"], "AllowedMethods": ["GET"] } ]'
+                    />
+                  )}
+                </CardContent>
+              </Card>
+            </TabsContent>
+
+            <TabsContent value="index">
+              <Card>
+                <CardHeader>
+                  <CardTitle>Object index</CardTitle>
+                  <CardDescription>
+                    Searching a large bucket lists every object in it, which is slow and billed per request.
+                    An index answers searches and folder sizes from the database instead.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  {objectIndex.isLoading ? (
+                    <Skeleton className="h-32 w-full" />
+                  ) : objectIndex.isError ? (
+                    <p className="text-sm text-destructive">
+                      {getApiErrorMessage(objectIndex.error, "Failed to load the object index")}
+                    </p>
+                  ) : (
+                    <ObjectIndexPanel
+                      index={objectIndex.index}
+                      rescanMinutes={objectIndex.rescanMinutes}
+                      onConfigure={objectIndex.configureIndex}
+                      onScan={objectIndex.startScan}
+                      isConfiguring={objectIndex.isConfiguring}
+                      isStartingScan={objectIndex.isStartingScan}
+                    />
+                  )}
+                </CardContent>
+              </Card>
+            </TabsContent>
+          </Tabs>
+        )}
+      </div>
+
+      <CreateBucketDialog
+        open={isCreateOpen}
+        onOpenChange={setIsCreateOpen}
+        accounts={accounts}
+        defaultAccountId={accountId}
+        onCreated={selectBucket}
+      />
+
+      {bucket && accountId !== undefined && (
+        <DeleteBucketDialog
+          open={isDeleteOpen}
+          onOpenChange={setIsDeleteOpen}
+          accountId={accountId}
+          bucket={bucket}
+          onDeleted={() => navigate('/bucket-settings')}
+        />
+      )}
+    </Layout>
+  );
+}
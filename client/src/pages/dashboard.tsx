@@ -2,7 +2,7 @@ import { useState, useEffect } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { useLocation } from "wouter";
 import { Layout } from "@/components/layout/Layout";
-import { StorageStats } from "@/components/files/StorageStats";
+import { StorageOverview } from "@/components/files/StorageOverview";
 import { 
   Card, 
   CardContent, 
@@ -57,7 +57,7 @@ export default function Dashboard() {
         <h1 className="text-2xl font-bold tracking-tight">Welcome, {user?.username}!</h1>
         
         {/* Storage Statistics */}
-        <StorageStats account={defaultAccount} />
+        <StorageOverview />
         
         {/* My Files Section - Buckets as Folders */}
         <div>
@@ -116,6 +116,12 @@ export default function Dashboard() {
                       <p className="text-sm text-muted-foreground">
                         {account.region}
                       </p>
+                      {!account.isHealthy && (
+                        <p className="text-xs text-destructive flex items-center mt-1">
+                          <i className="ri-error-warning-line mr-1"></i>
+                          Credentials rejected
+                        </p>
+                      )}
                     </div>
                   </div>
                 </CardHeader>
@@ -124,9 +130,7 @@ export default function Dashboard() {
                     <div>
                       <p className="text-muted-foreground">Access Key</p>
                       <p className="font-medium">
-                        {account.accessKeyId.substring(0, 5)}
-                        •••••
-                        {account.accessKeyId.substring(account.accessKeyId.length - 4)}
+                        •••••{account.accessKeyIdLast4}
                       </p>
                     </div>
                     <div>
@@ -20,6 +20,7 @@ const awsRegions = [
   { value: "ap-southeast-1", label: "Asia Pacific (Singapore)" },
   { value: "ap-south-1", label: "Asia Pacific (Mumbai)" },
   { value: "sa-east-1", label: "South America (São Paulo)" },
+  { value: "auto", label: "Auto (Cloudflare R2 / custom endpoint)" },
 ];
 
 export default function PolishedS3Account() {
@@ -32,18 +33,43 @@ export default function PolishedS3Account() {
   const [secretAccessKey, setSecretAccessKey] = useState('');
   const [region, setRegion] = useState('ap-southeast-2');
   
+  // S3-compatible endpoint settings (MinIO, Ceph RGW, Wasabi, R2)
+  const [endpoint, setEndpoint] = useState('');
+  const [forcePathStyle, setForcePathStyle] = useState(false);
+  const [tlsVerify, setTlsVerify] = useState(true);
+  
+  // Assume-role settings: the key pair above is used to call STS AssumeRole
+  const [authType, setAuthType] = useState<'static' | 'assume-role'>('static');
+  const [roleArn, setRoleArn] = useState('');
+  const [externalId, setExternalId] = useState('');
+  const [sessionDurationSeconds, setSessionDurationSeconds] = useState(3600);
+  
   // UI state
   const [isLoading, setIsLoading] = useState(false);
   const [errorMessage, setErrorMessage] = useState('');
   const [buckets, setBuckets] = useState<string[]>([]);
   const [selectedBucket, setSelectedBucket] = useState('');
   
+  const roleSettings = authType === 'assume-role'
+    ? {
+        authType,
+        roleArn: roleArn.trim(),
+        externalId: externalId.trim() || undefined,
+        sessionDurationSeconds
+      }
+    : { authType };
+  
   const validateCredentials = async () => {
     if (!name || !accessKeyId || !secretAccessKey) {
       setErrorMessage('Please fill in all required fields');
       return;
     }
     
+    if (authType === 'assume-role' && !roleArn.trim()) {
+      setErrorMessage('Please enter the role ARN to assume');
+      return;
+    }
+    
     setIsLoading(true);
     setErrorMessage('');
     
@@ -54,7 +80,11 @@ export default function PolishedS3Account() {
         body: JSON.stringify({
           accessKeyId,
           secretAccessKey,
-          region
+          region,
+          endpoint: endpoint.trim() || undefined,
+          forcePathStyle,
+          tlsVerify,
+          ...roleSettings
         })
       });
       
@@ -95,6 +125,10 @@ export default function PolishedS3Account() {
           accessKeyId,
           secretAccessKey,
           region,
+          endpoint: endpoint.trim() || undefined,
+          forcePathStyle,
+          tlsVerify,
+          ...roleSettings,
           defaultBucket: selectedBucket
         })
       });
@@ -158,6 +192,21 @@ export default function PolishedS3Account() {
               />
             </div>
             
+            <div>
+              <label className="block text-sm font-medium mb-1">
+                Authentication
+              </label>
+              <select
+                value={authType}
+                onChange={(e) => setAuthType(e.target.value as 'static' | 'assume-role')}
+                disabled={isLoading || buckets.length > 0}
+                className="w-full px-3 py-2 border border-input rounded-md shadow-sm focus:outline-none focus:ring-primary focus:border-primary disabled:bg-muted"
+              >
+                <option value="static">Access keys</option>
+                <option value="assume-role">Assume IAM role (temporary credentials)</option>
+              </select>
+            </div>
+            
             <div>
               <label className="block text-sm font-medium mb-1">
                 Access Key ID*
@@ -186,6 +235,60 @@ export default function PolishedS3Account() {
               />
             </div>
             
+            {authType === 'assume-role' && (
+              <>
+                <div>
+                  <label className="block text-sm font-medium mb-1">
+                    Role ARN*
+                  </label>
+                  <input
+                    type="text"
+                    value={roleArn}
+                    onChange={(e) => setRoleArn(e.target.value)}
+                    disabled={isLoading || buckets.length > 0}
+                    className="w-full px-3 py-2 border border-input rounded-md shadow-sm focus:outline-none focus:ring-primary focus:border-primary disabled:bg-muted"
+                    placeholder="arn:aws:iam::123456789012:role/S3Access"
+                  />
+                </div>
+                
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium mb-1">
+                      External ID
+                    </label>
+                    <input
+                      type="text"
+                      value={externalId}
+                      onChange={(e) => setExternalId(e.target.value)}
+                      disabled={isLoading || buckets.length > 0}
+                      className="w-full px-3 py-2 border border-input rounded-md shadow-sm focus:outline-none focus:ring-primary focus:border-primary disabled:bg-muted"
+                      placeholder="Optional"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium mb-1">
+                      Session Duration
+                    </label>
+                    <select
+                      value={sessionDurationSeconds}
+                      onChange={(e) => setSessionDurationSeconds(parseInt(e.target.value))}
+                      disabled={isLoading || buckets.length > 0}
+                      className="w-full px-3 py-2 border border-input rounded-md shadow-sm focus:outline-none focus:ring-primary focus:border-primary disabled:bg-muted"
+                    >
+                      <option value={900}>15 minutes</option>
+                      <option value={3600}>1 hour</option>
+                      <option value={14400}>4 hours</option>
+                      <option value={43200}>12 hours</option>
+                    </select>
+                  </div>
+                </div>
+                
+                <p className="text-xs text-muted-foreground">
+                  The access keys above are only used to call STS AssumeRole. Session credentials are refreshed automatically before they expire.
+                </p>
+              </>
+            )}
+            
             <div>
               <label className="block text-sm font-medium mb-1">
                 Region
@@ -204,6 +307,48 @@ export default function PolishedS3Account() {
               </select>
             </div>
             
+            <div>
+              <label className="block text-sm font-medium mb-1">
+                Custom Endpoint URL
+              </label>
+              <input
+                type="url"
+                value={endpoint}
+                onChange={(e) => setEndpoint(e.target.value)}
+                disabled={isLoading || buckets.length > 0}
+                className="w-full px-3 py-2 border border-input rounded-md shadow-sm focus:outline-none focus:ring-primary focus:border-primary disabled:bg-muted"
+                placeholder="https://minio.example.com:9000"
+              />
+              <p className="text-xs text-muted-foreground mt-1">
+                Leave blank for AWS S3. Set this for MinIO, Ceph RGW, Wasabi, Cloudflare R2 and other S3-compatible services.
+              </p>
+            </div>
+            
+            {endpoint.trim() && (
+              <div className="space-y-2">
+                <label className="flex items-center text-sm">
+                  <input
+                    type="checkbox"
+                    checked={forcePathStyle}
+                    onChange={(e) => setForcePathStyle(e.target.checked)}
+                    disabled={isLoading || buckets.length > 0}
+                    className="mr-2"
+                  />
+                  Use path-style addressing (required by most MinIO and Ceph setups)
+                </label>
+                <label className="flex items-center text-sm">
+                  <input
+                    type="checkbox"
+                    checked={!tlsVerify}
+                    onChange={(e) => setTlsVerify(!e.target.checked)}
+                    disabled={isLoading || buckets.length > 0}
+                    className="mr-2"
+                  />
+                  Skip TLS certificate verification (self-signed certificates)
+                </label>
+              </div>
+            )}
+            
             {buckets.length === 0 && (
               <div className="flex justify-end mt-4">
                 <button
@@ -0,0 +1,285 @@
+import { useRef, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Card, CardContent, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { FileIcon } from "@/components/files/FileIcon";
+import { formatBytes, formatDate } from "@/lib/utils";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, getApiErrorMessage } from "@/lib/queryClient";
+import { FileUploadProgress, SharedFileAccess } from "@/lib/types";
+
+interface PublicFileRequestProps {
+  token: string;
+  request: SharedFileAccess;
+}
+
+// POST one file with upload progress. Errors read like apiRequest's ("413: {...}")
+function sendFile(url: string, file: File, onProgress: (percent: number) => void): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const formData = new FormData();
+    formData.append("file", file);
+
+    const xhr = new XMLHttpRequest();
+    xhr.open("POST", url);
+    xhr.withCredentials = true;
+    xhr.upload.addEventListener("progress", (event) => {
+      if (event.lengthComputable) {
+        onProgress(Math.round((event.loaded / event.total) * 100));
+      }
+    });
+    xhr.addEventListener("load", () => {
+      if (xhr.status >= 200 && xhr.status < 300) {
+        resolve();
+      } else {
+        reject(new Error(`${xhr.status}: ${xhr.responseText || xhr.statusText}`));
+      }
+    });
+    xhr.addEventListener("error", () => reject(new Error("Network error")));
+    xhr.send(formData);
+  });
+}
+
+/**
+ * The drop page of an upload-only file request: visitors pick files and send
+ * them, but never see what's already in the folder. Each send is a new
+ * submission, stored in its own folder on the owner's side.
+ */
+export default function PublicFileRequest({ token, request }: PublicFileRequestProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [name, setName] = useState("");
+  const [email, setEmail] = useState("");
+  const [files, setFiles] = useState<File[]>([]);
+  const [progress, setProgress] = useState<Record<number, FileUploadProgress>>({});
+  const [isSending, setIsSending] = useState(false);
+  const [sentCount, setSentCount] = useState<number | null>(null);
+  const [isDragging, setIsDragging] = useState(false);
+
+  const extensions = request.allowedExtensions || [];
+  // The request's file limit is shared by everyone who sends files
+  const remainingFiles = request.remainingFiles ?? undefined;
+
+  // Checked here for quick feedback; the server checks every file again
+  const getFileProblem = (file: File) => {
+    const lower = file.name.toLowerCase();
+    if (extensions.length > 0 && !extensions.some(extension => lower.endsWith(`.${extension}`))) {
+      return "This file type isn't accepted";
+    }
+    if (request.maxFileSize && file.size > request.maxFileSize) {
+      return `Larger than ${formatBytes(request.maxFileSize)}`;
+    }
+    return undefined;
+  };
+
+  const addFiles = (picked: FileList | null) => {
+    if (!picked || isSending) return;
+    setSentCount(null);
+    setProgress({});
+    setFiles(current => [...current, ...Array.from(picked)]);
+  };
+
+  const removeFile = (index: number) => {
+    setFiles(current => current.filter((_, i) => i !== index));
+    setProgress({});
+  };
+
+  const hasProblems = files.some(file => getFileProblem(file));
+  const isOverCount = remainingFiles !== undefined && files.length > remainingFiles;
+  const canSend = files.length > 0 && !hasProblems && !isOverCount && !isSending
+    && (!request.askUploaderInfo || !!name.trim());
+
+  const handleSend = async () => {
+    if (!canSend) return;
+    setIsSending(true);
+    setProgress({});
+
+    let submissionToken: string;
+    try {
+      const res = await apiRequest("POST", `/api/shared/${token}/submissions`, { name, email });
+      submissionToken = (await res.json()).token;
+    } catch (error) {
+      toast({
+        title: "Upload failed",
+        description: getApiErrorMessage(error, "The upload couldn't be started. Please try again."),
+        variant: "destructive",
+      });
+      setIsSending(false);
+      return;
+    }
+
+    // One at a time, so a slow connection isn't split across every file
+    const sent = new Set<number>();
+    for (let index = 0; index < files.length; index++) {
+      const file = files[index];
+      const update = (state: Omit<FileUploadProgress, "filename">) =>
+        setProgress(current => ({ ...current, [index]: { filename: file.name, ...state } }));
+      try {
+        update({ progress: 0, status: "uploading" });
+        await sendFile(`/api/shared/${token}/submissions/${submissionToken}/files`, file, percent => update({ progress: percent, status: "uploading" }));
+        update({ progress: 100, status: "completed" });
+        sent.add(index);
+      } catch (error) {
+        update({ progress: 0, status: "error", error: getApiErrorMessage(error, "Upload failed") });
+      }
+    }
+
+    setIsSending(false);
+    queryClient.invalidateQueries({ queryKey: [`/api/shared/${token}`] });
+    if (sent.size === files.length) {
+      setSentCount(sent.size);
+      setFiles([]);
+      setProgress({});
+    } else {
+      toast({
+        title: "Some files weren't sent",
+        description: `${sent.size} of ${files.length} files were uploaded. Remove or retry the ones that failed.`,
+        variant: "destructive",
+      });
+      // Keep only the failed files, with their errors, to send again as a new submission
+      const failed = files.map((_, index) => index).filter(index => !sent.has(index));
+      setProgress(current => Object.fromEntries(failed.map((index, position) => [position, current[index]])));
+      setFiles(failed.map(index => files[index]));
+    }
+  };
+
+  const limits = [
+    extensions.length > 0 && `Accepted types: ${extensions.map(extension => `.${extension}`).join(", ")}`,
+    request.maxFileSize && `Up to ${formatBytes(request.maxFileSize)} per file`,
+    remainingFiles !== undefined && `${remainingFiles} more file${remainingFiles === 1 ? "" : "s"} can be sent`,
+  ].filter(Boolean) as string[];
+
+  return (
+    <div className="min-h-screen w-full flex flex-col justify-center items-center p-4 bg-muted/40">
+      <div className="flex items-center mb-8">
+        <i className="ri-cloud-line text-primary text-3xl mr-2"></i>
+        <h1 className="text-2xl font-bold">CloudStore</h1>
+      </div>
+
+      <Card className="w-full max-w-lg">
+        <CardHeader className="text-center">
+          <CardTitle className="text-xl font-bold">Send Files</CardTitle>
+          <p className="text-sm text-muted-foreground">
+            You've been asked to upload files to "{request.filename}". You won't be able to see files others have sent.
+          </p>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {sentCount !== null && (
+            <div className="rounded-lg bg-muted p-4 text-center">
+              <i className="ri-checkbox-circle-line text-3xl text-primary"></i>
+              <p className="text-sm mt-1">
+                {sentCount} file{sentCount === 1 ? "" : "s"} sent. Thank you!
+              </p>
+            </div>
+          )}
+
+          {request.askUploaderInfo && (
+            <div className="grid gap-3 sm:grid-cols-2">
+              <div className="space-y-1">
+                <Label htmlFor="uploader-name">Your name</Label>
+                <Input id="uploader-name" value={name} onChange={(e) => setName(e.target.value)} disabled={isSending} />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="uploader-email">Email (optional)</Label>
+                <Input id="uploader-email" type="email" value={email} onChange={(e) => setEmail(e.target.value)} disabled={isSending} />
+              </div>
+            </div>
+          )}
+
+          <div
+            className={`rounded-lg border-2 border-dashed p-6 text-center cursor-pointer transition-colors ${isDragging ? "border-primary bg-primary/5" : "border-muted-foreground/25"}`}
+            onClick={() => inputRef.current?.click()}
+            onDragOver={(e) => {
+              e.preventDefault();
+              setIsDragging(true);
+            }}
+            onDragLeave={() => setIsDragging(false)}
+            onDrop={(e) => {
+              e.preventDefault();
+              setIsDragging(false);
+              addFiles(e.dataTransfer.files);
+            }}
+          >
+            <i className="ri-upload-cloud-2-line text-4xl text-muted-foreground"></i>
+            <p className="text-sm mt-2">Drop files here or click to choose</p>
+            {limits.length > 0 && (
+              <p className="text-xs text-muted-foreground mt-1">{limits.join(" • ")}</p>
+            )}
+            <input
+              ref={inputRef}
+              type="file"
+              multiple
+              className="hidden"
+              accept={extensions.length > 0 ? extensions.map(extension => `.${extension}`).join(",") : undefined}
+              onChange={(e) => {
+                addFiles(e.target.files);
+                e.target.value = "";
+              }}
+            />
+          </div>
+
+          {files.length > 0 && (
+            <div className="rounded-md border divide-y max-h-72 overflow-auto">
+              {files.map((file, index) => {
+                const problem = getFileProblem(file);
+                const state = progress[index];
+                return (
+                  <div key={`${file.name}-${index}`} className="flex items-center gap-3 p-2">
+                    <FileIcon filename={file.name} size="sm" />
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm truncate" title={file.name}>{file.name}</p>
+                      {state?.status === "uploading" ? (
+                        <Progress value={state.progress} className="h-1.5 mt-1" />
+                      ) : (
+                        <p className={`text-xs ${problem || state?.status === "error" ? "text-destructive" : "text-muted-foreground"}`}>
+                          {problem || state?.error || (state?.status === "completed" ? "Sent" : formatBytes(file.size))}
+                        </p>
+                      )}
+                    </div>
+                    {!isSending && (
+                      <Button variant="ghost" size="icon" className="h-7 w-7 shrink-0" onClick={() => removeFile(index)} title="Remove">
+                        <i className="ri-close-line"></i>
+                      </Button>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+
+          {isOverCount && (
+            <p className="text-xs text-destructive">{remainingFiles === 0 ? "This request isn't accepting more files." : `Please choose at most ${remainingFiles} file${remainingFiles === 1 ? "" : "s"}.`}</p>
+          )}
+
+          <Button className="w-full" onClick={handleSend} disabled={!canSend}>
+            {isSending ? (
+              <>
+                <i className="ri-loader-4-line animate-spin mr-2"></i>
+                Sending...
+              </>
+            ) : (
+              <>
+                <i className="ri-send-plane-line mr-2"></i>
+                Send {files.length > 0 ? `${files.length} file${files.length === 1 ? "" : "s"}` : "files"}
+              </>
+            )}
+          </Button>
+
+          {request.expiresAt && (
+            <p className="text-xs text-center text-muted-foreground">
+              This link accepts files until {formatDate(request.expiresAt)}
+            </p>
+          )}
+        </CardContent>
+        <CardFooter className="flex justify-center border-t pt-4">
+          <p className="text-xs text-center text-muted-foreground">
+            Shared via CloudStore • Secure file sharing
+          </p>
+        </CardFooter>
+      </Card>
+    </div>
+  );
+}
@@ -1,22 +1,28 @@
 import { useState, useEffect } from "react";
 import { useParams, useLocation } from "wouter";
-import { useQuery, useMutation } from "@tanstack/react-query";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card, CardContent, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 import { formatBytes, formatDate, getFileIcon, getFileColor } from "@/lib/utils";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest } from "@/lib/queryClient";
-import { SharedFileAccess } from "@/lib/types";
+import { apiRequest, getApiErrorMessage } from "@/lib/queryClient";
+import { FilePreviewContent } from "@/components/files/FilePreview";
+import { SharedFolderListing } from "@/components/files/SharedFolderListing";
+import PublicFileRequest from "@/pages/public-file-request";
+import { SharedFileAccess, TextPreview } from "@/lib/types";
 
 export default function PublicSharedFile() {
   const { token } = useParams();
   const [, setLocation] = useLocation();
   const { toast } = useToast();
+  const queryClient = useQueryClient();
   const [password, setPassword] = useState("");
   const [isPasswordRequired, setIsPasswordRequired] = useState(false);
   const [useFallbackUrl, setUseFallbackUrl] = useState(false);
   const [directS3Url, setDirectS3Url] = useState<string | null>(null);
+  // Set when the shared file is archived in Glacier and can't be downloaded yet
+  const [archivedMessage, setArchivedMessage] = useState<string | null>(null);
 
   // Fetch shared file details
   const { 
@@ -28,10 +34,8 @@ export default function PublicSharedFile() {
     queryKey: [`/api/shared/${token}`],
     queryFn: async () => {
       try {
-        const res = await apiRequest(
-          "GET", 
-          `/api/shared/${token}${password ? `?password=${password}` : ""}`
-        );
+        // Password-protected shares are unlocked by the access cookie set below
+        const res = await apiRequest("GET", `/api/shared/${token}`);
         const data = await res.json();
         
         // Store the direct S3 URL if it exists
@@ -42,10 +46,13 @@ export default function PublicSharedFile() {
         return data;
       } catch (error: any) {
         // Check if password is required
-        if (error.status === 401 && error.data?.passwordRequired) {
+        if (error.message?.startsWith("401:")) {
           setIsPasswordRequired(true);
           throw new Error("Password required");
         }
+        if (error.message?.startsWith("409:")) {
+          setArchivedMessage(getApiErrorMessage(error, "This file is archived and not available right now"));
+        }
         throw error;
       }
     },
@@ -60,21 +67,35 @@ export default function PublicSharedFile() {
     }
   }, [useFallbackUrl, directS3Url]);
 
-  // Check password mutation
+  // Check password mutation - the password goes in the request body, never the URL
   const passwordMutation = useMutation({
     mutationFn: async (password: string) => {
-      const res = await apiRequest("GET", `/api/shared/${token}?password=${password}`);
-      return res.json();
+      const res = await apiRequest("POST", `/api/shared/${token}`, { password });
+      return res.json() as Promise<SharedFileAccess>;
     },
     onSuccess: (data) => {
       // Update query data and hide password input
-      refetch();
+      if (data.directS3Url) {
+        setDirectS3Url(data.directS3Url);
+      }
+      queryClient.setQueryData([`/api/shared/${token}`], data);
       setIsPasswordRequired(false);
+      setPassword("");
     },
-    onError: (error) => {
+    onError: (error: Error) => {
+      if (error.message.startsWith("409:")) {
+        // Right password, but the file itself is archived
+        setIsPasswordRequired(false);
+        setArchivedMessage(getApiErrorMessage(error, "This file is archived and not available right now"));
+        return;
+      }
+      
+      const isLockedOut = error.message.startsWith("429:");
       toast({
-        title: "Invalid password",
-        description: "The password you entered is incorrect",
+        title: isLockedOut ? "Too many attempts" : "Invalid password",
+        description: isLockedOut
+          ? "Too many incorrect passwords were entered. Please try again later."
+          : "The password you entered is incorrect",
         variant: "destructive",
       });
     },
@@ -208,7 +229,7 @@ export default function PublicSharedFile() {
               <i className="ri-error-warning-line text-3xl text-destructive"></i>
             </div>
             <p className="text-muted-foreground mb-2">
-              The file you're looking for is no longer available or has expired.
+              {archivedMessage || "The file you're looking for is no longer available or has expired."}
             </p>
             <p className="text-sm text-muted-foreground">
               Please contact the person who shared this file with you.
@@ -219,9 +240,59 @@ export default function PublicSharedFile() {
     );
   }
 
+  // File requests only take uploads
+  if (sharedFile.shareType === 'request') {
+    return <PublicFileRequest token={token!} request={sharedFile} />;
+  }
+
+  // Folders and collections are browsed and downloaded file by file
+  if (sharedFile.shareType && sharedFile.shareType !== 'file') {
+    const isCollection = sharedFile.shareType === 'collection';
+    return (
+      <div className="min-h-screen w-full flex flex-col justify-center items-center p-4 bg-muted/40">
+        <div className="flex items-center mb-8">
+          <i className="ri-cloud-line text-primary text-3xl mr-2"></i>
+          <h1 className="text-2xl font-bold">CloudStore</h1>
+        </div>
+        
+        <Card className="w-full max-w-3xl">
+          <CardHeader className="text-center">
+            <CardTitle className="text-xl font-bold">{isCollection ? "Shared Files" : "Shared Folder"}</CardTitle>
+            <p className="text-sm text-muted-foreground">
+              {isCollection ? `${sharedFile.itemCount || 0} files • ${formatBytes(sharedFile.filesize)}` : sharedFile.filename}
+              {sharedFile.expiresAt && ` • Available until: ${formatDate(sharedFile.expiresAt)}`}
+            </p>
+          </CardHeader>
+          <CardContent>
+            {!sharedFile.allowDownload && (
+              <div className="bg-muted p-4 rounded-lg mb-4 text-center">
+                <p className="text-sm">
+                  These files are only available for viewing. Downloads are not allowed.
+                </p>
+              </div>
+            )}
+            <SharedFolderListing
+              token={token!}
+              name={sharedFile.filename}
+              shareType={sharedFile.shareType}
+              allowDownload={sharedFile.allowDownload}
+              allowSubfolders={!!sharedFile.allowSubfolders}
+            />
+          </CardContent>
+          <CardFooter className="flex justify-center border-t pt-4">
+            <p className="text-xs text-center text-muted-foreground">
+              Shared via CloudStore • Secure file sharing
+            </p>
+          </CardFooter>
+        </Card>
+      </div>
+    );
+  }
+
   // Get file icon and color
   const fileIcon = getFileIcon(sharedFile.contentType);
   const fileColor = getFileColor(sharedFile.contentType);
+  const previewKind = sharedFile.previewKind;
 
   return (
     <div className="min-h-screen w-full flex flex-col justify-center items-center p-4 bg-muted/40">
@@ -230,15 +301,32 @@ export default function PublicSharedFile() {
         <h1 className="text-2xl font-bold">CloudStore</h1>
       </div>
       
-      <Card className="w-full max-w-md">
+      <Card className={`w-full ${previewKind ? 'max-w-4xl' : 'max-w-md'}`}>
         <CardHeader className="text-center">
           <CardTitle className="text-xl font-bold">Shared File</CardTitle>
         </CardHeader>
         <CardContent>
-          <div className="flex flex-col items-center mb-6">
-            <div className={`text-${fileColor} mb-4`}>
-              <i className={`ri-${fileIcon} text-6xl`}></i>
+          {previewKind && (
+            <div className={`mb-6 flex items-center justify-center ${previewKind === 'audio' ? 'h-48' : 'h-[60vh]'}`}>
+              <FilePreviewContent
+                filename={sharedFile.filename}
+                kind={previewKind}
+                url={sharedFile.previewUrl}
+                loadText={async () => {
+                  const res = await apiRequest("GET", `/api/shared/${token}/preview/text`);
+                  return res.json() as Promise<TextPreview>;
+                }}
+                textQueryKey={[`/api/shared/${token}/preview/text`]}
+              />
             </div>
+          )}
+          
+          <div className="flex flex-col items-center mb-6">
+            {!previewKind && (
+              <div className={`text-${fileColor} mb-4`}>
+                <i className={`ri-${fileIcon} text-6xl`}></i>
+              </div>
+            )}
             <h2 className="text-lg font-semibold mb-1">{sharedFile.filename}</h2>
             <p className="text-sm text-muted-foreground mb-2">
               {formatBytes(sharedFile.filesize)}
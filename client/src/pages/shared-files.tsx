@@ -34,6 +34,7 @@ import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
 import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { FileAccessLogs } from "@/components/files/FileAccessLogs";
+import { FileRequestSubmissions } from "@/components/files/FileRequestSubmissions";
 
 export default function SharedFiles() {
   const { toast } = useToast();
@@ -283,8 +284,11 @@ export default function SharedFiles() {
                   </TableHeader>
                   <TableBody>
                     {filteredFiles.map((file) => {
-                      const fileIcon = getFileIcon(file.contentType);
-                      const fileColor = getFileColor(file.contentType);
+                      const isFolder = file.shareType === 'folder';
+                      const isCollection = file.shareType === 'collection';
+                      const isRequest = file.shareType === 'request';
+                      const fileIcon = isRequest ? 'inbox-archive-line' : isCollection ? 'file-list-3-line' : getFileIcon(file.contentType, isFolder);
+                      const fileColor = isRequest || isCollection ? 'text-primary' : getFileColor(file.contentType, isFolder);
                       const isExpired = file.expiresAt 
                         ? new Date(file.expiresAt) < new Date() 
                         : false;
@@ -297,7 +301,13 @@ export default function SharedFiles() {
                               <div>
                                 <div className="font-medium">{file.filename}</div>
                                 <div className="text-xs text-muted-foreground">
-                                  {formatBytes(file.filesize)}
+                                  {isRequest
+                                    ? 'File request'
+                                    : isFolder
+                                      ? 'Folder'
+                                      : isCollection
+                                        ? `${file.items?.length || 0} files • ${formatBytes(file.filesize)}`
+                                        : formatBytes(file.filesize)}
                                 </div>
                               </div>
                             </div>
@@ -323,11 +333,14 @@ export default function SharedFiles() {
                             {formatDate(file.createdAt)}
                           </TableCell>
                           <TableCell>
-                            <FileAccessLogs 
-                              fileId={file.id} 
-                              filename={file.filename}
-                              accessCount={file.accessCount || 0}
-                            />
+                            <div className="flex flex-wrap gap-2">
+                              <FileAccessLogs 
+                                fileId={file.id} 
+                                filename={file.filename}
+                                accessCount={file.accessCount || 0}
+                              />
+                              {isRequest && <FileRequestSubmissions request={file} />}
+                            </div>
                           </TableCell>
                           <TableCell>
                             <DropdownMenu>
@@ -341,10 +354,12 @@ export default function SharedFiles() {
                                   <i className="ri-clipboard-line mr-2"></i>
                                   Copy App Link
                                 </DropdownMenuItem>
-                                <DropdownMenuItem onClick={() => copyShareLink(`https://${file.bucket}.s3.amazonaws.com/${file.path}`)}>
-                                  <i className="ri-link-m mr-2"></i>
-                                  Copy Direct S3 Link
-                                </DropdownMenuItem>
+                                {file.shareType === 'file' && (
+                                  <DropdownMenuItem onClick={() => copyShareLink(`https://${file.bucket}.s3.amazonaws.com/${file.path}`)}>
+                                    <i className="ri-link-m mr-2"></i>
+                                    Copy Direct S3 Link
+                                  </DropdownMenuItem>
+                                )}
                                 <DropdownMenuSeparator />
                                 <DropdownMenuItem onClick={() => handleDeleteShare(file.id)}>
                                   <i className="ri-delete-bin-line mr-2"></i>
@@ -0,0 +1,90 @@
+import { STSClient, AssumeRoleCommand } from "@aws-sdk/client-sts";
+import { Agent as HttpsAgent } from "https";
+
+// Refresh session credentials this long before STS says they expire
+const REFRESH_MARGIN_MS = 5 * 60 * 1000;
+
+export const DEFAULT_SESSION_DURATION_SECONDS = 3600;
+
+export interface SessionCredentials {
+  accessKeyId: string;
+  secretAccessKey: string;
+  sessionToken?: string;
+  expiration?: Date;
+}
+
+export interface AssumeRoleOptions {
+  region: string;
+  // Base (long-lived) credentials used to call STS
+  accessKeyId: string;
+  secretAccessKey: string;
+  roleArn: string;
+  externalId?: string | null;
+  sessionDurationSeconds?: number | null;
+  // STS endpoint; S3-compatible services such as MinIO serve STS on the S3 endpoint
+  endpoint?: string;
+  tlsVerify?: boolean | null;
+}
+
+// Build a credential provider that calls STS AssumeRole and caches the session
+// credentials, assuming the role again shortly before they expire.
+export function createAssumeRoleCredentials(options: AssumeRoleOptions): () => Promise<SessionCredentials> {
+  const sts = new STSClient({
+    region: options.region,
+    credentials: {
+      accessKeyId: options.accessKeyId,
+      secretAccessKey: options.secretAccessKey,
+    },
+    ...(options.endpoint && { endpoint: options.endpoint }),
+    ...(options.tlsVerify === false && {
+      requestHandler: {
+        httpsAgent: new HttpsAgent({ rejectUnauthorized: false }),
+      },
+    }),
+  });
+
+  let cached: SessionCredentials | undefined;
+  let pending: Promise<SessionCredentials> | undefined;
+
+  const assumeRole = async (): Promise<SessionCredentials> => {
+    const response = await sts.send(new AssumeRoleCommand({
+      RoleArn: options.roleArn,
+      RoleSessionName: `wickedfiles-${Date.now()}`,
+      DurationSeconds: options.sessionDurationSeconds || DEFAULT_SESSION_DURATION_SECONDS,
+      ...(options.externalId && { ExternalId: options.externalId }),
+    }));
+
+    const credentials = response.Credentials;
+    if (!credentials?.AccessKeyId || !credentials.SecretAccessKey) {
+      throw new Error(`AssumeRole for ${options.roleArn} returned no credentials`);
+    }
+
+    return {
+      accessKeyId: credentials.AccessKeyId,
+      secretAccessKey: credentials.SecretAccessKey,
+      sessionToken: credentials.SessionToken,
+      expiration: credentials.Expiration,
+    };
+  };
+
+  return async () => {
+    const expiresAt = cached?.expiration?.getTime() ?? 0;
+    if (cached && expiresAt - REFRESH_MARGIN_MS > Date.now()) {
+      return cached;
+    }
+
+    // Share one in-flight AssumeRole call between concurrent requests
+    if (!pending) {
+      pending = assumeRole()
+        .then(credentials => {
+          cached = credentials;
+          return credentials;
+        })
+        .finally(() => {
+          pending = undefined;
+        });
+    }
+
+    return pending;
+  };
+}
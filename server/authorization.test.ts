@@ -0,0 +1,259 @@
+import { describe, it, expect, beforeAll, beforeEach, vi } from "vitest";
+import express, { type Express } from "express";
+import request from "supertest";
+import type { S3Account, SharedFile, User } from "@shared/schema";
+
+// Two users with one account and one share each, plus an admin who owns nothing
+const fixtures = vi.hoisted(() => {
+  const user = (id: string, isAdmin = false) => ({
+    id,
+    email: `${id}@example.com`,
+    username: id,
+    password: "hashed",
+    firstName: null,
+    lastName: null,
+    profileImageUrl: null,
+    isAdmin,
+    isActive: true,
+    createdAt: new Date(),
+    updatedAt: null,
+  });
+  const account = (id: number, userId: string) => ({
+    id,
+    userId,
+    name: `Account ${id}`,
+    accessKeyId: "AKIAEXAMPLE0000",
+    secretAccessKey: "encrypted",
+    secretKeyId: null,
+    authType: "static",
+    roleArn: null,
+    externalId: null,
+    sessionDurationSeconds: null,
+    region: "us-east-1",
+    endpoint: null,
+    forcePathStyle: false,
+    tlsVerify: true,
+    defaultBucket: null,
+    isActive: true,
+    isHealthy: true,
+    lastCredentialError: null,
+    createdAt: new Date(),
+  });
+  const share = (id: number, userId: string, accountId: number) => ({
+    id,
+    userId,
+    accountId,
+    bucket: "bucket",
+    shareType: "file",
+    path: `file-${id}.txt`,
+    filename: `file-${id}.txt`,
+    filesize: 10,
+    contentType: "text/plain",
+    items: null,
+    allowSubfolders: true,
+    maxFileSize: null,
+    allowedExtensions: null,
+    maxFiles: null,
+    askUploaderInfo: false,
+    shareToken: `token-${id}`,
+    expiresAt: null,
+    allowDownload: true,
+    allowPreview: true,
+    password: null,
+    accessCount: 0,
+    createdAt: new Date(),
+  });
+
+  return {
+    users: [user("alice"), user("bob"), user("admin", true)],
+    accounts: [account(1, "alice"), account(2, "bob")],
+    shares: [share(10, "alice", 1), share(20, "bob", 2)],
+  };
+});
+
+const storageMock = vi.hoisted(() => ({
+  getUser: vi.fn(),
+  getS3Account: vi.fn(),
+  getS3Accounts: vi.fn(),
+  deleteS3Account: vi.fn(),
+  getSharedFile: vi.fn(),
+  getSharedFiles: vi.fn(),
+  deleteSharedFile: vi.fn(),
+  getFileAccessLogs: vi.fn(),
+}));
+
+const s3Mock = vi.hoisted(() => ({
+  listBuckets: vi.fn(),
+  getDownloadUrl: vi.fn(),
+  getUnreadableReason: vi.fn(),
+}));
+
+vi.mock("./db", () => ({ db: {}, pool: {} }));
+vi.mock("./storage", () => ({ storage: storageMock }));
+
+// The signed-in user comes from a test header instead of a session cookie;
+// isAuthenticated itself is the real one
+vi.mock("./auth", async (importOriginal) => ({
+  ...await importOriginal<typeof import("./auth")>(),
+  setupSession: (app: Express) => {
+    app.use((req, _res, next) => {
+      const userId = req.header("x-test-user");
+      (req as any).session = userId ? { userId } : {};
+      next();
+    });
+  },
+  setupAuthRoutes: () => {},
+}));
+
+vi.mock("./s3-client", async (importOriginal) => ({
+  ...await importOriginal<typeof import("./s3-client")>(),
+  ...s3Mock,
+}));
+
+vi.mock("./object-index", async (importOriginal) => ({
+  ...await importOriginal<typeof import("./object-index")>(),
+  startIndexScheduler: async () => {},
+}));
+
+vi.mock("./storage-stats", async (importOriginal) => ({
+  ...await importOriginal<typeof import("./storage-stats")>(),
+  startSnapshotScheduler: () => {},
+}));
+
+let app: Express;
+
+beforeAll(async () => {
+  const { registerRoutes } = await import("./routes");
+  app = express();
+  app.use(express.json());
+  await registerRoutes(app);
+});
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  storageMock.getUser.mockImplementation(async (id: string) =>
+    fixtures.users.find(user => user.id === String(id)) as User | undefined);
+  storageMock.getS3Account.mockImplementation(async (id: number) =>
+    fixtures.accounts.find(account => account.id === id) as S3Account | undefined);
+  storageMock.getS3Accounts.mockImplementation(async (userId: string) =>
+    fixtures.accounts.filter(account => account.userId === String(userId)) as S3Account[]);
+  storageMock.getSharedFile.mockImplementation(async (id: number) =>
+    fixtures.shares.find(share => share.id === id) as SharedFile | undefined);
+  storageMock.getSharedFiles.mockImplementation(async (userId: string) =>
+    fixtures.shares.filter(share => share.userId === String(userId)) as SharedFile[]);
+  storageMock.deleteS3Account.mockResolvedValue(true);
+  storageMock.deleteSharedFile.mockResolvedValue(true);
+  storageMock.getFileAccessLogs.mockResolvedValue([]);
+  s3Mock.listBuckets.mockResolvedValue([{ Name: "bucket" }]);
+  s3Mock.getDownloadUrl.mockResolvedValue("https://s3.example.com/signed");
+  s3Mock.getUnreadableReason.mockResolvedValue(undefined);
+});
+
+const as = (userId: string | undefined) => ({
+  get: (url: string) => userId ? request(app).get(url).set("x-test-user", userId) : request(app).get(url),
+  post: (url: string) => userId ? request(app).post(url).set("x-test-user", userId) : request(app).post(url),
+  delete: (url: string) => userId ? request(app).delete(url).set("x-test-user", userId) : request(app).delete(url),
+});
+
+describe("requireS3Account", () => {
+  it("lets the owner use their account", async () => {
+    const res = await as("alice").get("/api/s3/1/buckets");
+    expect(res.status).toBe(200);
+    expect(s3Mock.listBuckets).toHaveBeenCalledWith(1);
+  });
+
+  it("refuses another user's account", async () => {
+    const res = await as("bob").get("/api/s3/1/buckets");
+    expect(res.status).toBe(403);
+    expect(s3Mock.listBuckets).not.toHaveBeenCalled();
+  });
+
+  it("requires a signed-in user", async () => {
+    const res = await as(undefined).get("/api/s3/1/buckets");
+    expect(res.status).toBe(401);
+    expect(storageMock.getS3Account).not.toHaveBeenCalled();
+  });
+
+  it("rejects unknown and malformed account IDs", async () => {
+    expect((await as("alice").get("/api/s3/99/buckets")).status).toBe(404);
+    expect((await as("alice").get("/api/s3/abc/buckets")).status).toBe(400);
+  });
+
+  it("checks an account ID sent in the body", async () => {
+    const res = await as("bob").post("/api/shared-files").send({ accountId: 1, bucket: "bucket", path: "file-10.txt" });
+    expect(res.status).toBe(403);
+  });
+
+  it("keeps another user from deleting the account", async () => {
+    const res = await as("bob").delete("/api/s3-accounts/1");
+    expect(res.status).toBe(403);
+    expect(storageMock.deleteS3Account).not.toHaveBeenCalled();
+  });
+});
+
+describe("requireSharedFile", () => {
+  it("lets the owner manage their share", async () => {
+    const res = await as("alice").delete("/api/shared-files/10");
+    expect(res.status).toBe(200);
+    expect(storageMock.deleteSharedFile).toHaveBeenCalledWith(10);
+  });
+
+  it("refuses another user's share", async () => {
+    const res = await as("bob").get("/api/shared-files/10/submissions");
+    expect(res.status).toBe(403);
+  });
+
+  it("rejects unknown and malformed share IDs", async () => {
+    expect((await as("alice").delete("/api/shared-files/99")).status).toBe(404);
+    expect((await as("alice").delete("/api/shared-files/abc")).status).toBe(400);
+  });
+});
+
+// These three routes once had their ownership checks commented out
+describe("previously unchecked routes", () => {
+  it("keeps another user from deleting a share", async () => {
+    const res = await as("bob").delete("/api/shared-files/10");
+    expect(res.status).toBe(403);
+    expect(storageMock.deleteSharedFile).not.toHaveBeenCalled();
+  });
+
+  it("keeps another user from reading a share's access logs", async () => {
+    const res = await as("bob").get("/api/shared-files/10/access-logs");
+    expect(res.status).toBe(403);
+    expect(storageMock.getFileAccessLogs).not.toHaveBeenCalled();
+
+    expect((await as("alice").get("/api/shared-files/10/access-logs")).status).toBe(200);
+  });
+
+  it("keeps another user from downloading through the account", async () => {
+    const res = await as("bob").get("/api/s3/1/download?bucket=bucket&key=file-10.txt");
+    expect(res.status).toBe(403);
+    expect(s3Mock.getDownloadUrl).not.toHaveBeenCalled();
+
+    const own = await as("alice").get("/api/s3/1/download?bucket=bucket&key=file-10.txt");
+    expect(own.status).toBe(200);
+    expect(own.body.signedUrl).toBe("https://s3.example.com/signed");
+  });
+});
+
+describe("listings", () => {
+  it("only lists the user's own accounts and shares", async () => {
+    const accounts = await as("bob").get("/api/s3-accounts");
+    expect(accounts.body.map((account: { id: number }) => account.id)).toEqual([2]);
+
+    const shares = await as("bob").get("/api/shared-files");
+    expect(shares.body.map((share: { id: number }) => share.id)).toEqual([20]);
+  });
+});
+
+describe("admin override", () => {
+  it("lets an admin use any user's account", async () => {
+    expect((await as("admin").get("/api/s3/1/buckets")).status).toBe(200);
+    expect((await as("admin").get("/api/s3/2/download?bucket=bucket&key=file-20.txt")).status).toBe(200);
+  });
+
+  it("lets an admin manage any user's share", async () => {
+    expect((await as("admin").get("/api/shared-files/20/access-logs")).status).toBe(200);
+    expect((await as("admin").delete("/api/shared-files/20")).status).toBe(200);
+  });
+});
@@ -0,0 +1,77 @@
+import type { Request, Response, NextFunction } from "express";
+import { storage } from "./storage";
+import type { S3Account, SharedFile } from "@shared/schema";
+
+// Route middleware that loads the S3 account or share a request refers to and
+// checks that the signed-in user owns it (admins can access everything). Use it
+// after isAuthenticated; handlers then read req.s3Account / req.sharedFile.
+
+declare global {
+  namespace Express {
+    interface Request {
+      s3Account?: S3Account;
+      sharedFile?: SharedFile;
+    }
+  }
+}
+
+export function canAccessResource(req: Request, ownerId: string | number): boolean {
+  if (!req.user) {
+    return false;
+  }
+  return String(req.user.id) === String(ownerId) || req.user.isAdmin === true;
+}
+
+// Load the account whose ID is in req.params[field] (or req.body[field])
+export function requireS3Account(field = "accountId", source: "params" | "body" = "params") {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const accountId = parseInt(source === "params" ? req.params[field] : req.body?.[field]);
+      if (isNaN(accountId)) {
+        return res.status(400).json({ message: "Invalid account ID" });
+      }
+
+      const account = await storage.getS3Account(accountId);
+      if (!account) {
+        return res.status(404).json({ message: "S3 account not found" });
+      }
+
+      if (!canAccessResource(req, account.userId)) {
+        return res.status(403).json({ message: "Not authorized to access this account" });
+      }
+
+      req.s3Account = account;
+      next();
+    } catch (error) {
+      console.error("Error checking account access:", error);
+      res.status(500).json({ message: "Error checking account access" });
+    }
+  };
+}
+
+// Load the share whose ID is in req.params[field]
+export function requireSharedFile(field = "id") {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const fileId = parseInt(req.params[field]);
+      if (isNaN(fileId)) {
+        return res.status(400).json({ message: "Invalid shared file ID" });
+      }
+
+      const sharedFile = await storage.getSharedFile(fileId);
+      if (!sharedFile) {
+        return res.status(404).json({ message: "Shared file not found" });
+      }
+
+      if (!canAccessResource(req, sharedFile.userId)) {
+        return res.status(403).json({ message: "You don't have permission to access this shared file" });
+      }
+
+      req.sharedFile = sharedFile;
+      next();
+    } catch (error) {
+      console.error("Error checking shared file access:", error);
+      res.status(500).json({ message: "Error checking shared file access" });
+    }
+  };
+}
@@ -0,0 +1,114 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import express from "express";
+import request from "supertest";
+import type { SharedFile, FileRequestSubmission } from "@shared/schema";
+import { receiveSubmissionFile } from "./file-requests";
+
+const storageMock = vi.hoisted(() => ({
+  reserveSubmissionFile: vi.fn(),
+  addSubmissionBytes: vi.fn(),
+  releaseSubmissionFile: vi.fn(),
+}));
+
+const s3Mock = vi.hoisted(() => ({
+  // Objects "in the bucket", by key
+  objects: new Map<string, string>(),
+}));
+
+vi.mock("./db", () => ({ db: {}, pool: {} }));
+vi.mock("./storage", () => ({ storage: storageMock }));
+
+vi.mock("./s3-client", async (importOriginal) => ({
+  ...await importOriginal<typeof import("./s3-client")>(),
+  getS3Client: async () => ({}),
+  deleteObject: async (_accountId: number, _bucket: string, key: string) => s3Mock.objects.delete(key),
+}));
+
+vi.mock("./s3-batch", () => ({
+  findExistingKeys: async (_accountId: number, _bucket: string, keys: string[]) =>
+    keys.filter(key => s3Mock.objects.has(key)),
+}));
+
+// Reads the body like the real Upload, and stores the object only if it all arrived
+vi.mock("@aws-sdk/lib-storage", () => ({
+  Upload: class {
+    constructor(private options: { params: { Key: string; Body: AsyncIterable<Buffer> } }) {}
+    async done() {
+      const chunks: Buffer[] = [];
+      for await (const chunk of this.options.params.Body) chunks.push(chunk);
+      s3Mock.objects.set(this.options.params.Key, Buffer.concat(chunks).toString());
+    }
+  },
+}));
+
+const share = {
+  id: 1,
+  accountId: 1,
+  bucket: "bucket",
+  path: "requests/",
+  maxFileSize: 10,
+  allowedExtensions: ["txt"],
+  maxFiles: 5,
+} as SharedFile;
+
+const submission = { id: 7, shareId: 1, prefix: "requests/upload/" } as FileRequestSubmission;
+
+const app = express();
+app.post("/files", async (req, res) => {
+  try {
+    const result = await receiveSubmissionFile(req, res, share, submission);
+    res.status("key" in result ? 201 : result.status).json(result);
+  } catch {
+    res.status(500).json({ message: "Error uploading file" });
+  }
+});
+
+const send = (name: string, content: string) =>
+  request(app).post("/files").attach("file", Buffer.from(content), name);
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  s3Mock.objects.clear();
+  storageMock.reserveSubmissionFile.mockResolvedValue(true);
+});
+
+describe("receiveSubmissionFile", () => {
+  it("streams the file into the submission's folder", async () => {
+    const res = await send("notes.txt", "hello");
+    expect(res.status).toBe(201);
+    expect(res.body).toEqual({ key: "requests/upload/notes.txt", size: 5 });
+    expect(s3Mock.objects.get("requests/upload/notes.txt")).toBe("hello");
+    expect(storageMock.reserveSubmissionFile).toHaveBeenCalledWith(1, 7, 5);
+    expect(storageMock.addSubmissionBytes).toHaveBeenCalledWith(7, 5);
+  });
+
+  it("renames a file whose name was already sent", async () => {
+    s3Mock.objects.set("requests/upload/notes.txt", "first");
+    s3Mock.objects.set("requests/upload/notes (1).txt", "second");
+
+    const res = await send("notes.txt", "third");
+    expect(res.body.key).toBe("requests/upload/notes (2).txt");
+    expect(s3Mock.objects.get("requests/upload/notes.txt")).toBe("first");
+  });
+
+  it("aborts a file over the size limit and gives back its reservation", async () => {
+    const res = await send("large.txt", "more than ten bytes");
+    expect(res.status).toBe(413);
+    expect(s3Mock.objects.size).toBe(0);
+    expect(storageMock.releaseSubmissionFile).toHaveBeenCalledWith(7);
+    expect(storageMock.addSubmissionBytes).not.toHaveBeenCalled();
+  });
+
+  it("refuses files once the request has all it accepts", async () => {
+    storageMock.reserveSubmissionFile.mockResolvedValue(false);
+    const res = await send("notes.txt", "hello");
+    expect(res.status).toBe(409);
+    expect(s3Mock.objects.size).toBe(0);
+  });
+
+  it("refuses file types the request doesn't accept", async () => {
+    const res = await send("script.sh", "echo");
+    expect(res.status).toBe(400);
+    expect(storageMock.reserveSubmissionFile).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,297 @@
+import { randomBytes } from "crypto";
+import { PassThrough } from "stream";
+import type { Request, Response } from "express";
+import multer from "multer";
+import { Upload } from "@aws-sdk/lib-storage";
+import type { SharedFile, FileRequestSubmission } from "@shared/schema";
+import { getS3Client, deleteObject } from "./s3-client";
+import { findExistingKeys } from "./s3-batch";
+import { storage } from "./storage";
+
+// File requests are upload-only links: visitors can add files under the
+// request's prefix but never list or download anything. Each visit that
+// uploads starts a submission with its own folder, named after the time and
+// the uploader, so two uploaders can't overwrite or see each other's files.
+// Uploads pass through this server, which streams them on to S3 a part at a
+// time; their size is capped by S3_FILE_REQUEST_MAX_BYTES whatever the
+// request allows, and maxFiles counts the files of all submissions together.
+
+const DEFAULT_MAX_REQUEST_FILE_BYTES = 100 * 1024 * 1024;
+
+// Each upload holds at most one part in memory, and only this many run at once
+const UPLOAD_PART_BYTES = 5 * 1024 * 1024;
+const MAX_CONCURRENT_UPLOADS = 20;
+
+// A second "report.pdf" in a submission is stored as "report (1).pdf", and so on
+const MAX_NAME_ATTEMPTS = 100;
+
+const MAX_ALLOWED_EXTENSIONS = 50;
+const MAX_UPLOADER_FIELD_LENGTH = 200;
+
+let activeUploads = 0;
+// Keys being uploaded right now, so parallel uploads of one name pick different keys
+const claimedKeys = new Set<string>();
+
+export interface FileRequestSettings {
+  maxFileSize: number | null;
+  allowedExtensions: string[] | null;
+  maxFiles: number | null;
+  askUploaderInfo: boolean;
+}
+
+export function getMaxRequestFileBytes(): number {
+  const configured = parseInt(process.env.S3_FILE_REQUEST_MAX_BYTES || "", 10);
+  return isNaN(configured) || configured <= 0 ? DEFAULT_MAX_REQUEST_FILE_BYTES : configured;
+}
+
+// The largest file a request accepts: its own limit, within the server's
+export function getRequestFileLimit(share: SharedFile): number {
+  const max = getMaxRequestFileBytes();
+  return share.maxFileSize ? Math.min(share.maxFileSize, max) : max;
+}
+
+function parseOptionalCount(value: unknown, name: string): number | null | string {
+  if (value === undefined || value === null || value === "") return null;
+  const count = Number(value);
+  if (!Number.isInteger(count) || count < 1) {
+    return `${name} must be a positive whole number`;
+  }
+  return count;
+}
+
+// Accepts ["pdf", ".DOCX"] or "pdf, .docx"; returns lowercase extensions without the dot
+function parseExtensions(value: unknown): string[] | null | string {
+  if (value === undefined || value === null || value === "") return null;
+  const list = typeof value === "string" ? value.split(",") : value;
+  if (!Array.isArray(list) || list.some(item => typeof item !== "string")) {
+    return "allowedExtensions must be a list of file extensions";
+  }
+
+  const extensions = Array.from(new Set(list.map(item => item.trim().replace(/^\.+/, "").toLowerCase()).filter(Boolean)));
+  if (extensions.length > MAX_ALLOWED_EXTENSIONS) {
+    return `At most ${MAX_ALLOWED_EXTENSIONS} extensions can be allowed`;
+  }
+  const invalid = extensions.find(extension => !/^[a-z0-9][a-z0-9._-]*$/.test(extension));
+  if (invalid) {
+    return `"${invalid}" is not a valid file extension`;
+  }
+  return extensions.length > 0 ? extensions : null;
+}
+
+// Check the limits sent when a file request is created
+export function validateRequestSettings(body: any): FileRequestSettings | string {
+  const maxFileSize = parseOptionalCount(body?.maxFileSize, "maxFileSize");
+  if (typeof maxFileSize === "string") return maxFileSize;
+  if (maxFileSize !== null && maxFileSize > getMaxRequestFileBytes()) {
+    return `maxFileSize can't be more than this server's limit of ${getMaxRequestFileBytes()} bytes`;
+  }
+
+  const maxFiles = parseOptionalCount(body?.maxFiles, "maxFiles");
+  if (typeof maxFiles === "string") return maxFiles;
+
+  const allowedExtensions = parseExtensions(body?.allowedExtensions);
+  if (typeof allowedExtensions === "string") return allowedExtensions;
+
+  return { maxFileSize, allowedExtensions, maxFiles, askUploaderInfo: body?.askUploaderInfo === true };
+}
+
+// The uploader's name and email, required only when the request asks for them
+export function validateUploaderInfo(share: SharedFile, body: any): { uploaderName: string | null; uploaderEmail: string | null } | string {
+  const name = typeof body?.name === "string" ? body.name.trim() : "";
+  const email = typeof body?.email === "string" ? body.email.trim() : "";
+
+  if (share.askUploaderInfo && !name) {
+    return "Please enter your name";
+  }
+  if (name.length > MAX_UPLOADER_FIELD_LENGTH || email.length > MAX_UPLOADER_FIELD_LENGTH) {
+    return `Name and email can be at most ${MAX_UPLOADER_FIELD_LENGTH} characters`;
+  }
+  if (email && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+    return "Please enter a valid email address";
+  }
+  return { uploaderName: name || null, uploaderEmail: email || null };
+}
+
+// A new submission's folder: "2026-01-31_14-05-09 Jane Doe 3f9a/" under the request's prefix
+export function getSubmissionPrefix(share: SharedFile, uploaderName: string | null): string {
+  const stamp = new Date().toISOString().slice(0, 19).replace("T", "_").replace(/:/g, "-");
+  const name = (uploaderName || "")
+    .replace(/[\\/:*?"<>|\u0000-\u001f\u007f]+/g, "")
+    .replace(/\s+/g, " ")
+    .trim()
+    .slice(0, 60);
+  const suffix = randomBytes(2).toString("hex");
+  return `${share.path}${[stamp, name, suffix].filter(Boolean).join(" ")}/`;
+}
+
+// Only the file's own name is kept, so an upload always lands directly in its submission folder
+export function getSubmissionFileKey(submission: FileRequestSubmission, originalName: string): string | undefined {
+  const name = originalName.split(/[\\/]/).pop()?.replace(/[\u0000-\u001f\u007f]/g, "").trim() || "";
+  if (!name || name === "." || name === "..") return undefined;
+  return `${submission.prefix}${name}`;
+}
+
+// Why a request refuses this file, or undefined if it's accepted. The size
+// limit is enforced while the file is received.
+export function checkRequestFile(share: SharedFile, filename: string): string | undefined {
+  const lower = filename.toLowerCase();
+  const extensions = share.allowedExtensions;
+  if (extensions && extensions.length > 0 && !extensions.some(extension => lower.endsWith(`.${extension}`))) {
+    return `Only these file types are accepted: ${extensions.map(extension => `.${extension}`).join(", ")}`;
+  }
+  return undefined;
+}
+
+export type SubmissionUploadResult =
+  | { key: string; size: number }
+  | { status: number; message: string; maxFileSize?: number };
+
+// "2026-01-31 Jane/report.pdf" -> "2026-01-31 Jane/report (1).pdf"
+function getRenamedKey(key: string, attempt: number) {
+  const slash = key.lastIndexOf("/");
+  const folder = key.slice(0, slash + 1);
+  const name = key.slice(slash + 1);
+  const dot = name.lastIndexOf(".");
+  const [base, extension] = dot > 0 ? [name.slice(0, dot), name.slice(dot)] : [name, ""];
+  return `${folder}${base} (${attempt})${extension}`;
+}
+
+function getClaim(share: SharedFile, key: string) {
+  return `${share.accountId}\n${share.bucket}\n${key}`;
+}
+
+// The first of key, "key (1)", ... that neither exists nor is being uploaded.
+// The caller releases the claim once its upload has finished.
+async function claimFreeKey(share: SharedFile, key: string): Promise<string | undefined> {
+  for (let attempt = 0; attempt < MAX_NAME_ATTEMPTS; attempt++) {
+    const candidate = attempt === 0 ? key : getRenamedKey(key, attempt);
+    const claim = getClaim(share, candidate);
+    if (claimedKeys.has(claim)) continue;
+    
+    claimedKeys.add(claim);
+    try {
+      const existing = await findExistingKeys(share.accountId, share.bucket, [candidate]);
+      if (existing.length === 0) return candidate;
+    } catch (error) {
+      claimedKeys.delete(claim);
+      throw error;
+    }
+    claimedKeys.delete(claim);
+  }
+  return undefined;
+}
+
+// Check, reserve and stream one file to S3. A refused file resolves with the
+// reason; a failed or oversized upload rejects once it has been aborted.
+async function uploadSubmissionFile(share: SharedFile, submission: FileRequestSubmission, file: Express.Multer.File): Promise<SubmissionUploadResult> {
+  // The body is cut off with an error when the file is too large, so the upload
+  // is aborted instead of storing its first part. Busboy may report that before
+  // the checks below are done, so this is set up first.
+  const body = new PassThrough();
+  file.stream.on("limit", () => body.destroy(new Error("File too large")));
+  file.stream.on("error", (error) => body.destroy(error));
+  // The error reaches the upload when it reads the body, if it ever starts
+  body.on("error", () => {});
+  
+  const key = getSubmissionFileKey(submission, file.originalname);
+  if (!key) {
+    return { status: 400, message: "Invalid file name" };
+  }
+  const rejection = checkRequestFile(share, file.originalname);
+  if (rejection) {
+    return { status: 400, message: rejection };
+  }
+  
+  if (!await storage.reserveSubmissionFile(share.id, submission.id, share.maxFiles)) {
+    return { status: 409, message: `This request accepts at most ${share.maxFiles} files` };
+  }
+  
+  let freeKey: string | undefined;
+  try {
+    freeKey = await claimFreeKey(share, key);
+    if (!freeKey) {
+      await storage.releaseSubmissionFile(submission.id);
+      return { status: 409, message: "Too many files with this name have been sent" };
+    }
+    
+    let size = 0;
+    file.stream.on("data", (chunk: Buffer) => size += chunk.length);
+    file.stream.pipe(body);
+    
+    // Not retried with fresh credentials like other calls: the body can't be read twice
+    const upload = new Upload({
+      client: await getS3Client(share.accountId),
+      params: { Bucket: share.bucket, Key: freeKey, Body: body, ContentType: file.mimetype },
+      partSize: UPLOAD_PART_BYTES,
+      queueSize: 1,
+    });
+    await upload.done();
+    
+    await storage.addSubmissionBytes(submission.id, size);
+    return { key: freeKey, size };
+  } catch (error) {
+    await storage.releaseSubmissionFile(submission.id);
+    throw error;
+  } finally {
+    if (freeKey) claimedKeys.delete(getClaim(share, freeKey));
+  }
+}
+
+/**
+ * Receive the one file of an upload request and stream it into the
+ * submission's folder, checking the request's limits on the way.
+ */
+export async function receiveSubmissionFile(req: Request, res: Response, share: SharedFile, submission: FileRequestSubmission): Promise<SubmissionUploadResult> {
+  if (activeUploads >= MAX_CONCURRENT_UPLOADS) {
+    return { status: 503, message: "The server is busy receiving other files; please try again in a moment" };
+  }
+  
+  const limit = getRequestFileLimit(share);
+  let result: SubmissionUploadResult | undefined;
+  const engine: multer.StorageEngine = {
+    _handleFile(_req, file, callback) {
+      uploadSubmissionFile(share, submission, file).then(
+        (uploaded) => {
+          result = uploaded;
+          if ("key" in uploaded) return callback(null, { size: uploaded.size });
+          // Left unread, the file's data is skipped
+          file.stream.resume();
+          callback(new Error(uploaded.message));
+        },
+        (error) => {
+          file.stream.resume();
+          callback(error);
+        }
+      );
+    },
+    // Only reached for an earlier file when the request turns out to be invalid
+    _removeFile(_req, _file, callback) {
+      if (!result || !("key" in result)) return callback(null);
+      const { key } = result;
+      result = undefined;
+      Promise.all([deleteObject(share.accountId, share.bucket, key), storage.releaseSubmissionFile(submission.id)])
+        .then(() => callback(null), callback);
+    },
+  };
+  
+  activeUploads++;
+  try {
+    await new Promise<void>((resolve, reject) => {
+      multer({ storage: engine, limits: { fileSize: limit, files: 1 } })
+        .single("file")(req, res, (error?: any) => error ? reject(error) : resolve());
+    });
+  } catch (uploadError: any) {
+    if (result && !("key" in result)) return result;
+    if (uploadError.code === "LIMIT_FILE_SIZE") {
+      return { status: 413, message: `Files can be at most ${limit} bytes`, maxFileSize: limit };
+    }
+    if (uploadError.code) {
+      return { status: 400, message: `Invalid upload: ${uploadError.message}` };
+    }
+    throw uploadError;
+  } finally {
+    activeUploads--;
+  }
+  
+  return result ?? { status: 400, message: "No file uploaded" };
+}
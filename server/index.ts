@@ -4,7 +4,8 @@ import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
 
 const app = express();
-app.use(express.json());
+// Room for a file saved from the text editor (1 MB of text, escaped as JSON)
+app.use(express.json({ limit: "4mb" }));
 app.use(express.urlencoded({ extended: false }));
 
 app.use((req, res, next) => {
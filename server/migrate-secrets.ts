@@ -0,0 +1,46 @@
+import 'dotenv/config'; // Load environment variables from .env file
+import { storage } from "./storage";
+import { pool } from "./db";
+import { decryptS3AccountSecret, getActiveSecretKeyId } from "./secrets";
+
+// Re-encrypts every stored S3 secret key with the active master key.
+// Plaintext rows (written before encryption was introduced) are encrypted,
+// and rows wrapped with an older key are rotated to the active one.
+//
+// Usage: npm run db:encrypt-secrets
+async function migrateSecrets() {
+  const activeKeyId = getActiveSecretKeyId();
+  const accounts = await storage.getAllS3Accounts();
+
+  let migrated = 0;
+  let failed = 0;
+
+  for (const account of accounts) {
+    if (account.secretKeyId === activeKeyId) {
+      continue;
+    }
+
+    try {
+      const secretAccessKey = decryptS3AccountSecret(account);
+      await storage.updateS3Account(account.id, { secretAccessKey });
+      migrated++;
+      console.log(`Re-encrypted S3 account ${account.id} (${account.secretKeyId ?? "plaintext"} -> ${activeKeyId})`);
+    } catch (error) {
+      failed++;
+      console.error(`Failed to re-encrypt S3 account ${account.id}:`, error);
+    }
+  }
+
+  console.log(`Done: ${migrated} re-encrypted, ${accounts.length - migrated - failed} already current, ${failed} failed`);
+  return failed;
+}
+
+migrateSecrets()
+  .then(failed => {
+    process.exitCode = failed > 0 ? 1 : 0;
+  })
+  .catch(error => {
+    console.error("Secret migration failed:", error);
+    process.exitCode = 1;
+  })
+  .finally(() => pool.end());
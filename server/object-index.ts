@@ -0,0 +1,429 @@
+import { and, asc, eq, gt, gte, inArray, like, lte, ne, sql, type SQL } from "drizzle-orm";
+import type { _Object } from "@aws-sdk/client-s3";
+import { objectIndex, type IndexedBucket } from "@shared/schema";
+import { db } from "./db";
+import { storage } from "./storage";
+import { listObjects, getObjectTags, getObjectMetadata } from "./s3-client";
+import { isFolderKey, normalizePrefix, mapWithConcurrency, BATCH_CONCURRENCY } from "./s3-batch";
+import { compileKeyMatcher, DEFAULT_SEARCH_RESULTS, type SearchQuery, type SearchCallbacks, type SearchSummary } from "./s3-search";
+
+// Optional Postgres index of the objects in a bucket, so searches and size
+// totals don't have to list S3 every time. Buckets are opted in one at a time
+// and re-scanned in the background. A re-scan still lists every key (S3 has no
+// change feed), but only writes rows and fetches tags for objects whose ETag,
+// size or storage class changed; rows the scan didn't see are deleted.
+// Writes made through this app are applied to the index as they happen, so it
+// only drifts for changes made elsewhere; a failed update just leaves the index
+// stale until the next scan.
+
+// How often indexed buckets are re-scanned; override with S3_INDEX_RESCAN_MINUTES (0 turns it off)
+const DEFAULT_RESCAN_MINUTES = 24 * 60;
+
+// How often the scheduler looks for buckets that are due
+const SCHEDULER_INTERVAL_MS = 5 * 60 * 1000;
+
+// Scheduled scans running at once, across all accounts
+const MAX_SCHEDULED_SCANS = 2;
+
+// Rows read per query when searching the index
+const INDEX_SEARCH_BATCH = 1000;
+
+// Ids of indexed buckets with a scan running in this process
+const runningScans = new Set<number>();
+
+// Running scans of buckets that were opted out; they stop after the current page
+const stopRequested = new Set<number>();
+
+export function getRescanMinutes(): number {
+  const configured = parseInt(process.env.S3_INDEX_RESCAN_MINUTES || "", 10);
+  return isNaN(configured) || configured < 0 ? DEFAULT_RESCAN_MINUTES : configured;
+}
+
+function inBucket(accountId: number, bucket: string) {
+  return and(eq(objectIndex.accountId, accountId), eq(objectIndex.bucket, bucket))!;
+}
+
+function escapeLike(value: string) {
+  return value.replace(/[\\%_]/g, "\\$&");
+}
+
+function isUnchanged(object: _Object, row: { etag: string | null; size: number; storageClass: string | null }) {
+  return row.etag === (object.ETag || null) &&
+    row.size === (object.Size || 0) &&
+    row.storageClass === (object.StorageClass || null);
+}
+
+// Write one listing page to the index under the given scan generation
+async function indexPage(indexed: IndexedBucket, objects: _Object[], generation: number) {
+  if (objects.length === 0) return;
+  const { accountId, bucket } = indexed;
+
+  const existing = await db
+    .select({ key: objectIndex.key, etag: objectIndex.etag, size: objectIndex.size, storageClass: objectIndex.storageClass, tags: objectIndex.tags })
+    .from(objectIndex)
+    .where(and(inBucket(accountId, bucket), inArray(objectIndex.key, objects.map(object => object.Key!))));
+  const known = new Map(existing.map(row => [row.key, row]));
+
+  const unchangedKeys: string[] = [];
+  const changed: _Object[] = [];
+  for (const object of objects) {
+    const row = known.get(object.Key!);
+    // Tags are fetched again if they were never indexed for this object
+    if (row && isUnchanged(object, row) && (!indexed.indexTags || row.tags !== null)) {
+      unchangedKeys.push(object.Key!);
+    } else {
+      changed.push(object);
+    }
+  }
+
+  if (unchangedKeys.length > 0) {
+    await db
+      .update(objectIndex)
+      .set({ scanGeneration: generation })
+      .where(and(inBucket(accountId, bucket), inArray(objectIndex.key, unchangedKeys)));
+  }
+  if (changed.length === 0) return;
+
+  const rows = await mapWithConcurrency(changed, BATCH_CONCURRENCY, async object => {
+    let tags: Record<string, string> | null = null;
+    if (indexed.indexTags) {
+      try {
+        tags = await getObjectTags(accountId, bucket, object.Key!);
+      } catch {
+        // Leave tags empty; the next scan tries again
+      }
+    }
+    return {
+      accountId,
+      bucket,
+      key: object.Key!,
+      size: object.Size || 0,
+      etag: object.ETag || null,
+      lastModified: object.LastModified || null,
+      storageClass: object.StorageClass || null,
+      tags,
+      scanGeneration: generation,
+    };
+  });
+
+  await db
+    .insert(objectIndex)
+    .values(rows)
+    .onConflictDoUpdate({
+      target: [objectIndex.accountId, objectIndex.bucket, objectIndex.key],
+      set: {
+        size: sql`excluded.size`,
+        etag: sql`excluded.etag`,
+        lastModified: sql`excluded.last_modified`,
+        storageClass: sql`excluded.storage_class`,
+        tags: sql`excluded.tags`,
+        scanGeneration: sql`excluded.scan_generation`,
+      },
+    });
+}
+
+async function scanBucket(indexed: IndexedBucket) {
+  const generation = indexed.scanGeneration + 1;
+
+  try {
+    await storage.updateIndexedBucket(indexed.id, {
+      status: "running",
+      scannedCount: 0,
+      lastError: null,
+      lastScanStartedAt: new Date(),
+    });
+
+    let scanned = 0;
+    let continuationToken: string | undefined;
+    do {
+      if (stopRequested.has(indexed.id)) {
+        await db.delete(objectIndex).where(inBucket(indexed.accountId, indexed.bucket));
+        await storage.updateIndexedBucket(indexed.id, { status: "idle" });
+        return;
+      }
+
+      const page = await listObjects(indexed.accountId, indexed.bucket, "", "", { continuationToken });
+      continuationToken = page.isTruncated ? page.nextContinuationToken : undefined;
+
+      // Folder placeholders hold no data; their paths are implied by the files
+      await indexPage(indexed, page.objects.filter(object => object.Key && !isFolderKey(object.Key)), generation);
+      scanned += page.objects.length;
+      await storage.updateIndexedBucket(indexed.id, { scannedCount: scanned });
+    } while (continuationToken);
+
+    // Anything this scan didn't touch is no longer in the bucket
+    await db.delete(objectIndex).where(and(inBucket(indexed.accountId, indexed.bucket), ne(objectIndex.scanGeneration, generation)));
+
+    const totals = await getIndexedPrefixTotals(indexed.accountId, indexed.bucket, "");
+    await storage.updateIndexedBucket(indexed.id, {
+      status: "idle",
+      scanGeneration: generation,
+      objectCount: totals.objectCount,
+      totalBytes: totals.totalBytes,
+      lastScanCompletedAt: new Date(),
+    });
+  } catch (error: any) {
+    console.error(`Indexing ${indexed.bucket} (account ${indexed.accountId}) failed:`, error);
+    await storage.updateIndexedBucket(indexed.id, {
+      status: "failed",
+      lastError: error.message || "Scan failed",
+    }).catch(() => undefined);
+  }
+}
+
+export function isScanRunning(indexedBucketId: number) {
+  return runningScans.has(indexedBucketId);
+}
+
+// Start a scan in the background; false if one is already running for the bucket
+export function startIndexScan(indexed: IndexedBucket): boolean {
+  if (runningScans.has(indexed.id)) {
+    return false;
+  }
+  runningScans.add(indexed.id);
+  stopRequested.delete(indexed.id);
+  scanBucket(indexed).finally(() => {
+    runningScans.delete(indexed.id);
+    stopRequested.delete(indexed.id);
+  });
+  return true;
+}
+
+// Opt a bucket in or out. Turning indexing off removes the bucket's rows.
+export async function configureIndex(accountId: number, bucket: string, settings: { enabled: boolean; indexTags: boolean }) {
+  const indexed = await storage.upsertIndexedBucket(accountId, bucket, settings);
+  if (!settings.enabled) {
+    if (runningScans.has(indexed.id)) {
+      stopRequested.add(indexed.id);
+    }
+    await db.delete(objectIndex).where(inBucket(accountId, bucket));
+    return await storage.updateIndexedBucket(indexed.id, {
+      scanGeneration: 0,
+      objectCount: 0,
+      totalBytes: 0,
+      lastScanCompletedAt: null,
+    }) || indexed;
+  }
+  return indexed;
+}
+
+async function getEnabledIndex(accountId: number, bucket: string) {
+  const indexed = await storage.getIndexedBucket(accountId, bucket);
+  return indexed?.enabled ? indexed : undefined;
+}
+
+async function deleteRows(accountId: number, bucket: string, keys: string[]) {
+  for (let i = 0; i < keys.length; i += INDEX_SEARCH_BATCH) {
+    await db.delete(objectIndex).where(and(inBucket(accountId, bucket), inArray(objectIndex.key, keys.slice(i, i + INDEX_SEARCH_BATCH))));
+  }
+}
+
+// Drop the rows of objects that were deleted or moved away
+export async function removeFromIndex(accountId: number, bucket: string, keys: string[]) {
+  if (keys.length === 0) return;
+  try {
+    if (await getEnabledIndex(accountId, bucket)) {
+      await deleteRows(accountId, bucket, keys);
+    }
+  } catch (error) {
+    console.error(`Could not remove objects from the index of ${bucket}:`, error);
+  }
+}
+
+// Index objects that were just written (or whose current version changed) as
+// S3 now reports them; keys that no longer exist are dropped
+export async function refreshInIndex(accountId: number, bucket: string, keys: string[]) {
+  const objectKeys = keys.filter(key => !isFolderKey(key));
+  if (objectKeys.length === 0) return;
+  try {
+    const indexed = await getEnabledIndex(accountId, bucket);
+    if (!indexed) return;
+
+    const missing: string[] = [];
+    const heads = await mapWithConcurrency(objectKeys, BATCH_CONCURRENCY, async (key): Promise<_Object | undefined> => {
+      try {
+        const head = await getObjectMetadata(accountId, bucket, key);
+        return {
+          Key: key,
+          Size: head.ContentLength,
+          ETag: head.ETag,
+          LastModified: head.LastModified,
+          // Listings report STANDARD where HeadObject leaves it out
+          StorageClass: head.StorageClass || "STANDARD",
+        };
+      } catch (error: any) {
+        if (error.name === "NotFound" || error.$metadata?.httpStatusCode === 404) {
+          missing.push(key);
+        }
+        return undefined;
+      }
+    });
+    const objects = heads.filter((object): object is _Object => !!object);
+
+    // A running scan marks what it sees with the next generation and deletes the
+    // rest when it ends, which would take these rows with it
+    const generation = runningScans.has(indexed.id) ? indexed.scanGeneration + 1 : indexed.scanGeneration;
+    for (let i = 0; i < objects.length; i += INDEX_SEARCH_BATCH) {
+      await indexPage(indexed, objects.slice(i, i + INDEX_SEARCH_BATCH), generation);
+    }
+    await deleteRows(accountId, bucket, missing);
+  } catch (error) {
+    console.error(`Could not update the index of ${bucket}:`, error);
+  }
+}
+
+// Bring the index in line after a bucket was emptied: with no rows if
+// everything is gone, or with a fresh scan if some objects are left
+export async function resetIndexAfterEmptying(accountId: number, bucket: string, emptied: boolean) {
+  try {
+    const indexed = await getEnabledIndex(accountId, bucket);
+    if (!indexed) return;
+    if (emptied) {
+      await db.delete(objectIndex).where(inBucket(accountId, bucket));
+    } else {
+      startIndexScan(indexed);
+    }
+  } catch (error) {
+    console.error(`Could not update the index of ${bucket}:`, error);
+  }
+}
+
+// Forget a deleted bucket: stop its scan and drop its rows and index settings
+export async function removeBucketIndex(accountId: number, bucket: string) {
+  try {
+    const indexed = await storage.getIndexedBucket(accountId, bucket);
+    if (!indexed) return;
+    if (runningScans.has(indexed.id)) {
+      stopRequested.add(indexed.id);
+    }
+    await db.delete(objectIndex).where(inBucket(accountId, bucket));
+    await storage.deleteIndexedBucket(indexed.id);
+  } catch (error) {
+    console.error(`Could not remove the index of ${bucket}:`, error);
+  }
+}
+
+// Re-scan buckets whose last scan is older than the rescan interval
+async function runScheduledScans() {
+  const minutes = getRescanMinutes();
+  const dueBefore = Date.now() - minutes * 60 * 1000;
+
+  const due = (await storage.getIndexedBuckets()).filter(indexed =>
+    indexed.enabled &&
+    !runningScans.has(indexed.id) &&
+    (!indexed.lastScanStartedAt || indexed.lastScanStartedAt.getTime() < dueBefore)
+  );
+  for (const indexed of due) {
+    if (runningScans.size >= MAX_SCHEDULED_SCANS) break;
+    startIndexScan(indexed);
+  }
+}
+
+export async function startIndexScheduler() {
+  // Scans don't survive a restart; don't leave them showing as running
+  for (const indexed of await storage.getIndexedBuckets()) {
+    if (indexed.status === "running") {
+      await storage.updateIndexedBucket(indexed.id, { status: "failed", lastError: "Interrupted by a server restart" });
+    }
+  }
+
+  if (getRescanMinutes() === 0) return;
+  const timer = setInterval(() => {
+    runScheduledScans().catch(error => console.error("Scheduled index scans failed:", error));
+  }, SCHEDULER_INTERVAL_MS);
+  timer.unref();
+}
+
+// The bucket's index if it can answer this query: scanned at least once, and
+// holding everything the filters need (content types are never indexed)
+export async function getSearchableIndex(accountId: number, bucket: string, query: SearchQuery) {
+  if (query.live || query.contentType?.trim()) return undefined;
+
+  const indexed = await storage.getIndexedBucket(accountId, bucket);
+  if (!indexed?.enabled || !indexed.lastScanCompletedAt) return undefined;
+  if (query.tagKey?.trim() && !indexed.indexTags) return undefined;
+  return indexed;
+}
+
+// Same contract as searchObjects, answered from the index instead of S3
+export async function searchIndex(
+  accountId: number,
+  bucket: string,
+  query: SearchQuery,
+  { onMatch, onProgress, signal }: SearchCallbacks
+): Promise<SearchSummary> {
+  const prefix = normalizePrefix(query.prefix);
+  const matchesKey = compileKeyMatcher(query);
+  const maxResults = query.maxResults || DEFAULT_SEARCH_RESULTS;
+
+  const conditions: SQL[] = [inBucket(accountId, bucket)];
+  if (prefix) conditions.push(like(objectIndex.key, `${escapeLike(prefix)}%`));
+  if (query.minSize !== undefined) conditions.push(gte(objectIndex.size, query.minSize));
+  if (query.maxSize !== undefined) conditions.push(lte(objectIndex.size, query.maxSize));
+  if (query.modifiedAfter) conditions.push(gte(objectIndex.lastModified, new Date(query.modifiedAfter)));
+  if (query.modifiedBefore) conditions.push(lte(objectIndex.lastModified, new Date(query.modifiedBefore)));
+  if (query.storageClasses?.length) {
+    conditions.push(inArray(sql`coalesce(${objectIndex.storageClass}, 'STANDARD')`, query.storageClasses));
+  }
+  const tagKey = query.tagKey?.trim();
+  if (tagKey) {
+    conditions.push(query.tagValue
+      ? sql`${objectIndex.tags} ->> ${tagKey} = ${query.tagValue}`
+      : sql`${objectIndex.tags} ->> ${tagKey} is not null`);
+  }
+
+  let scanned = 0;
+  let matched = 0;
+  let cursor = query.startAfter;
+
+  for (;;) {
+    if (signal?.aborted) {
+      return { scanned, matched, truncated: false, cancelled: true };
+    }
+
+    const rows = await db
+      .select()
+      .from(objectIndex)
+      .where(and(...conditions, cursor ? gt(objectIndex.key, cursor) : undefined))
+      .orderBy(asc(objectIndex.key))
+      .limit(INDEX_SEARCH_BATCH);
+
+    for (let i = 0; i < rows.length; i++) {
+      const row = rows[i];
+      if (matchesKey && !matchesKey(row.key)) continue;
+      onMatch({
+        Key: row.key,
+        Size: row.size,
+        LastModified: row.lastModified || undefined,
+        ETag: row.etag || undefined,
+        StorageClass: row.storageClass || undefined,
+      });
+      matched++;
+      if (matched >= maxResults) {
+        scanned += i + 1;
+        onProgress(scanned);
+        const truncated = i < rows.length - 1 || rows.length === INDEX_SEARCH_BATCH;
+        return { scanned, matched, truncated, nextStartAfter: truncated ? row.key : undefined, cancelled: false };
+      }
+    }
+
+    scanned += rows.length;
+    onProgress(scanned);
+    if (rows.length < INDEX_SEARCH_BATCH) {
+      return { scanned, matched, truncated: false, cancelled: false };
+    }
+    cursor = rows[rows.length - 1].key;
+  }
+}
+
+// Object count and bytes under a prefix ("" for the whole bucket)
+export async function getIndexedPrefixTotals(accountId: number, bucket: string, prefix: string) {
+  const [totals] = await db
+    .select({
+      objectCount: sql<number>`count(*)`.mapWith(Number),
+      totalBytes: sql<number>`coalesce(sum(${objectIndex.size}), 0)`.mapWith(Number),
+    })
+    .from(objectIndex)
+    .where(prefix ? and(inBucket(accountId, bucket), like(objectIndex.key, `${escapeLike(prefix)}%`)) : inBucket(accountId, bucket));
+  return totals;
+}
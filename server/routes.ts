@@ -2,14 +2,29 @@ import type { Express, Request, Response, NextFunction } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
 import { z } from "zod";
-import { insertS3AccountSchema, insertSharedFileSchema, sharedFiles } from "@shared/schema";
+import { insertS3AccountSchema, s3CredentialsSchema, insertSharedFileSchema, sharedFiles, type S3Account, type RedactedS3Account, type SharedFile, type RedactedSharedFile } from "@shared/schema";
 import { randomBytes } from "crypto";
 import { setupSession, setupAuthRoutes, isAuthenticated } from "./auth";
-import { S3Client, PutObjectCommand, ListBucketsCommand } from "@aws-sdk/client-s3";
+import { requireS3Account, requireSharedFile } from "./authorization";
+import { hashSharePassword, verifySharePassword, isHashedSharePassword, getClientIp, getShareLockout, recordShareFailure, clearShareFailures, setShareAccessCookie, hasShareAccessCookie } from "./share-access";
+import { PutObjectCommand, ListBucketsCommand } from "@aws-sdk/client-s3";
 import multer from "multer";
 import { Readable } from "stream";
 import { eq, and } from "drizzle-orm";
-import { listBuckets, listObjects, getDownloadUrl, deleteObject, deleteObjects, copyObject, getObjectMetadata, getS3Client } from "./s3-client";
+import { listBuckets, listObjects, listAllObjectKeys, getDownloadUrl, deleteObject, deleteObjects, copyObject, getObjectMetadata, withS3Client, createS3Client, getObjectUrl, normalizeEndpoint, createMultipartUpload, getUploadPartUrl, completeMultipartUpload, abortMultipartUpload, listUploadedParts, MAX_UPLOAD_PARTS, listObjectVersions, listDeletedObjects, getObjectDetails, getUnreadableReason, STORAGE_CLASSES, RESTORE_TIERS, getBucketLifecycle, putBucketLifecycle, getPreviewUrl, getObjectTextPreview, getArchiveState } from "./s3-client";
+import { validateLifecycleRules, toS3LifecycleRules, fromS3LifecycleRules } from "@shared/lifecycle";
+import { isFolderKey, getParentPrefix, expandKeys, planTransfers, copyTransfers, moveTransfers, findExistingKeys, MAX_EXISTS_CHECK_KEYS, updateObjectsMetadata, validateMetadataUpdate, changeStorageClasses, restoreObjects } from "./s3-batch";
+import { createBucket, deleteBucket, getBucketSettings, updateBucketSettings, startEmptyBucketJob, getEmptyBucketJob, validateBucketName, validateEncryption, MAX_BUCKET_TAGS, getBucketPolicy, putBucketPolicy, getBucketCors, putBucketCors, type BucketSettingsUpdate } from "./s3-buckets";
+import { validateBucketPolicy, validateCorsRules } from "@shared/bucket-config";
+import { getPreviewKind, getPreviewContentType, MAX_TEXT_PREVIEW_BYTES } from "@shared/file-preview";
+import { searchObjects, validateSearchQuery } from "./s3-search";
+import { getSearchableIndex, searchIndex, configureIndex, startIndexScan, isScanRunning, getIndexedPrefixTotals, getRescanMinutes, startIndexScheduler, removeFromIndex, refreshInIndex, removeBucketIndex } from "./object-index";
+import { getStorageStats, invalidateStorageStats, getAccountStorageStats, mergeBreakdown, emptyBreakdown, getStorageHistory, getSnapshotHours, startSnapshotScheduler } from "./storage-stats";
+import { getThumbnail } from "./thumbnails";
+import { loadEditableText, saveEditedText } from "./text-edit";
+import { validateRequestSettings, validateUploaderInfo, getRequestFileLimit, getSubmissionPrefix, receiveSubmissionFile, type FileRequestSettings } from "./file-requests";
+import { getShareType, listShare, planShareArchive, planCollection, resolveSharedFile, SHARE_TYPES, type ShareType } from "./share-contents";
+import { planArchive, getMaxArchiveBytes, getArchiveName, createArchiveJob, takeArchiveJob, streamArchive } from "./s3-zip";
 import { db } from "./db";
 
 // Helper function to convert null to undefined
@@ -17,6 +32,178 @@ function nullToUndefined<T>(value: T | null): T | undefined {
   return value === null ? undefined : value;
 }
 
+// Clean up a client-supplied relative upload path ("a//b/./c.txt" -> "a/b/c.txt").
+// Returns undefined for paths that try to climb out of the upload prefix.
+function normalizeRelativePath(path: string): string | undefined {
+  const segments = String(path).split(/[\\/]+/).filter(segment => segment && segment !== ".");
+  if (segments.length === 0 || segments.includes("..")) {
+    return undefined;
+  }
+  return segments.join("/");
+}
+
+// Strip credentials before an S3 account is sent to the browser
+function redactS3Account(account: S3Account): RedactedS3Account {
+  const { accessKeyId, secretAccessKey, secretKeyId, ...rest } = account;
+  return {
+    ...rest,
+    accessKeyIdLast4: accessKeyId.slice(-4),
+  };
+}
+
+// Never send a share's password hash to the browser
+function redactSharedFile(file: SharedFile): RedactedSharedFile {
+  const { password, ...rest } = file;
+  return {
+    ...rest,
+    hasPassword: !!password,
+  };
+}
+
+// Resolve the share of a public route: it must exist, not have expired and, if
+// password protected, be unlocked by the access cookie. Sends the error otherwise.
+async function getAccessibleShare(req: Request, res: Response): Promise<SharedFile | undefined> {
+  const { token } = req.params;
+  const sharedFile = await storage.getSharedFileByToken(token);
+  if (!sharedFile) {
+    res.status(404).json({ message: "Shared file not found or has expired" });
+    return undefined;
+  }
+  if (sharedFile.expiresAt && new Date(sharedFile.expiresAt) < new Date()) {
+    res.status(410).json({ message: "This shared file has expired" });
+    return undefined;
+  }
+  if (sharedFile.password && !hasShareAccessCookie(req, token, sharedFile.password)) {
+    res.status(401).json({ 
+      message: "Password required", 
+      passwordRequired: true 
+    });
+    return undefined;
+  }
+  return sharedFile;
+}
+
+// Folder and collection shares are listed and downloaded through /api/shared/:token routes
+function isBrowsableShare(sharedFile: SharedFile) {
+  const type = getShareType(sharedFile);
+  return type === "folder" || type === "collection";
+}
+
+async function logShareAccess(req: Request, sharedFile: SharedFile) {
+  await storage.incrementAccessCount(sharedFile.id);
+  
+  // Log access - but don't let it break the main functionality
+  try {
+    await storage.logFileAccess({
+      fileId: sharedFile.id,
+      ipAddress: getClientIp(req),
+      userAgent: req.headers['user-agent'] || '',
+    });
+  } catch (logError) {
+    console.error("Error logging file access:", logError);
+  }
+}
+
+// Log the visit and return what the public share page needs to show the file.
+// Folder and collection shares only describe themselves; their contents are
+// listed and downloaded through the routes under /api/shared/:token.
+async function sendSharedFileAccess(req: Request, res: Response, sharedFile: SharedFile) {
+  const shareType = getShareType(sharedFile);
+  if (shareType === "request") {
+    await logShareAccess(req, sharedFile);
+    return res.json({
+      shareType,
+      filename: sharedFile.filename,
+      maxFileSize: getRequestFileLimit(sharedFile),
+      allowedExtensions: sharedFile.allowedExtensions,
+      maxFiles: sharedFile.maxFiles,
+      remainingFiles: sharedFile.maxFiles === null
+        ? null
+        : Math.max(sharedFile.maxFiles - await storage.countRequestFiles(sharedFile.id), 0),
+      askUploaderInfo: sharedFile.askUploaderInfo,
+      expiresAt: sharedFile.expiresAt,
+    });
+  }
+  if (shareType !== "file") {
+    await logShareAccess(req, sharedFile);
+    return res.json({
+      shareType,
+      filename: sharedFile.filename,
+      filesize: sharedFile.filesize,
+      itemCount: shareType === "collection" ? (sharedFile.items || []).length : undefined,
+      allowDownload: sharedFile.allowDownload,
+      allowSubfolders: sharedFile.allowSubfolders,
+      expiresAt: sharedFile.expiresAt,
+    });
+  }
+  
+  // Archived objects can't be downloaded until the owner restores them
+  try {
+    const unreadable = await getUnreadableReason(sharedFile.accountId, sharedFile.bucket, sharedFile.path || sharedFile.filename);
+    if (unreadable) {
+      return res.status(409).json({ 
+        message: unreadable.message, 
+        archived: true, 
+        restoreStatus: unreadable.restoreStatus 
+      });
+    }
+  } catch (error) {
+    // Let the download link be generated anyway; S3 reports any real problem
+    console.error("Error checking shared file archive state:", error);
+  }
+  
+  await logShareAccess(req, sharedFile);
+  
+  // Create signed URL for download
+  const s3Account = await storage.getS3Account(sharedFile.accountId);
+  let signedUrl = '';
+  let directS3Url = '';
+  
+  try {
+    signedUrl = await getDownloadUrl(
+      sharedFile.accountId, 
+      sharedFile.bucket, 
+      sharedFile.path || sharedFile.filename
+    );
+    
+    // Generate a direct S3 URL as a fallback
+    if (s3Account) {
+      directS3Url = getObjectUrl(s3Account, sharedFile.bucket, sharedFile.path || sharedFile.filename);
+    }
+  } catch (error) {
+    console.error("Error generating download URL:", error);
+    return res.status(500).json({ message: "Error generating download URL" });
+  }
+  
+  // An inline URL for the preview, when the share allows one and the type can be shown
+  const key = sharedFile.path || sharedFile.filename;
+  const previewKind = sharedFile.allowPreview ? getPreviewKind(key, sharedFile.contentType) : undefined;
+  let previewUrl: string | undefined;
+  if (previewKind && previewKind !== "text" && previewKind !== "code") {
+    try {
+      previewUrl = await getPreviewUrl(sharedFile.accountId, sharedFile.bucket, key, getPreviewContentType(key, sharedFile.contentType)!);
+    } catch (error) {
+      // The page falls back to the file icon
+      console.error("Error generating preview URL:", error);
+    }
+  }
+  
+  // Return file access details
+  res.json({
+    shareType,
+    filename: sharedFile.filename,
+    contentType: sharedFile.contentType,
+    filesize: sharedFile.filesize,
+    signedUrl,
+    directS3Url,
+    allowDownload: sharedFile.allowDownload,
+    allowPreview: sharedFile.allowPreview,
+    previewKind,
+    previewUrl,
+    expiresAt: sharedFile.expiresAt,
+  });
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
   // Set up sessions
   setupSession(app);
@@ -64,6 +251,30 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
+  // Object index scans across all users, for keeping an eye on the background indexer
+  app.get("/api/admin/object-index", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      if (!req.user?.isAdmin) {
+        return res.status(403).json({ message: "Unauthorized: Admin access required" });
+      }
+      
+      const [indexedBuckets, accounts] = await Promise.all([storage.getIndexedBuckets(), storage.getAllS3Accounts()]);
+      const accountsById = new Map(accounts.map(account => [account.id, account]));
+      res.json({
+        rescanMinutes: getRescanMinutes(),
+        buckets: indexedBuckets.map(indexed => ({
+          ...indexed,
+          isScanning: isScanRunning(indexed.id),
+          accountName: accountsById.get(indexed.accountId)?.name,
+          userId: accountsById.get(indexed.accountId)?.userId,
+        })),
+      });
+    } catch (error) {
+      console.error("Error fetching object index jobs:", error);
+      res.status(500).json({ message: "Error fetching object index jobs" });
+    }
+  });
+  
   // Configure multer for file uploads
   const upload = multer({ storage: multer.memoryStorage() });
   
@@ -76,7 +287,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       // Get user's S3 accounts
-      const accounts = await storage.getS3Accounts(req.user.id);
+      const accounts = (await storage.getS3Accounts(req.user.id)).map(redactS3Account);
       console.log("Fetched S3 accounts for user:", req.user.id, accounts);
       res.json(accounts);
     } catch (error) {
@@ -88,15 +299,42 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Validate S3 credentials before saving
   app.post("/api/validate-s3-credentials", isAuthenticated, async (req: Request, res: Response) => {
     try {
-      const { accessKeyId, secretAccessKey, region } = req.body;
-      
-      // Create an S3 client with the provided credentials
-      const s3Client = new S3Client({
+      const parsed = s3CredentialsSchema.safeParse({
+        ...req.body,
+        endpoint: normalizeEndpoint(req.body.endpoint) ?? null,
+      });
+      if (!parsed.success) {
+        return res.status(400).json({
+          valid: false,
+          message: parsed.error.issues[0].message,
+          errors: parsed.error.issues,
+        });
+      }
+      const {
+        accessKeyId,
+        secretAccessKey,
         region,
-        credentials: {
-          accessKeyId,
-          secretAccessKey
-        }
+        endpoint,
+        forcePathStyle,
+        tlsVerify,
+        authType,
+        roleArn,
+        externalId,
+        sessionDurationSeconds
+      } = parsed.data;
+      
+      // Create an S3 client with the provided credentials and optional custom endpoint
+      const s3Client = createS3Client({
+        region,
+        accessKeyId,
+        secretAccessKey,
+        endpoint,
+        forcePathStyle,
+        tlsVerify,
+        authType,
+        roleArn,
+        externalId,
+        sessionDurationSeconds,
       });
       
       // Try to list buckets to verify credentials
@@ -112,7 +350,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       console.error("Error validating S3 credentials:", error);
       res.status(400).json({
         valid: false,
-        message: "Invalid S3 credentials. Please check your access key, secret key, and region."
+        message: req.body?.authType === "assume-role"
+          ? "Could not assume role. Please check your base credentials, role ARN, external ID, and endpoint."
+          : "Invalid S3 credentials. Please check your access key, secret key, region, and endpoint."
       });
     }
   });
@@ -123,14 +363,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(401).json({ message: "Unauthorized" });
       }
       
-      const accountData = {
+      const parsed = insertS3AccountSchema.safeParse({
         ...req.body,
+        endpoint: normalizeEndpoint(req.body.endpoint) ?? null,
         userId: req.user.id
-      };
+      });
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.issues[0].message, errors: parsed.error.issues });
+      }
+      
+      const accountData = parsed.data;
       
-      console.log("Creating S3 account for user:", req.user.id, accountData);
+      console.log("Creating S3 account for user:", req.user.id, accountData.name);
       const account = await storage.createS3Account(accountData);
-      res.status(201).json(account);
+      res.status(201).json(redactS3Account(account));
     } catch (error) {
       console.error("Error creating account:", error);
       res.status(500).json({ message: "Error creating account" });
@@ -138,27 +384,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // Delete S3 account
-  app.delete("/api/s3-accounts/:id", isAuthenticated, async (req: Request, res: Response) => {
+  app.delete("/api/s3-accounts/:id", isAuthenticated, requireS3Account("id"), async (req: Request, res: Response) => {
     try {
-      if (!req.user?.id) {
-        return res.status(401).json({ message: "Unauthorized" });
-      }
-      
-      const accountId = parseInt(req.params.id);
-      if (isNaN(accountId)) {
-        return res.status(400).json({ message: "Invalid account ID" });
-      }
-      
-      // Get the account first to verify it belongs to this user
-      const account = await storage.getS3Account(accountId);
-      if (!account) {
-        return res.status(404).json({ message: "S3 account not found" });
-      }
-      
-      // Make sure the account belongs to the authenticated user
-      if (account.userId !== req.user.id) {
-        return res.status(403).json({ message: "Not authorized to delete this account" });
-      }
+      // Ownership was checked by requireS3Account
+      const accountId = req.s3Account!.id;
       
       const deleted = await storage.deleteS3Account(accountId);
       res.status(200).json({ success: deleted });
@@ -280,7 +509,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       const files = await storage.getSharedFiles(req.session.userId);
-      res.json(files);
+      res.json(files.map(redactSharedFile));
     } catch (error) {
       console.error("Error fetching shared files:", error);
       res.status(500).json({ message: "Error fetching shared files" });
@@ -288,32 +517,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // S3 Bucket Operations
-  app.get("/api/s3/:accountId/buckets", isAuthenticated, async (req: Request, res: Response) => {
+  app.get("/api/s3/:accountId/buckets", isAuthenticated, requireS3Account(), async (req: Request, res: Response) => {
     try {
-      // Convert the accountId to a number
-      const accountId = parseInt(req.params.accountId);
-      
-      // Validate the account ID is a valid number
-      if (isNaN(accountId)) {
-        return res.status(400).json({ message: "Invalid account ID" });
-      }
-      
-      // Get the account from the database
-      const account = await storage.getS3Account(accountId);
-      
-      // If account not found, return 404
-      if (!account) {
-        return res.status(404).json({ message: "S3 account not found" });
-      }
-      
-      // Create an S3 client with the account credentials
-      const s3Client = new S3Client({
-        region: account.region,
-        credentials: {
-          accessKeyId: account.accessKeyId,
-          secretAccessKey: account.secretAccessKey
-        }
-      });
+      // Account resolved and ownership checked by requireS3Account
+      const accountId = req.s3Account!.id;
       
       // List buckets using our s3-client utility
       try {
@@ -337,348 +544,1757 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  app.get("/api/s3/:accountId/objects", isAuthenticated, async (req: Request, res: Response) => {
+  // Create a bucket, optionally in another region, with Object Lock and default encryption
+  app.post("/api/s3/:accountId/buckets", isAuthenticated, requireS3Account(), async (req: Request, res: Response) => {
     try {
-      // Convert the accountId to a number
-      const accountId = parseInt(req.params.accountId);
+      const accountId = req.s3Account!.id;
       
-      // Validate the account ID is a valid number
-      if (isNaN(accountId)) {
-        return res.status(400).json({ message: "Invalid account ID" });
+      const { bucket, region, objectLock, encryption } = req.body;
+      const nameError = validateBucketName(bucket);
+      if (nameError) {
+        return res.status(400).json({ message: nameError });
+      }
+      const encryptionError = validateEncryption(encryption);
+      if (encryptionError) {
+        return res.status(400).json({ message: encryptionError });
       }
       
-      // Get the bucket name from query parameters
+      try {
+        await createBucket(accountId, bucket, {
+          region: typeof region === "string" ? region : undefined,
+          objectLock: !!objectLock,
+          encryption: encryption || undefined,
+        });
+        return res.status(201).json({ bucket });
+      } catch (s3Error: any) {
+        console.error("S3 error creating bucket:", s3Error);
+        const alreadyExists = s3Error.name === "BucketAlreadyExists" || s3Error.name === "BucketAlreadyOwnedByYou";
+        return res.status(alreadyExists ? 409 : 400).json({ 
+          message: alreadyExists ? `A bucket named ${bucket} already exists` : "Error creating bucket", 
+          error: s3Error.message || "Unknown S3 error" 
+        });
+      }
+    } catch (error: any) {
+      console.error("Server error creating bucket:", error);
+      return res.status(500).json({ 
+        message: "Server error creating bucket",
+        error: error.message || "Unknown error" 
+      });
+    }
+  });
+  
+  // Delete an empty bucket; non-empty buckets have to be emptied first
+  app.delete("/api/s3/:accountId/buckets", isAuthenticated, requireS3Account(), async (req: Request, res: Response) => {
+    try {
+      const accountId = req.s3Account!.id;
+      
       const bucket = req.query.bucket as string;
       if (!bucket) {
-        return res.status(400).json({ message: "Bucket name is required" });
+        return res.status(400).json({ message: "Bucket is required" });
       }
       
-      // Get optional prefix and delimiter from query parameters
-      const prefix = (req.query.prefix as string) || '';
-      const delimiter = (req.query.delimiter as string) || '/';
-      
-      // Get the account from the database
-      const account = await storage.getS3Account(accountId);
+      try {
+        await deleteBucket(accountId, bucket);
+        invalidateStorageStats(accountId, bucket);
+        await removeBucketIndex(accountId, bucket);
+        return res.json({ success: true });
+      } catch (s3Error: any) {
+        console.error("S3 error deleting bucket:", s3Error);
+        if (s3Error.name === "BucketNotEmpty") {
+          return res.status(409).json({ 
+            message: "The bucket is not empty. Empty it first, including old versions.", 
+            notEmpty: true 
+          });
+        }
+        return res.status(400).json({ 
+          message: "Error deleting bucket", 
+          error: s3Error.message || "Unknown S3 error" 
+        });
+      }
+    } catch (error: any) {
+      console.error("Server error deleting bucket:", error);
+      return res.status(500).json({ 
+        message: "Server error deleting bucket",
+        error: error.message || "Unknown error" 
+      });
+    }
+  });
+  
+  // Start deleting every object, version and pending upload in a bucket (and
+  // optionally the bucket). Runs in the background; poll the job for progress.
+  app.post("/api/s3/:accountId/buckets/empty", isAuthenticated, requireS3Account(), async (req: Request, res: Response) => {
+    try {
+      const accountId = req.s3Account!.id;
       
-      // If account not found, return 404
-      if (!account) {
-        return res.status(404).json({ message: "S3 account not found" });
+      const { bucket, deleteBucket: deleteAfter } = req.body;
+      if (!bucket) {
+        return res.status(400).json({ message: "Bucket is required" });
       }
       
-      // Create an S3 client with the account credentials
-      const s3Client = new S3Client({
-        region: account.region,
-        credentials: {
-          accessKeyId: account.accessKeyId,
-          secretAccessKey: account.secretAccessKey
-        }
+      const job = startEmptyBucketJob(accountId, bucket, !!deleteAfter);
+      return res.status(202).json(job);
+    } catch (error: any) {
+      console.error("Server error emptying bucket:", error);
+      return res.status(500).json({ 
+        message: "Server error emptying bucket",
+        error: error.message || "Unknown error" 
       });
+    }
+  });
+  
+  app.get("/api/s3/:accountId/buckets/empty/:jobId", isAuthenticated, requireS3Account(), async (req: Request, res: Response) => {
+    const job = getEmptyBucketJob(req.s3Account!.id, req.params.jobId);
+    if (!job) {
+      return res.status(404).json({ message: "Job not found or expired" });
+    }
+    return res.json(job);
+  });
+  
+  // Bucket policy as JSON; null when the bucket has no policy
+  app.get("/api/s3/:accountId/buckets/policy", isAuthenticated, requireS3Account(), async (req: Request, res: Response) => {
+    try {
+      const accountId = req.s3Account!.id;
+      
+      const bucket = req.query.bucket as string;
+      if (!bucket) {
+        return res.status(400).json({ message: "Bucket is required" });
+      }
       
-      // List objects using our s3-client utility
       try {
-        const result = await listObjects(accountId, bucket, prefix, delimiter);
-        
-        // Return objects and folders as JSON
-        return res.json(result);
+        const policy = await getBucketPolicy(accountId, bucket);
+        return res.json({ policy });
       } catch (s3Error: any) {
-        console.error("S3 error listing objects:", s3Error);
+        console.error("S3 error getting bucket policy:", s3Error);
         return res.status(400).json({ 
-          message: "Error accessing S3 objects", 
+          message: "Error getting bucket policy", 
           error: s3Error.message || "Unknown S3 error" 
         });
       }
     } catch (error: any) {
-      console.error("Server error listing objects:", error);
+      console.error("Server error getting bucket policy:", error);
       return res.status(500).json({ 
-        message: "Server error listing objects",
+        message: "Server error getting bucket policy",
         error: error.message || "Unknown error" 
       });
     }
   });
   
-  // Shared Files API routes
-  app.get("/api/shared-files", isAuthenticated, async (req: Request, res: Response) => {
+  // Replace the bucket policy; a null policy deletes it
+  app.put("/api/s3/:accountId/buckets/policy", isAuthenticated, requireS3Account(), async (req: Request, res: Response) => {
     try {
-      const userId = req.session.userId;
-      const sharedFiles = await storage.getSharedFiles(userId!);
+      const accountId = req.s3Account!.id;
       
-      // Enhance with the full share URL for frontend use
-      const enhancedFiles = sharedFiles.map(file => ({
-        ...file,
-        shareUrl: `${req.protocol}://${req.hostname}/shared/${file.shareToken}`
-      }));
+      const { bucket } = req.body;
+      if (!bucket) {
+        return res.status(400).json({ message: "Bucket is required" });
+      }
       
-      res.json(enhancedFiles);
-    } catch (error) {
-      console.error("Error fetching shared files:", error);
-      res.status(500).json({ message: "Error fetching shared files" });
+      let policy = null;
+      if (req.body.policy !== null) {
+        const validation = validateBucketPolicy(req.body.policy, bucket);
+        if (!validation.policy) {
+          return res.status(400).json({ message: `Invalid bucket policy: ${validation.errors[0]}`, errors: validation.errors });
+        }
+        policy = validation.policy;
+      }
+      
+      try {
+        await putBucketPolicy(accountId, bucket, policy);
+        return res.json({ policy });
+      } catch (s3Error: any) {
+        console.error("S3 error saving bucket policy:", s3Error);
+        // S3's MalformedPolicy / AccessDenied messages are the useful part here
+        return res.status(400).json({ 
+          message: `Error saving bucket policy: ${s3Error.message || "Unknown S3 error"}`, 
+          error: s3Error.message || "Unknown S3 error" 
+        });
+      }
+    } catch (error: any) {
+      console.error("Server error saving bucket policy:", error);
+      return res.status(500).json({ 
+        message: "Server error saving bucket policy",
+        error: error.message || "Unknown error" 
+      });
     }
   });
   
-  // Create a new shared file
-  app.post("/api/shared-files", isAuthenticated, async (req: Request, res: Response) => {
+  // CORS rules in S3's CORSRule format; an empty list when none are configured
+  app.get("/api/s3/:accountId/buckets/cors", isAuthenticated, requireS3Account(), async (req: Request, res: Response) => {
     try {
-      // Use user ID from session or user object
-      const userId = req.session.userId || req.user?.id;
-      if (!userId) {
-        return res.status(401).json({ message: "Unauthorized - No user ID found" });
-      }
-      
-      console.log("Creating shared file for user:", userId);
-      console.log("Request body:", req.body);
-      
-      const { 
-        accountId, 
-        bucket, 
-        path, 
-        filename, 
-        expiresInDays, 
-        allowDownload = true, 
-        password,
-        size,
-        directS3Link = false
-      } = req.body;
+      const accountId = req.s3Account!.id;
       
-      // Validate required fields
-      if (!accountId || !bucket || !filename) {
-        return res.status(400).json({ message: "Missing required fields: accountId, bucket, and filename are required" });
+      const bucket = req.query.bucket as string;
+      if (!bucket) {
+        return res.status(400).json({ message: "Bucket is required" });
       }
       
-      // Get file metadata if not provided
-      let filesize = size || req.body.filesize;
-      let contentType = req.body.contentType;
+      try {
+        const rules = await getBucketCors(accountId, bucket);
+        return res.json({ rules });
+      } catch (s3Error: any) {
+        console.error("S3 error getting CORS configuration:", s3Error);
+        return res.status(400).json({ 
+          message: "Error getting CORS configuration", 
+          error: s3Error.message || "Unknown S3 error" 
+        });
+      }
+    } catch (error: any) {
+      console.error("Server error getting CORS configuration:", error);
+      return res.status(500).json({ 
+        message: "Server error getting CORS configuration",
+        error: error.message || "Unknown error" 
+      });
+    }
+  });
+  
+  // Replace the CORS rules; an empty list removes the configuration
+  app.put("/api/s3/:accountId/buckets/cors", isAuthenticated, requireS3Account(), async (req: Request, res: Response) => {
+    try {
+      const accountId = req.s3Account!.id;
       
-      if (!filesize || !contentType) {
-        try {
-          // Fetch S3 account to create AWS client
-          const account = await storage.getS3Account(accountId);
-          if (!account) {
-            return res.status(404).json({ message: "S3 account not found" });
-          }
-          
-          console.log("Getting metadata for file:", path || filename);
-          const metadata = await getObjectMetadata(accountId, bucket, path || filename);
-          console.log("S3 metadata:", metadata);
-          
-          // Extract metadata from S3 response
-          if (metadata) {
-            if (!filesize && metadata.ContentLength) {
-              filesize = metadata.ContentLength;
-            }
-            if (!contentType && metadata.ContentType) {
-              contentType = metadata.ContentType;
-            }
-          }
-          
-          // If still no metadata, use defaults
-          if (!filesize) filesize = 0;
-          if (!contentType) contentType = "application/octet-stream";
-        } catch (error) {
-          console.error("Error fetching file metadata:", error);
-          // Continue with default values if metadata fetch fails
-          filesize = filesize || 0;
-          contentType = contentType || "application/octet-stream";
-        }
+      const { bucket } = req.body;
+      if (!bucket) {
+        return res.status(400).json({ message: "Bucket is required" });
       }
       
-      // First, directly check the database for existing shared files
-      const [existingShare] = await db
-        .select()
-        .from(sharedFiles)
-        .where(
-          and(
-            eq(sharedFiles.userId, userId),
-            eq(sharedFiles.accountId, accountId),
-            eq(sharedFiles.bucket, bucket),
-            eq(sharedFiles.path, path || '')
-          )
-        );
+      const validation = validateCorsRules(req.body.rules);
+      if (!validation.rules) {
+        return res.status(400).json({ message: `Invalid CORS configuration: ${validation.errors[0]}`, errors: validation.errors });
+      }
       
-      console.log("Checking for existing shared file:", {userId, accountId, bucket, path: path || ''});
+      try {
+        await putBucketCors(accountId, bucket, validation.rules);
+        return res.json({ rules: validation.rules });
+      } catch (s3Error: any) {
+        console.error("S3 error saving CORS configuration:", s3Error);
+        return res.status(400).json({ 
+          message: `Error saving CORS configuration: ${s3Error.message || "Unknown S3 error"}`, 
+          error: s3Error.message || "Unknown S3 error" 
+        });
+      }
+    } catch (error: any) {
+      console.error("Server error saving CORS configuration:", error);
+      return res.status(500).json({ 
+        message: "Server error saving CORS configuration",
+        error: error.message || "Unknown error" 
+      });
+    }
+  });
+  
+  // Versioning, default encryption, Block Public Access and tags for one bucket
+  app.get("/api/s3/:accountId/bucket-settings", isAuthenticated, requireS3Account(), async (req: Request, res: Response) => {
+    try {
+      const accountId = req.s3Account!.id;
       
-      let sharedFile;
-      let shareToken;
+      const bucket = req.query.bucket as string;
+      if (!bucket) {
+        return res.status(400).json({ message: "Bucket is required" });
+      }
       
-      if (existingShare) {
-        console.log("Found existing shared file:", existingShare.id);
-        // File is already shared, use the existing share
-        sharedFile = existingShare;
-        shareToken = existingShare.shareToken;
-        
-        // Update the expiry date if new one is provided
-        if (expiresInDays && expiresInDays > 0) {
-          const newExpiresAt = new Date();
-          newExpiresAt.setDate(newExpiresAt.getDate() + expiresInDays);
-          
-          // Update the existing shared file with new expiry date
-          const updatedFile = await storage.updateSharedFile(existingShare.id, { 
-            expiresAt: newExpiresAt,
-            allowDownload: allowDownload !== undefined ? allowDownload : existingShare.allowDownload,
-            password: password && password.trim() ? password.trim() : existingShare.password
-          });
-          
-          if (updatedFile) {
-            sharedFile = updatedFile;
-          }
-          console.log("Updated existing shared file with new expiry date");
+      try {
+        return res.json(await getBucketSettings(accountId, bucket));
+      } catch (s3Error: any) {
+        console.error("S3 error getting bucket settings:", s3Error);
+        return res.status(400).json({ 
+          message: "Error getting bucket settings", 
+          error: s3Error.message || "Unknown S3 error" 
+        });
+      }
+    } catch (error: any) {
+      console.error("Server error getting bucket settings:", error);
+      return res.status(500).json({ 
+        message: "Server error getting bucket settings",
+        error: error.message || "Unknown error" 
+      });
+    }
+  });
+  
+  // Update any of the settings sections; sections left out of the body are unchanged
+  app.put("/api/s3/:accountId/bucket-settings", isAuthenticated, requireS3Account(), async (req: Request, res: Response) => {
+    try {
+      const accountId = req.s3Account!.id;
+      
+      const { bucket, versioning, encryption, publicAccessBlock, tags } = req.body;
+      if (!bucket) {
+        return res.status(400).json({ message: "Bucket is required" });
+      }
+      if (versioning !== undefined && versioning !== "Enabled" && versioning !== "Suspended") {
+        return res.status(400).json({ message: "versioning must be Enabled or Suspended" });
+      }
+      const encryptionError = validateEncryption(encryption);
+      if (encryptionError) {
+        return res.status(400).json({ message: encryptionError });
+      }
+      if (tags !== undefined) {
+        if (typeof tags !== "object" || tags === null || Array.isArray(tags)) {
+          return res.status(400).json({ message: "tags must be an object of key/value pairs" });
         }
-      } else {
-        console.log("No existing shared file found, creating new one");
-        // This is a new share, generate a unique share token
-        shareToken = randomBytes(16).toString('hex');
-        console.log("Generated share token:", shareToken);
-        
-        // Calculate expiry date if provided
-        let expiresAt: Date | undefined = undefined;
-        if (expiresInDays && expiresInDays > 0) {
-          expiresAt = new Date();
-          expiresAt.setDate(expiresAt.getDate() + expiresInDays);
+        if (Object.keys(tags).length > MAX_BUCKET_TAGS) {
+          return res.status(400).json({ message: `A bucket can have at most ${MAX_BUCKET_TAGS} tags` });
         }
+      }
+      
+      const update: BucketSettingsUpdate = { versioning, encryption, publicAccessBlock, tags };
+      
+      try {
+        await updateBucketSettings(accountId, bucket, update);
+        return res.json(await getBucketSettings(accountId, bucket));
+      } catch (s3Error: any) {
+        console.error("S3 error updating bucket settings:", s3Error);
+        return res.status(400).json({ 
+          message: "Error updating bucket settings", 
+          error: s3Error.message || "Unknown S3 error" 
+        });
+      }
+    } catch (error: any) {
+      console.error("Server error updating bucket settings:", error);
+      return res.status(500).json({ 
+        message: "Server error updating bucket settings",
+        error: error.message || "Unknown error" 
+      });
+    }
+  });
+  
+  app.get("/api/s3/:accountId/objects", isAuthenticated, requireS3Account(), async (req: Request, res: Response) => {
+    try {
+      // Account resolved and ownership checked by requireS3Account
+      const accountId = req.s3Account!.id;
+      
+      // Get the bucket name from query parameters
+      const bucket = req.query.bucket as string;
+      if (!bucket) {
+        return res.status(400).json({ message: "Bucket name is required" });
+      }
+      
+      // Get optional prefix and delimiter from query parameters
+      const prefix = (req.query.prefix as string) || '';
+      const delimiter = (req.query.delimiter as string) || '/';
+      
+      // Pagination: pass the previous response's nextContinuationToken to get the next page
+      const continuationToken = (req.query.continuationToken as string) || undefined;
+      const pageSize = req.query.pageSize ? parseInt(req.query.pageSize as string) : undefined;
+      if (pageSize !== undefined && (isNaN(pageSize) || pageSize < 1)) {
+        return res.status(400).json({ message: "pageSize must be a positive number" });
+      }
+      
+      // List objects using our s3-client utility
+      try {
+        const result = await listObjects(accountId, bucket, prefix, delimiter, { continuationToken, pageSize });
         
-        // Save to database
-        sharedFile = await storage.createSharedFile({
-          userId: userId,
-          accountId,
-          bucket,
-          path: path || '',
-          filename,
-          filesize: filesize || 0,
-          contentType: contentType || "application/octet-stream",
-          shareToken,
-          expiresAt,
-          allowDownload: allowDownload !== undefined ? allowDownload : true,
-          password: password && password.trim() ? password.trim() : undefined,
+        // Return objects and folders as JSON
+        return res.json(result);
+      } catch (s3Error: any) {
+        console.error("S3 error listing objects:", s3Error);
+        return res.status(400).json({ 
+          message: "Error accessing S3 objects", 
+          error: s3Error.message || "Unknown S3 error" 
         });
       }
+    } catch (error: any) {
+      console.error("Server error listing objects:", error);
+      return res.status(500).json({ 
+        message: "Server error listing objects",
+        error: error.message || "Unknown error" 
+      });
+    }
+  });
+  
+  // Recursive search under a prefix. Streams newline-delimited JSON events as the
+  // walk goes: {type: "match", object}, {type: "progress", scanned}, and finally
+  // {type: "done", ...summary} or {type: "error", message}. Closing the request
+  // cancels the walk.
+  app.post("/api/s3/:accountId/search", isAuthenticated, requireS3Account(), async (req: Request, res: Response) => {
+    try {
+      const accountId = req.s3Account!.id;
+      
+      const { bucket, ...query } = req.body;
+      if (!bucket) {
+        return res.status(400).json({ message: "Bucket is required" });
+      }
       
-      console.log("Shared file created:", sharedFile);
+      const validationError = validateSearchQuery(query);
+      if (validationError) {
+        return res.status(400).json({ message: validationError });
+      }
       
-      // Determine the URL to return based on direct S3 link preference
-      const appShareUrl = `${req.protocol}://${req.hostname}/shared/${sharedFile.shareToken}`;
-      const s3DirectUrl = `https://${bucket}.s3.amazonaws.com/${path || filename}`;
+      const controller = new AbortController();
+      res.on("close", () => controller.abort());
       
-      // Return with the shareable URL
-      res.status(201).json({
-        ...sharedFile,
-        shareUrl: directS3Link ? s3DirectUrl : appShareUrl,
-        directS3Url: s3DirectUrl,
-        appShareUrl
+      // Headers go out with the first event, so errors before then are still plain 400s
+      const send = (event: object) => {
+        if (!res.headersSent) {
+          res.setHeader("Content-Type", "application/x-ndjson");
+          res.setHeader("Cache-Control", "no-cache");
+        }
+        res.write(`${JSON.stringify(event)}\n`);
+      };
+      
+      try {
+        // Answer from the object index when the bucket has one that covers these filters
+        const indexed = await getSearchableIndex(accountId, bucket, query);
+        const callbacks = {
+          onMatch: (object: object) => send({ type: "match", object }),
+          onProgress: (scanned: number) => send({ type: "progress", scanned }),
+          signal: controller.signal,
+        };
+        const summary = indexed
+          ? await searchIndex(accountId, bucket, query, callbacks)
+          : await searchObjects(accountId, bucket, query, callbacks);
+        if (!summary.cancelled) {
+          send({
+            type: "done",
+            ...summary,
+            source: indexed ? "index" : "live",
+            indexedAt: indexed?.lastScanCompletedAt,
+          });
+        }
+        return res.end();
+      } catch (s3Error: any) {
+        console.error("S3 error searching objects:", s3Error);
+        if (!res.headersSent) {
+          return res.status(400).json({ 
+            message: "Error searching objects", 
+            error: s3Error.message || "Unknown S3 error" 
+          });
+        }
+        send({ type: "error", message: s3Error.message || "Search failed" });
+        return res.end();
+      }
+    } catch (error: any) {
+      console.error("Server error searching objects:", error);
+      if (res.headersSent) {
+        return res.end();
+      }
+      return res.status(500).json({ 
+        message: "Server error searching objects",
+        error: error.message || "Unknown error" 
       });
-    } catch (error) {
-      console.error("Error creating shared file:", error);
-      res.status(500).json({ message: "Error creating shared file" });
     }
   });
   
-  // Delete a shared file
-  app.delete("/api/shared-files/:id", isAuthenticated, async (req: Request, res: Response) => {
+  // Object index status for a bucket; index is null when the bucket was never opted in
+  app.get("/api/s3/:accountId/object-index", isAuthenticated, requireS3Account(), async (req: Request, res: Response) => {
     try {
-      const userId = req.session.userId;
-      const fileId = parseInt(req.params.id);
+      const accountId = req.s3Account!.id;
+      
+      const bucket = req.query.bucket as string;
+      if (!bucket) {
+        return res.status(400).json({ message: "Bucket is required" });
+      }
       
-      // Verify the file exists and belongs to the user
-      const sharedFile = await storage.getSharedFile(fileId);
+      const indexed = await storage.getIndexedBucket(accountId, bucket);
+      return res.json({
+        index: indexed ? { ...indexed, isScanning: isScanRunning(indexed.id) } : null,
+        rescanMinutes: getRescanMinutes(),
+      });
+    } catch (error: any) {
+      console.error("Server error getting object index:", error);
+      return res.status(500).json({ 
+        message: "Server error getting object index",
+        error: error.message || "Unknown error" 
+      });
+    }
+  });
+  
+  // Opt a bucket in or out of the object index. Opting in starts the first scan.
+  app.put("/api/s3/:accountId/object-index", isAuthenticated, requireS3Account(), async (req: Request, res: Response) => {
+    try {
+      const accountId = req.s3Account!.id;
       
-      if (!sharedFile) {
-        return res.status(404).json({ message: "Shared file not found" });
+      const { bucket, enabled, indexTags } = req.body;
+      if (!bucket || typeof enabled !== "boolean") {
+        return res.status(400).json({ message: "Bucket and enabled are required" });
       }
       
-      // Temporarily disabled user permission check for debugging
-      // if (sharedFile.userId !== userId) {
-      //   return res.status(403).json({ message: "You don't have permission to delete this file" });
-      // }
+      const indexed = await configureIndex(accountId, bucket, { enabled, indexTags: !!indexTags });
+      if (indexed.enabled && !indexed.lastScanCompletedAt) {
+        startIndexScan(indexed);
+      }
+      return res.json({ index: { ...indexed, isScanning: isScanRunning(indexed.id) }, rescanMinutes: getRescanMinutes() });
+    } catch (error: any) {
+      console.error("Server error configuring object index:", error);
+      return res.status(500).json({ 
+        message: "Server error configuring object index",
+        error: error.message || "Unknown error" 
+      });
+    }
+  });
+  
+  // Re-scan an indexed bucket now instead of waiting for the scheduler
+  app.post("/api/s3/:accountId/object-index/scan", isAuthenticated, requireS3Account(), async (req: Request, res: Response) => {
+    try {
+      const accountId = req.s3Account!.id;
       
-      // Delete the file
-      await storage.deleteSharedFile(fileId);
+      const { bucket } = req.body;
+      if (!bucket) {
+        return res.status(400).json({ message: "Bucket is required" });
+      }
       
-      res.status(200).json({ message: "File share deleted successfully" });
-    } catch (error) {
-      console.error("Error deleting shared file:", error);
-      res.status(500).json({ message: "Error deleting shared file" });
+      const indexed = await storage.getIndexedBucket(accountId, bucket);
+      if (!indexed?.enabled) {
+        return res.status(400).json({ message: "Indexing is not turned on for this bucket" });
+      }
+      if (!startIndexScan(indexed)) {
+        return res.status(409).json({ message: "A scan of this bucket is already running" });
+      }
+      return res.status(202).json({ index: { ...indexed, isScanning: true }, rescanMinutes: getRescanMinutes() });
+    } catch (error: any) {
+      console.error("Server error starting index scan:", error);
+      return res.status(500).json({ 
+        message: "Server error starting index scan",
+        error: error.message || "Unknown error" 
+      });
     }
   });
   
-  // Get access logs for a shared file
-  app.get("/api/shared-files/:id/access-logs", isAuthenticated, async (req: Request, res: Response) => {
+  // Size of everything under a prefix, from the object index; 404 when the bucket isn't indexed
+  app.get("/api/s3/:accountId/folder-size", isAuthenticated, requireS3Account(), async (req: Request, res: Response) => {
     try {
-      const userId = req.session.userId;
-      const fileId = parseInt(req.params.id);
+      const accountId = req.s3Account!.id;
       
-      // Verify the file exists and belongs to the user
-      const sharedFile = await storage.getSharedFile(fileId);
+      const bucket = req.query.bucket as string;
+      if (!bucket) {
+        return res.status(400).json({ message: "Bucket is required" });
+      }
       
-      if (!sharedFile) {
-        return res.status(404).json({ message: "Shared file not found" });
+      const indexed = await storage.getIndexedBucket(accountId, bucket);
+      if (!indexed?.enabled || !indexed.lastScanCompletedAt) {
+        return res.status(404).json({ message: "This bucket is not indexed" });
       }
       
-      // Temporarily disabled user permission check for debugging
-      // if (sharedFile.userId !== userId) {
-      //   return res.status(403).json({ message: "You don't have permission to view these logs" });
-      // }
+      const prefix = (req.query.prefix as string) || "";
+      const totals = await getIndexedPrefixTotals(accountId, bucket, prefix);
+      return res.json({ ...totals, indexedAt: indexed.lastScanCompletedAt });
+    } catch (error: any) {
+      console.error("Server error getting folder size:", error);
+      return res.status(500).json({ 
+        message: "Server error getting folder size",
+        error: error.message || "Unknown error" 
+      });
+    }
+  });
+  
+  // Object count and bytes by storage class and file type for a bucket or prefix
+  app.get("/api/s3/:accountId/storage-stats", isAuthenticated, requireS3Account(), async (req: Request, res: Response) => {
+    try {
+      const accountId = req.s3Account!.id;
       
-      // Get access logs
-      const logs = await storage.getFileAccessLogs(fileId);
+      const bucket = req.query.bucket as string;
+      if (!bucket) {
+        return res.status(400).json({ message: "Bucket is required" });
+      }
       
-      res.json(logs);
+      const prefix = (req.query.prefix as string) || "";
+      try {
+        const stats = await getStorageStats(accountId, bucket, prefix, { refresh: req.query.refresh === "true" });
+        return res.json(stats);
+      } catch (s3Error: any) {
+        console.error("S3 error calculating storage stats:", s3Error);
+        return res.status(400).json({ 
+          message: "Error calculating storage statistics", 
+          error: s3Error.message || "Unknown S3 error" 
+        });
+      }
+    } catch (error: any) {
+      console.error("Server error calculating storage stats:", error);
+      return res.status(500).json({ 
+        message: "Server error calculating storage statistics",
+        error: error.message || "Unknown error" 
+      });
+    }
+  });
+  
+  // Storage totals across all of the user's accounts and buckets
+  app.get("/api/storage-stats", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      if (!req.user?.id) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+      
+      const refresh = req.query.refresh === "true";
+      const accounts = [];
+      for (const account of await storage.getS3Accounts(req.user.id)) {
+        accounts.push(await getAccountStorageStats(account, { refresh }));
+      }
+      
+      const totals = emptyBreakdown();
+      for (const account of accounts) {
+        mergeBreakdown(totals, account);
+      }
+      return res.json({ ...totals, accounts });
+    } catch (error: any) {
+      console.error("Server error calculating storage stats:", error);
+      return res.status(500).json({ 
+        message: "Server error calculating storage statistics",
+        error: error.message || "Unknown error" 
+      });
+    }
+  });
+  
+  // Daily totals from the storage snapshots of the user's accounts
+  app.get("/api/storage-stats/history", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      if (!req.user?.id) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+      
+      const days = req.query.days ? parseInt(req.query.days as string, 10) : 30;
+      if (isNaN(days) || days < 1 || days > 365) {
+        return res.status(400).json({ message: "days must be between 1 and 365" });
+      }
+      
+      const accountIds = (await storage.getS3Accounts(req.user.id)).map(account => account.id);
+      const points = await getStorageHistory(accountIds, days);
+      return res.json({ points, snapshotHours: getSnapshotHours() });
+    } catch (error: any) {
+      console.error("Server error getting storage history:", error);
+      return res.status(500).json({ 
+        message: "Server error getting storage history",
+        error: error.message || "Unknown error" 
+      });
+    }
+  });
+  
+  // Shared Files API routes
+  app.get("/api/shared-files", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const userId = req.session.userId;
+      const sharedFiles = await storage.getSharedFiles(userId!);
+      
+      // Enhance with the full share URL for frontend use
+      const enhancedFiles = sharedFiles.map(file => ({
+        ...redactSharedFile(file),
+        shareUrl: `${req.protocol}://${req.hostname}/shared/${file.shareToken}`
+      }));
+      
+      res.json(enhancedFiles);
     } catch (error) {
-      console.error("Error fetching access logs:", error);
-      res.status(500).json({ message: "Error fetching access logs" });
+      console.error("Error fetching shared files:", error);
+      res.status(500).json({ message: "Error fetching shared files" });
+    }
+  });
+  
+  // Create a new shared file
+  app.post("/api/shared-files", isAuthenticated, requireS3Account("accountId", "body"), async (req: Request, res: Response) => {
+    try {
+      // Use user ID from session or user object
+      const userId = req.session.userId || req.user?.id;
+      if (!userId) {
+        return res.status(401).json({ message: "Unauthorized - No user ID found" });
+      }
+      
+      console.log("Creating shared file for user:", userId);
+      
+      const { 
+        accountId, 
+        bucket, 
+        path, 
+        filename, 
+        expiresInDays, 
+        allowDownload = true, 
+        allowPreview,
+        allowSubfolders,
+        password,
+        size,
+        directS3Link = false,
+        shareType = "file",
+        keys
+      } = req.body;
+      
+      if (!SHARE_TYPES.includes(shareType)) {
+        return res.status(400).json({ message: `shareType must be one of: ${SHARE_TYPES.join(", ")}` });
+      }
+      const type = shareType as ShareType;
+      
+      // Folders are shared by prefix; collections by the common prefix of their keys;
+      // file requests take uploads into a prefix, which may be the bucket root
+      let sharePath = path || '';
+      let items: string[] | null = null;
+      let requestSettings: FileRequestSettings | null = null;
+      if (type === "folder") {
+        sharePath = sharePath.replace(/\/*$/, "/");
+        if (sharePath === "/") {
+          return res.status(400).json({ message: "A folder path is required" });
+        }
+      } else if (type === "collection") {
+        const collection = planCollection(keys);
+        if (typeof collection === "string") {
+          return res.status(400).json({ message: collection });
+        }
+        sharePath = collection.path;
+        items = collection.items;
+      } else if (type === "request") {
+        sharePath = sharePath ? sharePath.replace(/\/*$/, "/") : "";
+        const settings = validateRequestSettings(req.body);
+        if (typeof settings === "string") {
+          return res.status(400).json({ message: settings });
+        }
+        requestSettings = settings;
+      }
+      
+      // Validate required fields
+      if (!accountId || !bucket || !filename) {
+        return res.status(400).json({ message: "Missing required fields: accountId, bucket, and filename are required" });
+      }
+      
+      // Get file metadata if not provided
+      let filesize = size || req.body.filesize;
+      let contentType = req.body.contentType;
+      
+      if (type === "file" && (!filesize || !contentType)) {
+        try {
+          console.log("Getting metadata for file:", path || filename);
+          const metadata = await getObjectMetadata(accountId, bucket, path || filename);
+          console.log("S3 metadata:", metadata);
+          
+          // Extract metadata from S3 response
+          if (metadata) {
+            if (!filesize && metadata.ContentLength) {
+              filesize = metadata.ContentLength;
+            }
+            if (!contentType && metadata.ContentType) {
+              contentType = metadata.ContentType;
+            }
+          }
+          
+          // If still no metadata, use defaults
+          if (!filesize) filesize = 0;
+          if (!contentType) contentType = "application/octet-stream";
+        } catch (error) {
+          console.error("Error fetching file metadata:", error);
+          // Continue with default values if metadata fetch fails
+          filesize = filesize || 0;
+          contentType = contentType || "application/octet-stream";
+        }
+      }
+      
+      // First, directly check the database for existing shared files.
+      // Every collection and file request gets a new link, since two selections
+      // rarely match and each request usually goes to a different person.
+      const [existingShare] = type === "collection" || type === "request" ? [] : await db
+        .select()
+        .from(sharedFiles)
+        .where(
+          and(
+            eq(sharedFiles.userId, userId),
+            eq(sharedFiles.accountId, accountId),
+            eq(sharedFiles.bucket, bucket),
+            eq(sharedFiles.shareType, type),
+            eq(sharedFiles.path, sharePath)
+          )
+        );
+      
+      console.log("Checking for existing shared file:", {userId, accountId, bucket, shareType: type, path: sharePath});
+      
+      let sharedFile;
+      let shareToken;
+      
+      if (existingShare) {
+        console.log("Found existing shared file:", existingShare.id);
+        // File is already shared, use the existing share
+        sharedFile = existingShare;
+        shareToken = existingShare.shareToken;
+        
+        // Apply the options sent now; the expiry date only changes if a new one is provided
+        let newExpiresAt: Date | undefined = undefined;
+        if (expiresInDays && expiresInDays > 0) {
+          newExpiresAt = new Date();
+          newExpiresAt.setDate(newExpiresAt.getDate() + expiresInDays);
+        }
+        
+        const updatedFile = await storage.updateSharedFile(existingShare.id, { 
+          expiresAt: newExpiresAt ?? existingShare.expiresAt,
+          allowDownload: allowDownload !== undefined ? allowDownload : existingShare.allowDownload,
+          allowPreview: allowPreview !== undefined ? allowPreview : existingShare.allowPreview,
+          allowSubfolders: allowSubfolders !== undefined ? allowSubfolders : existingShare.allowSubfolders,
+          password: (await hashSharePassword(password)) ?? existingShare.password
+        });
+        
+        if (updatedFile) {
+          sharedFile = updatedFile;
+        }
+      } else {
+        console.log("No existing shared file found, creating new one");
+        // This is a new share, generate a unique share token
+        shareToken = randomBytes(16).toString('hex');
+        
+        // Calculate expiry date if provided
+        let expiresAt: Date | undefined = undefined;
+        if (expiresInDays && expiresInDays > 0) {
+          expiresAt = new Date();
+          expiresAt.setDate(expiresAt.getDate() + expiresInDays);
+        }
+        
+        // Save to database
+        sharedFile = await storage.createSharedFile({
+          userId: userId,
+          accountId,
+          bucket,
+          shareType: type,
+          path: sharePath,
+          filename,
+          filesize: filesize || 0,
+          contentType: type === "file" ? contentType || "application/octet-stream" : null,
+          items,
+          shareToken,
+          expiresAt,
+          allowDownload: type === "request" ? false : allowDownload !== undefined ? allowDownload : true,
+          allowPreview: type === "request" ? false : allowPreview !== undefined ? allowPreview : true,
+          allowSubfolders: allowSubfolders !== undefined ? allowSubfolders : true,
+          password: await hashSharePassword(password),
+          ...requestSettings,
+        });
+      }
+      
+      console.log("Shared file created:", sharedFile.id);
+      
+      // Determine the URL to return based on direct S3 link preference
+      const appShareUrl = `${req.protocol}://${req.hostname}/shared/${sharedFile.shareToken}`;
+      // Only a single file has a direct S3 URL
+      const s3DirectUrl = type === "file" ? getObjectUrl(req.s3Account!, bucket, path || filename) : undefined;
+      
+      // Return with the shareable URL
+      res.status(201).json({
+        ...redactSharedFile(sharedFile),
+        shareUrl: directS3Link && s3DirectUrl ? s3DirectUrl : appShareUrl,
+        directS3Url: s3DirectUrl,
+        appShareUrl
+      });
+    } catch (error) {
+      console.error("Error creating shared file:", error);
+      res.status(500).json({ message: "Error creating shared file" });
+    }
+  });
+  
+  // Delete a shared file
+  app.delete("/api/shared-files/:id", isAuthenticated, requireSharedFile(), async (req: Request, res: Response) => {
+    try {
+      // Share resolved and ownership checked by requireSharedFile
+      const fileId = req.sharedFile!.id;
+      
+      // Delete the file
+      await storage.deleteSharedFile(fileId);
+      
+      res.status(200).json({ message: "File share deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting shared file:", error);
+      res.status(500).json({ message: "Error deleting shared file" });
+    }
+  });
+  
+  // Submissions a file request has received, newest first. Ones whose uploads
+  // all failed are left out.
+  app.get("/api/shared-files/:id/submissions", isAuthenticated, requireSharedFile(), async (req: Request, res: Response) => {
+    try {
+      // Share resolved and ownership checked by requireSharedFile
+      const submissions = await storage.getFileRequestSubmissions(req.sharedFile!.id);
+      
+      // The token lets anyone add files to a submission, so it stays with the uploader
+      res.json(submissions
+        .filter(submission => submission.fileCount > 0)
+        .map(({ token, ...submission }) => submission));
+    } catch (error) {
+      console.error("Error fetching file request submissions:", error);
+      res.status(500).json({ message: "Error fetching submissions" });
+    }
+  });
+  
+  // Get access logs for a shared file
+  app.get("/api/shared-files/:id/access-logs", isAuthenticated, requireSharedFile(), async (req: Request, res: Response) => {
+    try {
+      // Share resolved and ownership checked by requireSharedFile
+      const fileId = req.sharedFile!.id;
+      
+      // Get access logs
+      const logs = await storage.getFileAccessLogs(fileId);
+      
+      res.json(logs);
+    } catch (error) {
+      console.error("Error fetching access logs:", error);
+      res.status(500).json({ message: "Error fetching access logs" });
+    }
+  });
+  
+  // S3 file download route - generates a signed URL for downloading files
+  app.get("/api/s3/:accountId/download", isAuthenticated, requireS3Account(), async (req: Request, res: Response) => {
+    try {
+      const accountId = req.s3Account!.id;
+      
+      const bucket = req.query.bucket as string;
+      const key = req.query.key as string;
+      // Optional: download a specific version instead of the current one
+      const versionId = req.query.versionId as string | undefined;
+      
+      if (!bucket || !key) {
+        return res.status(400).json({ message: "Bucket and key are required" });
+      }
+      
+      // Generate signed URL for download
+      try {
+        // An archived object would give a broken download; explain instead
+        if (!versionId) {
+          const unreadable = await getUnreadableReason(accountId, bucket, key);
+          if (unreadable) {
+            return res.status(409).json({ 
+              message: unreadable.message, 
+              archived: true, 
+              restoreStatus: unreadable.restoreStatus 
+            });
+          }
+        }
+        
+        const signedUrl = await getDownloadUrl(accountId, bucket, key, 3600, versionId);
+        return res.json({ signedUrl });
+      } catch (error: any) {
+        console.error("Error generating download URL:", error);
+        return res.status(500).json({ 
+          message: "Error generating download URL", 
+          error: error.message || "Unknown error" 
+        });
+      }
+    } catch (error: any) {
+      console.error("Server error generating download URL:", error);
+      return res.status(500).json({ 
+        message: "Server error", 
+        error: error.message || "Unknown error" 
+      });
+    }
+  });
+  
+  // How to preview a file: its preview kind and, for media, a signed URL that opens inline
+  app.get("/api/s3/:accountId/preview", isAuthenticated, requireS3Account(), async (req: Request, res: Response) => {
+    try {
+      const accountId = req.s3Account!.id;
+      
+      const bucket = req.query.bucket as string;
+      const key = req.query.key as string;
+      if (!bucket || !key) {
+        return res.status(400).json({ message: "Bucket and key are required" });
+      }
+      
+      try {
+        const head = await getObjectMetadata(accountId, bucket, key);
+        const kind = getPreviewKind(key, head.ContentType);
+        if (!kind) {
+          return res.status(415).json({ message: "This type of file can't be previewed" });
+        }
+        if (!getArchiveState(head).isReadable) {
+          return res.status(409).json({ 
+            message: "This file is archived and must be restored before it can be previewed.", 
+            archived: true 
+          });
+        }
+        
+        // Text is fetched through the text preview route instead, so it can be size-capped
+        const url = kind === "text" || kind === "code"
+          ? undefined
+          : await getPreviewUrl(accountId, bucket, key, getPreviewContentType(key, head.ContentType)!);
+        return res.json({ kind, url, contentType: head.ContentType, size: head.ContentLength });
+      } catch (s3Error: any) {
+        console.error("S3 error preparing preview:", s3Error);
+        return res.status(400).json({ 
+          message: "Error preparing preview", 
+          error: s3Error.message || "Unknown S3 error" 
+        });
+      }
+    } catch (error: any) {
+      console.error("Server error preparing preview:", error);
+      return res.status(500).json({ 
+        message: "Server error preparing preview",
+        error: error.message || "Unknown error" 
+      });
+    }
+  });
+  
+  // The start of a text file, for the text and code previews
+  app.get("/api/s3/:accountId/preview/text", isAuthenticated, requireS3Account(), async (req: Request, res: Response) => {
+    try {
+      const accountId = req.s3Account!.id;
+      
+      const bucket = req.query.bucket as string;
+      const key = req.query.key as string;
+      if (!bucket || !key) {
+        return res.status(400).json({ message: "Bucket and key are required" });
+      }
+      
+      try {
+        const preview = await getObjectTextPreview(accountId, bucket, key, MAX_TEXT_PREVIEW_BYTES);
+        if ("error" in preview) {
+          return res.status(415).json({ message: preview.message });
+        }
+        return res.json(preview);
+      } catch (s3Error: any) {
+        console.error("S3 error reading text preview:", s3Error);
+        return res.status(400).json({ 
+          message: "Error reading file", 
+          error: s3Error.message || "Unknown S3 error" 
+        });
+      }
+    } catch (error: any) {
+      console.error("Server error reading text preview:", error);
+      return res.status(500).json({ 
+        message: "Server error reading file",
+        error: error.message || "Unknown error" 
+      });
+    }
+  });
+  
+  // Grid thumbnail of an image or video. Passing the ETag from the listing lets the
+  // browser keep the thumbnail for good, since a changed object gets a new URL.
+  app.get("/api/s3/:accountId/thumbnail", isAuthenticated, requireS3Account(), async (req: Request, res: Response) => {
+    try {
+      const accountId = req.s3Account!.id;
+      
+      const bucket = req.query.bucket as string;
+      const key = req.query.key as string;
+      const etag = req.query.etag as string | undefined;
+      if (!bucket || !key) {
+        return res.status(400).json({ message: "Bucket and key are required" });
+      }
+      
+      try {
+        const result = await getThumbnail(accountId, bucket, key, etag || undefined);
+        if ("error" in result) {
+          const status = { unsupported: 415, archived: 409, unavailable: 501, failed: 422 }[result.error];
+          return res.status(status).json({ message: result.message });
+        }
+        
+        const current = !!etag && etag.replace(/"/g, "") === result.etag.replace(/"/g, "");
+        res.set("Cache-Control", current ? "private, max-age=31536000, immutable" : "private, no-cache");
+        return res.type("image/jpeg").send(result.image);
+      } catch (s3Error: any) {
+        console.error("S3 error loading thumbnail:", s3Error);
+        return res.status(400).json({ 
+          message: "Error loading thumbnail", 
+          error: s3Error.message || "Unknown S3 error" 
+        });
+      }
+    } catch (error: any) {
+      console.error("Server error loading thumbnail:", error);
+      return res.status(500).json({ 
+        message: "Server error loading thumbnail",
+        error: error.message || "Unknown error" 
+      });
+    }
+  });
+  
+  // A text file's full contents and ETag, for the editor
+  app.get("/api/s3/:accountId/object-text", isAuthenticated, requireS3Account(), async (req: Request, res: Response) => {
+    try {
+      const accountId = req.s3Account!.id;
+      
+      const bucket = req.query.bucket as string;
+      const key = req.query.key as string;
+      if (!bucket || !key) {
+        return res.status(400).json({ message: "Bucket and key are required" });
+      }
+      
+      try {
+        const result = await loadEditableText(accountId, bucket, key);
+        if ("error" in result) {
+          const status = { unsupported: 415, "too-large": 413, archived: 409 }[result.error];
+          return res.status(status).json({ message: result.message });
+        }
+        return res.json(result);
+      } catch (s3Error: any) {
+        console.error("S3 error opening file for editing:", s3Error);
+        return res.status(400).json({ 
+          message: "Error opening file", 
+          error: s3Error.message || "Unknown S3 error" 
+        });
+      }
+    } catch (error: any) {
+      console.error("Server error opening file for editing:", error);
+      return res.status(500).json({ 
+        message: "Server error opening file",
+        error: error.message || "Unknown error" 
+      });
+    }
+  });
+  
+  // Save edited text over a file. Refused with 409 if the file no longer has the
+  // ETag it was opened with, and with 422 if a JSON or YAML file doesn't parse.
+  app.put("/api/s3/:accountId/object-text", isAuthenticated, requireS3Account(), async (req: Request, res: Response) => {
+    try {
+      const accountId = req.s3Account!.id;
+      
+      const { bucket, key, text, etag } = req.body;
+      if (!bucket || !key || typeof text !== "string" || !etag) {
+        return res.status(400).json({ message: "Bucket, key, text and the ETag the file was opened with are required" });
+      }
+      
+      try {
+        const result = await saveEditedText(accountId, bucket, key, text, etag);
+        if ("error" in result) {
+          const status = { "too-large": 413, invalid: 422, conflict: 409 }[result.error];
+          return res.status(status).json(result);
+        }
+        await refreshInIndex(accountId, bucket, [key]);
+        return res.json(result);
+      } catch (s3Error: any) {
+        console.error("S3 error saving file:", s3Error);
+        return res.status(400).json({ 
+          message: "Error saving file", 
+          error: s3Error.message || "Unknown S3 error" 
+        });
+      }
+    } catch (error: any) {
+      console.error("Server error saving file:", error);
+      return res.status(500).json({ 
+        message: "Server error saving file",
+        error: error.message || "Unknown error" 
+      });
+    }
+  });
+  
+  // Check which of the given keys already exist, e.g. before uploading over them
+  app.post("/api/s3/:accountId/objects/exists", isAuthenticated, requireS3Account(), async (req: Request, res: Response) => {
+    try {
+      const accountId = req.s3Account!.id;
+      
+      const { bucket, keys } = req.body;
+      if (!bucket || !Array.isArray(keys)) {
+        return res.status(400).json({ message: "Bucket and a keys array are required" });
+      }
+      if (keys.length > MAX_EXISTS_CHECK_KEYS) {
+        return res.status(400).json({ message: `At most ${MAX_EXISTS_CHECK_KEYS} keys can be checked at once` });
+      }
+      
+      try {
+        const existing = await findExistingKeys(accountId, bucket, keys);
+        return res.json({ existing });
+      } catch (s3Error: any) {
+        console.error("S3 error checking objects:", s3Error);
+        return res.status(400).json({ 
+          message: "Error checking objects", 
+          error: s3Error.message || "Unknown S3 error" 
+        });
+      }
+    } catch (error: any) {
+      console.error("Server error checking objects:", error);
+      return res.status(500).json({ 
+        message: "Server error checking objects",
+        error: error.message || "Unknown error" 
+      });
+    }
+  });
+  
+  // Delete a single object, or everything under a folder when the key ends with "/"
+  app.delete("/api/s3/:accountId/objects", isAuthenticated, requireS3Account(), async (req: Request, res: Response) => {
+    try {
+      const accountId = req.s3Account!.id;
+      
+      const bucket = req.query.bucket as string;
+      const key = req.query.key as string;
+      if (!bucket || !key) {
+        return res.status(400).json({ message: "Bucket and key are required" });
+      }
+      
+      try {
+        if (!isFolderKey(key)) {
+          await deleteObject(accountId, bucket, key);
+          await removeFromIndex(accountId, bucket, [key]);
+          return res.json({ deleted: [key], errors: [] });
+        }
+        
+        const expanded = await expandKeys(accountId, bucket, [key]);
+        const result = await deleteObjects(accountId, bucket, expanded.keys);
+        await removeFromIndex(accountId, bucket, result.deleted);
+        const errors = [...expanded.errors, ...result.errors];
+        
+        if (result.deleted.length === 0 && errors.length > 0) {
+          return res.status(400).json({ message: "Error deleting folder", deleted: [], errors });
+        }
+        return res.json({ deleted: result.deleted, errors });
+      } catch (s3Error: any) {
+        console.error("S3 error deleting object:", s3Error);
+        return res.status(400).json({ 
+          message: "Error deleting object", 
+          error: s3Error.message || "Unknown S3 error" 
+        });
+      }
+    } catch (error: any) {
+      console.error("Server error deleting object:", error);
+      return res.status(500).json({ 
+        message: "Server error deleting object",
+        error: error.message || "Unknown error" 
+      });
+    }
+  });
+  
+  // List every version and delete marker of an object
+  app.get("/api/s3/:accountId/versions", isAuthenticated, requireS3Account(), async (req: Request, res: Response) => {
+    try {
+      const accountId = req.s3Account!.id;
+      
+      const bucket = req.query.bucket as string;
+      const key = req.query.key as string;
+      if (!bucket || !key) {
+        return res.status(400).json({ message: "Bucket and key are required" });
+      }
+      
+      try {
+        const versions = await listObjectVersions(accountId, bucket, key);
+        return res.json({ versions });
+      } catch (s3Error: any) {
+        console.error("S3 error listing object versions:", s3Error);
+        return res.status(400).json({ 
+          message: "Error listing object versions", 
+          error: s3Error.message || "Unknown S3 error" 
+        });
+      }
+    } catch (error: any) {
+      console.error("Server error listing object versions:", error);
+      return res.status(500).json({ 
+        message: "Server error listing object versions",
+        error: error.message || "Unknown error" 
+      });
+    }
+  });
+  
+  // Make an old version current again by copying it over the object
+  app.post("/api/s3/:accountId/versions/restore", isAuthenticated, requireS3Account(), async (req: Request, res: Response) => {
+    try {
+      const accountId = req.s3Account!.id;
+      
+      const { bucket, key, versionId } = req.body;
+      if (!bucket || !key || !versionId) {
+        return res.status(400).json({ message: "Bucket, key and versionId are required" });
+      }
+      
+      try {
+        const result = await copyObject(accountId, bucket, key, bucket, key, versionId);
+        await refreshInIndex(accountId, bucket, [key]);
+        return res.json({ key, versionId: result.VersionId });
+      } catch (s3Error: any) {
+        console.error("S3 error restoring object version:", s3Error);
+        return res.status(400).json({ 
+          message: "Error restoring object version", 
+          error: s3Error.message || "Unknown S3 error" 
+        });
+      }
+    } catch (error: any) {
+      console.error("Server error restoring object version:", error);
+      return res.status(500).json({ 
+        message: "Server error restoring object version",
+        error: error.message || "Unknown error" 
+      });
+    }
+  });
+  
+  // Permanently delete one version. Deleting a delete marker undeletes the object.
+  app.delete("/api/s3/:accountId/versions", isAuthenticated, requireS3Account(), async (req: Request, res: Response) => {
+    try {
+      const accountId = req.s3Account!.id;
+      
+      const bucket = req.query.bucket as string;
+      const key = req.query.key as string;
+      const versionId = req.query.versionId as string;
+      if (!bucket || !key || !versionId) {
+        return res.status(400).json({ message: "Bucket, key and versionId are required" });
+      }
+      
+      try {
+        await deleteObject(accountId, bucket, key, versionId);
+        // The current version may have changed or be gone
+        await refreshInIndex(accountId, bucket, [key]);
+        return res.json({ key, versionId });
+      } catch (s3Error: any) {
+        console.error("S3 error deleting object version:", s3Error);
+        return res.status(400).json({ 
+          message: "Error deleting object version", 
+          error: s3Error.message || "Unknown S3 error" 
+        });
+      }
+    } catch (error: any) {
+      console.error("Server error deleting object version:", error);
+      return res.status(500).json({ 
+        message: "Server error deleting object version",
+        error: error.message || "Unknown error" 
+      });
+    }
+  });
+  
+  // Deleted objects in a folder of a versioned bucket (current version is a delete marker)
+  app.get("/api/s3/:accountId/deleted-objects", isAuthenticated, requireS3Account(), async (req: Request, res: Response) => {
+    try {
+      const accountId = req.s3Account!.id;
+      
+      const bucket = req.query.bucket as string;
+      const prefix = (req.query.prefix as string) || "";
+      if (!bucket) {
+        return res.status(400).json({ message: "Bucket is required" });
+      }
+      
+      try {
+        const objects = await listDeletedObjects(accountId, bucket, prefix);
+        return res.json({ objects });
+      } catch (s3Error: any) {
+        console.error("S3 error listing deleted objects:", s3Error);
+        return res.status(400).json({ 
+          message: "Error listing deleted objects", 
+          error: s3Error.message || "Unknown S3 error" 
+        });
+      }
+    } catch (error: any) {
+      console.error("Server error listing deleted objects:", error);
+      return res.status(500).json({ 
+        message: "Server error listing deleted objects",
+        error: error.message || "Unknown error" 
+      });
+    }
+  });
+  
+  // System metadata, user metadata and tags of one object
+  app.get("/api/s3/:accountId/object-details", isAuthenticated, requireS3Account(), async (req: Request, res: Response) => {
+    try {
+      const accountId = req.s3Account!.id;
+      
+      const bucket = req.query.bucket as string;
+      const key = req.query.key as string;
+      if (!bucket || !key) {
+        return res.status(400).json({ message: "Bucket and key are required" });
+      }
+      
+      try {
+        const details = await getObjectDetails(accountId, bucket, key);
+        return res.json(details);
+      } catch (s3Error: any) {
+        console.error("S3 error fetching object details:", s3Error);
+        return res.status(400).json({ 
+          message: "Error fetching object details", 
+          error: s3Error.message || "Unknown S3 error" 
+        });
+      }
+    } catch (error: any) {
+      console.error("Server error fetching object details:", error);
+      return res.status(500).json({ 
+        message: "Server error fetching object details",
+        error: error.message || "Unknown error" 
+      });
+    }
+  });
+  
+  // Edit metadata and tags of one or more objects (folders included recursively).
+  // Metadata changes rewrite each object with an in-place copy.
+  app.post("/api/s3/:accountId/object-metadata", isAuthenticated, requireS3Account(), async (req: Request, res: Response) => {
+    try {
+      const accountId = req.s3Account!.id;
+      
+      const { bucket, keys, update } = req.body;
+      if (!bucket || !Array.isArray(keys) || keys.length === 0 || !update || typeof update !== "object") {
+        return res.status(400).json({ message: "Bucket, a non-empty keys array and an update are required" });
+      }
+      
+      const validationError = validateMetadataUpdate(update);
+      if (validationError) {
+        return res.status(400).json({ message: validationError });
+      }
+      
+      const expanded = await expandKeys(accountId, bucket, keys);
+      const result = await updateObjectsMetadata(accountId, bucket, expanded.keys, update);
+      await refreshInIndex(accountId, bucket, result.updated);
+      const errors = [...expanded.errors, ...result.errors];
+      
+      if (result.updated.length === 0 && errors.length > 0) {
+        return res.status(400).json({ message: "Error updating metadata", updated: [], errors });
+      }
+      return res.json({ updated: result.updated, errors });
+    } catch (error: any) {
+      console.error("Server error updating metadata:", error);
+      return res.status(500).json({ 
+        message: "Server error updating metadata",
+        error: error.message || "Unknown error" 
+      });
+    }
+  });
+  
+  // Change the storage class of one or more objects with an in-place copy
+  app.post("/api/s3/:accountId/storage-class", isAuthenticated, requireS3Account(), async (req: Request, res: Response) => {
+    try {
+      const accountId = req.s3Account!.id;
+      
+      const { bucket, keys, storageClass } = req.body;
+      if (!bucket || !Array.isArray(keys) || keys.length === 0) {
+        return res.status(400).json({ message: "Bucket and a non-empty keys array are required" });
+      }
+      if (!STORAGE_CLASSES.includes(storageClass)) {
+        return res.status(400).json({ message: `storageClass must be one of ${STORAGE_CLASSES.join(", ")}` });
+      }
+      
+      const expanded = await expandKeys(accountId, bucket, keys);
+      const result = await changeStorageClasses(accountId, bucket, expanded.keys, storageClass);
+      await refreshInIndex(accountId, bucket, result.updated);
+      const errors = [...expanded.errors, ...result.errors];
+      
+      if (result.updated.length === 0 && errors.length > 0) {
+        return res.status(400).json({ message: "Error changing storage class", updated: [], errors });
+      }
+      return res.json({ updated: result.updated, errors });
+    } catch (error: any) {
+      console.error("Server error changing storage class:", error);
+      return res.status(500).json({ 
+        message: "Server error changing storage class",
+        error: error.message || "Unknown error" 
+      });
+    }
+  });
+  
+  // Request a temporary restore of archived (Glacier / Deep Archive) objects
+  app.post("/api/s3/:accountId/restore", isAuthenticated, requireS3Account(), async (req: Request, res: Response) => {
+    try {
+      const accountId = req.s3Account!.id;
+      
+      const { bucket, keys, tier = "Standard" } = req.body;
+      const days = parseInt(req.body.days);
+      if (!bucket || !Array.isArray(keys) || keys.length === 0) {
+        return res.status(400).json({ message: "Bucket and a non-empty keys array are required" });
+      }
+      if (isNaN(days) || days < 1) {
+        return res.status(400).json({ message: "days must be a positive number" });
+      }
+      if (!RESTORE_TIERS.includes(tier)) {
+        return res.status(400).json({ message: `tier must be one of ${RESTORE_TIERS.join(", ")}` });
+      }
+      
+      const expanded = await expandKeys(accountId, bucket, keys);
+      const result = await restoreObjects(accountId, bucket, expanded.keys, days, tier);
+      const errors = [...expanded.errors, ...result.errors];
+      
+      if (result.requested.length === 0 && errors.length > 0) {
+        return res.status(400).json({ message: "Error requesting restore", requested: [], errors });
+      }
+      return res.json({ requested: result.requested, errors });
+    } catch (error: any) {
+      console.error("Server error requesting restore:", error);
+      return res.status(500).json({ 
+        message: "Server error requesting restore",
+        error: error.message || "Unknown error" 
+      });
+    }
+  });
+  
+  // Bucket lifecycle rules, in the editor's rule format
+  app.get("/api/s3/:accountId/lifecycle", isAuthenticated, requireS3Account(), async (req: Request, res: Response) => {
+    try {
+      const accountId = req.s3Account!.id;
+      
+      const bucket = req.query.bucket as string;
+      if (!bucket) {
+        return res.status(400).json({ message: "Bucket is required" });
+      }
+      
+      try {
+        const rules = await getBucketLifecycle(accountId, bucket);
+        return res.json({ rules: fromS3LifecycleRules(rules) });
+      } catch (s3Error: any) {
+        console.error("S3 error getting lifecycle configuration:", s3Error);
+        return res.status(400).json({ 
+          message: "Error getting lifecycle configuration", 
+          error: s3Error.message || "Unknown S3 error" 
+        });
+      }
+    } catch (error: any) {
+      console.error("Server error getting lifecycle configuration:", error);
+      return res.status(500).json({ 
+        message: "Server error getting lifecycle configuration",
+        error: error.message || "Unknown error" 
+      });
+    }
+  });
+  
+  // Replace a bucket's lifecycle rules; an empty list removes the configuration
+  app.put("/api/s3/:accountId/lifecycle", isAuthenticated, requireS3Account(), async (req: Request, res: Response) => {
+    try {
+      const accountId = req.s3Account!.id;
+      
+      const { bucket } = req.body;
+      if (!bucket) {
+        return res.status(400).json({ message: "Bucket is required" });
+      }
+      
+      const { rules, errors } = validateLifecycleRules(req.body.rules);
+      if (errors.length > 0) {
+        return res.status(400).json({ message: `Invalid lifecycle configuration: ${errors[0]}`, errors });
+      }
+      
+      try {
+        await putBucketLifecycle(accountId, bucket, toS3LifecycleRules(rules));
+        return res.json({ rules });
+      } catch (s3Error: any) {
+        console.error("S3 error saving lifecycle configuration:", s3Error);
+        return res.status(400).json({ 
+          message: "Error saving lifecycle configuration", 
+          error: s3Error.message || "Unknown S3 error" 
+        });
+      }
+    } catch (error: any) {
+      console.error("Server error saving lifecycle configuration:", error);
+      return res.status(500).json({ 
+        message: "Server error saving lifecycle configuration",
+        error: error.message || "Unknown error" 
+      });
+    }
+  });
+  
+  // Batch delete. Folder keys are deleted recursively; S3 calls are chunked at 1000 keys.
+  app.post("/api/s3/:accountId/batch-delete", isAuthenticated, requireS3Account(), async (req: Request, res: Response) => {
+    try {
+      const accountId = req.s3Account!.id;
+      
+      const { bucket, keys } = req.body;
+      if (!bucket || !Array.isArray(keys) || keys.length === 0) {
+        return res.status(400).json({ message: "Bucket and a non-empty keys array are required" });
+      }
+      
+      const expanded = await expandKeys(accountId, bucket, keys);
+      const result = await deleteObjects(accountId, bucket, expanded.keys);
+      await removeFromIndex(accountId, bucket, result.deleted);
+      
+      return res.json({
+        deleted: result.deleted,
+        errors: [...expanded.errors, ...result.errors],
+      });
+    } catch (error: any) {
+      console.error("Server error deleting objects:", error);
+      return res.status(500).json({ 
+        message: "Server error deleting objects",
+        error: error.message || "Unknown error" 
+      });
+    }
+  });
+  
+  // Batch copy into a destination bucket/prefix. Folders are copied recursively.
+  app.post("/api/s3/:accountId/batch-copy", isAuthenticated, requireS3Account(), async (req: Request, res: Response) => {
+    try {
+      const accountId = req.s3Account!.id;
+      
+      const { sourceBucket, destinationBucket, destinationPrefix = "", keys } = req.body;
+      if (!sourceBucket || !destinationBucket || !Array.isArray(keys) || keys.length === 0) {
+        return res.status(400).json({ message: "Source bucket, destination bucket and a non-empty keys array are required" });
+      }
+      
+      const plan = await planTransfers(accountId, sourceBucket, keys, destinationBucket, destinationPrefix);
+      const result = await copyTransfers(accountId, sourceBucket, destinationBucket, plan.transfers);
+      await refreshInIndex(accountId, destinationBucket, result.copied.map(transfer => transfer.destinationKey));
+      
+      return res.json({
+        copied: result.copied.map(transfer => transfer.sourceKey),
+        errors: [...plan.errors, ...result.errors],
+      });
+    } catch (error: any) {
+      console.error("Server error copying objects:", error);
+      return res.status(500).json({ 
+        message: "Server error copying objects",
+        error: error.message || "Unknown error" 
+      });
+    }
+  });
+  
+  // Batch move: copy, then delete the originals. Keys that were copied but whose
+  // original could not be deleted are returned in copiedNotDeleted.
+  app.post("/api/s3/:accountId/batch-move", isAuthenticated, requireS3Account(), async (req: Request, res: Response) => {
+    try {
+      const accountId = req.s3Account!.id;
+      
+      const { sourceBucket, destinationBucket, destinationPrefix = "", keys } = req.body;
+      if (!sourceBucket || !destinationBucket || !Array.isArray(keys) || keys.length === 0) {
+        return res.status(400).json({ message: "Source bucket, destination bucket and a non-empty keys array are required" });
+      }
+      
+      const plan = await planTransfers(accountId, sourceBucket, keys, destinationBucket, destinationPrefix);
+      const result = await moveTransfers(accountId, sourceBucket, destinationBucket, plan.transfers);
+      await removeFromIndex(accountId, sourceBucket, result.moved.map(transfer => transfer.sourceKey));
+      await refreshInIndex(accountId, destinationBucket, [...result.moved, ...result.copiedNotDeleted].map(transfer => transfer.destinationKey));
+      
+      if (result.copiedNotDeleted.length > 0) {
+        console.warn(`Move left ${result.copiedNotDeleted.length} object(s) in both ${sourceBucket} and ${destinationBucket}`);
+      }
+      
+      return res.json({
+        moved: result.moved.map(transfer => transfer.sourceKey),
+        errors: [...plan.errors, ...result.errors],
+        copiedNotDeleted: result.copiedNotDeleted,
+      });
+    } catch (error: any) {
+      console.error("Server error moving objects:", error);
+      return res.status(500).json({ 
+        message: "Server error moving objects",
+        error: error.message || "Unknown error" 
+      });
+    }
+  });
+  
+  // Prepare a ZIP download of selected keys and folders. Returns a single-use link
+  // that streams the archive, so size errors can be reported before the download starts.
+  app.post("/api/s3/:accountId/batch-download", isAuthenticated, requireS3Account(), async (req: Request, res: Response) => {
+    try {
+      const accountId = req.s3Account!.id;
+      
+      const { bucket, keys } = req.body;
+      if (!bucket || !Array.isArray(keys) || keys.length === 0) {
+        return res.status(400).json({ message: "Bucket and a non-empty keys array are required" });
+      }
+      
+      const plan = await planArchive(accountId, bucket, keys);
+      if (plan.entries.length === 0) {
+        return res.status(400).json({ message: "No files to download", errors: plan.errors });
+      }
+      
+      const maxBytes = getMaxArchiveBytes();
+      if (plan.totalBytes > maxBytes) {
+        return res.status(413).json({ 
+          message: `Selection is ${plan.totalBytes} bytes, which is over the ${maxBytes} byte download limit`,
+          totalBytes: plan.totalBytes,
+          maxBytes,
+        });
+      }
+      
+      const token = createArchiveJob({
+        userId: String(req.user?.id),
+        accountId,
+        bucket,
+        archiveName: getArchiveName(bucket, keys),
+        entries: plan.entries,
+        totalBytes: plan.totalBytes,
+      });
+      
+      return res.json({
+        downloadUrl: `/api/s3/${accountId}/batch-download/${token}`,
+        fileCount: plan.entries.length,
+        totalBytes: plan.totalBytes,
+        errors: plan.errors,
+      });
+    } catch (error: any) {
+      console.error("Server error preparing download:", error);
+      return res.status(500).json({ 
+        message: "Server error preparing download",
+        error: error.message || "Unknown error" 
+      });
     }
   });
   
-  // S3 file download route - generates a signed URL for downloading files
-  app.get("/api/s3/:accountId/download", isAuthenticated, async (req: Request, res: Response) => {
+  // Stream a prepared ZIP archive straight from S3
+  app.get("/api/s3/:accountId/batch-download/:token", isAuthenticated, requireS3Account(), async (req: Request, res: Response) => {
     try {
-      const accountId = parseInt(req.params.accountId);
-      if (isNaN(accountId)) {
-        return res.status(400).json({ message: "Invalid account ID format" });
+      const job = takeArchiveJob(req.params.token);
+      if (!job || job.accountId !== req.s3Account!.id || job.userId !== String(req.user?.id)) {
+        return res.status(404).json({ message: "Download link not found or expired" });
       }
       
-      const bucket = req.query.bucket as string;
-      const key = req.query.key as string;
-      
-      if (!bucket || !key) {
-        return res.status(400).json({ message: "Bucket and key are required" });
+      await streamArchive(job, res);
+    } catch (error: any) {
+      console.error("Server error streaming download:", error);
+      if (res.headersSent) {
+        return res.destroy();
       }
+      return res.status(500).json({ 
+        message: "Server error streaming download",
+        error: error.message || "Unknown error" 
+      });
+    }
+  });
+  
+  // Rename a file, or a folder (key ending with "/") and everything under it
+  app.post("/api/s3/:accountId/rename", isAuthenticated, requireS3Account(), async (req: Request, res: Response) => {
+    try {
+      const accountId = req.s3Account!.id;
       
-      // Get account from database to verify ownership and credentials
-      const account = await storage.getS3Account(accountId);
-      
-      // Check if the account exists (temporarily disabling user check since we're debugging)
-      if (!account) {
-        return res.status(404).json({ message: "S3 account not found" });
+      const { bucket, sourceKey } = req.body;
+      const newName = typeof req.body.newName === "string" ? req.body.newName.trim() : "";
+      if (!bucket || !sourceKey) {
+        return res.status(400).json({ message: "Bucket and source key are required" });
+      }
+      if (!newName || newName.includes("/")) {
+        return res.status(400).json({ message: "New name must be non-empty and cannot contain '/'" });
       }
       
-      // Note: We've temporarily removed the user ID check while debugging permissions
+      const isFolder = isFolderKey(sourceKey);
+      const newKey = getParentPrefix(sourceKey) + newName + (isFolder ? "/" : "");
+      if (newKey === sourceKey) {
+        return res.json({ newKey });
+      }
       
-      // Generate signed URL for download
       try {
-        const signedUrl = await getDownloadUrl(accountId, bucket, key);
-        return res.json({ signedUrl });
-      } catch (error: any) {
-        console.error("Error generating download URL:", error);
-        return res.status(500).json({ 
-          message: "Error generating download URL", 
-          error: error.message || "Unknown error" 
+        // Refuse to overwrite an existing object or merge into an existing folder
+        const existing = await listObjects(accountId, bucket, newKey, "", { pageSize: 1 });
+        if (existing.objects.some(object => isFolder || object.Key === newKey)) {
+          return res.status(409).json({ message: `${newName} already exists` });
+        }
+        
+        const sourceKeys = isFolder ? await listAllObjectKeys(accountId, bucket, sourceKey) : [sourceKey];
+        if (sourceKeys.length === 0) {
+          return res.status(404).json({ message: "Object not found" });
+        }
+        
+        const transfers = sourceKeys.map(key => ({
+          sourceKey: key,
+          destinationKey: newKey + key.slice(sourceKey.length),
+        }));
+        const result = await moveTransfers(accountId, bucket, bucket, transfers);
+        await removeFromIndex(accountId, bucket, result.moved.map(transfer => transfer.sourceKey));
+        await refreshInIndex(accountId, bucket, [...result.moved, ...result.copiedNotDeleted].map(transfer => transfer.destinationKey));
+        
+        if (result.errors.length > 0) {
+          return res.status(400).json({
+            message: `Rename did not complete: ${result.errors.length} object(s) failed`,
+            newKey,
+            moved: result.moved.map(transfer => transfer.sourceKey),
+            errors: result.errors,
+            copiedNotDeleted: result.copiedNotDeleted,
+          });
+        }
+        
+        return res.json({ newKey });
+      } catch (s3Error: any) {
+        console.error("S3 error renaming object:", s3Error);
+        return res.status(400).json({ 
+          message: "Error renaming object", 
+          error: s3Error.message || "Unknown S3 error" 
         });
       }
     } catch (error: any) {
-      console.error("Server error generating download URL:", error);
+      console.error("Server error renaming object:", error);
       return res.status(500).json({ 
-        message: "Server error", 
+        message: "Server error renaming object",
         error: error.message || "Unknown error" 
       });
     }
   });
   
-  // Public access to shared files
+  // Public access to shared files. Password-protected shares need the access
+  // cookie issued by the POST route below.
   app.get("/api/shared/:token", async (req: Request, res: Response) => {
+    try {
+      const sharedFile = await getAccessibleShare(req, res);
+      if (!sharedFile) return;
+      
+      await sendSharedFileAccess(req, res, sharedFile);
+    } catch (error) {
+      console.error("Error accessing shared file:", error);
+      res.status(500).json({ message: "Error accessing shared file" });
+    }
+  });
+  
+  // Unlock a password-protected share. Failures are rate limited per token and
+  // per IP; a correct password sets a short-lived access cookie.
+  app.post("/api/shared/:token", async (req: Request, res: Response) => {
     try {
       const { token } = req.params;
-      const password = req.query.password as string;
+      const password = typeof req.body?.password === "string" ? req.body.password : "";
+      const ip = getClientIp(req);
+      
+      const lockoutMs = getShareLockout(token, ip);
+      if (lockoutMs > 0) {
+        res.set("Retry-After", String(Math.ceil(lockoutMs / 1000)));
+        return res.status(429).json({ 
+          message: "Too many incorrect password attempts. Please try again later.",
+          retryAfter: Math.ceil(lockoutMs / 1000)
+        });
+      }
       
       // Find the shared file
-      const sharedFile = await storage.getSharedFileByToken(token);
+      let sharedFile = await storage.getSharedFileByToken(token);
       
       if (!sharedFile) {
         return res.status(404).json({ message: "Shared file not found or has expired" });
@@ -689,7 +2305,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(410).json({ message: "This shared file has expired" });
       }
       
-      // Check if password is required
       if (sharedFile.password) {
         if (!password) {
           return res.status(401).json({ 
@@ -698,78 +2313,285 @@ export async function registerRoutes(app: Express): Promise<Server> {
           });
         }
         
-        // Verify password (in a real app, use a proper password comparison)
-        if (password !== sharedFile.password) {
+        if (!(await verifySharePassword(password, sharedFile.password))) {
+          recordShareFailure(token, ip);
           return res.status(401).json({ 
             message: "Incorrect password", 
             passwordRequired: true 
           });
         }
+        
+        clearShareFailures(token, ip);
+        
+        // Shares created before passwords were hashed get upgraded on first use
+        if (!isHashedSharePassword(sharedFile.password)) {
+          const updatedFile = await storage.updateSharedFile(sharedFile.id, {
+            password: await hashSharePassword(password)
+          });
+          if (updatedFile) {
+            sharedFile = updatedFile;
+          }
+        }
+        
+        setShareAccessCookie(res, token, sharedFile.password!);
+      }
+      
+      await sendSharedFileAccess(req, res, sharedFile);
+    } catch (error) {
+      console.error("Error accessing shared file:", error);
+      res.status(500).json({ message: "Error accessing shared file" });
+    }
+  });
+  
+  // Text preview on a share page; the share must allow previews and be unlocked
+  app.get("/api/shared/:token/preview/text", async (req: Request, res: Response) => {
+    try {
+      const sharedFile = await getAccessibleShare(req, res);
+      if (!sharedFile) return;
+      
+      const key = sharedFile.path || sharedFile.filename;
+      const kind = getPreviewKind(key, sharedFile.contentType);
+      if (getShareType(sharedFile) !== "file" || !sharedFile.allowPreview || (kind !== "text" && kind !== "code")) {
+        return res.status(403).json({ message: "This file can't be previewed" });
+      }
+      
+      try {
+        const preview = await getObjectTextPreview(sharedFile.accountId, sharedFile.bucket, key, MAX_TEXT_PREVIEW_BYTES);
+        if ("error" in preview) {
+          return res.status(415).json({ message: preview.message });
+        }
+        return res.json(preview);
+      } catch (s3Error: any) {
+        console.error("S3 error reading shared text preview:", s3Error);
+        return res.status(400).json({ message: "Error reading file" });
+      }
+    } catch (error) {
+      console.error("Error previewing shared file:", error);
+      res.status(500).json({ message: "Error previewing shared file" });
+    }
+  });
+  
+  // One folder of a folder share, or the files of a collection. Paths are
+  // relative to the share and resolved so they can't leave it.
+  app.get("/api/shared/:token/list", async (req: Request, res: Response) => {
+    try {
+      const sharedFile = await getAccessibleShare(req, res);
+      if (!sharedFile) return;
+      
+      if (!isBrowsableShare(sharedFile)) {
+        return res.status(400).json({ message: "This share can't be browsed" });
       }
       
-      // Increment access count
-      await storage.incrementAccessCount(sharedFile.id);
+      const relativePath = typeof req.query.path === "string" ? req.query.path : "";
+      const continuationToken = req.query.continuationToken as string | undefined;
       
-      // Log access - but don't let it break the main functionality
       try {
-        await storage.logFileAccess({
-          fileId: sharedFile.id,
-          ipAddress: req.ip || req.socket.remoteAddress || '',
-          userAgent: req.headers['user-agent'] || '',
-        });
-      } catch (logError) {
-        console.error("Error logging file access:", logError);
-        // Continue even if logging fails
+        const listing = await listShare(sharedFile, relativePath, continuationToken);
+        if (!listing) {
+          return res.status(404).json({ message: "Folder not found in this share" });
+        }
+        return res.json(listing);
+      } catch (s3Error: any) {
+        console.error("S3 error listing shared folder:", s3Error);
+        return res.status(400).json({ message: "Error listing shared folder" });
+      }
+    } catch (error) {
+      console.error("Error listing shared folder:", error);
+      res.status(500).json({ message: "Error listing shared folder" });
+    }
+  });
+  
+  // Download link for one file of a folder or collection share
+  app.get("/api/shared/:token/file", async (req: Request, res: Response) => {
+    try {
+      const sharedFile = await getAccessibleShare(req, res);
+      if (!sharedFile) return;
+      
+      if (!sharedFile.allowDownload) {
+        return res.status(403).json({ message: "Downloads are not allowed for this share" });
       }
       
-      // Create signed URL for download
-      const s3Account = await storage.getS3Account(sharedFile.accountId);
-      let signedUrl = '';
-      let directS3Url = '';
+      const key = resolveSharedFile(sharedFile, typeof req.query.path === "string" ? req.query.path : "");
+      if (!key) {
+        return res.status(404).json({ message: "File not found in this share" });
+      }
       
       try {
-        signedUrl = await getDownloadUrl(
-          sharedFile.accountId, 
-          sharedFile.bucket, 
-          sharedFile.path || sharedFile.filename
-        );
+        const unreadable = await getUnreadableReason(sharedFile.accountId, sharedFile.bucket, key);
+        if (unreadable) {
+          return res.status(409).json({ 
+            message: unreadable.message, 
+            archived: true, 
+            restoreStatus: unreadable.restoreStatus 
+          });
+        }
         
-        // Generate a direct S3 URL as a fallback
-        directS3Url = `https://${sharedFile.bucket}.s3.amazonaws.com/${sharedFile.path || sharedFile.filename}`;
-      } catch (error) {
-        console.error("Error generating download URL:", error);
-        return res.status(500).json({ message: "Error generating download URL" });
+        await logShareAccess(req, sharedFile);
+        const url = await getDownloadUrl(sharedFile.accountId, sharedFile.bucket, key);
+        return res.json({ url });
+      } catch (s3Error: any) {
+        console.error("S3 error downloading shared file:", s3Error);
+        return res.status(400).json({ message: "Error downloading file" });
       }
+    } catch (error) {
+      console.error("Error downloading shared file:", error);
+      res.status(500).json({ message: "Error downloading shared file" });
+    }
+  });
+  
+  // Prepare a ZIP of a shared folder (or one of its subfolders) or a whole
+  // collection. Returns a single-use link, like the batch download route.
+  app.post("/api/shared/:token/archive", async (req: Request, res: Response) => {
+    try {
+      const sharedFile = await getAccessibleShare(req, res);
+      if (!sharedFile) return;
       
-      // Return file access details
-      res.json({
-        filename: sharedFile.filename,
-        contentType: sharedFile.contentType,
-        filesize: sharedFile.filesize,
-        signedUrl,
-        directS3Url,
-        allowDownload: sharedFile.allowDownload,
-        expiresAt: sharedFile.expiresAt,
+      if (!isBrowsableShare(sharedFile)) {
+        return res.status(400).json({ message: "This share can't be browsed" });
+      }
+      if (!sharedFile.allowDownload) {
+        return res.status(403).json({ message: "Downloads are not allowed for this share" });
+      }
+      
+      const relativePath = typeof req.body?.path === "string" ? req.body.path : "";
+      const plan = await planShareArchive(sharedFile, relativePath);
+      if (!plan) {
+        return res.status(404).json({ message: "Folder not found in this share" });
+      }
+      if (plan.entries.length === 0) {
+        return res.status(400).json({ message: "No files to download", errors: plan.errors });
+      }
+      
+      const maxBytes = getMaxArchiveBytes();
+      if (plan.totalBytes > maxBytes) {
+        return res.status(413).json({ 
+          message: `This folder is ${plan.totalBytes} bytes, which is over the ${maxBytes} byte download limit`,
+          totalBytes: plan.totalBytes,
+          maxBytes,
+        });
+      }
+      
+      const folderName = relativePath.replace(/\/$/, "").split("/").pop();
+      const token = createArchiveJob({
+        userId: `share:${sharedFile.id}`,
+        accountId: sharedFile.accountId,
+        bucket: sharedFile.bucket,
+        archiveName: `${folderName || sharedFile.filename}.zip`,
+        entries: plan.entries,
+        totalBytes: plan.totalBytes,
+      });
+      
+      await logShareAccess(req, sharedFile);
+      return res.json({
+        downloadUrl: `/api/shared/${sharedFile.shareToken}/archive/${token}`,
+        fileCount: plan.entries.length,
+        totalBytes: plan.totalBytes,
+        errors: plan.errors,
       });
     } catch (error) {
-      console.error("Error accessing shared file:", error);
-      res.status(500).json({ message: "Error accessing shared file" });
+      console.error("Error preparing shared folder download:", error);
+      res.status(500).json({ message: "Error preparing download" });
+    }
+  });
+  
+  // Stream a prepared ZIP of a share
+  app.get("/api/shared/:token/archive/:jobToken", async (req: Request, res: Response) => {
+    try {
+      const sharedFile = await getAccessibleShare(req, res);
+      if (!sharedFile) return;
+      
+      const job = takeArchiveJob(req.params.jobToken);
+      if (!job || job.userId !== `share:${sharedFile.id}`) {
+        return res.status(404).json({ message: "Download link not found or expired" });
+      }
+      
+      await streamArchive(job, res);
+    } catch (error) {
+      console.error("Error streaming shared folder download:", error);
+      if (res.headersSent) {
+        return res.destroy();
+      }
+      res.status(500).json({ message: "Error streaming download" });
+    }
+  });
+  
+  // Start a submission to a file request. The token it returns is sent with
+  // each file, so all of a visitor's uploads land in the submission's folder.
+  app.post("/api/shared/:token/submissions", async (req: Request, res: Response) => {
+    try {
+      const sharedFile = await getAccessibleShare(req, res);
+      if (!sharedFile) return;
+      
+      if (getShareType(sharedFile) !== "request") {
+        return res.status(400).json({ message: "This share doesn't accept uploads" });
+      }
+      
+      const uploader = validateUploaderInfo(sharedFile, req.body);
+      if (typeof uploader === "string") {
+        return res.status(400).json({ message: uploader });
+      }
+      
+      const submission = await storage.createFileRequestSubmission({
+        shareId: sharedFile.id,
+        token: randomBytes(16).toString("hex"),
+        prefix: getSubmissionPrefix(sharedFile, uploader.uploaderName),
+        ...uploader,
+      });
+      res.status(201).json({ token: submission.token });
+    } catch (error) {
+      console.error("Error starting file request submission:", error);
+      res.status(500).json({ message: "Error starting upload" });
+    }
+  });
+  
+  // Upload one file of a submission. The request's limits are checked as the
+  // file is received, and it is streamed on to S3 without being buffered in full.
+  app.post("/api/shared/:token/submissions/:submissionToken/files", async (req: Request, res: Response) => {
+    try {
+      const sharedFile = await getAccessibleShare(req, res);
+      if (!sharedFile) return;
+      
+      if (getShareType(sharedFile) !== "request") {
+        return res.status(400).json({ message: "This share doesn't accept uploads" });
+      }
+      
+      const submission = await storage.getFileRequestSubmission(sharedFile.id, req.params.submissionToken);
+      if (!submission) {
+        return res.status(404).json({ message: "Upload not found; please reload the page and try again" });
+      }
+      
+      try {
+        const result = await receiveSubmissionFile(req, res, sharedFile, submission);
+        if (!("key" in result)) {
+          const { status, ...body } = result;
+          return res.status(status).json(body);
+        }
+        await refreshInIndex(sharedFile.accountId, sharedFile.bucket, [result.key]);
+        
+        return res.status(201).json({ name: result.key.slice(submission.prefix.length), size: result.size });
+      } catch (s3Error: any) {
+        console.error("S3 error uploading to file request:", s3Error);
+        return res.status(400).json({ message: "Error uploading file" });
+      }
+    } catch (error) {
+      console.error("Error uploading to file request:", error);
+      res.status(500).json({ message: "Error uploading file" });
     }
   });
   
   // S3 Upload route
-  app.post("/api/s3/:accountId/upload", isAuthenticated, upload.single('file'), async (req: Request, res: Response) => {
+  app.post("/api/s3/:accountId/upload", isAuthenticated, requireS3Account(), upload.single('file'), async (req: Request, res: Response) => {
     try {
       if (!req.session?.userId) {
         return res.status(401).json({ message: "Unauthorized" });
       }
       
-      const accountId = parseInt(req.params.accountId);
+      const accountId = req.s3Account!.id;
       const bucket = req.body.bucket;
       const prefix = req.body.prefix || '';
       
-      if (!accountId || !bucket) {
-        return res.status(400).json({ message: "Missing required parameters: accountId and bucket" });
+      if (!bucket) {
+        return res.status(400).json({ message: "Missing required parameter: bucket" });
       }
       
       if (!req.file) {
@@ -777,18 +2599,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       try {
-        // Get S3 account to create AWS client
-        const account = await storage.getS3Account(accountId);
-        if (!account) {
-          return res.status(404).json({ message: "S3 account not found" });
-        }
-        
-        // Use our existing getS3Client function
-        const s3Client = await getS3Client(accountId);
-        
-        // File details
+        // File details. Folder uploads send the path relative to the picked folder
+        // so the directory structure is recreated under the prefix.
         const file = req.file;
-        const filename = file.originalname;
+        const relativePath = req.body.relativePath ? normalizeRelativePath(req.body.relativePath) : undefined;
+        if (req.body.relativePath && !relativePath) {
+          return res.status(400).json({ message: "Invalid relative path" });
+        }
+        const filename = relativePath || file.originalname;
         const key = prefix ? `${prefix}${prefix.endsWith('/') ? '' : '/'}${filename}` : filename;
         
         // Convert buffer to stream
@@ -804,8 +2622,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
           ContentType: file.mimetype,
         });
         
-        // Send the command
-        const response = await s3Client.send(command);
+        // Send the command (retried once with fresh credentials if S3 rejects them)
+        const response = await withS3Client(accountId, s3 => s3.send(command));
+        await refreshInIndex(accountId, bucket, [key]);
         
         console.log("File uploaded successfully:", filename);
         
@@ -831,6 +2650,183 @@ export async function registerRoutes(app: Express): Promise<Server> {
       });
     }
   });
+  
+  // Multipart uploads: the browser PUTs parts straight to S3 using presigned URLs,
+  // so file data never passes through this server. The bucket's CORS configuration
+  // must allow PUT from this origin and expose the ETag header.
+  app.post("/api/s3/:accountId/multipart/create", isAuthenticated, requireS3Account(), async (req: Request, res: Response) => {
+    try {
+      const accountId = req.s3Account!.id;
+      
+      const { bucket, key, contentType } = req.body;
+      if (!bucket || !key) {
+        return res.status(400).json({ message: "Bucket and key are required" });
+      }
+      
+      try {
+        const uploadId = await createMultipartUpload(accountId, bucket, key, contentType);
+        return res.json({ uploadId, bucket, key });
+      } catch (s3Error: any) {
+        console.error("S3 error creating multipart upload:", s3Error);
+        return res.status(400).json({ 
+          message: "Error starting upload", 
+          error: s3Error.message || "Unknown S3 error" 
+        });
+      }
+    } catch (error: any) {
+      console.error("Server error creating multipart upload:", error);
+      return res.status(500).json({ 
+        message: "Server error starting upload",
+        error: error.message || "Unknown error" 
+      });
+    }
+  });
+  
+  // Presign PUT URLs for one or more part numbers of an upload
+  app.post("/api/s3/:accountId/multipart/presign", isAuthenticated, requireS3Account(), async (req: Request, res: Response) => {
+    try {
+      const accountId = req.s3Account!.id;
+      
+      const { bucket, key, uploadId, partNumbers } = req.body;
+      if (!bucket || !key || !uploadId || !Array.isArray(partNumbers) || partNumbers.length === 0) {
+        return res.status(400).json({ message: "Bucket, key, uploadId and a non-empty partNumbers array are required" });
+      }
+      if (partNumbers.some((partNumber: any) => !Number.isInteger(partNumber) || partNumber < 1 || partNumber > MAX_UPLOAD_PARTS)) {
+        return res.status(400).json({ message: `Part numbers must be integers from 1 to ${MAX_UPLOAD_PARTS}` });
+      }
+      
+      try {
+        const urls: Record<number, string> = {};
+        for (const partNumber of partNumbers as number[]) {
+          urls[partNumber] = await getUploadPartUrl(accountId, bucket, key, uploadId, partNumber);
+        }
+        return res.json({ urls });
+      } catch (s3Error: any) {
+        console.error("S3 error presigning upload parts:", s3Error);
+        return res.status(400).json({ 
+          message: "Error presigning upload parts", 
+          error: s3Error.message || "Unknown S3 error" 
+        });
+      }
+    } catch (error: any) {
+      console.error("Server error presigning upload parts:", error);
+      return res.status(500).json({ 
+        message: "Server error presigning upload parts",
+        error: error.message || "Unknown error" 
+      });
+    }
+  });
+  
+  // List the parts already uploaded, used to resume an interrupted upload
+  app.get("/api/s3/:accountId/multipart/parts", isAuthenticated, requireS3Account(), async (req: Request, res: Response) => {
+    try {
+      const accountId = req.s3Account!.id;
+      
+      const bucket = req.query.bucket as string;
+      const key = req.query.key as string;
+      const uploadId = req.query.uploadId as string;
+      if (!bucket || !key || !uploadId) {
+        return res.status(400).json({ message: "Bucket, key and uploadId are required" });
+      }
+      
+      try {
+        const parts = await listUploadedParts(accountId, bucket, key, uploadId);
+        return res.json({
+          parts: parts.map(part => ({ partNumber: part.PartNumber, etag: part.ETag, size: part.Size })),
+        });
+      } catch (s3Error: any) {
+        // The upload was completed, aborted or expired by a lifecycle rule
+        if (s3Error.name === "NoSuchUpload") {
+          return res.status(404).json({ message: "Upload not found" });
+        }
+        console.error("S3 error listing upload parts:", s3Error);
+        return res.status(400).json({ 
+          message: "Error listing upload parts", 
+          error: s3Error.message || "Unknown S3 error" 
+        });
+      }
+    } catch (error: any) {
+      console.error("Server error listing upload parts:", error);
+      return res.status(500).json({ 
+        message: "Server error listing upload parts",
+        error: error.message || "Unknown error" 
+      });
+    }
+  });
+  
+  app.post("/api/s3/:accountId/multipart/complete", isAuthenticated, requireS3Account(), async (req: Request, res: Response) => {
+    try {
+      const accountId = req.s3Account!.id;
+      
+      const { bucket, key, uploadId, parts } = req.body;
+      if (!bucket || !key || !uploadId || !Array.isArray(parts) || parts.length === 0) {
+        return res.status(400).json({ message: "Bucket, key, uploadId and a non-empty parts array are required" });
+      }
+      if (parts.some((part: any) => !Number.isInteger(part?.partNumber) || typeof part?.etag !== "string")) {
+        return res.status(400).json({ message: "Each part needs a partNumber and etag" });
+      }
+      
+      try {
+        const result = await completeMultipartUpload(
+          accountId,
+          bucket,
+          key,
+          uploadId,
+          parts.map((part: { partNumber: number; etag: string }) => ({ PartNumber: part.partNumber, ETag: part.etag }))
+        );
+        
+        await refreshInIndex(accountId, bucket, [key]);
+        
+        return res.json({ bucket, key, etag: result.ETag });
+      } catch (s3Error: any) {
+        console.error("S3 error completing multipart upload:", s3Error);
+        return res.status(400).json({ 
+          message: "Error completing upload", 
+          error: s3Error.message || "Unknown S3 error" 
+        });
+      }
+    } catch (error: any) {
+      console.error("Server error completing multipart upload:", error);
+      return res.status(500).json({ 
+        message: "Server error completing upload",
+        error: error.message || "Unknown error" 
+      });
+    }
+  });
+  
+  app.post("/api/s3/:accountId/multipart/abort", isAuthenticated, requireS3Account(), async (req: Request, res: Response) => {
+    try {
+      const accountId = req.s3Account!.id;
+      
+      const { bucket, key, uploadId } = req.body;
+      if (!bucket || !key || !uploadId) {
+        return res.status(400).json({ message: "Bucket, key and uploadId are required" });
+      }
+      
+      try {
+        await abortMultipartUpload(accountId, bucket, key, uploadId);
+        return res.json({ success: true });
+      } catch (s3Error: any) {
+        console.error("S3 error aborting multipart upload:", s3Error);
+        return res.status(400).json({ 
+          message: "Error aborting upload", 
+          error: s3Error.message || "Unknown S3 error" 
+        });
+      }
+    } catch (error: any) {
+      console.error("Server error aborting multipart upload:", error);
+      return res.status(500).json({ 
+        message: "Server error aborting upload",
+        error: error.message || "Unknown error" 
+      });
+    }
+  });
+
+  // Re-scan indexed buckets in the background
+  startIndexScheduler().catch(error => console.error("Could not start the object index scheduler:", error));
+
+  // Record bucket totals for the storage growth chart
+  startSnapshotScheduler();
 
   // Create HTTP server
   const httpServer = createServer(app);
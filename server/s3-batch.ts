@@ -0,0 +1,363 @@
+import { listAllObjectKeys, deleteObjects, copyObject, getObjectMetadata, getObjectTags, putObjectTags, replaceObjectMetadata, changeStorageClass, restoreObject, MAX_OBJECT_TAGS, type KeyError, type SystemMetadata } from "./s3-client";
+
+// Batch operations on objects. Keys ending in "/" are folders and are expanded
+// to every object under that prefix.
+
+// How many S3 requests a batch operation runs at the same time
+export const BATCH_CONCURRENCY = 8;
+
+export interface KeyTransfer {
+  sourceKey: string;
+  destinationKey: string;
+}
+
+export function isFolderKey(key: string) {
+  return key.endsWith("/");
+}
+
+// "photos/2024/a.jpg" -> "photos/2024/", "photos/2024/" -> "photos/"
+export function getParentPrefix(key: string) {
+  const trimmed = key.replace(/\/$/, "");
+  const index = trimmed.lastIndexOf("/");
+  return index === -1 ? "" : trimmed.slice(0, index + 1);
+}
+
+// Make sure a non-empty prefix ends with a single "/"
+export function normalizePrefix(prefix = "") {
+  return prefix ? prefix.replace(/\/*$/, "/") : "";
+}
+
+// Run fn over items with at most `concurrency` calls in flight, preserving order
+export async function mapWithConcurrency<T, R>(items: T[], concurrency: number, fn: (item: T) => Promise<R>) {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, worker));
+  return results;
+}
+
+// Largest number of keys one existence check may ask about
+export const MAX_EXISTS_CHECK_KEYS = 1000;
+
+// Return the subset of keys that already exist in the bucket
+export async function findExistingKeys(accountId: number, bucket: string, keys: string[]) {
+  const exists = await mapWithConcurrency(keys, BATCH_CONCURRENCY, async key => {
+    try {
+      await getObjectMetadata(accountId, bucket, key);
+      return true;
+    } catch (error: any) {
+      if (error.name === "NotFound" || error.$metadata?.httpStatusCode === 404) {
+        return false;
+      }
+      throw error;
+    }
+  });
+
+  return keys.filter((_, index) => exists[index]);
+}
+
+// Expand folder keys to the objects under them, without duplicates
+export async function expandKeys(accountId: number, bucket: string, keys: string[]) {
+  const expanded = new Set<string>();
+  const errors: KeyError[] = [];
+
+  for (const key of keys) {
+    if (!isFolderKey(key)) {
+      expanded.add(key);
+      continue;
+    }
+
+    try {
+      const folderKeys = await listAllObjectKeys(accountId, bucket, key);
+      folderKeys.forEach(folderKey => expanded.add(folderKey));
+    } catch (error: any) {
+      errors.push({ key, message: error.message || "Failed to list folder contents" });
+    }
+  }
+
+  return { keys: Array.from(expanded), errors };
+}
+
+// Work out where each selected key lands under the destination prefix. A folder
+// keeps its own name, so "a/b/" copied to "x/" becomes "x/b/...".
+export async function planTransfers(
+  accountId: number,
+  sourceBucket: string,
+  keys: string[],
+  destinationBucket: string,
+  destinationPrefix: string
+) {
+  const prefix = normalizePrefix(destinationPrefix);
+  const transfers: KeyTransfer[] = [];
+  const errors: KeyError[] = [];
+  const seen = new Set<string>();
+
+  for (const key of keys) {
+    const parent = getParentPrefix(key);
+
+    if (isFolderKey(key) && sourceBucket === destinationBucket && prefix.startsWith(key)) {
+      errors.push({ key, message: "Cannot copy or move a folder into itself" });
+      continue;
+    }
+
+    let sourceKeys: string[];
+    try {
+      sourceKeys = isFolderKey(key) ? await listAllObjectKeys(accountId, sourceBucket, key) : [key];
+    } catch (error: any) {
+      errors.push({ key, message: error.message || "Failed to list folder contents" });
+      continue;
+    }
+
+    for (const sourceKey of sourceKeys) {
+      if (seen.has(sourceKey)) continue;
+      seen.add(sourceKey);
+
+      const destinationKey = prefix + sourceKey.slice(parent.length);
+      if (sourceBucket === destinationBucket && destinationKey === sourceKey) {
+        errors.push({ key: sourceKey, message: "Source and destination are the same" });
+        continue;
+      }
+      transfers.push({ sourceKey, destinationKey });
+    }
+  }
+
+  return { transfers, errors };
+}
+
+export async function copyTransfers(
+  accountId: number,
+  sourceBucket: string,
+  destinationBucket: string,
+  transfers: KeyTransfer[]
+) {
+  const copied: KeyTransfer[] = [];
+  const errors: KeyError[] = [];
+
+  // Copy several keys at once so large folders don't copy one key at a time
+  await mapWithConcurrency(transfers, BATCH_CONCURRENCY, async transfer => {
+    try {
+      await copyObject(accountId, sourceBucket, transfer.sourceKey, destinationBucket, transfer.destinationKey);
+      copied.push(transfer);
+    } catch (error: any) {
+      errors.push({ key: transfer.sourceKey, message: error.message || "Copy failed" });
+    }
+  });
+
+  return { copied, errors };
+}
+
+// Copy every transfer, then delete the sources that were copied. Sources that were
+// copied but could not be deleted now exist in both places and are reported separately.
+export async function moveTransfers(
+  accountId: number,
+  sourceBucket: string,
+  destinationBucket: string,
+  transfers: KeyTransfer[]
+) {
+  const { copied, errors } = await copyTransfers(accountId, sourceBucket, destinationBucket, transfers);
+
+  const deleteResult = await deleteObjects(accountId, sourceBucket, copied.map(transfer => transfer.sourceKey));
+  const deleteErrors = new Map(deleteResult.errors.map(error => [error.key, error.message]));
+
+  const moved: KeyTransfer[] = [];
+  const copiedNotDeleted: (KeyTransfer & { message: string })[] = [];
+
+  for (const transfer of copied) {
+    const message = deleteErrors.get(transfer.sourceKey);
+    if (message === undefined) {
+      moved.push(transfer);
+    } else {
+      copiedNotDeleted.push({ ...transfer, message });
+      errors.push({
+        key: transfer.sourceKey,
+        message: `Copied to ${transfer.destinationKey} but the original could not be deleted: ${message}`,
+      });
+    }
+  }
+
+  return { moved, errors, copiedNotDeleted };
+}
+
+// Changes to apply to one or more objects. System fields left undefined are kept
+// and "" clears them. In "replace" mode, metadata and tags become exactly what is
+// given; in "merge" mode (bulk edits) the entries are added to each object's own
+// and an empty value removes that entry.
+export interface ObjectMetadataUpdate {
+  system?: SystemMetadata;
+  metadata?: Record<string, string>;
+  tags?: Record<string, string>;
+  mode?: "replace" | "merge";
+}
+
+const SYSTEM_METADATA_FIELDS: (keyof SystemMetadata)[] = [
+  "contentType",
+  "cacheControl",
+  "contentDisposition",
+  "contentEncoding",
+  "contentLanguage",
+];
+
+// S3 sends user metadata as x-amz-meta-<name> headers, so names must be header-safe
+const METADATA_NAME_PATTERN = /^[A-Za-z0-9_.-]+$/;
+
+function isStringRecord(value: unknown): value is Record<string, string> {
+  return typeof value === "object" && value !== null && !Array.isArray(value) &&
+    Object.values(value).every(entry => typeof entry === "string");
+}
+
+// Returns a message describing what is wrong with an update, or undefined if it is valid
+export function validateMetadataUpdate(update: ObjectMetadataUpdate): string | undefined {
+  if (update.mode !== undefined && update.mode !== "replace" && update.mode !== "merge") {
+    return "mode must be \"replace\" or \"merge\"";
+  }
+  if (update.system !== undefined) {
+    if (typeof update.system !== "object" || update.system === null) {
+      return "system must be an object";
+    }
+    for (const [field, value] of Object.entries(update.system)) {
+      if (!SYSTEM_METADATA_FIELDS.includes(field as keyof SystemMetadata)) {
+        return `Unsupported system metadata field: ${field}`;
+      }
+      if (value !== undefined && typeof value !== "string") {
+        return `${field} must be a string`;
+      }
+    }
+  }
+  if (update.metadata !== undefined) {
+    if (!isStringRecord(update.metadata)) {
+      return "metadata must map names to string values";
+    }
+    for (const [name, value] of Object.entries(update.metadata)) {
+      if (!METADATA_NAME_PATTERN.test(name)) {
+        return `Invalid metadata name: ${name}`;
+      }
+      if (/[^\x20-\x7e]/.test(value)) {
+        return `Metadata value for ${name} must be printable ASCII`;
+      }
+    }
+  }
+  if (update.tags !== undefined) {
+    if (!isStringRecord(update.tags)) {
+      return "tags must map keys to string values";
+    }
+    if (update.mode !== "merge" && Object.keys(update.tags).length > MAX_OBJECT_TAGS) {
+      return `An object can have at most ${MAX_OBJECT_TAGS} tags`;
+    }
+  }
+  return undefined;
+}
+
+function applyEntries(current: Record<string, string>, changes: Record<string, string>, mode: "replace" | "merge") {
+  if (mode === "replace") {
+    return { ...changes };
+  }
+
+  const result = { ...current };
+  for (const [name, value] of Object.entries(changes)) {
+    if (value === "") {
+      delete result[name];
+    } else {
+      result[name] = value;
+    }
+  }
+  return result;
+}
+
+async function updateObjectMetadata(accountId: number, bucket: string, key: string, update: ObjectMetadataUpdate) {
+  const mode = update.mode || "replace";
+  const system = update.system || {};
+  const changesMetadata = update.metadata !== undefined ||
+    SYSTEM_METADATA_FIELDS.some(field => system[field] !== undefined);
+
+  if (changesMetadata) {
+    const current = await getObjectMetadata(accountId, bucket, key);
+    const nextSystem: SystemMetadata = {
+      contentType: system.contentType ?? current.ContentType,
+      cacheControl: system.cacheControl ?? current.CacheControl,
+      contentDisposition: system.contentDisposition ?? current.ContentDisposition,
+      contentEncoding: system.contentEncoding ?? current.ContentEncoding,
+      contentLanguage: system.contentLanguage ?? current.ContentLanguage,
+    };
+    const nextMetadata = update.metadata !== undefined
+      ? applyEntries(current.Metadata || {}, update.metadata, mode)
+      : current.Metadata || {};
+
+    await replaceObjectMetadata(accountId, bucket, key, nextSystem, nextMetadata, current);
+  }
+
+  if (update.tags !== undefined) {
+    const currentTags = mode === "merge" ? await getObjectTags(accountId, bucket, key) : {};
+    const nextTags = applyEntries(currentTags, update.tags, mode);
+    if (Object.keys(nextTags).length > MAX_OBJECT_TAGS) {
+      throw new Error(`An object can have at most ${MAX_OBJECT_TAGS} tags`);
+    }
+    await putObjectTags(accountId, bucket, key, nextTags);
+  }
+}
+
+// Apply the same metadata/tag update to every key, reporting failures per key
+export async function updateObjectsMetadata(accountId: number, bucket: string, keys: string[], update: ObjectMetadataUpdate) {
+  const updated: string[] = [];
+  const errors: KeyError[] = [];
+
+  await mapWithConcurrency(keys, BATCH_CONCURRENCY, async key => {
+    try {
+      await updateObjectMetadata(accountId, bucket, key, update);
+      updated.push(key);
+    } catch (error: any) {
+      errors.push({ key, message: error.message || "Metadata update failed" });
+    }
+  });
+
+  return { updated, errors };
+}
+
+// Move every key to a storage class, reporting failures per key
+export async function changeStorageClasses(accountId: number, bucket: string, keys: string[], storageClass: string) {
+  const updated: string[] = [];
+  const errors: KeyError[] = [];
+
+  await mapWithConcurrency(keys, BATCH_CONCURRENCY, async key => {
+    try {
+      await changeStorageClass(accountId, bucket, key, storageClass);
+      updated.push(key);
+    } catch (error: any) {
+      const message = error.name === "InvalidObjectState"
+        ? "The object is archived; restore it before changing its storage class"
+        : error.message || "Storage class change failed";
+      errors.push({ key, message });
+    }
+  });
+
+  return { updated, errors };
+}
+
+// Request a restore of every archived key. A restore that is already running is
+// reported as an error for that key.
+export async function restoreObjects(accountId: number, bucket: string, keys: string[], days: number, tier: string) {
+  const requested: string[] = [];
+  const errors: KeyError[] = [];
+
+  await mapWithConcurrency(keys, BATCH_CONCURRENCY, async key => {
+    try {
+      await restoreObject(accountId, bucket, key, days, tier);
+      requested.push(key);
+    } catch (error: any) {
+      const message = error.name === "RestoreAlreadyInProgress"
+        ? "A restore is already in progress"
+        : error.name === "InvalidObjectState"
+          ? "The object is not archived"
+          : error.message || "Restore request failed";
+      errors.push({ key, message });
+    }
+  });
+
+  return { requested, errors };
+}
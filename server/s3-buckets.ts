@@ -0,0 +1,456 @@
+import {
+  CreateBucketCommand,
+  DeleteBucketCommand,
+  DeleteObjectsCommand,
+  ListObjectVersionsCommand,
+  ListMultipartUploadsCommand,
+  AbortMultipartUploadCommand,
+  GetBucketLocationCommand,
+  GetBucketVersioningCommand,
+  PutBucketVersioningCommand,
+  GetBucketEncryptionCommand,
+  PutBucketEncryptionCommand,
+  DeleteBucketEncryptionCommand,
+  GetPublicAccessBlockCommand,
+  PutPublicAccessBlockCommand,
+  DeletePublicAccessBlockCommand,
+  GetBucketTaggingCommand,
+  PutBucketTaggingCommand,
+  DeleteBucketTaggingCommand,
+  GetObjectLockConfigurationCommand,
+  GetBucketPolicyCommand,
+  PutBucketPolicyCommand,
+  DeleteBucketPolicyCommand,
+  GetBucketCorsCommand,
+  PutBucketCorsCommand,
+  DeleteBucketCorsCommand,
+  type CORSRule,
+  type BucketLocationConstraint,
+  type ServerSideEncryption,
+} from "@aws-sdk/client-s3";
+import { randomBytes } from "crypto";
+import { withS3Client, withS3ClientInRegion, MAX_DELETE_BATCH_SIZE, type KeyError } from "./s3-client";
+import { removeBucketIndex, resetIndexAfterEmptying } from "./object-index";
+import type { BucketPolicy, CorsRule } from "@shared/bucket-config";
+
+// Bucket-level operations: creating and deleting buckets, emptying them in the
+// background, and reading/writing versioning, default encryption, Block Public
+// Access, tags, the bucket policy and CORS rules.
+
+// AWS bucket naming rules (3-63 chars, lowercase, digits, dots and hyphens)
+const BUCKET_NAME_PATTERN = /^[a-z0-9][a-z0-9.-]{1,61}[a-z0-9]$/;
+
+// Finished empty-bucket jobs are kept this long so the client can read the result
+const EMPTY_JOB_TTL_MS = 60 * 60 * 1000;
+
+// Errors kept per job; the count keeps going past this
+const MAX_JOB_ERRORS = 100;
+
+export const MAX_BUCKET_TAGS = 50;
+
+export type BucketEncryptionType = "AES256" | "aws:kms";
+
+export interface BucketEncryption {
+  type: BucketEncryptionType;
+  kmsKeyId?: string;
+  bucketKeyEnabled?: boolean;
+}
+
+export interface PublicAccessBlock {
+  blockPublicAcls: boolean;
+  ignorePublicAcls: boolean;
+  blockPublicPolicy: boolean;
+  restrictPublicBuckets: boolean;
+}
+
+export type VersioningStatus = "Enabled" | "Suspended" | "Disabled";
+
+export interface BucketSettings {
+  region?: string;
+  versioning: VersioningStatus;
+  objectLockEnabled: boolean;
+  encryption: BucketEncryption | null;
+  // null when the bucket has no Block Public Access configuration
+  publicAccessBlock: PublicAccessBlock | null;
+  tags: Record<string, string>;
+}
+
+export interface BucketSettingsUpdate {
+  versioning?: "Enabled" | "Suspended";
+  encryption?: BucketEncryption | null;
+  publicAccessBlock?: PublicAccessBlock | null;
+  tags?: Record<string, string>;
+}
+
+export interface CreateBucketOptions {
+  region?: string;
+  objectLock?: boolean;
+  encryption?: BucketEncryption;
+}
+
+export interface EmptyBucketJob {
+  id: string;
+  accountId: number;
+  bucket: string;
+  // Delete the bucket itself once it is empty
+  deleteBucket: boolean;
+  status: "running" | "completed" | "failed";
+  deleted: number;
+  abortedUploads: number;
+  errorCount: number;
+  errors: KeyError[];
+  bucketDeleted: boolean;
+  error?: string;
+  startedAt: number;
+  finishedAt?: number;
+}
+
+const emptyJobs = new Map<string, EmptyBucketJob>();
+
+export function validateBucketName(name: unknown): string | null {
+  if (typeof name !== "string" || !BUCKET_NAME_PATTERN.test(name)) {
+    return "Bucket names must be 3-63 characters of lowercase letters, numbers, dots and hyphens, starting and ending with a letter or number";
+  }
+  if (name.includes("..") || /^\d+\.\d+\.\d+\.\d+$/.test(name)) {
+    return "Bucket names can't contain consecutive dots or look like an IP address";
+  }
+  return null;
+}
+
+export function validateEncryption(encryption: unknown): string | null {
+  if (encryption === null || encryption === undefined) return null;
+  const { type, kmsKeyId } = encryption as BucketEncryption;
+  if (type !== "AES256" && type !== "aws:kms") {
+    return "Encryption type must be AES256 or aws:kms";
+  }
+  if (kmsKeyId !== undefined && typeof kmsKeyId !== "string") {
+    return "kmsKeyId must be a string";
+  }
+  return null;
+}
+
+function toEncryptionRules(encryption: BucketEncryption) {
+  return [{
+    ApplyServerSideEncryptionByDefault: {
+      SSEAlgorithm: encryption.type as ServerSideEncryption,
+      KMSMasterKeyID: encryption.type === "aws:kms" ? encryption.kmsKeyId || undefined : undefined,
+    },
+    BucketKeyEnabled: encryption.type === "aws:kms" ? !!encryption.bucketKeyEnabled : undefined,
+  }];
+}
+
+// Create a bucket in `region` (the account's region by default). Object Lock can
+// only be turned on at creation and also enables versioning.
+export async function createBucket(accountId: number, bucket: string, options: CreateBucketOptions = {}) {
+  const region = options.region || "";
+
+  await withS3ClientInRegion(accountId, region, async s3 => {
+    await s3.send(new CreateBucketCommand({
+      Bucket: bucket,
+      ObjectLockEnabledForBucket: options.objectLock || undefined,
+      // us-east-1 is the default location and must not be sent as a constraint
+      CreateBucketConfiguration: region && region !== "us-east-1" && region !== "auto"
+        ? { LocationConstraint: region as BucketLocationConstraint }
+        : undefined,
+    }));
+
+    if (options.encryption) {
+      await s3.send(new PutBucketEncryptionCommand({
+        Bucket: bucket,
+        ServerSideEncryptionConfiguration: { Rules: toEncryptionRules(options.encryption) },
+      }));
+    }
+  });
+}
+
+// Delete an empty bucket. S3 answers BucketNotEmpty otherwise.
+export async function deleteBucket(accountId: number, bucket: string) {
+  const command = new DeleteBucketCommand({ Bucket: bucket });
+  return await withS3Client(accountId, s3 => s3.send(command));
+}
+
+// Settings calls answer with these codes when the setting has never been configured
+const NOT_CONFIGURED_ERRORS = new Set([
+  "ServerSideEncryptionConfigurationNotFoundError",
+  "NoSuchPublicAccessBlockConfiguration",
+  "NoSuchTagSet",
+  "ObjectLockConfigurationNotFoundError",
+  "NoSuchBucketPolicy",
+  "NoSuchCORSConfiguration",
+]);
+
+async function getOptional<T>(read: () => Promise<T>): Promise<T | undefined> {
+  try {
+    return await read();
+  } catch (error: any) {
+    if (NOT_CONFIGURED_ERRORS.has(error.name) || NOT_CONFIGURED_ERRORS.has(error.Code)) {
+      return undefined;
+    }
+    throw error;
+  }
+}
+
+export async function getBucketSettings(accountId: number, bucket: string): Promise<BucketSettings> {
+  return withS3Client(accountId, async s3 => {
+    const [location, versioning, encryption, publicAccess, tagging, objectLock] = await Promise.all([
+      s3.send(new GetBucketLocationCommand({ Bucket: bucket })),
+      s3.send(new GetBucketVersioningCommand({ Bucket: bucket })),
+      getOptional(() => s3.send(new GetBucketEncryptionCommand({ Bucket: bucket }))),
+      getOptional(() => s3.send(new GetPublicAccessBlockCommand({ Bucket: bucket }))),
+      getOptional(() => s3.send(new GetBucketTaggingCommand({ Bucket: bucket }))),
+      getOptional(() => s3.send(new GetObjectLockConfigurationCommand({ Bucket: bucket }))),
+    ]);
+
+    const rule = encryption?.ServerSideEncryptionConfiguration?.Rules?.[0];
+    const sse = rule?.ApplyServerSideEncryptionByDefault;
+    const block = publicAccess?.PublicAccessBlockConfiguration;
+
+    return {
+      // GetBucketLocation reports us-east-1 as an empty constraint
+      region: location.LocationConstraint || "us-east-1",
+      versioning: (versioning.Status as VersioningStatus | undefined) || "Disabled",
+      objectLockEnabled: objectLock?.ObjectLockConfiguration?.ObjectLockEnabled === "Enabled",
+      encryption: sse?.SSEAlgorithm
+        ? {
+            type: sse.SSEAlgorithm === "aws:kms" ? "aws:kms" : "AES256",
+            kmsKeyId: sse.KMSMasterKeyID,
+            bucketKeyEnabled: !!rule?.BucketKeyEnabled,
+          }
+        : null,
+      publicAccessBlock: block
+        ? {
+            blockPublicAcls: !!block.BlockPublicAcls,
+            ignorePublicAcls: !!block.IgnorePublicAcls,
+            blockPublicPolicy: !!block.BlockPublicPolicy,
+            restrictPublicBuckets: !!block.RestrictPublicBuckets,
+          }
+        : null,
+      tags: Object.fromEntries(
+        (tagging?.TagSet || []).map(tag => [tag.Key || "", tag.Value || ""])
+      ),
+    };
+  });
+}
+
+// Apply the sections present in `update`; absent sections are left unchanged
+export async function updateBucketSettings(accountId: number, bucket: string, update: BucketSettingsUpdate) {
+  await withS3Client(accountId, async s3 => {
+    if (update.versioning) {
+      await s3.send(new PutBucketVersioningCommand({
+        Bucket: bucket,
+        VersioningConfiguration: { Status: update.versioning },
+      }));
+    }
+
+    if (update.encryption === null) {
+      await s3.send(new DeleteBucketEncryptionCommand({ Bucket: bucket }));
+    } else if (update.encryption) {
+      await s3.send(new PutBucketEncryptionCommand({
+        Bucket: bucket,
+        ServerSideEncryptionConfiguration: { Rules: toEncryptionRules(update.encryption) },
+      }));
+    }
+
+    if (update.publicAccessBlock === null) {
+      await s3.send(new DeletePublicAccessBlockCommand({ Bucket: bucket }));
+    } else if (update.publicAccessBlock) {
+      const block = update.publicAccessBlock;
+      await s3.send(new PutPublicAccessBlockCommand({
+        Bucket: bucket,
+        PublicAccessBlockConfiguration: {
+          BlockPublicAcls: !!block.blockPublicAcls,
+          IgnorePublicAcls: !!block.ignorePublicAcls,
+          BlockPublicPolicy: !!block.blockPublicPolicy,
+          RestrictPublicBuckets: !!block.restrictPublicBuckets,
+        },
+      }));
+    }
+
+    if (update.tags) {
+      const tagSet = Object.entries(update.tags).map(([Key, Value]) => ({ Key, Value }));
+      // S3 rejects an empty tag set, so clearing all tags deletes the tagging
+      if (tagSet.length === 0) {
+        await s3.send(new DeleteBucketTaggingCommand({ Bucket: bucket }));
+      } else {
+        await s3.send(new PutBucketTaggingCommand({ Bucket: bucket, Tagging: { TagSet: tagSet } }));
+      }
+    }
+  });
+}
+
+// The bucket policy as parsed JSON, or null when the bucket has none
+export async function getBucketPolicy(accountId: number, bucket: string): Promise<BucketPolicy | null> {
+  const command = new GetBucketPolicyCommand({ Bucket: bucket });
+  const response = await getOptional(() => withS3Client(accountId, s3 => s3.send(command)));
+  return response?.Policy ? JSON.parse(response.Policy) : null;
+}
+
+// Replace the bucket policy; null deletes it
+export async function putBucketPolicy(accountId: number, bucket: string, policy: BucketPolicy | null) {
+  if (!policy) {
+    const command = new DeleteBucketPolicyCommand({ Bucket: bucket });
+    return await withS3Client(accountId, s3 => s3.send(command));
+  }
+
+  const command = new PutBucketPolicyCommand({ Bucket: bucket, Policy: JSON.stringify(policy) });
+  return await withS3Client(accountId, s3 => s3.send(command));
+}
+
+export async function getBucketCors(accountId: number, bucket: string): Promise<CorsRule[]> {
+  const command = new GetBucketCorsCommand({ Bucket: bucket });
+  const response = await getOptional(() => withS3Client(accountId, s3 => s3.send(command)));
+  return (response?.CORSRules || []) as CorsRule[];
+}
+
+// Replace the CORS rules. S3 rejects an empty rule list, so no rules deletes the configuration.
+export async function putBucketCors(accountId: number, bucket: string, rules: CorsRule[]) {
+  if (rules.length === 0) {
+    const command = new DeleteBucketCorsCommand({ Bucket: bucket });
+    return await withS3Client(accountId, s3 => s3.send(command));
+  }
+
+  const command = new PutBucketCorsCommand({
+    Bucket: bucket,
+    CORSConfiguration: { CORSRules: rules as CORSRule[] },
+  });
+  return await withS3Client(accountId, s3 => s3.send(command));
+}
+
+function addJobError(job: EmptyBucketJob, error: KeyError) {
+  job.errorCount++;
+  if (job.errors.length < MAX_JOB_ERRORS) {
+    job.errors.push(error);
+  }
+}
+
+// Delete every object version and delete marker, one listing page at a time
+async function deleteAllVersions(job: EmptyBucketJob) {
+  let keyMarker: string | undefined;
+  let versionIdMarker: string | undefined;
+
+  do {
+    const response = await withS3Client(job.accountId, s3 => s3.send(new ListObjectVersionsCommand({
+      Bucket: job.bucket,
+      KeyMarker: keyMarker,
+      VersionIdMarker: versionIdMarker,
+      MaxKeys: MAX_DELETE_BATCH_SIZE,
+    })));
+
+    const objects = [...(response.Versions || []), ...(response.DeleteMarkers || [])]
+      .filter(entry => entry.Key)
+      .map(entry => ({ Key: entry.Key!, VersionId: entry.VersionId }));
+
+    for (let i = 0; i < objects.length; i += MAX_DELETE_BATCH_SIZE) {
+      const chunk = objects.slice(i, i + MAX_DELETE_BATCH_SIZE);
+      try {
+        const result = await withS3Client(job.accountId, s3 => s3.send(new DeleteObjectsCommand({
+          Bucket: job.bucket,
+          Delete: { Objects: chunk, Quiet: true },
+        })));
+        for (const item of result.Errors || []) {
+          addJobError(job, { key: item.Key || "", message: item.Message || item.Code || "Delete failed" });
+        }
+        job.deleted += chunk.length - (result.Errors?.length || 0);
+      } catch (error: any) {
+        for (const item of chunk) {
+          addJobError(job, { key: item.Key, message: error.message || "Delete failed" });
+        }
+      }
+    }
+
+    keyMarker = response.IsTruncated ? response.NextKeyMarker : undefined;
+    versionIdMarker = response.IsTruncated ? response.NextVersionIdMarker : undefined;
+  } while (keyMarker);
+}
+
+// Unfinished multipart uploads keep a bucket from being deleted
+async function abortAllUploads(job: EmptyBucketJob) {
+  let keyMarker: string | undefined;
+  let uploadIdMarker: string | undefined;
+
+  do {
+    const response = await withS3Client(job.accountId, s3 => s3.send(new ListMultipartUploadsCommand({
+      Bucket: job.bucket,
+      KeyMarker: keyMarker,
+      UploadIdMarker: uploadIdMarker,
+    })));
+
+    for (const upload of response.Uploads || []) {
+      try {
+        await withS3Client(job.accountId, s3 => s3.send(new AbortMultipartUploadCommand({
+          Bucket: job.bucket,
+          Key: upload.Key,
+          UploadId: upload.UploadId,
+        })));
+        job.abortedUploads++;
+      } catch (error: any) {
+        addJobError(job, { key: upload.Key || "", message: error.message || "Failed to abort upload" });
+      }
+    }
+
+    keyMarker = response.IsTruncated ? response.NextKeyMarker : undefined;
+    uploadIdMarker = response.IsTruncated ? response.NextUploadIdMarker : undefined;
+  } while (keyMarker);
+}
+
+async function runEmptyBucketJob(job: EmptyBucketJob) {
+  try {
+    await deleteAllVersions(job);
+    await abortAllUploads(job);
+
+    if (job.deleteBucket && job.errorCount === 0) {
+      await deleteBucket(job.accountId, job.bucket);
+      job.bucketDeleted = true;
+    }
+    job.status = "completed";
+  } catch (error: any) {
+    console.error(`Error emptying bucket ${job.bucket}:`, error);
+    job.status = "failed";
+    job.error = error.message || "Failed to empty bucket";
+  }
+
+  if (job.bucketDeleted) {
+    await removeBucketIndex(job.accountId, job.bucket);
+  } else if (job.deleted > 0) {
+    await resetIndexAfterEmptying(job.accountId, job.bucket, job.status === "completed" && job.errorCount === 0);
+  }
+  job.finishedAt = Date.now();
+}
+
+// Start emptying a bucket in the background. Progress is read with getEmptyBucketJob.
+export function startEmptyBucketJob(accountId: number, bucket: string, deleteBucket: boolean): EmptyBucketJob {
+  const now = Date.now();
+  for (const [id, existing] of Array.from(emptyJobs.entries())) {
+    if (existing.finishedAt && existing.finishedAt + EMPTY_JOB_TTL_MS < now) emptyJobs.delete(id);
+  }
+
+  // Only one job per bucket at a time
+  const running = Array.from(emptyJobs.values()).find(
+    job => job.accountId === accountId && job.bucket === bucket && job.status === "running"
+  );
+  if (running) {
+    return running;
+  }
+
+  const job: EmptyBucketJob = {
+    id: randomBytes(16).toString("hex"),
+    accountId,
+    bucket,
+    deleteBucket,
+    status: "running",
+    deleted: 0,
+    abortedUploads: 0,
+    errorCount: 0,
+    errors: [],
+    bucketDeleted: false,
+    startedAt: now,
+  };
+  emptyJobs.set(job.id, job);
+  void runEmptyBucketJob(job);
+  return job;
+}
+
+export function getEmptyBucketJob(accountId: number, jobId: string): EmptyBucketJob | undefined {
+  const job = emptyJobs.get(jobId);
+  return job && job.accountId === accountId ? job : undefined;
+}
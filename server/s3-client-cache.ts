@@ -0,0 +1,45 @@
+import type { S3Client } from "@aws-sdk/client-s3";
+
+// Cache of S3 clients by account ID. Kept separate from s3-client.ts so the
+// storage layer can evict entries when accounts change without a circular import.
+
+// Clients are rebuilt after this long so rotated keys and edited settings are picked up
+const DEFAULT_TTL_SECONDS = 15 * 60;
+
+export interface CachedS3Client {
+  client: S3Client;
+  createdAt: number;
+  // Health flag of the account when the client was built, used to avoid redundant writes
+  healthy: boolean;
+}
+
+const cache = new Map<number, CachedS3Client>();
+
+function getTtlMs(): number {
+  const configured = parseInt(process.env.S3_CLIENT_CACHE_TTL_SECONDS || "", 10);
+  return (isNaN(configured) ? DEFAULT_TTL_SECONDS : configured) * 1000;
+}
+
+export function getCachedS3Client(accountId: number): CachedS3Client | undefined {
+  const entry = cache.get(accountId);
+  if (!entry) {
+    return undefined;
+  }
+
+  if (Date.now() - entry.createdAt > getTtlMs()) {
+    invalidateS3Client(accountId);
+    return undefined;
+  }
+
+  return entry;
+}
+
+export function setCachedS3Client(accountId: number, client: S3Client, healthy: boolean) {
+  cache.set(accountId, { client, createdAt: Date.now(), healthy });
+}
+
+// Drop the cached client for an account. The old client is not destroyed because
+// requests already in flight may still be using it.
+export function invalidateS3Client(accountId: number) {
+  cache.delete(accountId);
+}
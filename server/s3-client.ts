@@ -1,15 +1,117 @@
-import { S3Client, ListBucketsCommand, ListObjectsV2Command, GetObjectCommand, DeleteObjectCommand, DeleteObjectsCommand, HeadObjectCommand, CopyObjectCommand, HeadBucketCommand, PutObjectCommand } from "@aws-sdk/client-s3";
+import { S3Client, ListBucketsCommand, ListObjectsV2Command, GetObjectCommand, DeleteObjectCommand, DeleteObjectsCommand, HeadObjectCommand, CopyObjectCommand, HeadBucketCommand, PutObjectCommand, CreateMultipartUploadCommand, UploadPartCommand, CompleteMultipartUploadCommand, AbortMultipartUploadCommand, ListPartsCommand, ListObjectVersionsCommand, GetObjectTaggingCommand, PutObjectTaggingCommand, RestoreObjectCommand, GetBucketLifecycleConfigurationCommand, PutBucketLifecycleConfigurationCommand, DeleteBucketLifecycleCommand, type _Object, type LifecycleRule, type Part, type Tag, type HeadObjectCommandOutput, type StorageClass, type Tier } from "@aws-sdk/client-s3";
 import { getSignedUrl } from "@aws-sdk/s3-request-presigner";
+import { Agent as HttpsAgent } from "https";
+import type { Readable } from "stream";
 import { storage } from "./storage";
+import { decryptS3AccountSecret } from "./secrets";
+import { createAssumeRoleCredentials } from "./assume-role";
+import { getCachedS3Client, setCachedS3Client, invalidateS3Client } from "./s3-client-cache";
+import type { S3Account } from "@shared/schema";
+import type { S3LifecycleRule } from "@shared/lifecycle";
 
-// Cache S3 clients by account ID to avoid creating new ones for each request
-const s3ClientCache = new Map<number, S3Client>();
+// Connection settings needed to talk to AWS S3 or an S3-compatible service
+export interface S3ConnectionOptions {
+  region: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  endpoint?: string | null;
+  forcePathStyle?: boolean | null;
+  tlsVerify?: boolean | null;
+  // Assume-role accounts exchange the key pair above for STS session credentials
+  authType?: string | null;
+  roleArn?: string | null;
+  externalId?: string | null;
+  sessionDurationSeconds?: number | null;
+}
+
+// Strip trailing slashes so endpoints can be joined with bucket/key paths
+export function normalizeEndpoint(endpoint?: string | null): string | undefined {
+  const trimmed = endpoint?.trim();
+  if (!trimmed) {
+    return undefined;
+  }
+  return trimmed.replace(/\/+$/, "");
+}
+
+// Build an S3 client for either AWS or a custom S3-compatible endpoint
+export function createS3Client(options: S3ConnectionOptions): S3Client {
+  const endpoint = normalizeEndpoint(options.endpoint);
+  
+  const credentials = options.authType === "assume-role" && options.roleArn
+    ? createAssumeRoleCredentials({
+        region: options.region,
+        accessKeyId: options.accessKeyId,
+        secretAccessKey: options.secretAccessKey,
+        roleArn: options.roleArn,
+        externalId: options.externalId,
+        sessionDurationSeconds: options.sessionDurationSeconds,
+        endpoint,
+        tlsVerify: options.tlsVerify,
+      })
+    : {
+        accessKeyId: options.accessKeyId,
+        secretAccessKey: options.secretAccessKey,
+      };
+  
+  return new S3Client({
+    region: options.region,
+    credentials,
+    ...(endpoint && { endpoint }),
+    forcePathStyle: !!options.forcePathStyle,
+    // Buckets can live outside the account's region (see withS3ClientInRegion)
+    followRegionRedirects: true,
+    // Self-signed certificates are common on on-prem MinIO/Ceph installs
+    ...(options.tlsVerify === false && {
+      requestHandler: {
+        httpsAgent: new HttpsAgent({ rejectUnauthorized: false }),
+      },
+    }),
+  });
+}
+
+// Build a direct (unsigned) URL to an object, following the account's endpoint
+export function getObjectUrl(
+  account: Pick<S3Account, "region" | "endpoint" | "forcePathStyle">,
+  bucket: string,
+  key: string
+): string {
+  const encodedKey = key.split("/").map(encodeURIComponent).join("/");
+  const endpoint = normalizeEndpoint(account.endpoint);
+  
+  if (!endpoint) {
+    return account.forcePathStyle
+      ? `https://s3.${account.region}.amazonaws.com/${bucket}/${encodedKey}`
+      : `https://${bucket}.s3.amazonaws.com/${encodedKey}`;
+  }
+  
+  if (account.forcePathStyle) {
+    return `${endpoint}/${bucket}/${encodedKey}`;
+  }
+  
+  // Virtual-hosted style: prepend the bucket to the endpoint's host name
+  const url = new URL(endpoint);
+  url.hostname = `${bucket}.${url.hostname}`;
+  return `${url.toString().replace(/\/+$/, "")}/${encodedKey}`;
+}
+
+// Errors that mean S3 rejected the credentials rather than the request itself
+const CREDENTIAL_ERROR_CODES = new Set([
+  "InvalidAccessKeyId",
+  "SignatureDoesNotMatch",
+  "ExpiredToken",
+  "InvalidToken",
+]);
+
+export function isCredentialError(error: any): boolean {
+  return CREDENTIAL_ERROR_CODES.has(error?.name) || CREDENTIAL_ERROR_CODES.has(error?.Code);
+}
 
 // Export this function so it can be used in routes.ts
 export async function getS3Client(accountId: number): Promise<S3Client> {
   // Check if we already have a client for this account
-  if (s3ClientCache.has(accountId)) {
-    return s3ClientCache.get(accountId)!;
+  const cached = getCachedS3Client(accountId);
+  if (cached) {
+    return cached.client;
   }
   
   // Fetch account info from database
@@ -19,109 +121,730 @@ export async function getS3Client(accountId: number): Promise<S3Client> {
   }
   
   // Create new S3 client
-  const client = new S3Client({
-    region: account.region,
-    credentials: {
-      accessKeyId: account.accessKeyId,
-      secretAccessKey: account.secretAccessKey,
-    }
+  const client = createS3Client({
+    ...account,
+    secretAccessKey: decryptS3AccountSecret(account),
   });
   
-  // Cache the client
-  s3ClientCache.set(accountId, client);
+  // Cache the client (evicted on account changes and after the cache TTL)
+  setCachedS3Client(accountId, client, account.isHealthy);
   
   return client;
 }
 
+// Run an operation against an account's S3 client. If S3 rejects the credentials,
+// the client is rebuilt from the database and the operation retried once; if it
+// fails again the account is marked unhealthy.
+export async function withS3Client<T>(accountId: number, operation: (s3: S3Client) => Promise<T>): Promise<T> {
+  let result: T;
+  
+  try {
+    result = await operation(await getS3Client(accountId));
+  } catch (error) {
+    if (!isCredentialError(error)) {
+      throw error;
+    }
+    
+    console.warn(`S3 rejected credentials for account ${accountId}, retrying with a fresh client`);
+    invalidateS3Client(accountId);
+    
+    try {
+      result = await operation(await getS3Client(accountId));
+    } catch (retryError: any) {
+      if (isCredentialError(retryError)) {
+        await storage.updateS3AccountHealth(accountId, false, retryError.message || retryError.name);
+        invalidateS3Client(accountId);
+      }
+      throw retryError;
+    }
+  }
+  
+  // Clear a previous unhealthy flag once the credentials work again
+  const cached = getCachedS3Client(accountId);
+  if (cached && !cached.healthy) {
+    await storage.updateS3AccountHealth(accountId, true);
+    cached.healthy = true;
+  }
+  
+  return result;
+}
+
+// Run an operation against a specific AWS region with the account's credentials,
+// e.g. to create a bucket outside the account's home region. Custom endpoints
+// have no regional hosts, so they always use the account's own client.
+export async function withS3ClientInRegion<T>(
+  accountId: number,
+  region: string,
+  operation: (s3: S3Client) => Promise<T>
+): Promise<T> {
+  const account = await storage.getS3Account(accountId);
+  if (!account) {
+    throw new Error(`S3 account with ID ${accountId} not found`);
+  }
+  if (!region || region === account.region || normalizeEndpoint(account.endpoint)) {
+    return withS3Client(accountId, operation);
+  }
+  
+  const client = createS3Client({
+    ...account,
+    region,
+    secretAccessKey: decryptS3AccountSecret(account),
+  });
+  try {
+    return await operation(client);
+  } finally {
+    client.destroy();
+  }
+}
+
 export async function listBuckets(accountId: number) {
-  const s3 = await getS3Client(accountId);
   const command = new ListBucketsCommand({});
-  const response = await s3.send(command);
+  const response = await withS3Client(accountId, s3 => s3.send(command));
   return response.Buckets || [];
 }
 
-export async function listObjects(accountId: number, bucket: string, prefix = "", delimiter = "/") {
-  const s3 = await getS3Client(accountId);
+// S3 never returns more than 1000 keys per ListObjectsV2 call
+export const MAX_LIST_PAGE_SIZE = 1000;
+
+export interface ListObjectsPageOptions {
+  continuationToken?: string;
+  // Start listing after this key; ignored when a continuation token is given
+  startAfter?: string;
+  pageSize?: number;
+}
+
+export async function listObjects(
+  accountId: number,
+  bucket: string,
+  prefix = "",
+  delimiter = "/",
+  { continuationToken, startAfter, pageSize = MAX_LIST_PAGE_SIZE }: ListObjectsPageOptions = {}
+) {
   const command = new ListObjectsV2Command({
     Bucket: bucket,
     Prefix: prefix,
-    Delimiter: delimiter,
+    Delimiter: delimiter || undefined,
+    MaxKeys: Math.min(Math.max(pageSize, 1), MAX_LIST_PAGE_SIZE),
+    ContinuationToken: continuationToken || undefined,
+    StartAfter: startAfter || undefined,
   });
   
-  const response = await s3.send(command);
+  const response = await withS3Client(accountId, s3 => s3.send(command));
   
   return {
     objects: response.Contents || [],
     folders: response.CommonPrefixes || [],
     prefix,
     delimiter,
+    isTruncated: !!response.IsTruncated,
+    nextContinuationToken: response.NextContinuationToken,
   };
 }
 
-export async function getDownloadUrl(accountId: number, bucket: string, key: string, expiresIn = 3600) {
-  const s3 = await getS3Client(accountId);
+export async function getDownloadUrl(accountId: number, bucket: string, key: string, expiresIn = 3600, versionId?: string) {
   const command = new GetObjectCommand({
     Bucket: bucket,
     Key: key,
+    VersionId: versionId || undefined,
   });
   
-  return await getSignedUrl(s3, command, { expiresIn });
+  return await withS3Client(accountId, s3 => getSignedUrl(s3, command, { expiresIn }));
 }
 
-export async function deleteObject(accountId: number, bucket: string, key: string) {
-  const s3 = await getS3Client(accountId);
-  const command = new DeleteObjectCommand({
+// A signed URL that opens the object in the browser instead of downloading it.
+// Media players request byte ranges from it directly.
+export async function getPreviewUrl(accountId: number, bucket: string, key: string, contentType: string, expiresIn = 3600) {
+  const command = new GetObjectCommand({
     Bucket: bucket,
     Key: key,
+    ResponseContentType: contentType,
+    ResponseContentDisposition: "inline",
   });
   
-  return await s3.send(command);
+  return await withS3Client(accountId, s3 => getSignedUrl(s3, command, { expiresIn }));
 }
 
-export async function deleteObjects(accountId: number, bucket: string, keys: string[]) {
-  const s3 = await getS3Client(accountId);
-  const command = new DeleteObjectsCommand({
+export type TextPreviewResult =
+  | { text: string; size: number; truncated: boolean }
+  | { error: "encoded"; message: string };
+
+// The first maxBytes of an object as UTF-8 text, and whether there was more.
+// Compressed objects are refused, since a cut-off start of them isn't text.
+export async function getObjectTextPreview(accountId: number, bucket: string, key: string, maxBytes: number): Promise<TextPreviewResult> {
+  const command = new GetObjectCommand({
     Bucket: bucket,
-    Delete: {
-      Objects: keys.map(Key => ({ Key })),
-      Quiet: true
-    },
+    Key: key,
+    Range: `bytes=0-${maxBytes - 1}`,
+  });
+  
+  let response;
+  try {
+    response = await withS3Client(accountId, s3 => s3.send(command));
+  } catch (error: any) {
+    // S3 can't satisfy any range of an empty object
+    if (error?.name === "InvalidRange" || error?.$metadata?.httpStatusCode === 416) {
+      return { text: "", size: 0, truncated: false };
+    }
+    throw error;
+  }
+  const bytes = response.Body ? await response.Body.transformToByteArray() : new Uint8Array();
+  if (response.ContentEncoding && response.ContentEncoding !== "identity") {
+    return { error: "encoded", message: `This file is stored ${response.ContentEncoding}-encoded and can't be previewed` };
+  }
+  // Content-Range is "bytes 0-999/12345"; without it the whole object was returned
+  const total = response.ContentRange ? parseInt(response.ContentRange.split("/")[1], 10) : bytes.length;
+  
+  return {
+    // A cut may land inside a multi-byte character; the decoder replaces it
+    text: new TextDecoder("utf-8").decode(bytes),
+    size: isNaN(total) ? bytes.length : total,
+    truncated: !isNaN(total) && total > bytes.length,
+  };
+}
+
+// The whole object as UTF-8 text, with the ETag of the version that was read
+export async function getObjectText(accountId: number, bucket: string, key: string) {
+  const command = new GetObjectCommand({
+    Bucket: bucket,
+    Key: key,
+  });
+  
+  const response = await withS3Client(accountId, s3 => s3.send(command));
+  const bytes = response.Body ? await response.Body.transformToByteArray() : new Uint8Array();
+  
+  return {
+    text: new TextDecoder("utf-8").decode(bytes),
+    etag: response.ETag || "",
+    size: bytes.length,
+    contentType: response.ContentType,
+    lastModified: response.LastModified,
+  };
+}
+
+// Overwrite an object with new text, keeping its headers, user metadata, tags,
+// storage class and encryption. With ifMatch the write fails with
+// PreconditionFailed if the object no longer has that ETag.
+export async function putObjectText(
+  accountId: number,
+  bucket: string,
+  key: string,
+  text: string,
+  current: HeadObjectCommandOutput,
+  tags: Record<string, string>,
+  ifMatch?: string
+) {
+  const command = new PutObjectCommand({
+    Bucket: bucket,
+    Key: key,
+    Body: Buffer.from(text, "utf-8"),
+    IfMatch: ifMatch,
+    ContentType: current.ContentType,
+    CacheControl: current.CacheControl,
+    ContentDisposition: current.ContentDisposition,
+    ContentEncoding: current.ContentEncoding,
+    ContentLanguage: current.ContentLanguage,
+    Metadata: current.Metadata,
+    Tagging: Object.keys(tags).length > 0 ? new URLSearchParams(tags).toString() : undefined,
+    StorageClass: current.StorageClass,
+    ServerSideEncryption: current.ServerSideEncryption,
+    SSEKMSKeyId: current.SSEKMSKeyId,
   });
   
-  return await s3.send(command);
+  return await withS3Client(accountId, s3 => s3.send(command));
 }
 
-export async function copyObject(accountId: number, sourceBucket: string, sourceKey: string, destinationBucket: string, destinationKey: string) {
-  const s3 = await getS3Client(accountId);
+// With a versionId this permanently deletes that version (or removes that delete marker)
+export async function deleteObject(accountId: number, bucket: string, key: string, versionId?: string) {
+  const command = new DeleteObjectCommand({
+    Bucket: bucket,
+    Key: key,
+    VersionId: versionId || undefined,
+  });
+  
+  return await withS3Client(accountId, s3 => s3.send(command));
+}
+
+// DeleteObjects accepts at most 1000 keys per request
+export const MAX_DELETE_BATCH_SIZE = 1000;
+
+export interface KeyError {
+  key: string;
+  message: string;
+}
+
+// Delete any number of keys, in chunks of 1000, reporting the result for each key
+export async function deleteObjects(accountId: number, bucket: string, keys: string[]) {
+  const deleted: string[] = [];
+  const errors: KeyError[] = [];
+  
+  for (let i = 0; i < keys.length; i += MAX_DELETE_BATCH_SIZE) {
+    const chunk = keys.slice(i, i + MAX_DELETE_BATCH_SIZE);
+    const command = new DeleteObjectsCommand({
+      Bucket: bucket,
+      Delete: {
+        Objects: chunk.map(Key => ({ Key })),
+        Quiet: false
+      },
+    });
+    
+    try {
+      const response = await withS3Client(accountId, s3 => s3.send(command));
+      
+      for (const item of response.Deleted || []) {
+        if (item.Key) deleted.push(item.Key);
+      }
+      for (const item of response.Errors || []) {
+        if (item.Key) errors.push({ key: item.Key, message: item.Message || item.Code || "Delete failed" });
+      }
+    } catch (error: any) {
+      // The whole request failed, so none of the keys in this chunk were deleted
+      const message = error.message || "Delete failed";
+      errors.push(...chunk.map(key => ({ key, message })));
+    }
+  }
+  
+  return { deleted, errors };
+}
+
+// List every object under a prefix (no delimiter), following continuation tokens
+export async function listAllObjects(accountId: number, bucket: string, prefix: string) {
+  const objects: _Object[] = [];
+  let continuationToken: string | undefined;
+  
+  do {
+    const page = await listObjects(accountId, bucket, prefix, "", { continuationToken });
+    objects.push(...page.objects);
+    continuationToken = page.isTruncated ? page.nextContinuationToken : undefined;
+  } while (continuationToken);
+  
+  return objects;
+}
+
+export async function listAllObjectKeys(accountId: number, bucket: string, prefix: string) {
+  const objects = await listAllObjects(accountId, bucket, prefix);
+  return objects.flatMap(object => (object.Key ? [object.Key] : []));
+}
+
+export async function copyObject(accountId: number, sourceBucket: string, sourceKey: string, destinationBucket: string, destinationKey: string, sourceVersionId?: string) {
+  const copySource = `${sourceBucket}/${encodeURIComponent(sourceKey)}`;
   const command = new CopyObjectCommand({
     Bucket: destinationBucket,
     Key: destinationKey,
-    CopySource: `${sourceBucket}/${encodeURIComponent(sourceKey)}`,
+    CopySource: sourceVersionId ? `${copySource}?versionId=${encodeURIComponent(sourceVersionId)}` : copySource,
   });
   
-  return await s3.send(command);
+  return await withS3Client(accountId, s3 => s3.send(command));
+}
+
+export interface ObjectVersion {
+  key: string;
+  versionId: string;
+  isLatest: boolean;
+  isDeleteMarker: boolean;
+  size?: number;
+  lastModified?: Date;
+  etag?: string;
+  storageClass?: string;
+}
+
+// Page through ListObjectVersions, merging versions and delete markers
+async function listAllObjectVersions(accountId: number, bucket: string, prefix: string, delimiter?: string) {
+  const entries: ObjectVersion[] = [];
+  let keyMarker: string | undefined;
+  let versionIdMarker: string | undefined;
+  
+  do {
+    const command = new ListObjectVersionsCommand({
+      Bucket: bucket,
+      Prefix: prefix,
+      Delimiter: delimiter,
+      KeyMarker: keyMarker,
+      VersionIdMarker: versionIdMarker,
+    });
+    const response = await withS3Client(accountId, s3 => s3.send(command));
+    
+    for (const version of response.Versions || []) {
+      entries.push({
+        key: version.Key!,
+        versionId: version.VersionId || "null",
+        isLatest: !!version.IsLatest,
+        isDeleteMarker: false,
+        size: version.Size,
+        lastModified: version.LastModified,
+        etag: version.ETag,
+        storageClass: version.StorageClass,
+      });
+    }
+    for (const marker of response.DeleteMarkers || []) {
+      entries.push({
+        key: marker.Key!,
+        versionId: marker.VersionId || "null",
+        isLatest: !!marker.IsLatest,
+        isDeleteMarker: true,
+        lastModified: marker.LastModified,
+      });
+    }
+    
+    keyMarker = response.IsTruncated ? response.NextKeyMarker : undefined;
+    versionIdMarker = response.IsTruncated ? response.NextVersionIdMarker : undefined;
+  } while (keyMarker);
+  
+  return entries;
+}
+
+// Every version and delete marker of one object, newest first
+export async function listObjectVersions(accountId: number, bucket: string, key: string) {
+  const entries = await listAllObjectVersions(accountId, bucket, key);
+  
+  return entries
+    .filter(entry => entry.key === key)
+    .sort((a, b) => (b.lastModified?.getTime() ?? 0) - (a.lastModified?.getTime() ?? 0));
+}
+
+// Objects directly under a prefix whose current version is a delete marker. Size
+// and ETag come from the newest real version, when there is one.
+export async function listDeletedObjects(accountId: number, bucket: string, prefix = "") {
+  const entries = await listAllObjectVersions(accountId, bucket, prefix, "/");
+  const markers = entries.filter(entry => entry.isDeleteMarker && entry.isLatest);
+  
+  return markers.map(marker => {
+    const previous = entries
+      .filter(entry => entry.key === marker.key && !entry.isDeleteMarker)
+      .sort((a, b) => (b.lastModified?.getTime() ?? 0) - (a.lastModified?.getTime() ?? 0))[0];
+    
+    return {
+      key: marker.key,
+      deleteMarkerVersionId: marker.versionId,
+      deletedAt: marker.lastModified,
+      size: previous?.size,
+      etag: previous?.etag,
+    };
+  });
+}
+
+// Open an object's body as a stream, for piping to a response without buffering it
+export async function getObjectStream(accountId: number, bucket: string, key: string) {
+  const command = new GetObjectCommand({
+    Bucket: bucket,
+    Key: key,
+  });
+  
+  const response = await withS3Client(accountId, s3 => s3.send(command));
+  return response.Body as Readable;
 }
 
 export async function getObjectMetadata(accountId: number, bucket: string, key: string) {
-  const s3 = await getS3Client(accountId);
   const command = new HeadObjectCommand({
     Bucket: bucket,
     Key: key,
   });
   
-  return await s3.send(command);
+  return await withS3Client(accountId, s3 => s3.send(command));
+}
+
+// Everything the file details drawer shows: system metadata, user metadata and tags
+export async function getObjectDetails(accountId: number, bucket: string, key: string) {
+  const head = await getObjectMetadata(accountId, bucket, key);
+  const tags = await getObjectTags(accountId, bucket, key);
+  
+  return {
+    key,
+    size: head.ContentLength,
+    lastModified: head.LastModified,
+    etag: head.ETag,
+    versionId: head.VersionId,
+    contentType: head.ContentType,
+    cacheControl: head.CacheControl,
+    contentDisposition: head.ContentDisposition,
+    contentEncoding: head.ContentEncoding,
+    contentLanguage: head.ContentLanguage,
+    serverSideEncryption: head.ServerSideEncryption,
+    sseKmsKeyId: head.SSEKMSKeyId,
+    // HeadObject omits the storage class for STANDARD objects
+    storageClass: head.StorageClass || "STANDARD",
+    archiveStatus: head.ArchiveStatus,
+    ...getArchiveState(head),
+    metadata: head.Metadata || {},
+    tags,
+  };
+}
+
+export async function getObjectTags(accountId: number, bucket: string, key: string) {
+  const command = new GetObjectTaggingCommand({
+    Bucket: bucket,
+    Key: key,
+  });
+  
+  const response = await withS3Client(accountId, s3 => s3.send(command));
+  return Object.fromEntries((response.TagSet || []).map(tag => [tag.Key!, tag.Value ?? ""])) as Record<string, string>;
+}
+
+// Replaces the whole tag set; S3 allows at most 10 tags per object
+export const MAX_OBJECT_TAGS = 10;
+
+export async function putObjectTags(accountId: number, bucket: string, key: string, tags: Record<string, string>) {
+  const tagSet: Tag[] = Object.entries(tags).map(([Key, Value]) => ({ Key, Value }));
+  const command = new PutObjectTaggingCommand({
+    Bucket: bucket,
+    Key: key,
+    Tagging: { TagSet: tagSet },
+  });
+  
+  return await withS3Client(accountId, s3 => s3.send(command));
+}
+
+// System headers that can be changed by copying an object over itself
+export interface SystemMetadata {
+  contentType?: string;
+  cacheControl?: string;
+  contentDisposition?: string;
+  contentEncoding?: string;
+  contentLanguage?: string;
+}
+
+// Rewrite an object's metadata with an in-place copy (MetadataDirective=REPLACE).
+// Storage class and encryption settings are carried over; tags are kept by the copy.
+export async function replaceObjectMetadata(
+  accountId: number,
+  bucket: string,
+  key: string,
+  system: SystemMetadata,
+  metadata: Record<string, string>,
+  current: HeadObjectCommandOutput
+) {
+  const command = new CopyObjectCommand({
+    Bucket: bucket,
+    Key: key,
+    CopySource: `${bucket}/${encodeURIComponent(key)}`,
+    MetadataDirective: "REPLACE",
+    ContentType: system.contentType || undefined,
+    CacheControl: system.cacheControl || undefined,
+    ContentDisposition: system.contentDisposition || undefined,
+    ContentEncoding: system.contentEncoding || undefined,
+    ContentLanguage: system.contentLanguage || undefined,
+    Metadata: metadata,
+    StorageClass: current.StorageClass,
+    ServerSideEncryption: current.ServerSideEncryption,
+    SSEKMSKeyId: current.SSEKMSKeyId,
+  });
+  
+  return await withS3Client(accountId, s3 => s3.send(command));
+}
+
+// Storage classes an object can be moved to with an in-place copy
+export const STORAGE_CLASSES = [
+  "STANDARD",
+  "STANDARD_IA",
+  "ONEZONE_IA",
+  "INTELLIGENT_TIERING",
+  "GLACIER_IR",
+  "GLACIER",
+  "DEEP_ARCHIVE",
+] as const;
+
+// Classes whose objects must be restored before they can be read
+const ARCHIVE_STORAGE_CLASSES = new Set(["GLACIER", "DEEP_ARCHIVE"]);
+
+export const RESTORE_TIERS = ["Expedited", "Standard", "Bulk"] as const;
+
+export type RestoreStatus = "none" | "in-progress" | "restored";
+
+// Parse the x-amz-restore header, e.g.
+// ongoing-request="false", expiry-date="Fri, 21 Dec 2012 00:00:00 GMT"
+export function parseRestoreHeader(restore?: string): { status: RestoreStatus; expiresAt?: Date } {
+  if (!restore) {
+    return { status: "none" };
+  }
+  if (/ongoing-request="true"/.test(restore)) {
+    return { status: "in-progress" };
+  }
+  const expiry = restore.match(/expiry-date="([^"]+)"/);
+  return { status: "restored", expiresAt: expiry ? new Date(expiry[1]) : undefined };
+}
+
+// Whether an object is archived (GLACIER/DEEP_ARCHIVE, or an Intelligent-Tiering
+// archive tier) and whether a restored copy can currently be read
+export function getArchiveState(head: HeadObjectCommandOutput) {
+  const isArchived = ARCHIVE_STORAGE_CLASSES.has(head.StorageClass || "") || !!head.ArchiveStatus;
+  const restore = parseRestoreHeader(head.Restore);
+  
+  return {
+    isArchived,
+    restoreStatus: restore.status,
+    restoreExpiresAt: restore.expiresAt,
+    isReadable: !isArchived || restore.status === "restored",
+  };
+}
+
+// A user-facing reason an object can't be downloaded right now, or undefined if it can
+export async function getUnreadableReason(accountId: number, bucket: string, key: string) {
+  const head = await getObjectMetadata(accountId, bucket, key);
+  const state = getArchiveState(head);
+  if (state.isReadable) {
+    return undefined;
+  }
+  
+  const location = head.ArchiveStatus ? `the ${head.ArchiveStatus} tier` : head.StorageClass;
+  return state.restoreStatus === "in-progress"
+    ? { ...state, message: `This file is archived in ${location} and is being restored. Try again once the restore has finished.` }
+    : { ...state, message: `This file is archived in ${location} and must be restored before it can be downloaded.` };
+}
+
+// Move an object to another storage class by copying it over itself. Encryption
+// settings are carried over; metadata and tags are copied unchanged.
+export async function changeStorageClass(accountId: number, bucket: string, key: string, storageClass: string) {
+  const current = await getObjectMetadata(accountId, bucket, key);
+  if ((current.StorageClass || "STANDARD") === storageClass) {
+    return current;
+  }
+  
+  const command = new CopyObjectCommand({
+    Bucket: bucket,
+    Key: key,
+    CopySource: `${bucket}/${encodeURIComponent(key)}`,
+    StorageClass: storageClass as StorageClass,
+    ServerSideEncryption: current.ServerSideEncryption,
+    SSEKMSKeyId: current.SSEKMSKeyId,
+  });
+  
+  return await withS3Client(accountId, s3 => s3.send(command));
+}
+
+// Ask S3 to make a temporary readable copy of an archived object for `days` days
+export async function restoreObject(accountId: number, bucket: string, key: string, days: number, tier: string) {
+  const command = new RestoreObjectCommand({
+    Bucket: bucket,
+    Key: key,
+    RestoreRequest: {
+      Days: days,
+      GlacierJobParameters: { Tier: tier as Tier },
+    },
+  });
+  
+  return await withS3Client(accountId, s3 => s3.send(command));
 }
 
 export async function checkBucketExists(accountId: number, bucket: string): Promise<boolean> {
   try {
-    const s3 = await getS3Client(accountId);
-    const command = new HeadBucketCommand({
+      const command = new HeadBucketCommand({
       Bucket: bucket,
     });
     
-    await s3.send(command);
+    await withS3Client(accountId, s3 => s3.send(command));
     return true;
   } catch (error) {
     return false;
   }
-}
\ No newline at end of file
+}
+
+// Read a bucket's lifecycle rules; a bucket without a configuration has no rules
+export async function getBucketLifecycle(accountId: number, bucket: string): Promise<S3LifecycleRule[]> {
+  try {
+    const command = new GetBucketLifecycleConfigurationCommand({ Bucket: bucket });
+    const response = await withS3Client(accountId, s3 => s3.send(command));
+    return (response.Rules || []) as S3LifecycleRule[];
+  } catch (error: any) {
+    if (error.name === "NoSuchLifecycleConfiguration") {
+      return [];
+    }
+    throw error;
+  }
+}
+
+// Replace a bucket's lifecycle rules. S3 rejects an empty rule list, so saving no
+// rules deletes the configuration instead.
+export async function putBucketLifecycle(accountId: number, bucket: string, rules: S3LifecycleRule[]) {
+  if (rules.length === 0) {
+    const command = new DeleteBucketLifecycleCommand({ Bucket: bucket });
+    return await withS3Client(accountId, s3 => s3.send(command));
+  }
+  
+  const command = new PutBucketLifecycleConfigurationCommand({
+    Bucket: bucket,
+    LifecycleConfiguration: { Rules: rules as LifecycleRule[] },
+  });
+  
+  return await withS3Client(accountId, s3 => s3.send(command));
+}
+
+// S3 multipart limits: parts are numbered 1-10000
+export const MAX_UPLOAD_PARTS = 10000;
+
+export async function createMultipartUpload(accountId: number, bucket: string, key: string, contentType?: string) {
+  const command = new CreateMultipartUploadCommand({
+    Bucket: bucket,
+    Key: key,
+    ContentType: contentType || undefined,
+  });
+  
+  const response = await withS3Client(accountId, s3 => s3.send(command));
+  return response.UploadId;
+}
+
+// Presigned URL the browser can PUT a single part to directly
+export async function getUploadPartUrl(
+  accountId: number,
+  bucket: string,
+  key: string,
+  uploadId: string,
+  partNumber: number,
+  expiresIn = 3600
+) {
+  const command = new UploadPartCommand({
+    Bucket: bucket,
+    Key: key,
+    UploadId: uploadId,
+    PartNumber: partNumber,
+  });
+  
+  return await withS3Client(accountId, s3 => getSignedUrl(s3, command, { expiresIn }));
+}
+
+export async function completeMultipartUpload(
+  accountId: number,
+  bucket: string,
+  key: string,
+  uploadId: string,
+  parts: { PartNumber: number; ETag: string }[]
+) {
+  const command = new CompleteMultipartUploadCommand({
+    Bucket: bucket,
+    Key: key,
+    UploadId: uploadId,
+    MultipartUpload: {
+      Parts: [...parts].sort((a, b) => a.PartNumber - b.PartNumber),
+    },
+  });
+  
+  return await withS3Client(accountId, s3 => s3.send(command));
+}
+
+export async function abortMultipartUpload(accountId: number, bucket: string, key: string, uploadId: string) {
+  const command = new AbortMultipartUploadCommand({
+    Bucket: bucket,
+    Key: key,
+    UploadId: uploadId,
+  });
+  
+  return await withS3Client(accountId, s3 => s3.send(command));
+}
+
+// List the parts S3 already has for an upload, so a client can resume it
+export async function listUploadedParts(accountId: number, bucket: string, key: string, uploadId: string) {
+  const parts: Part[] = [];
+  let partNumberMarker: string | undefined;
+  
+  do {
+    const command = new ListPartsCommand({
+      Bucket: bucket,
+      Key: key,
+      UploadId: uploadId,
+      PartNumberMarker: partNumberMarker,
+    });
+    const response = await withS3Client(accountId, s3 => s3.send(command));
+    parts.push(...(response.Parts || []));
+    partNumberMarker = response.IsTruncated ? response.NextPartNumberMarker : undefined;
+  } while (partNumberMarker);
+  
+  return parts;
+}
@@ -0,0 +1,57 @@
+import { describe, it, expect, vi } from "vitest";
+import { globToRegExp, compileKeyMatcher, validateSearchQuery } from "./s3-search";
+
+// s3-search reaches the database through s3-client, but these tests never do
+vi.mock("./db", () => ({ db: {}, pool: {} }));
+
+describe("globToRegExp", () => {
+  it("matches * within one folder and ? as one character", () => {
+    const pattern = globToRegExp("*.jp?g", false);
+    expect(pattern.test("photo.jpeg")).toBe(true);
+    expect(pattern.test("PHOTO.JPEG")).toBe(true);
+    expect(pattern.test("photo.jpg")).toBe(false);
+    expect(globToRegExp("*.txt", false).test("notes/todo.txt")).toBe(false);
+  });
+
+  it("matches any number of folders with **/", () => {
+    const pattern = globToRegExp("**/*.log", true);
+    expect(pattern.test("app.log")).toBe(true);
+    expect(pattern.test("2026/01/app.log")).toBe(true);
+    expect(pattern.test("2026/01/app.LOG")).toBe(false);
+  });
+
+  it("treats other regex characters literally", () => {
+    const pattern = globToRegExp("report (1).[ab]+", true);
+    expect(pattern.test("report (1).[ab]+")).toBe(true);
+    expect(pattern.test("report 1.a")).toBe(false);
+  });
+});
+
+describe("compileKeyMatcher", () => {
+  it("matches globs without a slash against the file name", () => {
+    const matches = compileKeyMatcher({ prefix: "photos/", pattern: "*.png" })!;
+    expect(matches("photos/2026/cat.png")).toBe(true);
+    expect(matches("photos/2026/cat.png.bak")).toBe(false);
+  });
+
+  it("matches regexes against the key below the prefix", () => {
+    const matches = compileKeyMatcher({ prefix: "logs/", pattern: "^2026/", patternType: "regex" })!;
+    expect(matches("logs/2026/app.log")).toBe(true);
+    expect(matches("logs/2025/app.log")).toBe(false);
+  });
+
+  it("runs patterns that would backtrack in linear time", () => {
+    const matches = compileKeyMatcher({ pattern: "^(a+)+$", patternType: "regex" })!;
+    const started = Date.now();
+    expect(matches(`${"a".repeat(10000)}b`)).toBe(false);
+    expect(Date.now() - started).toBeLessThan(2000);
+  });
+});
+
+describe("validateSearchQuery", () => {
+  it("rejects invalid and unsupported regular expressions", () => {
+    expect(validateSearchQuery({ pattern: "(a", patternType: "regex" })).toMatch(/^Invalid regular expression/);
+    expect(validateSearchQuery({ pattern: "a(?=b)", patternType: "regex" })).toMatch(/^Invalid regular expression/);
+    expect(validateSearchQuery({ pattern: "a.*b", patternType: "regex" })).toBeUndefined();
+  });
+});
@@ -0,0 +1,286 @@
+import type { _Object } from "@aws-sdk/client-s3";
+import { RE2JS } from "re2js";
+import { listObjects, getObjectMetadata, getObjectTags } from "./s3-client";
+import { isFolderKey, normalizePrefix, mapWithConcurrency, BATCH_CONCURRENCY } from "./s3-batch";
+
+// Recursive search of a bucket or prefix. Keys are listed page by page and
+// matched against the cheap filters (name, size, date, storage class) first;
+// content type and tag filters need a request per candidate, so they only run
+// on objects that passed the others.
+
+export const DEFAULT_SEARCH_RESULTS = 1000;
+export const MAX_SEARCH_RESULTS = 5000;
+
+// Patterns run on RE2, which matches in time linear in the key's length, so no
+// pattern can stall a search by backtracking. It has no lookarounds or backreferences.
+const MAX_PATTERN_LENGTH = 256;
+
+export interface SearchQuery {
+  prefix?: string;
+  // Matched against the key relative to prefix; a pattern without "/" matches the file name
+  pattern?: string;
+  patternType?: "glob" | "regex";
+  caseSensitive?: boolean;
+  minSize?: number;
+  maxSize?: number;
+  // ISO dates
+  modifiedAfter?: string;
+  modifiedBefore?: string;
+  storageClasses?: string[];
+  // Exact type, or "image/*" for a whole family
+  contentType?: string;
+  tagKey?: string;
+  // Only checked when tagKey is set; leave empty to match any value
+  tagValue?: string;
+  maxResults?: number;
+  // Resume a search that stopped at maxResults
+  startAfter?: string;
+  // List S3 directly even when the bucket has an object index
+  live?: boolean;
+}
+
+export interface SearchMatch {
+  Key: string;
+  Size?: number;
+  LastModified?: Date;
+  ETag?: string;
+  StorageClass?: string;
+  ContentType?: string;
+}
+
+export interface SearchSummary {
+  scanned: number;
+  matched: number;
+  // More objects may match; pass nextStartAfter as startAfter to continue
+  truncated: boolean;
+  nextStartAfter?: string;
+  cancelled: boolean;
+}
+
+export interface SearchCallbacks {
+  onMatch: (match: SearchMatch) => void;
+  onProgress: (scanned: number) => void;
+  signal?: AbortSignal;
+}
+
+function isValidDate(value: string) {
+  return !isNaN(new Date(value).getTime());
+}
+
+function isSize(value: unknown) {
+  return typeof value === "number" && Number.isFinite(value) && value >= 0;
+}
+
+// "**/" matches any number of folders, "*" anything but "/", "?" one character
+export function globToRegExp(glob: string, caseSensitive: boolean) {
+  let source = "";
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === "*" && glob[i + 1] === "*") {
+      i++;
+      if (glob[i + 1] === "/") {
+        i++;
+        source += "(?:.*/)?";
+      } else {
+        source += ".*";
+      }
+    } else if (char === "*") {
+      source += "[^/]*";
+    } else if (char === "?") {
+      source += "[^/]";
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${source}$`, caseSensitive ? "" : "i");
+}
+
+function compilePattern(query: SearchQuery) {
+  if (!query.pattern) return undefined;
+  const flags = query.caseSensitive ? 0 : RE2JS.CASE_INSENSITIVE;
+  return query.patternType === "regex"
+    ? RE2JS.compile(query.pattern, flags)
+    : RE2JS.compile(globToRegExp(query.pattern, true).source, flags);
+}
+
+// Returns a message describing what is wrong with a query, or undefined if it is valid
+export function validateSearchQuery(query: SearchQuery): string | undefined {
+  if (query.prefix !== undefined && typeof query.prefix !== "string") {
+    return "prefix must be a string";
+  }
+  if (query.patternType !== undefined && query.patternType !== "glob" && query.patternType !== "regex") {
+    return "patternType must be \"glob\" or \"regex\"";
+  }
+  if (query.pattern !== undefined) {
+    if (typeof query.pattern !== "string") {
+      return "pattern must be a string";
+    }
+    if (query.pattern.length > MAX_PATTERN_LENGTH) {
+      return `pattern can be at most ${MAX_PATTERN_LENGTH} characters`;
+    }
+    try {
+      compilePattern(query);
+    } catch (error: any) {
+      return `Invalid regular expression: ${error.message}`;
+    }
+  }
+  if (query.minSize !== undefined && !isSize(query.minSize)) {
+    return "minSize must be a non-negative number";
+  }
+  if (query.maxSize !== undefined && !isSize(query.maxSize)) {
+    return "maxSize must be a non-negative number";
+  }
+  if (query.minSize !== undefined && query.maxSize !== undefined && query.minSize > query.maxSize) {
+    return "minSize can't be larger than maxSize";
+  }
+  for (const field of ["modifiedAfter", "modifiedBefore"] as const) {
+    const value = query[field];
+    if (value !== undefined && (typeof value !== "string" || !isValidDate(value))) {
+      return `${field} must be a date`;
+    }
+  }
+  if (query.storageClasses !== undefined) {
+    // Not limited to STORAGE_CLASSES: listings also report legacy classes like REDUCED_REDUNDANCY
+    if (!Array.isArray(query.storageClasses) || !query.storageClasses.every(storageClass => typeof storageClass === "string")) {
+      return "storageClasses must be an array of storage class names";
+    }
+  }
+  if (query.contentType !== undefined && typeof query.contentType !== "string") {
+    return "contentType must be a string";
+  }
+  if (query.tagKey !== undefined && typeof query.tagKey !== "string") {
+    return "tagKey must be a string";
+  }
+  if (query.tagValue !== undefined && typeof query.tagValue !== "string") {
+    return "tagValue must be a string";
+  }
+  if (query.maxResults !== undefined && (!Number.isInteger(query.maxResults) || query.maxResults < 1 || query.maxResults > MAX_SEARCH_RESULTS)) {
+    return `maxResults must be between 1 and ${MAX_SEARCH_RESULTS}`;
+  }
+  if (query.startAfter !== undefined && typeof query.startAfter !== "string") {
+    return "startAfter must be a string";
+  }
+  return undefined;
+}
+
+// Test a key against the query's name pattern; undefined when there is no pattern
+export function compileKeyMatcher(query: SearchQuery): ((key: string) => boolean) | undefined {
+  const pattern = compilePattern(query);
+  if (!pattern) return undefined;
+  const prefix = normalizePrefix(query.prefix);
+  // Globs without a "/" are about file names, like a shell's *.jpg
+  const matchName = query.patternType !== "regex" && !query.pattern!.includes("/");
+  return key => pattern.test(matchName ? key.slice(key.lastIndexOf("/") + 1) : key.slice(prefix.length));
+}
+
+function matchesContentType(contentType: string | undefined, filter: string) {
+  const actual = (contentType || "").split(";")[0].trim().toLowerCase();
+  const wanted = filter.trim().toLowerCase();
+  return wanted.endsWith("/*") ? actual.startsWith(wanted.slice(0, -1)) : actual === wanted;
+}
+
+// Walk every object under the query's prefix, reporting matches as they are found.
+// Stops early once maxResults objects matched or the signal is aborted.
+export async function searchObjects(
+  accountId: number,
+  bucket: string,
+  query: SearchQuery,
+  { onMatch, onProgress, signal }: SearchCallbacks
+): Promise<SearchSummary> {
+  const prefix = normalizePrefix(query.prefix);
+  const matchesKey = compileKeyMatcher(query);
+  const modifiedAfter = query.modifiedAfter ? new Date(query.modifiedAfter).getTime() : undefined;
+  const modifiedBefore = query.modifiedBefore ? new Date(query.modifiedBefore).getTime() : undefined;
+  const storageClasses = query.storageClasses?.length ? new Set(query.storageClasses) : undefined;
+  const contentType = query.contentType?.trim() || undefined;
+  const tagKey = query.tagKey?.trim() || undefined;
+  const maxResults = query.maxResults || DEFAULT_SEARCH_RESULTS;
+
+  const passesListFilters = (object: _Object) => {
+    if (matchesKey && !matchesKey(object.Key!)) return false;
+    const size = object.Size || 0;
+    if (query.minSize !== undefined && size < query.minSize) return false;
+    if (query.maxSize !== undefined && size > query.maxSize) return false;
+    const modified = object.LastModified?.getTime();
+    if (modifiedAfter !== undefined && (modified === undefined || modified < modifiedAfter)) return false;
+    if (modifiedBefore !== undefined && (modified === undefined || modified > modifiedBefore)) return false;
+    if (storageClasses && !storageClasses.has(object.StorageClass || "STANDARD")) return false;
+    return true;
+  };
+
+  // Returns the match, or undefined if a per-object filter rejects it
+  const checkObject = async (object: _Object): Promise<SearchMatch | undefined> => {
+    const match: SearchMatch = {
+      Key: object.Key!,
+      Size: object.Size,
+      LastModified: object.LastModified,
+      ETag: object.ETag,
+      StorageClass: object.StorageClass,
+    };
+    if (!contentType && !tagKey) return match;
+    if (signal?.aborted) return undefined;
+
+    try {
+      if (contentType) {
+        const head = await getObjectMetadata(accountId, bucket, match.Key);
+        if (!matchesContentType(head.ContentType, contentType)) return undefined;
+        match.ContentType = head.ContentType;
+      }
+      if (tagKey) {
+        const tags = await getObjectTags(accountId, bucket, match.Key);
+        if (!(tagKey in tags)) return undefined;
+        if (query.tagValue && tags[tagKey] !== query.tagValue) return undefined;
+      }
+    } catch {
+      // Deleted since it was listed, or we may not read it: leave it out
+      return undefined;
+    }
+    return match;
+  };
+
+  let scanned = 0;
+  let matched = 0;
+  let continuationToken: string | undefined;
+  let startAfter = query.startAfter;
+
+  do {
+    if (signal?.aborted) {
+      return { scanned, matched, truncated: false, cancelled: true };
+    }
+
+    const page = await listObjects(accountId, bucket, prefix, "", { continuationToken, startAfter });
+    startAfter = undefined;
+    continuationToken = page.isTruncated ? page.nextContinuationToken : undefined;
+
+    const candidates = page.objects.filter(object => object.Key && !isFolderKey(object.Key) && passesListFilters(object));
+    const results = await mapWithConcurrency(candidates, BATCH_CONCURRENCY, checkObject);
+    if (signal?.aborted) {
+      return { scanned, matched, truncated: false, cancelled: true };
+    }
+
+    // Report in key order so a resumed search picks up exactly where this one stopped
+    for (const match of results) {
+      if (!match) continue;
+      onMatch(match);
+      matched++;
+      if (matched >= maxResults) {
+        const remaining = page.objects.length - page.objects.findIndex(object => object.Key === match.Key) - 1;
+        scanned += page.objects.length - remaining;
+        onProgress(scanned);
+        const truncated = remaining > 0 || !!continuationToken;
+        return {
+          scanned,
+          matched,
+          truncated,
+          nextStartAfter: truncated ? match.Key : undefined,
+          cancelled: false,
+        };
+      }
+    }
+
+    scanned += page.objects.length;
+    onProgress(scanned);
+  } while (continuationToken);
+
+  return { scanned, matched, truncated: false, cancelled: false };
+}
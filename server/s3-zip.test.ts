@@ -0,0 +1,22 @@
+import { describe, it, expect, vi } from "vitest";
+import { getSafeEntryName } from "./s3-zip";
+
+// s3-zip reaches the database through s3-client, but these tests never do
+vi.mock("./db", () => ({ db: {}, pool: {} }));
+
+describe("getSafeEntryName", () => {
+  it("keeps ordinary paths as they are", () => {
+    expect(getSafeEntryName("photos/2026/cat.png")).toBe("photos/2026/cat.png");
+  });
+
+  it("drops segments that would leave the extraction folder", () => {
+    expect(getSafeEntryName("a/../../x")).toBe("a/x");
+    expect(getSafeEntryName("/etc//./passwd")).toBe("etc/passwd");
+    expect(getSafeEntryName("a\\..\\..\\x.txt")).toBe("a/x.txt");
+  });
+
+  it("rejects names with nothing left", () => {
+    expect(getSafeEntryName("../..")).toBeUndefined();
+    expect(getSafeEntryName("/")).toBeUndefined();
+  });
+});
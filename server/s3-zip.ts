@@ -0,0 +1,221 @@
+import archiver from "archiver";
+import { randomBytes } from "crypto";
+import type { Response } from "express";
+import type { Readable } from "stream";
+import { listAllObjects, getObjectMetadata, getObjectStream, type KeyError } from "./s3-client";
+import { isFolderKey, getParentPrefix, mapWithConcurrency, BATCH_CONCURRENCY } from "./s3-batch";
+
+// Streams ZIP archives of selected keys/folders from S3 to the response. Objects
+// are fetched one at a time and piped through, so nothing is buffered in full.
+
+// Largest total (uncompressed) size of an archive; override with S3_ZIP_MAX_BYTES
+const DEFAULT_MAX_ARCHIVE_BYTES = 5 * 1024 * 1024 * 1024;
+
+// Download links handed out by the prepare step are single use and expire quickly
+const ARCHIVE_JOB_TTL_MS = 5 * 60 * 1000;
+
+// Past either classic ZIP limit the archive needs Zip64 records
+const ZIP32_MAX_BYTES = 0xffffffff;
+const ZIP32_MAX_ENTRIES = 0xffff;
+
+// Name of the entry listing objects that could not be added to the archive
+const ERRORS_ENTRY_NAME = "_download-errors.txt";
+
+export interface ArchiveEntry {
+  key: string;
+  // Path inside the archive, relative to the selected item's parent folder
+  name: string;
+  size: number;
+  lastModified?: Date;
+}
+
+export interface ArchiveJob {
+  userId: string;
+  accountId: number;
+  bucket: string;
+  archiveName: string;
+  entries: ArchiveEntry[];
+  totalBytes: number;
+  expiresAt: number;
+}
+
+const archiveJobs = new Map<string, ArchiveJob>();
+
+export function getMaxArchiveBytes(): number {
+  const configured = parseInt(process.env.S3_ZIP_MAX_BYTES || "", 10);
+  return isNaN(configured) || configured <= 0 ? DEFAULT_MAX_ARCHIVE_BYTES : configured;
+}
+
+// Resolve the selected keys (folders recursively) into archive entries with sizes
+export async function planArchive(accountId: number, bucket: string, keys: string[]) {
+  const entries: ArchiveEntry[] = [];
+  const errors: KeyError[] = [];
+  const seen = new Set<string>();
+
+  const addEntry = (entry: ArchiveEntry) => {
+    if (seen.has(entry.key)) return;
+    seen.add(entry.key);
+    entries.push(entry);
+  };
+
+  const fileKeys = keys.filter(key => !isFolderKey(key));
+  const folderKeys = keys.filter(isFolderKey);
+
+  for (const folderKey of folderKeys) {
+    const parent = getParentPrefix(folderKey);
+    try {
+      const objects = await listAllObjects(accountId, bucket, folderKey);
+      for (const object of objects) {
+        // Folder placeholder objects have no content; their paths are implied by the files
+        if (!object.Key || isFolderKey(object.Key)) continue;
+        addEntry({
+          key: object.Key,
+          name: object.Key.slice(parent.length),
+          size: object.Size || 0,
+          lastModified: object.LastModified,
+        });
+      }
+    } catch (error: any) {
+      errors.push({ key: folderKey, message: error.message || "Failed to list folder contents" });
+    }
+  }
+
+  await mapWithConcurrency(fileKeys, BATCH_CONCURRENCY, async key => {
+    try {
+      const metadata = await getObjectMetadata(accountId, bucket, key);
+      addEntry({
+        key,
+        name: key.slice(getParentPrefix(key).length),
+        size: metadata.ContentLength || 0,
+        lastModified: metadata.LastModified,
+      });
+    } catch (error: any) {
+      errors.push({ key, message: error.message || "Object not found" });
+    }
+  });
+
+  const totalBytes = entries.reduce((total, entry) => total + entry.size, 0);
+  return { entries, errors, totalBytes };
+}
+
+// A single selected folder or file names the archive; otherwise use the bucket name
+export function getArchiveName(bucket: string, keys: string[]) {
+  const base = keys.length === 1 ? keys[0].replace(/\/$/, "").split("/").pop() : bucket;
+  return `${base || bucket}.zip`;
+}
+
+export function createArchiveJob(job: Omit<ArchiveJob, "expiresAt">): string {
+  const now = Date.now();
+  for (const [token, existing] of Array.from(archiveJobs.entries())) {
+    if (existing.expiresAt < now) archiveJobs.delete(token);
+  }
+
+  const token = randomBytes(24).toString("hex");
+  archiveJobs.set(token, { ...job, expiresAt: now + ARCHIVE_JOB_TTL_MS });
+  return token;
+}
+
+// Look up and consume a prepared archive job
+export function takeArchiveJob(token: string): ArchiveJob | undefined {
+  const job = archiveJobs.get(token);
+  archiveJobs.delete(token);
+  if (!job || job.expiresAt < Date.now()) {
+    return undefined;
+  }
+  return job;
+}
+
+// An entry name that stays inside the folder it's extracted to: empty, "." and
+// ".." segments are dropped, and backslashes count as separators as they do on
+// Windows. Undefined if nothing is left.
+export function getSafeEntryName(name: string): string | undefined {
+  const segments = name.split(/[\\/]/).filter(segment => segment && segment !== "." && segment !== "..");
+  return segments.length > 0 ? segments.join("/") : undefined;
+}
+
+// Resolves once archiver has consumed the whole entry, so only one S3 object is
+// being read at a time. Rejects if the object stream or the client connection fails.
+function waitForEntry(archive: archiver.Archiver, body: Readable, res: Response) {
+  return new Promise<void>((resolve, reject) => {
+    const cleanup = () => {
+      archive.off("entry", onEntry);
+      body.off("error", onError);
+      res.off("close", onClose);
+    };
+    const onEntry = () => {
+      cleanup();
+      resolve();
+    };
+    const onError = (error: Error) => {
+      cleanup();
+      reject(error);
+    };
+    const onClose = () => onError(new Error("Client closed the connection"));
+
+    archive.on("entry", onEntry);
+    body.on("error", onError);
+    res.on("close", onClose);
+  });
+}
+
+export async function streamArchive(job: ArchiveJob, res: Response) {
+  const archive = archiver("zip", {
+    // Fast compression: the server is streaming, and most large files are already compressed
+    zlib: { level: 1 },
+    forceZip64: job.totalBytes >= ZIP32_MAX_BYTES || job.entries.length >= ZIP32_MAX_ENTRIES,
+  });
+  const failed: KeyError[] = [];
+
+  archive.on("warning", warning => console.warn("ZIP archive warning:", warning));
+  archive.on("error", error => {
+    console.error("ZIP archive error:", error);
+    res.destroy(error);
+  });
+
+  res.attachment(job.archiveName);
+  archive.pipe(res);
+
+  for (const entry of job.entries) {
+    if (res.destroyed) {
+      archive.abort();
+      return;
+    }
+
+    // Keys can hold ".." segments, which would point outside the extraction folder
+    const name = getSafeEntryName(entry.name);
+    if (!name) {
+      failed.push({ key: entry.key, message: "Name can't be used in an archive" });
+      continue;
+    }
+
+    let body: Readable;
+    try {
+      body = await getObjectStream(job.accountId, job.bucket, entry.key);
+    } catch (error: any) {
+      // Skip objects we can't open and list them in the archive instead
+      failed.push({ key: entry.key, message: error.message || "Download failed" });
+      continue;
+    }
+
+    const written = waitForEntry(archive, body, res);
+    archive.append(body, { name, date: entry.lastModified });
+
+    try {
+      await written;
+    } catch (error: any) {
+      // Part of this entry may already be on the wire, so the archive can't be completed
+      console.error(`ZIP download of ${entry.key} failed:`, error.message);
+      body.destroy();
+      archive.abort();
+      res.destroy();
+      return;
+    }
+  }
+
+  if (failed.length > 0) {
+    const report = failed.map(item => `${item.key}: ${item.message}`).join("\n");
+    archive.append(`${report}\n`, { name: ERRORS_ENTRY_NAME });
+  }
+
+  await archive.finalize();
+}
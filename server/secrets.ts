@@ -0,0 +1,125 @@
+import { createCipheriv, createDecipheriv, randomBytes } from "crypto";
+import type { S3Account } from "@shared/schema";
+
+// Envelope encryption for stored S3 secret keys.
+//
+// Each secret is encrypted with its own random data key (AES-256-GCM), and the
+// data key is in turn wrapped with a master key from the key ring. The key ring
+// is configured through the environment:
+//
+//   S3_SECRET_KEY_RING=v1:<base64 32-byte key>,v2:<base64 32-byte key>
+//   S3_SECRET_ACTIVE_KEY_ID=v2   (optional, defaults to the last key listed)
+//
+// Rows record the ID of the master key that wrapped them, so old keys can stay
+// in the ring for decryption while new writes use the active key.
+
+const ALGORITHM = "aes-256-gcm";
+const KEY_LENGTH = 32;
+const IV_LENGTH = 12;
+
+interface KeyRing {
+  activeKeyId: string;
+  keys: Map<string, Buffer>;
+}
+
+export interface EncryptedSecret {
+  ciphertext: string;
+  keyId: string;
+}
+
+let cachedKeyRing: KeyRing | null = null;
+
+function loadKeyRing(): KeyRing {
+  if (cachedKeyRing) {
+    return cachedKeyRing;
+  }
+
+  const ringConfig = process.env.S3_SECRET_KEY_RING;
+  if (!ringConfig) {
+    throw new Error(
+      "S3_SECRET_KEY_RING must be set to encrypt or decrypt stored S3 secret keys.",
+    );
+  }
+
+  const keys = new Map<string, Buffer>();
+  for (const entry of ringConfig.split(",").map(part => part.trim()).filter(Boolean)) {
+    const separator = entry.indexOf(":");
+    if (separator <= 0) {
+      throw new Error(`Invalid S3_SECRET_KEY_RING entry "${entry}", expected <keyId>:<base64 key>`);
+    }
+
+    const keyId = entry.slice(0, separator);
+    const key = Buffer.from(entry.slice(separator + 1), "base64");
+    if (key.length !== KEY_LENGTH) {
+      throw new Error(`S3 secret key "${keyId}" must be ${KEY_LENGTH} bytes (base64 encoded)`);
+    }
+    keys.set(keyId, key);
+  }
+
+  if (keys.size === 0) {
+    throw new Error("S3_SECRET_KEY_RING does not contain any keys");
+  }
+
+  const activeKeyId = process.env.S3_SECRET_ACTIVE_KEY_ID || Array.from(keys.keys()).pop()!;
+  if (!keys.has(activeKeyId)) {
+    throw new Error(`S3_SECRET_ACTIVE_KEY_ID "${activeKeyId}" is not in S3_SECRET_KEY_RING`);
+  }
+
+  cachedKeyRing = { activeKeyId, keys };
+  return cachedKeyRing;
+}
+
+function seal(key: Buffer, plaintext: Buffer): string[] {
+  const iv = randomBytes(IV_LENGTH);
+  const cipher = createCipheriv(ALGORITHM, key, iv);
+  const encrypted = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return [iv, cipher.getAuthTag(), encrypted].map(part => part.toString("base64"));
+}
+
+function unseal(key: Buffer, [iv, tag, encrypted]: string[]): Buffer {
+  const decipher = createDecipheriv(ALGORITHM, key, Buffer.from(iv, "base64"));
+  decipher.setAuthTag(Buffer.from(tag, "base64"));
+  return Buffer.concat([decipher.update(Buffer.from(encrypted, "base64")), decipher.final()]);
+}
+
+// The ID of the master key new secrets are encrypted with
+export function getActiveSecretKeyId(): string {
+  return loadKeyRing().activeKeyId;
+}
+
+export function encryptSecret(plaintext: string): EncryptedSecret {
+  const { activeKeyId, keys } = loadKeyRing();
+  const dataKey = randomBytes(KEY_LENGTH);
+
+  // Payload: wrapped data key (iv, tag, key) followed by the secret (iv, tag, data)
+  const wrappedKey = seal(keys.get(activeKeyId)!, dataKey);
+  const sealedSecret = seal(dataKey, Buffer.from(plaintext, "utf8"));
+
+  return {
+    ciphertext: [...wrappedKey, ...sealedSecret].join("."),
+    keyId: activeKeyId,
+  };
+}
+
+export function decryptSecret(ciphertext: string, keyId: string): string {
+  const masterKey = loadKeyRing().keys.get(keyId);
+  if (!masterKey) {
+    throw new Error(`S3 secret key "${keyId}" is not in S3_SECRET_KEY_RING`);
+  }
+
+  const parts = ciphertext.split(".");
+  if (parts.length !== 6) {
+    throw new Error("Malformed encrypted S3 secret");
+  }
+
+  const dataKey = unseal(masterKey, parts.slice(0, 3));
+  return unseal(dataKey, parts.slice(3)).toString("utf8");
+}
+
+// Legacy rows without a key ID still hold the secret in plaintext
+export function decryptS3AccountSecret(account: Pick<S3Account, "secretAccessKey" | "secretKeyId">): string {
+  if (!account.secretKeyId) {
+    return account.secretAccessKey;
+  }
+  return decryptSecret(account.secretAccessKey, account.secretKeyId);
+}
@@ -0,0 +1,188 @@
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+import type { Request, Response } from "express";
+import { hashPassword, comparePasswords } from "./auth";
+
+// Password protection for public share links: hashing, brute-force lockout and
+// the signed cookie that remembers a correct password for a while.
+
+// A visitor who entered the right password can skip it for this long
+const ACCESS_COOKIE_TTL_MS = 30 * 60 * 1000;
+const ACCESS_COOKIE_NAME = "share_access";
+
+// Failed attempts are counted over this window...
+const FAILURE_WINDOW_MS = 15 * 60 * 1000;
+// ...and a token or IP that reaches its limit is locked out for this long
+const LOCKOUT_MS = 15 * 60 * 1000;
+const MAX_FAILURES_PER_TOKEN = 10;
+const MAX_FAILURES_PER_IP = 20;
+// Expired failure records are swept out at most this often
+const PRUNE_INTERVAL_MS = 60 * 1000;
+
+// Output format of hashPassword: 64-byte scrypt hash and 16-byte salt, both hex
+const HASHED_PASSWORD_PATTERN = /^[0-9a-f]{128}\.[0-9a-f]{32}$/;
+
+interface FailureRecord {
+  count: number;
+  firstFailureAt: number;
+  lockedUntil?: number;
+}
+
+const tokenFailures = new Map<string, FailureRecord>();
+const ipFailures = new Map<string, FailureRecord>();
+let lastPrunedAt = 0;
+
+// Share cookies are signed with the session secret. Without one, production
+// refuses to start; elsewhere a random key is used, so cookies end with the process.
+const cookieSecret = getCookieSecret();
+
+export function isHashedSharePassword(stored: string) {
+  return HASHED_PASSWORD_PATTERN.test(stored);
+}
+
+// Hash a share password for storage; empty passwords mean "no password"
+export async function hashSharePassword(password?: string | null): Promise<string | undefined> {
+  const trimmed = password?.trim();
+  return trimmed ? await hashPassword(trimmed) : undefined;
+}
+
+// Compare a submitted password with the stored one in constant time. Shares created
+// before passwords were hashed still hold plaintext; those are compared via HMAC
+// digests so the comparison doesn't leak length or content through timing.
+// The submitted password is trimmed, as it was when the share was created.
+export async function verifySharePassword(supplied: string, stored: string): Promise<boolean> {
+  const trimmed = supplied.trim();
+  if (isHashedSharePassword(stored)) {
+    return comparePasswords(trimmed, stored);
+  }
+
+  const suppliedDigest = createHmac("sha256", "share-password").update(trimmed).digest();
+  const storedDigest = createHmac("sha256", "share-password").update(stored.trim()).digest();
+  return timingSafeEqual(suppliedDigest, storedDigest);
+}
+
+export function getClientIp(req: Request) {
+  return req.ip || req.socket.remoteAddress || "unknown";
+}
+
+function isExpired(record: FailureRecord, now: number) {
+  return record.lockedUntil ? record.lockedUntil <= now : now - record.firstFailureAt > FAILURE_WINDOW_MS;
+}
+
+// Forget tokens and IPs that stopped failing, so the maps don't grow forever
+function pruneFailures(now: number) {
+  if (now - lastPrunedAt < PRUNE_INTERVAL_MS) return;
+  lastPrunedAt = now;
+  for (const records of [tokenFailures, ipFailures]) {
+    records.forEach((record, key) => {
+      if (isExpired(record, now)) {
+        records.delete(key);
+      }
+    });
+  }
+}
+
+function getLockRemainingMs(records: Map<string, FailureRecord>, key: string, now: number) {
+  const record = records.get(key);
+  if (!record) return 0;
+
+  if (record.lockedUntil && record.lockedUntil > now) {
+    return record.lockedUntil - now;
+  }
+  if (isExpired(record, now)) {
+    records.delete(key);
+  }
+  return 0;
+}
+
+// Milliseconds until this token/IP may try again, or 0 if it isn't locked out
+export function getShareLockout(token: string, ip: string): number {
+  const now = Date.now();
+  return Math.max(getLockRemainingMs(tokenFailures, token, now), getLockRemainingMs(ipFailures, ip, now));
+}
+
+function addFailure(records: Map<string, FailureRecord>, key: string, limit: number, now: number) {
+  const record = records.get(key);
+  if (!record || now - record.firstFailureAt > FAILURE_WINDOW_MS) {
+    records.set(key, { count: 1, firstFailureAt: now });
+    return;
+  }
+
+  record.count++;
+  if (record.count >= limit) {
+    record.lockedUntil = now + LOCKOUT_MS;
+  }
+}
+
+export function recordShareFailure(token: string, ip: string) {
+  const now = Date.now();
+  pruneFailures(now);
+  addFailure(tokenFailures, token, MAX_FAILURES_PER_TOKEN, now);
+  addFailure(ipFailures, ip, MAX_FAILURES_PER_IP, now);
+}
+
+export function clearShareFailures(token: string, ip: string) {
+  tokenFailures.delete(token);
+  ipFailures.delete(ip);
+}
+
+function getCookieSecret() {
+  if (process.env.SESSION_SECRET) {
+    return process.env.SESSION_SECRET;
+  }
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("SESSION_SECRET must be set to sign share access cookies.");
+  }
+  console.warn("WARNING: SESSION_SECRET is not set. Share access cookies are signed with a random key and stop working when the server restarts.");
+  return randomBytes(32).toString("hex");
+}
+
+// The signature covers the stored password hash too, so changing a share's
+// password invalidates cookies issued for the old one
+function signAccess(token: string, expiresAt: number, storedPassword: string) {
+  return createHmac("sha256", cookieSecret)
+    .update(`${token}.${expiresAt}.${storedPassword}`)
+    .digest("base64url");
+}
+
+function getAccessCookiePath(token: string) {
+  return `/api/shared/${token}`;
+}
+
+export function setShareAccessCookie(res: Response, token: string, storedPassword: string) {
+  const expiresAt = Date.now() + ACCESS_COOKIE_TTL_MS;
+  res.cookie(ACCESS_COOKIE_NAME, `${expiresAt}.${signAccess(token, expiresAt, storedPassword)}`, {
+    httpOnly: true,
+    sameSite: "strict",
+    secure: process.env.NODE_ENV === "production",
+    maxAge: ACCESS_COOKIE_TTL_MS,
+    path: getAccessCookiePath(token),
+  });
+}
+
+function readCookie(req: Request, name: string): string | undefined {
+  const header = req.headers.cookie;
+  if (!header) return undefined;
+
+  for (const part of header.split(";")) {
+    const index = part.indexOf("=");
+    if (index !== -1 && part.slice(0, index).trim() === name) {
+      return decodeURIComponent(part.slice(index + 1).trim());
+    }
+  }
+  return undefined;
+}
+
+export function hasShareAccessCookie(req: Request, token: string, storedPassword: string): boolean {
+  const value = readCookie(req, ACCESS_COOKIE_NAME);
+  if (!value) return false;
+
+  const [expiresAtText, signature] = value.split(".");
+  const expiresAt = parseInt(expiresAtText, 10);
+  if (!signature || isNaN(expiresAt) || expiresAt < Date.now()) {
+    return false;
+  }
+
+  const expected = Buffer.from(signAccess(token, expiresAt, storedPassword));
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
@@ -0,0 +1,173 @@
+import type { SharedFile } from "@shared/schema";
+import { listObjects, getObjectMetadata, type KeyError } from "./s3-client";
+import { isFolderKey, getParentPrefix, normalizePrefix, mapWithConcurrency, BATCH_CONCURRENCY } from "./s3-batch";
+import { planArchive, type ArchiveEntry } from "./s3-zip";
+
+// What visitors of a folder or collection share can see. Every path a visitor
+// sends is relative to the share's base prefix and is resolved here, so a
+// request can never name a key outside the share: ".." segments are refused,
+// folder shares without subfolder access only reach their top level, and
+// collections only reach the keys they were created with. File requests
+// (see file-requests.ts) are upload-only and can't be listed at all.
+
+export const SHARE_TYPES = ["file", "folder", "collection", "request"] as const;
+export type ShareType = typeof SHARE_TYPES[number];
+
+// Collections are listed with a HeadObject per item, so they are kept small
+export const MAX_COLLECTION_ITEMS = 500;
+
+export interface SharedListingFile {
+  name: string;
+  // Relative to the share; pass back to download the file
+  path: string;
+  size: number;
+  lastModified?: Date;
+}
+
+export interface SharedListingFolder {
+  name: string;
+  path: string;
+}
+
+export interface SharedListing {
+  path: string;
+  folders: SharedListingFolder[];
+  files: SharedListingFile[];
+  // Collection items that no longer exist
+  missing: string[];
+  nextContinuationToken?: string;
+}
+
+export function getShareType(share: SharedFile): ShareType {
+  return (SHARE_TYPES as readonly string[]).includes(share.shareType) ? share.shareType as ShareType : "file";
+}
+
+// Split a relative path into segments, refusing anything that could climb out
+function getSegments(relativePath: string): string[] | undefined {
+  if (!relativePath) return [];
+  const segments = relativePath.replace(/\/$/, "").split("/");
+  if (segments.some(segment => !segment || segment === "." || segment === "..")) {
+    return undefined;
+  }
+  return segments;
+}
+
+// The folder prefix a visitor may list, or undefined if it's outside the share
+export function resolveSharedFolder(share: SharedFile, relativePath: string): string | undefined {
+  const type = getShareType(share);
+  if (type !== "folder" && type !== "collection") return undefined;
+  const segments = getSegments(relativePath);
+  if (!segments) return undefined;
+  if (segments.length === 0) return share.path;
+  if (type !== "folder" || !share.allowSubfolders) return undefined;
+  return `${share.path}${segments.join("/")}/`;
+}
+
+// The key of a file a visitor may download, or undefined if it's outside the share
+export function resolveSharedFile(share: SharedFile, relativePath: string): string | undefined {
+  const segments = getSegments(relativePath);
+  if (!segments || segments.length === 0 || isFolderKey(relativePath)) return undefined;
+
+  switch (getShareType(share)) {
+    case "folder":
+      if (segments.length > 1 && !share.allowSubfolders) return undefined;
+      return `${share.path}${segments.join("/")}`;
+    case "collection":
+      return (share.items || []).includes(relativePath) ? `${share.path}${relativePath}` : undefined;
+    default:
+      return undefined;
+  }
+}
+
+// One page of a shared folder, or every item of a collection
+export async function listShare(share: SharedFile, relativePath: string, continuationToken?: string): Promise<SharedListing | undefined> {
+  const prefix = resolveSharedFolder(share, relativePath);
+  if (prefix === undefined) return undefined;
+  const path = normalizePrefix(prefix.slice(share.path.length));
+
+  if (getShareType(share) === "collection") {
+    const items = share.items || [];
+    const missing: string[] = [];
+    const heads = await mapWithConcurrency(items, BATCH_CONCURRENCY, async item => {
+      try {
+        return await getObjectMetadata(share.accountId, share.bucket, `${share.path}${item}`);
+      } catch {
+        missing.push(item);
+        return undefined;
+      }
+    });
+    const files = items.flatMap((item, index) => {
+      const head = heads[index];
+      return head ? [{ name: item.split("/").pop() || item, path: item, size: head.ContentLength || 0, lastModified: head.LastModified }] : [];
+    });
+    return { path: "", folders: [], files, missing };
+  }
+
+  const page = await listObjects(share.accountId, share.bucket, prefix, "/", { continuationToken });
+  return {
+    path,
+    folders: share.allowSubfolders
+      ? page.folders.filter(folder => folder.Prefix).map(folder => ({
+          name: folder.Prefix!.slice(prefix.length).replace(/\/$/, ""),
+          path: folder.Prefix!.slice(share.path.length),
+        }))
+      : [],
+    files: page.objects
+      // The folder's own placeholder object isn't a file
+      .filter(object => object.Key && object.Key !== prefix)
+      .map(object => ({
+        name: object.Key!.slice(prefix.length),
+        path: object.Key!.slice(share.path.length),
+        size: object.Size || 0,
+        lastModified: object.LastModified,
+      })),
+    missing: [],
+    nextContinuationToken: page.nextContinuationToken,
+  };
+}
+
+// The files a "download all" of a shared folder (or the whole collection) contains,
+// named by their path inside the share
+export async function planShareArchive(share: SharedFile, relativePath: string) {
+  const prefix = resolveSharedFolder(share, relativePath);
+  if (prefix === undefined) return undefined;
+
+  const type = getShareType(share);
+  const keys = type === "collection"
+    ? (share.items || []).map(item => `${share.path}${item}`)
+    : [prefix];
+  const plan = await planArchive(share.accountId, share.bucket, keys);
+
+  let entries: ArchiveEntry[] = plan.entries;
+  if (type === "folder" && !share.allowSubfolders) {
+    entries = entries.filter(entry => getParentPrefix(entry.key) === prefix);
+  }
+  entries = entries.map(entry => ({ ...entry, name: entry.key.slice(share.path.length) }));
+
+  const errors: KeyError[] = plan.errors.map(error => ({ ...error, key: error.key.slice(share.path.length) }));
+  const totalBytes = entries.reduce((total, entry) => total + entry.size, 0);
+  return { entries, errors, totalBytes };
+}
+
+// Check the keys picked for a collection and split them into the common base
+// prefix and item paths relative to it
+export function planCollection(keys: unknown): { path: string; items: string[] } | string {
+  if (!Array.isArray(keys) || keys.length === 0 || keys.some(key => typeof key !== "string" || !key)) {
+    return "A non-empty keys array is required";
+  }
+  if (keys.length > MAX_COLLECTION_ITEMS) {
+    return `A collection can have at most ${MAX_COLLECTION_ITEMS} files`;
+  }
+  if (keys.some(isFolderKey)) {
+    return "Collections can only contain files; share folders on their own";
+  }
+
+  const unique = Array.from(new Set(keys as string[]));
+  let path = getParentPrefix(unique[0]);
+  for (const key of unique) {
+    while (path && !key.startsWith(path)) {
+      path = getParentPrefix(path);
+    }
+  }
+  return { path, items: unique.map(key => key.slice(path.length)) };
+}
@@ -0,0 +1,344 @@
+import { and, eq, like, sql } from "drizzle-orm";
+import { objectIndex, type S3Account, type StorageSnapshot } from "@shared/schema";
+import { db } from "./db";
+import { storage } from "./storage";
+import { listBuckets, listObjects } from "./s3-client";
+import { isFolderKey, normalizePrefix, mapWithConcurrency } from "./s3-batch";
+
+// Storage totals for a bucket or prefix: object count and bytes, broken down
+// by storage class and by file type. Indexed buckets are summed in Postgres;
+// anything else means listing every key, so results are cached for a while
+// and only recomputed early when the user asks for a refresh. A scheduler
+// records bucket totals as snapshots so growth can be charted.
+
+// How long computed totals are reused before being listed again
+const STATS_CACHE_TTL_MS = 15 * 60 * 1000;
+
+// How often buckets are snapshotted; override with S3_STATS_SNAPSHOT_HOURS (0 turns it off)
+const DEFAULT_SNAPSHOT_HOURS = 24;
+
+// How often the scheduler looks for buckets that are due
+const SNAPSHOT_SCHEDULER_INTERVAL_MS = 60 * 60 * 1000;
+
+// Buckets of one account totalled at the same time for the dashboard
+const OVERVIEW_CONCURRENCY = 4;
+
+const FILE_CATEGORIES = ["documents", "images", "videos", "audio", "archives", "other"] as const;
+export type FileCategory = typeof FILE_CATEGORIES[number];
+
+const CATEGORY_EXTENSIONS: Record<Exclude<FileCategory, "other">, string[]> = {
+  documents: ["pdf", "doc", "docx", "txt", "rtf", "odt", "md", "csv", "xls", "xlsx", "ods", "ppt", "pptx", "odp", "json", "xml", "html", "htm"],
+  images: ["jpg", "jpeg", "png", "gif", "svg", "webp", "bmp", "tif", "tiff", "heic", "avif", "ico", "raw"],
+  videos: ["mp4", "mov", "avi", "wmv", "flv", "mkv", "webm", "m4v", "mpg", "mpeg"],
+  audio: ["mp3", "wav", "flac", "aac", "ogg", "m4a", "wma", "opus"],
+  archives: ["zip", "tar", "gz", "tgz", "bz2", "xz", "7z", "rar", "zst"],
+};
+
+const categoryByExtension = new Map<string, FileCategory>(
+  Object.entries(CATEGORY_EXTENSIONS).flatMap(([category, extensions]) =>
+    extensions.map(extension => [extension, category as FileCategory] as const))
+);
+
+export interface StorageTotals {
+  objectCount: number;
+  totalBytes: number;
+}
+
+export interface StorageBreakdown extends StorageTotals {
+  byStorageClass: Record<string, StorageTotals>;
+  byCategory: Record<string, StorageTotals>;
+}
+
+export interface StorageStats extends StorageBreakdown {
+  bucket: string;
+  prefix: string;
+  // "index" when summed from the object index, "live" when listed from S3
+  source: "index" | "live";
+  computedAt: Date;
+}
+
+export interface BucketStorageStats {
+  bucket: string;
+  stats?: StorageStats;
+  error?: string;
+}
+
+export interface AccountStorageStats extends StorageBreakdown {
+  accountId: number;
+  accountName: string;
+  buckets: BucketStorageStats[];
+  error?: string;
+}
+
+export interface StorageHistoryPoint extends StorageTotals {
+  // UTC day, YYYY-MM-DD
+  date: string;
+  bytesByStorageClass: Record<string, number>;
+  bytesByCategory: Record<string, number>;
+}
+
+const statsCache = new Map<string, { stats: StorageStats; expiresAt: number }>();
+
+// Computations in progress, so concurrent requests for the same totals share one listing
+const pendingStats = new Map<string, Promise<StorageStats>>();
+
+let snapshotsRunning = false;
+
+export function getSnapshotHours(): number {
+  const configured = parseInt(process.env.S3_STATS_SNAPSHOT_HOURS || "", 10);
+  return isNaN(configured) || configured < 0 ? DEFAULT_SNAPSHOT_HOURS : configured;
+}
+
+function getExtension(key: string) {
+  const name = key.slice(key.lastIndexOf("/") + 1);
+  const dot = name.lastIndexOf(".");
+  return dot > 0 ? name.slice(dot + 1).toLowerCase() : "";
+}
+
+function getFileCategory(key: string): FileCategory {
+  return categoryByExtension.get(getExtension(key)) || "other";
+}
+
+export function emptyBreakdown(): StorageBreakdown {
+  return { objectCount: 0, totalBytes: 0, byStorageClass: {}, byCategory: {} };
+}
+
+function addTotals(totals: Record<string, StorageTotals>, name: string, objectCount: number, totalBytes: number) {
+  const entry = totals[name] || (totals[name] = { objectCount: 0, totalBytes: 0 });
+  entry.objectCount += objectCount;
+  entry.totalBytes += totalBytes;
+}
+
+function addObjects(breakdown: StorageBreakdown, storageClass: string, category: FileCategory, objectCount: number, totalBytes: number) {
+  breakdown.objectCount += objectCount;
+  breakdown.totalBytes += totalBytes;
+  addTotals(breakdown.byStorageClass, storageClass, objectCount, totalBytes);
+  addTotals(breakdown.byCategory, category, objectCount, totalBytes);
+}
+
+export function mergeBreakdown(into: StorageBreakdown, from: StorageBreakdown) {
+  into.objectCount += from.objectCount;
+  into.totalBytes += from.totalBytes;
+  for (const [name, totals] of Object.entries(from.byStorageClass)) {
+    addTotals(into.byStorageClass, name, totals.objectCount, totals.totalBytes);
+  }
+  for (const [name, totals] of Object.entries(from.byCategory)) {
+    addTotals(into.byCategory, name, totals.objectCount, totals.totalBytes);
+  }
+}
+
+async function sumIndex(accountId: number, bucket: string, prefix: string) {
+  // Grouped by extension rather than category; there are few enough of them to map here
+  const rows = await db
+    .select({
+      storageClass: sql<string>`coalesce(${objectIndex.storageClass}, 'STANDARD')`,
+      extension: sql<string | null>`lower(substring(${objectIndex.key} from '\\.([^./]+)$'))`,
+      objectCount: sql<number>`count(*)`.mapWith(Number),
+      totalBytes: sql<number>`coalesce(sum(${objectIndex.size}), 0)`.mapWith(Number),
+    })
+    .from(objectIndex)
+    .where(and(
+      eq(objectIndex.accountId, accountId),
+      eq(objectIndex.bucket, bucket),
+      prefix ? like(objectIndex.key, `${prefix.replace(/[\\%_]/g, "\\$&")}%`) : undefined,
+    ))
+    .groupBy(sql`1`, sql`2`);
+
+  const breakdown = emptyBreakdown();
+  for (const row of rows) {
+    addObjects(breakdown, row.storageClass, categoryByExtension.get(row.extension || "") || "other", row.objectCount, row.totalBytes);
+  }
+  return breakdown;
+}
+
+async function sumListing(accountId: number, bucket: string, prefix: string) {
+  const breakdown = emptyBreakdown();
+  let continuationToken: string | undefined;
+  do {
+    const page = await listObjects(accountId, bucket, prefix, "", { continuationToken });
+    continuationToken = page.isTruncated ? page.nextContinuationToken : undefined;
+    for (const object of page.objects) {
+      if (!object.Key || isFolderKey(object.Key)) continue;
+      addObjects(breakdown, object.StorageClass || "STANDARD", getFileCategory(object.Key), 1, object.Size || 0);
+    }
+  } while (continuationToken);
+  return breakdown;
+}
+
+async function computeStorageStats(accountId: number, bucket: string, prefix: string): Promise<StorageStats> {
+  const indexed = await storage.getIndexedBucket(accountId, bucket);
+  if (indexed?.enabled && indexed.lastScanCompletedAt) {
+    const breakdown = await sumIndex(accountId, bucket, prefix);
+    return { ...breakdown, bucket, prefix, source: "index", computedAt: indexed.lastScanCompletedAt };
+  }
+  const breakdown = await sumListing(accountId, bucket, prefix);
+  return { ...breakdown, bucket, prefix, source: "live", computedAt: new Date() };
+}
+
+// Totals for everything under a prefix ("" for the whole bucket). Cached
+// results are returned unless refresh is set.
+export async function getStorageStats(
+  accountId: number,
+  bucket: string,
+  prefix = "",
+  { refresh = false }: { refresh?: boolean } = {}
+): Promise<StorageStats> {
+  prefix = normalizePrefix(prefix);
+  const cacheKey = `${accountId}:${bucket}:${prefix}`;
+
+  const cached = statsCache.get(cacheKey);
+  if (!refresh && cached && cached.expiresAt > Date.now()) {
+    return cached.stats;
+  }
+
+  const pending = pendingStats.get(cacheKey);
+  if (pending) return pending;
+
+  const computation = computeStorageStats(accountId, bucket, prefix)
+    .then(stats => {
+      statsCache.set(cacheKey, { stats, expiresAt: Date.now() + STATS_CACHE_TTL_MS });
+      return stats;
+    })
+    .finally(() => pendingStats.delete(cacheKey));
+  pendingStats.set(cacheKey, computation);
+  return computation;
+}
+
+// Drop cached totals for a bucket, e.g. after it was deleted
+export function invalidateStorageStats(accountId: number, bucket: string) {
+  const bucketPrefix = `${accountId}:${bucket}:`;
+  for (const cacheKey of Array.from(statsCache.keys())) {
+    if (cacheKey.startsWith(bucketPrefix)) {
+      statsCache.delete(cacheKey);
+    }
+  }
+}
+
+// Totals for every bucket of an account. A bucket that can't be listed is
+// reported with its error instead of failing the whole account.
+export async function getAccountStorageStats(account: S3Account, { refresh = false }: { refresh?: boolean } = {}): Promise<AccountStorageStats> {
+  const result: AccountStorageStats = { ...emptyBreakdown(), accountId: account.id, accountName: account.name, buckets: [] };
+
+  let bucketNames: string[];
+  try {
+    bucketNames = (await listBuckets(account.id)).map(bucket => bucket.Name!).filter(Boolean);
+  } catch (error: any) {
+    return { ...result, error: error.message || "Could not list buckets" };
+  }
+
+  result.buckets = await mapWithConcurrency(bucketNames, OVERVIEW_CONCURRENCY, async (bucket): Promise<BucketStorageStats> => {
+    try {
+      return { bucket, stats: await getStorageStats(account.id, bucket, "", { refresh }) };
+    } catch (error: any) {
+      return { bucket, error: error.message || "Could not list objects" };
+    }
+  });
+  for (const { stats } of result.buckets) {
+    if (stats) mergeBreakdown(result, stats);
+  }
+  return result;
+}
+
+function toBytesRecord(totals: Record<string, StorageTotals>) {
+  return Object.fromEntries(Object.entries(totals).map(([name, { totalBytes }]) => [name, totalBytes]));
+}
+
+async function snapshotAccount(account: S3Account, dueBefore: number) {
+  const latest = await storage.getLatestSnapshotTimes(account.id);
+  const buckets = await listBuckets(account.id);
+
+  for (const { Name: bucket } of buckets) {
+    if (!bucket) continue;
+    const takenAt = latest.get(bucket);
+    if (takenAt && takenAt.getTime() >= dueBefore) continue;
+
+    try {
+      const stats = await getStorageStats(account.id, bucket, "", { refresh: true });
+      await storage.createStorageSnapshot({
+        accountId: account.id,
+        bucket,
+        objectCount: stats.objectCount,
+        totalBytes: stats.totalBytes,
+        bytesByStorageClass: toBytesRecord(stats.byStorageClass),
+        bytesByCategory: toBytesRecord(stats.byCategory),
+      });
+    } catch (error) {
+      console.error(`Could not snapshot ${bucket} (account ${account.id}):`, error);
+    }
+  }
+}
+
+// Snapshot every bucket whose latest snapshot is older than the snapshot
+// interval. Buckets are done one at a time to keep the load on S3 down.
+async function runScheduledSnapshots() {
+  if (snapshotsRunning) return;
+  snapshotsRunning = true;
+  try {
+    const dueBefore = Date.now() - getSnapshotHours() * 60 * 60 * 1000;
+    for (const account of await storage.getAllS3Accounts()) {
+      if (!account.isHealthy) continue;
+      try {
+        await snapshotAccount(account, dueBefore);
+      } catch (error) {
+        console.error(`Could not snapshot account ${account.id}:`, error);
+      }
+    }
+  } finally {
+    snapshotsRunning = false;
+  }
+}
+
+export function startSnapshotScheduler() {
+  if (getSnapshotHours() === 0) return;
+
+  const run = () => {
+    runScheduledSnapshots().catch(error => console.error("Scheduled storage snapshots failed:", error));
+  };
+  run();
+  const timer = setInterval(run, SNAPSHOT_SCHEDULER_INTERVAL_MS);
+  timer.unref();
+}
+
+function toDay(date: Date) {
+  return date.toISOString().slice(0, 10);
+}
+
+// Daily totals across the given accounts for the last `days` days. Each
+// bucket counts with its latest snapshot up to that day; snapshots that are
+// too old to trust (the bucket was probably deleted) are left out.
+export async function getStorageHistory(accountIds: number[], days: number): Promise<StorageHistoryPoint[]> {
+  const dayMs = 24 * 60 * 60 * 1000;
+  const staleAfterMs = Math.max(3 * dayMs, 2 * getSnapshotHours() * 60 * 60 * 1000);
+  const today = new Date(`${toDay(new Date())}T00:00:00Z`).getTime();
+  const firstDay = today - (days - 1) * dayMs;
+
+  const snapshots = await storage.getStorageSnapshots(accountIds, new Date(firstDay - staleAfterMs));
+  const latestByBucket = new Map<string, StorageSnapshot>();
+  const points: StorageHistoryPoint[] = [];
+  let next = 0;
+
+  for (let day = firstDay; day <= today; day += dayMs) {
+    const dayEnd = day + dayMs;
+    while (next < snapshots.length && snapshots[next].takenAt.getTime() < dayEnd) {
+      const snapshot = snapshots[next++];
+      latestByBucket.set(`${snapshot.accountId}:${snapshot.bucket}`, snapshot);
+    }
+
+    const point: StorageHistoryPoint = { date: toDay(new Date(day)), objectCount: 0, totalBytes: 0, bytesByStorageClass: {}, bytesByCategory: {} };
+    let hasData = false;
+    for (const snapshot of Array.from(latestByBucket.values())) {
+      if (dayEnd - snapshot.takenAt.getTime() > staleAfterMs) continue;
+      hasData = true;
+      point.objectCount += snapshot.objectCount;
+      point.totalBytes += snapshot.totalBytes;
+      for (const [name, bytes] of Object.entries(snapshot.bytesByStorageClass)) {
+        point.bytesByStorageClass[name] = (point.bytesByStorageClass[name] || 0) + bytes;
+      }
+      for (const [name, bytes] of Object.entries(snapshot.bytesByCategory)) {
+        point.bytesByCategory[name] = (point.bytesByCategory[name] || 0) + bytes;
+      }
+    }
+    if (hasData) points.push(point);
+  }
+  return points;
+}
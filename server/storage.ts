@@ -4,11 +4,16 @@ import {
   sharedFiles, type SharedFile, type InsertSharedFile,
   userSettings, type UserSettings, type InsertUserSettings,
   fileAccessLogs, type FileAccessLog, type InsertFileAccessLog,
+  fileRequestSubmissions, type FileRequestSubmission, type InsertFileRequestSubmission,
+  indexedBuckets, type IndexedBucket,
+  storageSnapshots, type StorageSnapshot, type InsertStorageSnapshot,
   sessions
 } from "@shared/schema";
 import { db, pool } from "./db";
-import { eq, and, isNull, gt, desc, asc, or } from "drizzle-orm";
+import { eq, and, isNull, gt, gte, desc, asc, or, inArray, sql } from "drizzle-orm";
 import { randomBytes } from "crypto";
+import { encryptSecret } from "./secrets";
+import { invalidateS3Client } from "./s3-client-cache";
 
 export interface IStorage {
   // User operations
@@ -22,9 +27,11 @@ export interface IStorage {
   // S3 Account operations
   getS3Accounts(userId: number | string): Promise<S3Account[]>;
   getS3Account(id: number): Promise<S3Account | undefined>;
+  getAllS3Accounts(): Promise<S3Account[]>;
   createS3Account(account: InsertS3Account): Promise<S3Account>;
   updateS3Account(id: number, account: Partial<S3Account>): Promise<S3Account | undefined>;
   deleteS3Account(id: number): Promise<boolean>;
+  updateS3AccountHealth(id: number, isHealthy: boolean, lastCredentialError?: string | null): Promise<void>;
   
   // Shared files operations
   getSharedFiles(userId: number | string): Promise<SharedFile[]>;
@@ -39,10 +46,31 @@ export interface IStorage {
   getFileAccessLogs(fileId: number): Promise<FileAccessLog[]>;
   logFileAccess(log: InsertFileAccessLog): Promise<FileAccessLog>;
   
+  // File request operations
+  createFileRequestSubmission(submission: InsertFileRequestSubmission): Promise<FileRequestSubmission>;
+  getFileRequestSubmission(shareId: number, token: string): Promise<FileRequestSubmission | undefined>;
+  getFileRequestSubmissions(shareId: number): Promise<FileRequestSubmission[]>;
+  countRequestFiles(shareId: number): Promise<number>;
+  reserveSubmissionFile(shareId: number, id: number, maxFiles: number | null): Promise<boolean>;
+  addSubmissionBytes(id: number, size: number): Promise<void>;
+  releaseSubmissionFile(id: number): Promise<void>;
+  
   // User settings operations
   getUserSettings(userId: number | string): Promise<UserSettings | undefined>;
   createOrUpdateUserSettings(settings: InsertUserSettings): Promise<UserSettings>;
   updateLastAccessed(userId: number | string, path: string): Promise<void>;
+  
+  // Object index operations
+  getIndexedBucket(accountId: number, bucket: string): Promise<IndexedBucket | undefined>;
+  getIndexedBuckets(): Promise<IndexedBucket[]>;
+  upsertIndexedBucket(accountId: number, bucket: string, settings: { enabled: boolean; indexTags: boolean }): Promise<IndexedBucket>;
+  updateIndexedBucket(id: number, changes: Partial<IndexedBucket>): Promise<IndexedBucket | undefined>;
+  deleteIndexedBucket(id: number): Promise<boolean>;
+  
+  // Storage snapshot operations
+  createStorageSnapshot(snapshot: InsertStorageSnapshot): Promise<StorageSnapshot>;
+  getStorageSnapshots(accountIds: number[], since: Date): Promise<StorageSnapshot[]>;
+  getLatestSnapshotTimes(accountId: number): Promise<Map<string, Date>>;
 }
 
 export class DatabaseStorage implements IStorage {
@@ -93,17 +121,44 @@ export class DatabaseStorage implements IStorage {
     return account;
   }
 
+  async getAllS3Accounts(): Promise<S3Account[]> {
+    return db.select().from(s3Accounts).orderBy(asc(s3Accounts.id));
+  }
+
   async createS3Account(account: InsertS3Account): Promise<S3Account> {
-    const [newAccount] = await db.insert(s3Accounts).values(account).returning();
+    // Never store the secret key in plaintext
+    const { ciphertext, keyId } = encryptSecret(account.secretAccessKey);
+    const [newAccount] = await db
+      .insert(s3Accounts)
+      .values({ ...account, secretAccessKey: ciphertext, secretKeyId: keyId })
+      .returning();
     return newAccount;
   }
 
   async updateS3Account(id: number, account: Partial<S3Account>): Promise<S3Account | undefined> {
+    const changes = { ...account };
+    
+    // Re-encrypt when a new secret key is supplied
+    if (changes.secretAccessKey) {
+      const { ciphertext, keyId } = encryptSecret(changes.secretAccessKey);
+      changes.secretAccessKey = ciphertext;
+      changes.secretKeyId = keyId;
+    }
+    
+    // New credentials get a clean slate until S3 says otherwise
+    if (changes.accessKeyId) {
+      changes.isHealthy = true;
+      changes.lastCredentialError = null;
+    }
+    
     const [updatedAccount] = await db
       .update(s3Accounts)
-      .set(account)
+      .set(changes)
       .where(eq(s3Accounts.id, id))
       .returning();
+    
+    // Make sure the next request builds a client with the new settings
+    invalidateS3Client(id);
     return updatedAccount;
   }
 
@@ -112,9 +167,19 @@ export class DatabaseStorage implements IStorage {
       .delete(s3Accounts)
       .where(eq(s3Accounts.id, id))
       .returning({ id: s3Accounts.id });
+    
+    invalidateS3Client(id);
     return !!deletedAccount;
   }
 
+  // Health updates don't change connection settings, so the cached client is kept
+  async updateS3AccountHealth(id: number, isHealthy: boolean, lastCredentialError: string | null = null): Promise<void> {
+    await db
+      .update(s3Accounts)
+      .set({ isHealthy, lastCredentialError })
+      .where(eq(s3Accounts.id, id));
+  }
+
   // Shared files operations
   async getSharedFiles(userId: number | string): Promise<SharedFile[]> {
     return db
@@ -324,6 +389,146 @@ export class DatabaseStorage implements IStorage {
     
     return accessLog;
   }
+  
+  // File request operations
+  async createFileRequestSubmission(submission: InsertFileRequestSubmission): Promise<FileRequestSubmission> {
+    const [created] = await db.insert(fileRequestSubmissions).values(submission).returning();
+    return created;
+  }
+  
+  async getFileRequestSubmission(shareId: number, token: string): Promise<FileRequestSubmission | undefined> {
+    const [submission] = await db
+      .select()
+      .from(fileRequestSubmissions)
+      .where(and(eq(fileRequestSubmissions.shareId, shareId), eq(fileRequestSubmissions.token, token)));
+    return submission;
+  }
+  
+  async getFileRequestSubmissions(shareId: number): Promise<FileRequestSubmission[]> {
+    return await db
+      .select()
+      .from(fileRequestSubmissions)
+      .where(eq(fileRequestSubmissions.shareId, shareId))
+      .orderBy(desc(fileRequestSubmissions.createdAt));
+  }
+  
+  // Files received by all submissions of a request
+  async countRequestFiles(shareId: number): Promise<number> {
+    const [{ count }] = await db
+      .select({ count: sql<number>`coalesce(sum(${fileRequestSubmissions.fileCount}), 0)::int` })
+      .from(fileRequestSubmissions)
+      .where(eq(fileRequestSubmissions.shareId, shareId));
+    return count;
+  }
+  
+  // Count a file against the submission before it is uploaded. maxFiles limits
+  // the whole request; the share's row is locked while the files are counted,
+  // so parallel uploads, even to different submissions, can't exceed it.
+  async reserveSubmissionFile(shareId: number, id: number, maxFiles: number | null): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      if (maxFiles !== null) {
+        await tx.select({ id: sharedFiles.id }).from(sharedFiles).where(eq(sharedFiles.id, shareId)).for("update");
+        const [{ count }] = await tx
+          .select({ count: sql<number>`coalesce(sum(${fileRequestSubmissions.fileCount}), 0)::int` })
+          .from(fileRequestSubmissions)
+          .where(eq(fileRequestSubmissions.shareId, shareId));
+        if (count >= maxFiles) return false;
+      }
+      
+      const [reserved] = await tx
+        .update(fileRequestSubmissions)
+        .set({ fileCount: sql`${fileRequestSubmissions.fileCount} + 1` })
+        .where(and(eq(fileRequestSubmissions.id, id), eq(fileRequestSubmissions.shareId, shareId)))
+        .returning({ id: fileRequestSubmissions.id });
+      return !!reserved;
+    });
+  }
+  
+  // The size of an uploaded file is only known once it has been received
+  async addSubmissionBytes(id: number, size: number): Promise<void> {
+    await db
+      .update(fileRequestSubmissions)
+      .set({ totalBytes: sql`${fileRequestSubmissions.totalBytes} + ${size}` })
+      .where(eq(fileRequestSubmissions.id, id));
+  }
+  
+  // Give back a reservation whose upload failed
+  async releaseSubmissionFile(id: number): Promise<void> {
+    await db
+      .update(fileRequestSubmissions)
+      .set({ fileCount: sql`greatest(${fileRequestSubmissions.fileCount} - 1, 0)` })
+      .where(eq(fileRequestSubmissions.id, id));
+  }
+  
+  // Object index operations
+  async getIndexedBucket(accountId: number, bucket: string): Promise<IndexedBucket | undefined> {
+    const [indexed] = await db
+      .select()
+      .from(indexedBuckets)
+      .where(and(eq(indexedBuckets.accountId, accountId), eq(indexedBuckets.bucket, bucket)));
+    return indexed;
+  }
+  
+  async getIndexedBuckets(): Promise<IndexedBucket[]> {
+    return await db.select().from(indexedBuckets).orderBy(asc(indexedBuckets.id));
+  }
+  
+  async upsertIndexedBucket(accountId: number, bucket: string, settings: { enabled: boolean; indexTags: boolean }): Promise<IndexedBucket> {
+    const [indexed] = await db
+      .insert(indexedBuckets)
+      .values({ accountId, bucket, ...settings })
+      .onConflictDoUpdate({
+        target: [indexedBuckets.accountId, indexedBuckets.bucket],
+        set: settings,
+      })
+      .returning();
+    return indexed;
+  }
+  
+  async updateIndexedBucket(id: number, changes: Partial<IndexedBucket>): Promise<IndexedBucket | undefined> {
+    const [indexed] = await db
+      .update(indexedBuckets)
+      .set(changes)
+      .where(eq(indexedBuckets.id, id))
+      .returning();
+    return indexed;
+  }
+  
+  async deleteIndexedBucket(id: number): Promise<boolean> {
+    const [deleted] = await db
+      .delete(indexedBuckets)
+      .where(eq(indexedBuckets.id, id))
+      .returning({ id: indexedBuckets.id });
+    return !!deleted;
+  }
+  
+  // Storage snapshot operations
+  async createStorageSnapshot(snapshot: InsertStorageSnapshot): Promise<StorageSnapshot> {
+    const [created] = await db.insert(storageSnapshots).values(snapshot).returning();
+    return created;
+  }
+  
+  async getStorageSnapshots(accountIds: number[], since: Date): Promise<StorageSnapshot[]> {
+    if (accountIds.length === 0) return [];
+    return await db
+      .select()
+      .from(storageSnapshots)
+      .where(and(inArray(storageSnapshots.accountId, accountIds), gte(storageSnapshots.takenAt, since)))
+      .orderBy(asc(storageSnapshots.takenAt));
+  }
+  
+  // When each of the account's buckets was last snapshotted, keyed by bucket name
+  async getLatestSnapshotTimes(accountId: number): Promise<Map<string, Date>> {
+    const rows = await db
+      .select({
+        bucket: storageSnapshots.bucket,
+        takenAt: sql<Date>`max(${storageSnapshots.takenAt})`.mapWith(storageSnapshots.takenAt),
+      })
+      .from(storageSnapshots)
+      .where(eq(storageSnapshots.accountId, accountId))
+      .groupBy(storageSnapshots.bucket);
+    return new Map(rows.map(row => [row.bucket, row.takenAt]));
+  }
 }
 
 export const storage = new DatabaseStorage();
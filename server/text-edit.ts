@@ -0,0 +1,122 @@
+import { parseAllDocuments } from "yaml";
+import { getObjectMetadata, getObjectTags, getObjectText, putObjectText, getArchiveState } from "./s3-client";
+import { isEditable, MAX_EDITABLE_BYTES } from "@shared/file-preview";
+
+// Editing small text objects in place. A save names the ETag the editor
+// opened, and is refused if the object has changed since: first by comparing
+// it with a HeadObject, then with If-Match on the write itself so an edit
+// landing between the two isn't overwritten either. Stores without
+// conditional writes reject If-Match as NotImplemented; those saves fall back
+// to the HeadObject compare alone.
+
+export type EditableTextResult =
+  | { text: string; etag: string; size: number; contentType?: string; lastModified?: Date }
+  | { error: "unsupported" | "too-large" | "archived"; message: string };
+
+export type SaveTextResult =
+  | { etag: string; size: number }
+  | { error: "too-large" | "invalid"; message: string }
+  | { error: "conflict"; message: string; currentEtag?: string; lastModified?: Date };
+
+function normalizeEtag(etag?: string) {
+  return (etag || "").replace(/"/g, "");
+}
+
+function getExtension(key: string) {
+  const name = key.slice(key.lastIndexOf("/") + 1);
+  const dot = name.lastIndexOf(".");
+  return dot > 0 ? name.slice(dot + 1).toLowerCase() : "";
+}
+
+function isConflictError(error: any) {
+  const status = error.$metadata?.httpStatusCode;
+  return error.name === "PreconditionFailed" || error.name === "ConditionalRequestConflict" || status === 412 || status === 409;
+}
+
+function isNotFoundError(error: any) {
+  return error.name === "NotFound" || error.name === "NoSuchKey" || error.$metadata?.httpStatusCode === 404;
+}
+
+// JSON and YAML must still parse; other files are saved as they are
+export function validateEditedText(key: string, text: string): string | undefined {
+  const extension = getExtension(key);
+  if (extension === "json") {
+    try {
+      JSON.parse(text);
+    } catch (error: any) {
+      return `Invalid JSON: ${error.message}`;
+    }
+  }
+  if (extension === "yml" || extension === "yaml") {
+    for (const document of parseAllDocuments(text)) {
+      const [error] = document.errors;
+      if (error) {
+        // The message continues with a snippet of the offending line
+        return `Invalid YAML: ${error.message.split("\n")[0]}`;
+      }
+    }
+  }
+  return undefined;
+}
+
+export async function loadEditableText(accountId: number, bucket: string, key: string): Promise<EditableTextResult> {
+  const head = await getObjectMetadata(accountId, bucket, key);
+  if (!isEditable(key, head.ContentType)) {
+    return { error: "unsupported", message: "Only text and code files can be edited" };
+  }
+  if (head.ContentEncoding && head.ContentEncoding !== "identity") {
+    return { error: "unsupported", message: `This file is stored ${head.ContentEncoding}-encoded and can't be edited here` };
+  }
+  if ((head.ContentLength || 0) > MAX_EDITABLE_BYTES) {
+    return { error: "too-large", message: `Files larger than ${MAX_EDITABLE_BYTES / 1024 / 1024} MB can't be edited here` };
+  }
+  if (!getArchiveState(head).isReadable) {
+    return { error: "archived", message: "This file is archived and must be restored before it can be edited." };
+  }
+  return await getObjectText(accountId, bucket, key);
+}
+
+export async function saveEditedText(accountId: number, bucket: string, key: string, text: string, etag: string): Promise<SaveTextResult> {
+  const size = Buffer.byteLength(text, "utf-8");
+  if (size > MAX_EDITABLE_BYTES) {
+    return { error: "too-large", message: `Files larger than ${MAX_EDITABLE_BYTES / 1024 / 1024} MB can't be edited here` };
+  }
+  const validationError = validateEditedText(key, text);
+  if (validationError) {
+    return { error: "invalid", message: validationError };
+  }
+
+  let head;
+  try {
+    head = await getObjectMetadata(accountId, bucket, key);
+  } catch (error: any) {
+    if (isNotFoundError(error)) {
+      return { error: "conflict", message: "This file was deleted after you opened it." };
+    }
+    throw error;
+  }
+  if (normalizeEtag(head.ETag) !== normalizeEtag(etag)) {
+    return {
+      error: "conflict",
+      message: "This file was changed by someone else after you opened it.",
+      currentEtag: head.ETag,
+      lastModified: head.LastModified,
+    };
+  }
+
+  const tags = await getObjectTags(accountId, bucket, key);
+  let response;
+  try {
+    response = await putObjectText(accountId, bucket, key, text, head, tags, head.ETag);
+  } catch (error: any) {
+    if (isConflictError(error)) {
+      return { error: "conflict", message: "This file was changed by someone else while saving." };
+    }
+    if (error.name !== "NotImplemented" && error.$metadata?.httpStatusCode !== 501) {
+      throw error;
+    }
+    response = await putObjectText(accountId, bucket, key, text, head, tags);
+  }
+
+  return { etag: response.ETag || "", size };
+}
@@ -0,0 +1,271 @@
+import { spawn } from "child_process";
+import { createHash, randomBytes } from "crypto";
+import { promises as fs } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { GetObjectCommand, PutObjectCommand } from "@aws-sdk/client-s3";
+import { withS3Client, getObjectMetadata, getArchiveState, getDownloadUrl } from "./s3-client";
+import { getPreviewKind, hasThumbnail } from "@shared/file-preview";
+
+// Small JPEG previews of images and of the first frame of videos for the grid
+// view. They are made on demand by ffmpeg (FFMPEG_PATH, "ffmpeg" on the PATH by
+// default), which reads the object from a signed URL, and cached under a name
+// derived from the object's ETag so a changed object gets a new thumbnail.
+//
+// ffmpeg is only allowed to fetch over HTTP(S) and to open the container and
+// image formats of files that have thumbnails, since it reads untrusted files.
+//
+// The cache is a directory on local disk unless S3_THUMBNAIL_CACHE_BUCKET is
+// set; then thumbnails are stored as objects in that bucket of the same account,
+// under S3_THUMBNAIL_CACHE_PREFIX. It's never the file's own bucket, where
+// thumbnails would show up in listings, searches and storage stats.
+
+// Thumbnails fit in a square of this many pixels; smaller images aren't enlarged
+const THUMBNAIL_SIZE = 320;
+
+// Images are downloaded in full, so very large ones keep their icon
+const MAX_IMAGE_SOURCE_BYTES = 50 * 1024 * 1024;
+
+// ffmpeg is stopped if it hasn't produced a frame by then
+const GENERATE_TIMEOUT_MS = 30 * 1000;
+
+// Each generation downloads and decodes a file, so only a few run at once
+const MAX_CONCURRENT_GENERATIONS = 2;
+
+// A file ffmpeg couldn't read isn't retried on every listing
+const FAILURE_TTL_MS = 10 * 60 * 1000;
+const MAX_REMEMBERED_FAILURES = 10000;
+
+const DEFAULT_CACHE_PREFIX = ".thumbnails/";
+
+// Demuxers ffmpeg may pick: MP4/MOV (also AVIF), Matroska/WebM, Ogg and still images
+const ALLOWED_INPUT_FORMATS = "mov,matroska,ogg,avi,image2,jpeg_pipe,png_pipe,gif,webp_pipe,bmp_pipe";
+
+export type ThumbnailCacheLocation =
+  | { type: "disk"; directory: string }
+  | { type: "s3"; bucket: string; prefix: string };
+
+export type ThumbnailResult =
+  | { image: Buffer; etag: string }
+  | { error: "unsupported" | "archived" | "unavailable" | "failed"; message: string };
+
+const inFlight = new Map<string, Promise<Buffer>>();
+const failures = new Map<string, number>();
+const waiting: Array<() => void> = [];
+let running = 0;
+let ffmpegMissing = false;
+let warnedAboutPrefix = false;
+
+function getFfmpegPath() {
+  return process.env.FFMPEG_PATH || "ffmpeg";
+}
+
+export function getThumbnailCacheLocation(): ThumbnailCacheLocation {
+  const bucket = process.env.S3_THUMBNAIL_CACHE_BUCKET || undefined;
+  const prefix = process.env.S3_THUMBNAIL_CACHE_PREFIX;
+  if (bucket) {
+    return { type: "s3", bucket, prefix: prefix ?? DEFAULT_CACHE_PREFIX };
+  }
+  if (prefix && !warnedAboutPrefix) {
+    warnedAboutPrefix = true;
+    console.warn("S3_THUMBNAIL_CACHE_PREFIX is ignored without S3_THUMBNAIL_CACHE_BUCKET; thumbnails are cached on disk.");
+  }
+  return { type: "disk", directory: process.env.S3_THUMBNAIL_CACHE_DIR || join(tmpdir(), "s3-manager-thumbnails") };
+}
+
+function normalizeEtag(etag: string) {
+  return etag.replace(/"/g, "");
+}
+
+function getCacheName(accountId: number, bucket: string, key: string, etag: string) {
+  const hash = createHash("sha256").update(`${accountId}\n${bucket}\n${key}\n${normalizeEtag(etag)}`).digest("hex");
+  return `${hash}.jpg`;
+}
+
+async function readCached(accountId: number, name: string): Promise<Buffer | undefined> {
+  const location = getThumbnailCacheLocation();
+  try {
+    if (location.type === "disk") {
+      return await fs.readFile(join(location.directory, String(accountId), name));
+    }
+    const command = new GetObjectCommand({ Bucket: location.bucket, Key: `${location.prefix}${name}` });
+    const response = await withS3Client(accountId, s3 => s3.send(command));
+    return response.Body ? Buffer.from(await response.Body.transformToByteArray()) : undefined;
+  } catch (error: any) {
+    const missing = error.code === "ENOENT" || error.name === "NoSuchKey" || error.$metadata?.httpStatusCode === 404;
+    if (!missing) {
+      console.error("Error reading cached thumbnail:", error);
+    }
+    return undefined;
+  }
+}
+
+// A failed write only costs a regeneration later, so it's logged and ignored
+async function writeCached(accountId: number, name: string, image: Buffer) {
+  const location = getThumbnailCacheLocation();
+  try {
+    if (location.type === "disk") {
+      const directory = join(location.directory, String(accountId));
+      await fs.mkdir(directory, { recursive: true });
+      // Written aside and renamed so a concurrent read never sees half a file
+      const partial = join(directory, `${name}.${randomBytes(4).toString("hex")}.tmp`);
+      await fs.writeFile(partial, image);
+      await fs.rename(partial, join(directory, name));
+      return;
+    }
+    const command = new PutObjectCommand({
+      Bucket: location.bucket,
+      Key: `${location.prefix}${name}`,
+      Body: image,
+      ContentType: "image/jpeg",
+    });
+    await withS3Client(accountId, s3 => s3.send(command));
+  } catch (error) {
+    console.error("Error caching thumbnail:", error);
+  }
+}
+
+function hasFailedRecently(name: string) {
+  const until = failures.get(name);
+  if (until === undefined) return false;
+  if (until > Date.now()) return true;
+  failures.delete(name);
+  return false;
+}
+
+function rememberFailure(name: string) {
+  if (failures.size >= MAX_REMEMBERED_FAILURES) {
+    failures.clear();
+  }
+  failures.set(name, Date.now() + FAILURE_TTL_MS);
+}
+
+// Waits for one of the generation slots; a finished task hands its slot straight to the next
+async function withGenerationSlot<T>(task: () => Promise<T>): Promise<T> {
+  if (running < MAX_CONCURRENT_GENERATIONS) {
+    running++;
+  } else {
+    await new Promise<void>(resolve => waiting.push(resolve));
+  }
+  try {
+    return await task();
+  } finally {
+    const next = waiting.shift();
+    if (next) {
+      next();
+    } else {
+      running--;
+    }
+  }
+}
+
+// Decode the first frame of the source and scale it down to a JPEG
+function runFfmpeg(sourceUrl: string): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const protocols = sourceUrl.startsWith("http:") ? "http,tcp" : "https,tls,tcp";
+    const ffmpeg = spawn(getFfmpegPath(), [
+      "-hide_banner",
+      "-loglevel", "error",
+      "-nostdin",
+      "-protocol_whitelist", protocols,
+      "-format_whitelist", ALLOWED_INPUT_FORMATS,
+      "-i", sourceUrl,
+      "-frames:v", "1",
+      "-vf", `scale='min(iw,${THUMBNAIL_SIZE})':'min(ih,${THUMBNAIL_SIZE})':force_original_aspect_ratio=decrease`,
+      "-f", "image2pipe",
+      "-c:v", "mjpeg",
+      "-q:v", "5",
+      "pipe:1",
+    ], { stdio: ["ignore", "pipe", "pipe"] });
+
+    const output: Buffer[] = [];
+    let errorOutput = "";
+    const timer = setTimeout(() => ffmpeg.kill("SIGKILL"), GENERATE_TIMEOUT_MS);
+
+    ffmpeg.stdout.on("data", (chunk: Buffer) => output.push(chunk));
+    ffmpeg.stderr.on("data", (chunk: Buffer) => {
+      errorOutput = (errorOutput + chunk.toString()).slice(-2000);
+    });
+    ffmpeg.on("error", (error) => {
+      clearTimeout(timer);
+      reject(error);
+    });
+    ffmpeg.on("close", (code, signal) => {
+      clearTimeout(timer);
+      const image = Buffer.concat(output);
+      if (code === 0 && image.length > 0) {
+        resolve(image);
+      } else if (signal) {
+        reject(new Error(`ffmpeg timed out after ${GENERATE_TIMEOUT_MS / 1000} seconds`));
+      } else {
+        reject(new Error(errorOutput.trim() || `ffmpeg exited with code ${code}`));
+      }
+    });
+  });
+}
+
+async function generateThumbnail(accountId: number, bucket: string, key: string, name: string): Promise<Buffer> {
+  const image = await withGenerationSlot(async () => {
+    // Signed just before use so a queued request doesn't start with an expired URL
+    const sourceUrl = await getDownloadUrl(accountId, bucket, key, 300);
+    return await runFfmpeg(sourceUrl);
+  });
+  await writeCached(accountId, name, image);
+  return image;
+}
+
+/**
+ * The thumbnail of an object, from the cache or generated now. An ETag from
+ * the listing lets a cached thumbnail be returned without asking S3 about the
+ * object; without one (or when it no longer matches) the object is looked up.
+ */
+export async function getThumbnail(accountId: number, bucket: string, key: string, etag?: string): Promise<ThumbnailResult> {
+  if (etag && hasThumbnail(key)) {
+    const cached = await readCached(accountId, getCacheName(accountId, bucket, key, etag));
+    if (cached) return { image: cached, etag };
+  }
+
+  const head = await getObjectMetadata(accountId, bucket, key);
+  if (!hasThumbnail(key, head.ContentType)) {
+    return { error: "unsupported", message: "This type of file has no thumbnail" };
+  }
+  if (!getArchiveState(head).isReadable) {
+    return { error: "archived", message: "This file is archived and must be restored before it has a thumbnail." };
+  }
+
+  const currentEtag = head.ETag || "";
+  const name = getCacheName(accountId, bucket, key, currentEtag);
+  if (!etag || normalizeEtag(etag) !== normalizeEtag(currentEtag)) {
+    const cached = await readCached(accountId, name);
+    if (cached) return { image: cached, etag: currentEtag };
+  }
+
+  if (getPreviewKind(key, head.ContentType) === "image" && (head.ContentLength || 0) > MAX_IMAGE_SOURCE_BYTES) {
+    return { error: "unsupported", message: "This image is too large to make a thumbnail of" };
+  }
+  if (ffmpegMissing) {
+    return { error: "unavailable", message: "Thumbnails aren't available on this server" };
+  }
+  if (hasFailedRecently(name)) {
+    return { error: "failed", message: "A thumbnail couldn't be made of this file" };
+  }
+
+  let generation = inFlight.get(name);
+  if (!generation) {
+    generation = generateThumbnail(accountId, bucket, key, name).finally(() => inFlight.delete(name));
+    inFlight.set(name, generation);
+  }
+
+  try {
+    return { image: await generation, etag: currentEtag };
+  } catch (error: any) {
+    if (error.code === "ENOENT") {
+      ffmpegMissing = true;
+      console.error(`Thumbnails are turned off: ffmpeg was not found at "${getFfmpegPath()}". Install it or set FFMPEG_PATH.`);
+      return { error: "unavailable", message: "Thumbnails aren't available on this server" };
+    }
+    rememberFailure(name);
+    console.error(`Error generating thumbnail for ${bucket}/${key}:`, error.message || error);
+    return { error: "failed", message: "A thumbnail couldn't be made of this file" };
+  }
+}
@@ -0,0 +1,139 @@
+import { z } from "zod";
+
+// Bucket policy and CORS documents in the JSON format S3 uses, with validation
+// shared by the settings editor and the routes that save them. S3 does its own
+// checks too; these catch the common mistakes with clearer messages.
+
+// S3 rejects bucket policies larger than this
+export const MAX_BUCKET_POLICY_BYTES = 20 * 1024;
+
+export const MAX_CORS_RULES = 100;
+
+export const CORS_METHODS = ["GET", "PUT", "POST", "DELETE", "HEAD"] as const;
+
+const stringOrList = z.union([z.string().min(1), z.array(z.string().min(1)).nonempty()]);
+
+const principalSchema = z.union([
+  z.literal("*"),
+  z.record(z.enum(["AWS", "Service", "CanonicalUser", "Federated"]), stringOrList),
+], { errorMap: () => ({ message: 'Principal must be "*" or an object like {"AWS": "arn:aws:iam::123456789012:root"}' }) });
+
+const policyStatementSchema = z.object({
+  Sid: z.string().regex(/^[A-Za-z0-9]*$/, "Sid can only contain letters and numbers").optional(),
+  Effect: z.enum(["Allow", "Deny"], { errorMap: () => ({ message: 'Effect must be "Allow" or "Deny"' }) }),
+  Principal: principalSchema.optional(),
+  NotPrincipal: principalSchema.optional(),
+  Action: stringOrList.optional(),
+  NotAction: stringOrList.optional(),
+  Resource: stringOrList.optional(),
+  NotResource: stringOrList.optional(),
+  Condition: z.record(z.record(z.unknown())).optional(),
+}).strict().superRefine((statement, ctx) => {
+  const issue = (message: string) => ctx.addIssue({ code: z.ZodIssueCode.custom, message });
+
+  if (!statement.Principal === !statement.NotPrincipal) {
+    issue("Each statement needs exactly one of Principal or NotPrincipal");
+  }
+  if (!statement.Action === !statement.NotAction) {
+    issue("Each statement needs exactly one of Action or NotAction");
+  }
+  if (!statement.Resource === !statement.NotResource) {
+    issue("Each statement needs exactly one of Resource or NotResource");
+  }
+});
+
+export const bucketPolicySchema = z.object({
+  Version: z.enum(["2012-10-17", "2008-10-17"], {
+    errorMap: () => ({ message: 'Version should be "2012-10-17"' }),
+  }).optional(),
+  Id: z.string().optional(),
+  // A single statement object is allowed; it is normalized to a list
+  Statement: z.preprocess(
+    value => value && typeof value === "object" && !Array.isArray(value) ? [value] : value,
+    z.array(policyStatementSchema).nonempty("Statement can't be empty")
+  ),
+}).strict();
+
+export const corsRuleSchema = z.object({
+  ID: z.string().max(255, "ID can be at most 255 characters").optional(),
+  AllowedMethods: z.array(z.enum(CORS_METHODS, {
+    errorMap: () => ({ message: `AllowedMethods can only contain ${CORS_METHODS.join(", ")}` }),
+  })).nonempty("AllowedMethods can't be empty"),
+  AllowedOrigins: z.array(z.string().min(1)).nonempty("AllowedOrigins can't be empty"),
+  AllowedHeaders: z.array(z.string().min(1)).optional(),
+  ExposeHeaders: z.array(z.string().min(1)).optional(),
+  MaxAgeSeconds: z.number().int().min(0, "MaxAgeSeconds can't be negative").optional(),
+}).strict().superRefine((rule, ctx) => {
+  rule.AllowedOrigins.forEach((origin, index) => {
+    if ((origin.match(/\*/g) || []).length > 1) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `Origin "${origin}" can contain at most one "*" wildcard`,
+        path: ["AllowedOrigins", index],
+      });
+    }
+  });
+  rule.AllowedHeaders?.forEach((header, index) => {
+    if ((header.match(/\*/g) || []).length > 1) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `Header "${header}" can contain at most one "*" wildcard`,
+        path: ["AllowedHeaders", index],
+      });
+    }
+  });
+});
+
+export const corsRulesSchema = z.array(corsRuleSchema)
+  .max(MAX_CORS_RULES, `A bucket can have at most ${MAX_CORS_RULES} CORS rules`);
+
+export type BucketPolicy = z.infer<typeof bucketPolicySchema>;
+export type CorsRule = z.infer<typeof corsRuleSchema>;
+
+// "Statement[1].Resource: ..." style messages, numbered from 1 like the editors show them
+function formatIssues(issues: z.ZodIssue[]) {
+  return issues.map(issue => {
+    const path = issue.path
+      .map((part, index) => typeof part === "number" ? `[${part + 1}]` : `${index > 0 ? "." : ""}${part}`)
+      .join("");
+    return path ? `${path}: ${issue.message}` : issue.message;
+  });
+}
+
+function toList(value?: string | string[]) {
+  return value === undefined ? [] : Array.isArray(value) ? value : [value];
+}
+
+// Validate a bucket policy; resources must point at this bucket or S3 rejects it
+export function validateBucketPolicy(policy: unknown, bucket: string): { policy?: BucketPolicy; errors: string[] } {
+  const result = bucketPolicySchema.safeParse(policy);
+  if (!result.success) {
+    return { errors: formatIssues(result.error.issues) };
+  }
+
+  const errors: string[] = [];
+  if (JSON.stringify(result.data).length > MAX_BUCKET_POLICY_BYTES) {
+    errors.push("Bucket policies can be at most 20 KB");
+  }
+
+  // Any partition (aws, aws-cn, aws-us-gov); the bucket ARN itself or objects under it
+  const escapedBucket = bucket.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  const bucketArn = new RegExp(`^arn:aws[a-z-]*:s3:::${escapedBucket}(/|$)`);
+  result.data.Statement.forEach((statement, index) => {
+    for (const resource of [...toList(statement.Resource), ...toList(statement.NotResource)]) {
+      if (resource !== "*" && !bucketArn.test(resource)) {
+        errors.push(`Statement[${index + 1}]: Resource "${resource}" is not in this bucket (arn:aws:s3:::${bucket})`);
+      }
+    }
+  });
+
+  return errors.length > 0 ? { errors } : { policy: result.data, errors };
+}
+
+export function validateCorsRules(rules: unknown): { rules?: CorsRule[]; errors: string[] } {
+  const result = corsRulesSchema.safeParse(rules);
+  if (!result.success) {
+    return { errors: formatIssues(result.error.issues) };
+  }
+  return { rules: result.data, errors: [] };
+}
@@ -0,0 +1,157 @@
+// Which files can be previewed in the browser and how, decided by extension
+// first and content type second (objects uploaded without a content type are
+// often stored as application/octet-stream). Shared by the routes that sign
+// preview URLs and the preview pane that renders them.
+
+export type PreviewKind = "image" | "pdf" | "video" | "audio" | "text" | "code";
+
+// Text and code previews read at most this much of the object
+export const MAX_TEXT_PREVIEW_BYTES = 512 * 1024;
+
+// Text and code files up to this size can be edited in the browser
+export const MAX_EDITABLE_BYTES = 1024 * 1024;
+
+// Inline content types for formats a browser renders natively
+const MEDIA_TYPES: Record<string, { kind: PreviewKind; contentType: string }> = {
+  jpg: { kind: "image", contentType: "image/jpeg" },
+  jpeg: { kind: "image", contentType: "image/jpeg" },
+  png: { kind: "image", contentType: "image/png" },
+  gif: { kind: "image", contentType: "image/gif" },
+  webp: { kind: "image", contentType: "image/webp" },
+  avif: { kind: "image", contentType: "image/avif" },
+  bmp: { kind: "image", contentType: "image/bmp" },
+  ico: { kind: "image", contentType: "image/x-icon" },
+  svg: { kind: "image", contentType: "image/svg+xml" },
+  pdf: { kind: "pdf", contentType: "application/pdf" },
+  mp4: { kind: "video", contentType: "video/mp4" },
+  m4v: { kind: "video", contentType: "video/mp4" },
+  webm: { kind: "video", contentType: "video/webm" },
+  ogv: { kind: "video", contentType: "video/ogg" },
+  mov: { kind: "video", contentType: "video/quicktime" },
+  mp3: { kind: "audio", contentType: "audio/mpeg" },
+  wav: { kind: "audio", contentType: "audio/wav" },
+  ogg: { kind: "audio", contentType: "audio/ogg" },
+  oga: { kind: "audio", contentType: "audio/ogg" },
+  opus: { kind: "audio", contentType: "audio/opus" },
+  m4a: { kind: "audio", contentType: "audio/mp4" },
+  aac: { kind: "audio", contentType: "audio/aac" },
+  flac: { kind: "audio", contentType: "audio/flac" },
+};
+
+const TEXT_EXTENSIONS = new Set(["txt", "log", "csv", "tsv", "md", "markdown", "rst"]);
+
+// Source files, by the language name the highlighter knows them as
+const CODE_LANGUAGES: Record<string, string> = {
+  js: "javascript",
+  mjs: "javascript",
+  cjs: "javascript",
+  jsx: "javascript",
+  ts: "typescript",
+  tsx: "typescript",
+  json: "json",
+  py: "python",
+  rb: "ruby",
+  go: "go",
+  rs: "rust",
+  java: "java",
+  kt: "kotlin",
+  c: "c",
+  h: "c",
+  cpp: "cpp",
+  hpp: "cpp",
+  cs: "csharp",
+  php: "php",
+  swift: "swift",
+  sh: "shell",
+  bash: "shell",
+  zsh: "shell",
+  sql: "sql",
+  html: "html",
+  htm: "html",
+  xml: "html",
+  css: "css",
+  scss: "css",
+  yml: "yaml",
+  yaml: "yaml",
+  toml: "ini",
+  ini: "ini",
+  conf: "ini",
+  env: "ini",
+};
+
+// Names without an extension that are still plain text
+const CODE_FILENAMES: Record<string, string> = {
+  dockerfile: "shell",
+  makefile: "shell",
+  ".gitignore": "ini",
+  ".env": "ini",
+};
+
+function getExtension(filename: string) {
+  const name = filename.slice(filename.lastIndexOf("/") + 1);
+  const dot = name.lastIndexOf(".");
+  return dot > 0 ? name.slice(dot + 1).toLowerCase() : "";
+}
+
+function getBaseName(filename: string) {
+  return filename.slice(filename.lastIndexOf("/") + 1).toLowerCase();
+}
+
+function baseContentType(contentType?: string | null) {
+  return (contentType || "").split(";")[0].trim().toLowerCase();
+}
+
+// The highlighter language for a code file, or undefined for anything else
+export function getCodeLanguage(filename: string): string | undefined {
+  return CODE_LANGUAGES[getExtension(filename)] || CODE_FILENAMES[getBaseName(filename)];
+}
+
+// How a file would be previewed, or undefined if it can't be
+export function getPreviewKind(filename: string, contentType?: string | null): PreviewKind | undefined {
+  const extension = getExtension(filename);
+  if (MEDIA_TYPES[extension]) return MEDIA_TYPES[extension].kind;
+  if (getCodeLanguage(filename)) return "code";
+  if (TEXT_EXTENSIONS.has(extension)) return "text";
+
+  const type = baseContentType(contentType);
+  if (type === "application/pdf") return "pdf";
+  if (type.startsWith("image/")) return "image";
+  if (type.startsWith("video/")) return "video";
+  if (type.startsWith("audio/")) return "audio";
+  if (type === "application/json" || type === "application/javascript" || type === "application/xml") return "code";
+  if (type.startsWith("text/")) return "text";
+  return undefined;
+}
+
+// Whether a file opens in the text editor; callers also check the size
+export function isEditable(filename: string, contentType?: string | null): boolean {
+  const kind = getPreviewKind(filename, contentType);
+  return kind === "text" || kind === "code";
+}
+
+// The content type a preview URL should be served with, so the browser
+// renders the file instead of downloading it. Text is always served as plain
+// text: an HTML or SVG file opened directly must not run as a page.
+export function getPreviewContentType(filename: string, contentType?: string | null): string | undefined {
+  const kind = getPreviewKind(filename, contentType);
+  if (!kind) return undefined;
+  if (kind === "text" || kind === "code") return "text/plain; charset=utf-8";
+
+  const type = baseContentType(contentType);
+  if (type && type !== "application/octet-stream" && type !== "binary/octet-stream") {
+    return type;
+  }
+  return MEDIA_TYPES[getExtension(filename)]?.contentType;
+}
+
+// Formats the thumbnail service can't decode; they keep their file icon
+const NO_THUMBNAIL_EXTENSIONS = new Set(["svg", "ico"]);
+
+// Whether the grid can show a generated thumbnail for the file: raster
+// images, and videos by their first frame
+export function hasThumbnail(filename: string, contentType?: string | null): boolean {
+  const kind = getPreviewKind(filename, contentType);
+  if (kind === "video") return true;
+  if (kind !== "image") return false;
+  return !NO_THUMBNAIL_EXTENSIONS.has(getExtension(filename)) && baseContentType(contentType) !== "image/svg+xml";
+}
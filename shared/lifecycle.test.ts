@@ -0,0 +1,54 @@
+import { describe, it, expect } from "vitest";
+import { fromS3LifecycleRules, toS3LifecycleRules, validateLifecycleRules, type S3LifecycleRule } from "./lifecycle";
+
+// What a save writes back for rules read from S3
+function roundTrip(rules: S3LifecycleRule[]) {
+  const { rules: valid, errors } = validateLifecycleRules(JSON.parse(JSON.stringify(fromS3LifecycleRules(rules))));
+  expect(errors).toEqual([]);
+  return toS3LifecycleRules(valid);
+}
+
+describe("lifecycle rule conversion", () => {
+  it("keeps date transitions and expirations", () => {
+    const [rule] = roundTrip([{
+      ID: "archive",
+      Status: "Enabled",
+      Filter: { Prefix: "logs/" },
+      Transitions: [{ Date: new Date("2027-01-01T00:00:00.000Z"), StorageClass: "GLACIER" }],
+      Expiration: { Date: new Date("2028-01-01T00:00:00.000Z") },
+    }]);
+
+    expect(rule.Transitions).toEqual([{ Date: new Date("2027-01-01T00:00:00.000Z"), StorageClass: "GLACIER" }]);
+    expect(rule.Expiration).toEqual({ Date: new Date("2028-01-01T00:00:00.000Z") });
+  });
+
+  it("keeps object size filters", () => {
+    const [single, combined] = roundTrip([
+      {
+        ID: "large",
+        Status: "Enabled",
+        Filter: { ObjectSizeGreaterThan: 1024 },
+        Expiration: { Days: 30 },
+      },
+      {
+        ID: "small-logs",
+        Status: "Enabled",
+        Filter: { And: { Prefix: "logs/", ObjectSizeGreaterThan: 10, ObjectSizeLessThan: 2048 } },
+        Expiration: { Days: 7 },
+      },
+    ]);
+
+    expect(single.Filter).toEqual({ ObjectSizeGreaterThan: 1024 });
+    expect(combined.Filter).toEqual({ And: { Prefix: "logs/", ObjectSizeGreaterThan: 10, ObjectSizeLessThan: 2048 } });
+  });
+
+  it("refuses rules mixing day and date transitions", () => {
+    const [rule] = fromS3LifecycleRules([{
+      ID: "mixed",
+      Status: "Enabled",
+      Transitions: [{ Date: new Date("2027-01-01T00:00:00.000Z"), StorageClass: "GLACIER" }],
+    }]);
+    const { errors } = validateLifecycleRules([{ ...rule, transitions: [{ days: 30, storageClass: "STANDARD_IA" }] }]);
+    expect(errors).toHaveLength(1);
+  });
+});
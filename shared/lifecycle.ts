@@ -0,0 +1,295 @@
+import { z } from "zod";
+
+// Bucket lifecycle rules in the shape the editor works with, plus conversion to and
+// from the S3 API's LifecycleConfiguration. Shared so the client can validate a
+// configuration before sending it and the server can re-check what it receives.
+
+export const LIFECYCLE_TRANSITION_STORAGE_CLASSES = [
+  "STANDARD_IA",
+  "ONEZONE_IA",
+  "INTELLIGENT_TIERING",
+  "GLACIER_IR",
+  "GLACIER",
+  "DEEP_ARCHIVE",
+] as const;
+
+// S3 refuses transitions to these classes before an object is 30 days old
+const MIN_30_DAY_CLASSES = new Set(["STANDARD_IA", "ONEZONE_IA"]);
+
+const days = z.number().int("Days must be a whole number");
+
+export const lifecycleTagSchema = z.object({
+  key: z.string().min(1, "Tag key is required").max(128),
+  value: z.string().max(256),
+});
+
+export const lifecycleTransitionSchema = z.object({
+  days: days.min(0, "Transition days cannot be negative"),
+  storageClass: z.enum(LIFECYCLE_TRANSITION_STORAGE_CLASSES),
+});
+
+const isoDate = z.string().refine(value => !isNaN(Date.parse(value)), "Invalid date");
+
+export const lifecycleDateTransitionSchema = z.object({
+  date: isoDate,
+  storageClass: z.enum(LIFECYCLE_TRANSITION_STORAGE_CLASSES),
+});
+
+export const lifecycleRuleSchema = z.object({
+  id: z.string().trim().min(1, "Rule ID is required").max(255, "Rule ID can be at most 255 characters"),
+  enabled: z.boolean(),
+  prefix: z.string().optional(),
+  tags: z.array(lifecycleTagSchema).optional(),
+  transitions: z.array(lifecycleTransitionSchema).optional(),
+  expirationDays: days.min(1, "Expiration must be at least 1 day").optional(),
+  expiredObjectDeleteMarker: z.boolean().optional(),
+  noncurrentTransitions: z.array(lifecycleTransitionSchema).optional(),
+  noncurrentExpirationDays: days.min(1, "Noncurrent version expiration must be at least 1 day").optional(),
+  newerNoncurrentVersions: days.min(1).max(100, "At most 100 noncurrent versions can be kept").optional(),
+  abortIncompleteMultipartUploadDays: days.min(1, "Abort incomplete uploads after at least 1 day").optional(),
+  // Settings the editor shows but can't change, kept so rules created elsewhere
+  // are written back unchanged
+  dateTransitions: z.array(lifecycleDateTransitionSchema).optional(),
+  expirationDate: isoDate.optional(),
+  objectSizeGreaterThan: z.number().int().min(0).optional(),
+  objectSizeLessThan: z.number().int().min(1).optional(),
+}).superRefine((rule, ctx) => {
+  const issue = (message: string, path: (string | number)[] = []) =>
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message, path });
+  const hasTags = (rule.tags?.length ?? 0) > 0;
+
+  const hasAction = (rule.transitions?.length ?? 0) > 0 ||
+    (rule.dateTransitions?.length ?? 0) > 0 ||
+    rule.expirationDays !== undefined ||
+    rule.expirationDate !== undefined ||
+    !!rule.expiredObjectDeleteMarker ||
+    (rule.noncurrentTransitions?.length ?? 0) > 0 ||
+    rule.noncurrentExpirationDays !== undefined ||
+    rule.abortIncompleteMultipartUploadDays !== undefined;
+  if (!hasAction) {
+    issue("A rule needs at least one action");
+  }
+
+  const tagKeys = new Set<string>();
+  rule.tags?.forEach((tag, index) => {
+    if (tagKeys.has(tag.key)) {
+      issue(`Duplicate tag key "${tag.key}"`, ["tags", index, "key"]);
+    }
+    tagKeys.add(tag.key);
+  });
+
+  const checkTransitions = (transitions: { days: number; storageClass: string }[] | undefined, field: string) => {
+    const classes = new Set<string>();
+    transitions?.forEach((transition, index) => {
+      if (classes.has(transition.storageClass)) {
+        issue(`Only one transition to ${transition.storageClass} is allowed`, [field, index, "storageClass"]);
+      }
+      classes.add(transition.storageClass);
+      if (MIN_30_DAY_CLASSES.has(transition.storageClass) && transition.days < 30) {
+        issue(`Transitions to ${transition.storageClass} need at least 30 days`, [field, index, "days"]);
+      }
+    });
+    return Math.max(-1, ...(transitions || []).map(transition => transition.days));
+  };
+
+  if ((rule.dateTransitions?.length ?? 0) > 0 && (rule.transitions?.length ?? 0) > 0) {
+    issue("A rule's transitions must all use days or all use dates", ["transitions"]);
+  }
+  if (rule.expirationDate !== undefined && (rule.expirationDays !== undefined || rule.expiredObjectDeleteMarker)) {
+    issue("A rule that expires objects on a date can't also expire them after days or remove delete markers", ["expirationDays"]);
+  }
+  if (rule.objectSizeGreaterThan !== undefined && rule.objectSizeLessThan !== undefined &&
+      rule.objectSizeGreaterThan >= rule.objectSizeLessThan) {
+    issue("The minimum object size must be smaller than the maximum", ["objectSizeGreaterThan"]);
+  }
+
+  const lastTransition = checkTransitions(rule.transitions, "transitions");
+  if (rule.expirationDays !== undefined && rule.expirationDays <= lastTransition) {
+    issue("Expiration must come after the last transition", ["expirationDays"]);
+  }
+
+  const lastNoncurrentTransition = checkTransitions(rule.noncurrentTransitions, "noncurrentTransitions");
+  if (rule.noncurrentExpirationDays !== undefined && rule.noncurrentExpirationDays <= lastNoncurrentTransition) {
+    issue("Noncurrent expiration must come after the last noncurrent transition", ["noncurrentExpirationDays"]);
+  }
+
+  if (rule.expiredObjectDeleteMarker && rule.expirationDays !== undefined) {
+    issue("Removing expired delete markers can't be combined with expiration days", ["expiredObjectDeleteMarker"]);
+  }
+  if (rule.expiredObjectDeleteMarker && hasTags) {
+    issue("Removing expired delete markers can't be used with a tag filter", ["expiredObjectDeleteMarker"]);
+  }
+  if (rule.abortIncompleteMultipartUploadDays !== undefined && hasTags) {
+    issue("Aborting incomplete uploads can't be used with a tag filter", ["abortIncompleteMultipartUploadDays"]);
+  }
+  if (rule.newerNoncurrentVersions !== undefined && rule.noncurrentExpirationDays === undefined &&
+      (rule.noncurrentTransitions?.length ?? 0) === 0) {
+    issue("Keeping newer noncurrent versions needs a noncurrent expiration or transition", ["newerNoncurrentVersions"]);
+  }
+});
+
+export const lifecycleRulesSchema = z.array(lifecycleRuleSchema)
+  .max(1000, "A bucket can have at most 1000 lifecycle rules")
+  .superRefine((rules, ctx) => {
+    const ids = new Set<string>();
+    rules.forEach((rule, index) => {
+      if (ids.has(rule.id)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Duplicate rule ID "${rule.id}"`, path: [index, "id"] });
+      }
+      ids.add(rule.id);
+    });
+  });
+
+export type LifecycleTag = z.infer<typeof lifecycleTagSchema>;
+export type LifecycleTransition = z.infer<typeof lifecycleTransitionSchema>;
+export type LifecycleDateTransition = z.infer<typeof lifecycleDateTransitionSchema>;
+export type LifecycleRule = z.infer<typeof lifecycleRuleSchema>;
+
+// Validate rules, returning readable messages ("Rule 2 (logs): ...") instead of a ZodError
+export function validateLifecycleRules(rules: unknown): { rules: LifecycleRule[]; errors: string[] } {
+  const result = lifecycleRulesSchema.safeParse(rules);
+  if (result.success) {
+    return { rules: result.data, errors: [] };
+  }
+
+  const errors = result.error.issues.map(issue => {
+    const [index] = issue.path;
+    if (typeof index !== "number") {
+      return issue.message;
+    }
+    const id = Array.isArray(rules) ? rules[index]?.id : undefined;
+    return `Rule ${index + 1}${id ? ` (${id})` : ""}: ${issue.message}`;
+  });
+  return { rules: [], errors };
+}
+
+// The subset of the S3 API's LifecycleRule this editor reads and writes
+export interface S3LifecycleTag {
+  Key: string;
+  Value: string;
+}
+
+// Dates arrive from the SDK as Date objects and from JSON as ISO strings
+export interface S3LifecycleRule {
+  ID?: string;
+  Status: "Enabled" | "Disabled";
+  Filter?: {
+    Prefix?: string;
+    Tag?: S3LifecycleTag;
+    ObjectSizeGreaterThan?: number;
+    ObjectSizeLessThan?: number;
+    And?: { Prefix?: string; Tags?: S3LifecycleTag[]; ObjectSizeGreaterThan?: number; ObjectSizeLessThan?: number };
+  };
+  Prefix?: string;
+  Transitions?: { Days?: number; Date?: Date | string; StorageClass?: string }[];
+  Expiration?: { Days?: number; Date?: Date | string; ExpiredObjectDeleteMarker?: boolean };
+  NoncurrentVersionTransitions?: { NoncurrentDays?: number; StorageClass?: string }[];
+  NoncurrentVersionExpiration?: { NoncurrentDays?: number; NewerNoncurrentVersions?: number };
+  AbortIncompleteMultipartUpload?: { DaysAfterInitiation?: number };
+}
+
+function toS3Filter(rule: LifecycleRule): S3LifecycleRule["Filter"] {
+  const prefix = rule.prefix || undefined;
+  const tags = (rule.tags || []).map(tag => ({ Key: tag.key, Value: tag.value }));
+  const sizes = {
+    ObjectSizeGreaterThan: rule.objectSizeGreaterThan,
+    ObjectSizeLessThan: rule.objectSizeLessThan,
+  };
+  const sizeCount = Object.values(sizes).filter(size => size !== undefined).length;
+
+  // S3 wants a single condition on its own and several wrapped in And
+  if (tags.length === 0 && sizeCount === 0) {
+    return { Prefix: prefix ?? "" };
+  }
+  if (tags.length === 1 && !prefix && sizeCount === 0) {
+    return { Tag: tags[0] };
+  }
+  if (tags.length === 0 && !prefix && sizeCount === 1) {
+    return sizes;
+  }
+  return { And: { Prefix: prefix, Tags: tags.length > 0 ? tags : undefined, ...sizes } };
+}
+
+export function toS3LifecycleRules(rules: LifecycleRule[]): S3LifecycleRule[] {
+  return rules.map(rule => {
+    const s3Rule: S3LifecycleRule = {
+      ID: rule.id,
+      Status: rule.enabled ? "Enabled" : "Disabled",
+      Filter: toS3Filter(rule),
+    };
+
+    if (rule.transitions?.length) {
+      s3Rule.Transitions = rule.transitions.map(t => ({ Days: t.days, StorageClass: t.storageClass }));
+    } else if (rule.dateTransitions?.length) {
+      s3Rule.Transitions = rule.dateTransitions.map(t => ({ Date: new Date(t.date), StorageClass: t.storageClass }));
+    }
+    if (rule.expirationDays !== undefined) {
+      s3Rule.Expiration = { Days: rule.expirationDays };
+    } else if (rule.expirationDate !== undefined) {
+      s3Rule.Expiration = { Date: new Date(rule.expirationDate) };
+    } else if (rule.expiredObjectDeleteMarker) {
+      s3Rule.Expiration = { ExpiredObjectDeleteMarker: true };
+    }
+    if (rule.noncurrentTransitions?.length) {
+      s3Rule.NoncurrentVersionTransitions = rule.noncurrentTransitions.map(t => ({
+        NoncurrentDays: t.days,
+        StorageClass: t.storageClass,
+      }));
+    }
+    if (rule.noncurrentExpirationDays !== undefined) {
+      s3Rule.NoncurrentVersionExpiration = {
+        NoncurrentDays: rule.noncurrentExpirationDays,
+        NewerNoncurrentVersions: rule.newerNoncurrentVersions,
+      };
+    }
+    if (rule.abortIncompleteMultipartUploadDays !== undefined) {
+      s3Rule.AbortIncompleteMultipartUpload = { DaysAfterInitiation: rule.abortIncompleteMultipartUploadDays };
+    }
+    return s3Rule;
+  });
+}
+
+// Convert rules read from S3, keeping the date and object size settings the
+// editor can't change so saving writes them back as they were
+export function fromS3LifecycleRules(s3Rules: S3LifecycleRule[]): LifecycleRule[] {
+  return s3Rules.map((s3Rule, index) => {
+    const filter = s3Rule.Filter || {};
+    const tags = filter.And?.Tags || (filter.Tag ? [filter.Tag] : []);
+    const expiration = s3Rule.Expiration;
+    const dateTransitions = (s3Rule.Transitions || [])
+      .filter(t => t.Days === undefined && t.Date !== undefined)
+      .map(t => ({ date: new Date(t.Date!).toISOString(), storageClass: t.StorageClass as LifecycleTransition["storageClass"] }));
+
+    const rule: LifecycleRule = {
+      id: s3Rule.ID || `rule-${index + 1}`,
+      enabled: s3Rule.Status === "Enabled",
+      prefix: filter.And?.Prefix ?? filter.Prefix ?? s3Rule.Prefix ?? "",
+      tags: tags.map(tag => ({ key: tag.Key, value: tag.Value })),
+      transitions: (s3Rule.Transitions || [])
+        .filter(t => t.Days !== undefined)
+        .map(t => ({ days: t.Days!, storageClass: t.StorageClass as LifecycleTransition["storageClass"] })),
+      noncurrentTransitions: (s3Rule.NoncurrentVersionTransitions || [])
+        .filter(t => t.NoncurrentDays !== undefined)
+        .map(t => ({ days: t.NoncurrentDays!, storageClass: t.StorageClass as LifecycleTransition["storageClass"] })),
+    };
+
+    if (dateTransitions.length > 0) rule.dateTransitions = dateTransitions;
+    if (expiration?.Days !== undefined) rule.expirationDays = expiration.Days;
+    if (expiration?.Date !== undefined) rule.expirationDate = new Date(expiration.Date).toISOString();
+    const sizeGreaterThan = filter.And?.ObjectSizeGreaterThan ?? filter.ObjectSizeGreaterThan;
+    const sizeLessThan = filter.And?.ObjectSizeLessThan ?? filter.ObjectSizeLessThan;
+    if (sizeGreaterThan !== undefined) rule.objectSizeGreaterThan = sizeGreaterThan;
+    if (sizeLessThan !== undefined) rule.objectSizeLessThan = sizeLessThan;
+    if (expiration?.ExpiredObjectDeleteMarker) rule.expiredObjectDeleteMarker = true;
+    if (s3Rule.NoncurrentVersionExpiration?.NoncurrentDays !== undefined) {
+      rule.noncurrentExpirationDays = s3Rule.NoncurrentVersionExpiration.NoncurrentDays;
+    }
+    if (s3Rule.NoncurrentVersionExpiration?.NewerNoncurrentVersions !== undefined) {
+      rule.newerNoncurrentVersions = s3Rule.NoncurrentVersionExpiration.NewerNoncurrentVersions;
+    }
+    if (s3Rule.AbortIncompleteMultipartUpload?.DaysAfterInitiation !== undefined) {
+      rule.abortIncompleteMultipartUploadDays = s3Rule.AbortIncompleteMultipartUpload.DaysAfterInitiation;
+    }
+    return rule;
+  });
+}
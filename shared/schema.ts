@@ -1,4 +1,4 @@
-import { pgTable, text, serial, integer, boolean, timestamp, jsonb, varchar, index } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, bigint, boolean, timestamp, jsonb, varchar, index, uniqueIndex, primaryKey } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -33,10 +33,24 @@ export const s3Accounts = pgTable("s3_accounts", {
   userId: varchar("user_id").notNull().references(() => users.id),
   name: text("name").notNull(),
   accessKeyId: text("access_key_id").notNull(),
+  // Envelope-encrypted secret; secretKeyId names the master key that wrapped it
   secretAccessKey: text("secret_access_key").notNull(),
+  secretKeyId: text("secret_key_id"),
+  // "static" uses the key pair directly; "assume-role" uses it to call STS AssumeRole
+  authType: text("auth_type").default("static").notNull(),
+  roleArn: text("role_arn"),
+  externalId: text("external_id"),
+  sessionDurationSeconds: integer("session_duration_seconds"),
   region: text("region").notNull(),
+  // Optional S3-compatible endpoint (MinIO, Ceph RGW, Wasabi, R2); null means AWS
+  endpoint: text("endpoint"),
+  forcePathStyle: boolean("force_path_style").default(false).notNull(),
+  tlsVerify: boolean("tls_verify").default(true).notNull(),
   defaultBucket: text("default_bucket"),
   isActive: boolean("is_active").default(true).notNull(),
+  // Set to false when S3 rejects the account's credentials, so the UI can warn the user
+  isHealthy: boolean("is_healthy").default(true).notNull(),
+  lastCredentialError: text("last_credential_error"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
@@ -45,18 +59,52 @@ export const sharedFiles = pgTable("shared_files", {
   userId: varchar("user_id").notNull().references(() => users.id),
   accountId: integer("account_id").notNull().references(() => s3Accounts.id),
   bucket: text("bucket").notNull(),
+  // "file" shares the object at path; "folder" everything under the prefix in
+  // path; "collection" the keys in items, which are relative to path; "request"
+  // only accepts uploads into the prefix in path
+  shareType: text("share_type").default("file").notNull(),
   path: text("path").notNull(),
+  // The name shown for the share: the file or folder name, or a collection title
   filename: text("filename").notNull(),
   filesize: integer("filesize").notNull(),
   contentType: text("content_type"),
+  items: jsonb("items").$type<string[]>(),
+  // Folder shares only: whether visitors may open subfolders
+  allowSubfolders: boolean("allow_subfolders").default(true).notNull(),
+  // File requests only: limits on each upload and submission, unlimited when null
+  maxFileSize: bigint("max_file_size", { mode: "number" }),
+  // Lowercase extensions without the dot
+  allowedExtensions: jsonb("allowed_extensions").$type<string[]>(),
+  maxFiles: integer("max_files"),
+  // Ask uploaders for their name and email
+  askUploaderInfo: boolean("ask_uploader_info").default(false).notNull(),
   shareToken: text("share_token").notNull().unique(),
   expiresAt: timestamp("expires_at"),
   allowDownload: boolean("allow_download").default(true),
+  // Show the file in the browser on the share page, for types that can be previewed
+  allowPreview: boolean("allow_preview").default(true).notNull(),
   password: text("password"),
   accessCount: integer("access_count").default(0).notNull(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
+// One visitor's batch of uploads to a file request, stored in its own folder
+export const fileRequestSubmissions = pgTable("file_request_submissions", {
+  id: serial("id").primaryKey(),
+  shareId: integer("share_id").notNull().references(() => sharedFiles.id, { onDelete: "cascade" }),
+  // Secret the uploader's browser sends with each file of the submission
+  token: text("token").notNull().unique(),
+  // Full prefix of the submission's folder, ending in "/"
+  prefix: text("prefix").notNull(),
+  uploaderName: text("uploader_name"),
+  uploaderEmail: text("uploader_email"),
+  fileCount: integer("file_count").default(0).notNull(),
+  totalBytes: bigint("total_bytes", { mode: "number" }).default(0).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("file_request_submissions_share_idx").on(table.shareId, table.createdAt),
+]);
+
 // Table to track access/audit history for shared files
 export const fileAccessLogs = pgTable("file_access_logs", {
   id: serial("id").primaryKey(),
@@ -81,6 +129,62 @@ export const userSettings = pgTable("user_settings", {
   lastAccessed: jsonb("last_accessed").$type<string[]>().default([]),
 });
 
+// Buckets the background indexer crawls into objectIndex, with the state of their latest scan
+export const indexedBuckets = pgTable("indexed_buckets", {
+  id: serial("id").primaryKey(),
+  accountId: integer("account_id").notNull().references(() => s3Accounts.id, { onDelete: "cascade" }),
+  bucket: text("bucket").notNull(),
+  enabled: boolean("enabled").default(true).notNull(),
+  // Tags cost one extra request per new or changed object
+  indexTags: boolean("index_tags").default(false).notNull(),
+  // "idle", "running" or "failed"
+  status: text("status").default("idle").notNull(),
+  // Bumped by each completed scan; index rows from older scans are objects that were deleted
+  scanGeneration: integer("scan_generation").default(0).notNull(),
+  // Objects listed so far by the running scan
+  scannedCount: integer("scanned_count").default(0).notNull(),
+  objectCount: integer("object_count").default(0).notNull(),
+  totalBytes: bigint("total_bytes", { mode: "number" }).default(0).notNull(),
+  lastError: text("last_error"),
+  lastScanStartedAt: timestamp("last_scan_started_at"),
+  lastScanCompletedAt: timestamp("last_scan_completed_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("indexed_buckets_account_bucket_idx").on(table.accountId, table.bucket),
+]);
+
+// One row per object in an indexed bucket, as of the latest scan
+export const objectIndex = pgTable("object_index", {
+  accountId: integer("account_id").notNull().references(() => s3Accounts.id, { onDelete: "cascade" }),
+  bucket: text("bucket").notNull(),
+  key: text("key").notNull(),
+  size: bigint("size", { mode: "number" }).notNull(),
+  etag: text("etag"),
+  lastModified: timestamp("last_modified"),
+  storageClass: text("storage_class"),
+  // Null when tags are not indexed for the bucket
+  tags: jsonb("tags").$type<Record<string, string>>(),
+  scanGeneration: integer("scan_generation").notNull(),
+}, (table) => [
+  primaryKey({ columns: [table.accountId, table.bucket, table.key] }),
+  index("object_index_last_modified_idx").on(table.accountId, table.bucket, table.lastModified),
+]);
+
+// Bucket totals recorded periodically, so storage growth can be charted
+export const storageSnapshots = pgTable("storage_snapshots", {
+  id: serial("id").primaryKey(),
+  accountId: integer("account_id").notNull().references(() => s3Accounts.id, { onDelete: "cascade" }),
+  bucket: text("bucket").notNull(),
+  objectCount: integer("object_count").notNull(),
+  totalBytes: bigint("total_bytes", { mode: "number" }).notNull(),
+  // Bytes per storage class and per file type category
+  bytesByStorageClass: jsonb("bytes_by_storage_class").$type<Record<string, number>>().notNull(),
+  bytesByCategory: jsonb("bytes_by_category").$type<Record<string, number>>().notNull(),
+  takenAt: timestamp("taken_at").defaultNow().notNull(),
+}, (table) => [
+  index("storage_snapshots_account_taken_idx").on(table.accountId, table.takenAt),
+]);
+
 // Insert schemas
 export const insertUserSchema = createInsertSchema(users).omit({
   createdAt: true,
@@ -96,17 +200,50 @@ export const upsertUserSchema = createInsertSchema(users).omit({
 const baseS3AccountSchema = createInsertSchema(s3Accounts).omit({
   id: true,
   createdAt: true,
+  secretKeyId: true,
+  isHealthy: true,
+  lastCredentialError: true,
 });
 
-export const insertS3AccountSchema = baseS3AccountSchema.extend({
+const s3AccountFieldsSchema = baseS3AccountSchema.extend({
   region: z.string().min(1, "Region is required"),
+  endpoint: z.string().url("Endpoint must be a valid URL").nullish(),
+  authType: z.enum(["static", "assume-role"]).default("static"),
+  // STS accepts sessions between 15 minutes and 12 hours
+  sessionDurationSeconds: z.number().int().min(900, "Session duration must be at least 900 seconds").max(43200, "Session duration can be at most 43200 seconds").nullish(),
   selectedBucket: z.string().optional(),
 });
 
+const hasRoleArnIfNeeded = (account: { authType: string; roleArn?: string | null }) =>
+  account.authType !== "assume-role" || !!account.roleArn;
+const roleArnRequired = {
+  message: "Role ARN is required for assume-role accounts",
+  path: ["roleArn"],
+};
+
+export const insertS3AccountSchema = s3AccountFieldsSchema.refine(hasRoleArnIfNeeded, roleArnRequired);
+
+// Just the connection settings, checked before an account is saved
+export const s3CredentialsSchema = s3AccountFieldsSchema.pick({
+  accessKeyId: true,
+  secretAccessKey: true,
+  region: true,
+  endpoint: true,
+  forcePathStyle: true,
+  tlsVerify: true,
+  authType: true,
+  roleArn: true,
+  externalId: true,
+  sessionDurationSeconds: true,
+}).refine(hasRoleArnIfNeeded, roleArnRequired);
+
 export const insertSharedFileSchema = createInsertSchema(sharedFiles).omit({
   id: true,
   createdAt: true,
   accessCount: true,
+}).extend({
+  items: z.array(z.string()).nullish(),
+  allowedExtensions: z.array(z.string()).nullish(),
 });
 
 export const insertUserSettingsSchema = createInsertSchema(userSettings).omit({
@@ -131,12 +268,29 @@ export type User = typeof users.$inferSelect;
 
 export type InsertS3Account = z.infer<typeof insertS3AccountSchema>;
 export type S3Account = typeof s3Accounts.$inferSelect;
+// Shape returned by the API: secrets removed, access key reduced to its last four characters
+export type RedactedS3Account = Omit<S3Account, "accessKeyId" | "secretAccessKey" | "secretKeyId"> & {
+  accessKeyIdLast4: string;
+};
 
 export type InsertSharedFile = z.infer<typeof insertSharedFileSchema>;
 export type SharedFile = typeof sharedFiles.$inferSelect;
+// Shape returned by the API: the password hash is replaced by a flag
+export type RedactedSharedFile = Omit<SharedFile, "password"> & {
+  hasPassword: boolean;
+};
+
+export type FileRequestSubmission = typeof fileRequestSubmissions.$inferSelect;
+export type InsertFileRequestSubmission = typeof fileRequestSubmissions.$inferInsert;
 
 export type InsertUserSettings = z.infer<typeof insertUserSettingsSchema>;
 export type UserSettings = typeof userSettings.$inferSelect;
 
 export type InsertFileAccessLog = z.infer<typeof insertFileAccessLogSchema>;
 export type FileAccessLog = typeof fileAccessLogs.$inferSelect;
+
+export type IndexedBucket = typeof indexedBuckets.$inferSelect;
+export type ObjectIndexRow = typeof objectIndex.$inferSelect;
+
+export type StorageSnapshot = typeof storageSnapshots.$inferSelect;
+export type InsertStorageSnapshot = typeof storageSnapshots.$inferInsert;